@@ -174,7 +174,7 @@ function formatChefTokenPrice(chefTokens: number): string {
 
 // Everything we sent to an LLM, plus the response we recieved (an Assistant message);
 function LlmPromptAndResponseView({ promptAndResponse }: { promptAndResponse: LlmPromptAndResponse }) {
-  const { prompt, completion, finishReason, modelId } = promptAndResponse;
+  const { prompt, completion, finishReason, modelId, promptCharacterCounts, relevantFiles } = promptAndResponse;
 
   const [isExpanded, setIsExpanded] = useState(true);
   const promptTokensTotal = promptAndResponse.usage.promptTokens;
@@ -237,6 +237,26 @@ function LlmPromptAndResponseView({ promptAndResponse }: { promptAndResponse: Ll
               {formatNumber(promptTokensTotal - cachedPromptTokens)} uncached prompt tokens (
               {formatNumber(totalInputChars)} chars total)
             </div>
+            {promptCharacterCounts && (
+              <div className="text-xs text-gray-500" title="Estimated by the client with the model's tokenizer">
+                ~{formatNumber(promptCharacterCounts.messageHistoryTokens)} message history tokens + ~
+                {formatNumber(promptCharacterCounts.currentTurnTokens)} current turn tokens estimated before sending
+              </div>
+            )}
+            {relevantFiles && relevantFiles.length > 0 && (
+              <details className="text-xs text-gray-500">
+                <summary className="cursor-pointer">
+                  {relevantFiles.length} relevant files sent with this message
+                </summary>
+                <ul className="ml-4 mt-1 list-disc">
+                  {relevantFiles.map(({ path, reason }) => (
+                    <li key={path}>
+                      <span className="font-mono">{path}</span>: {reason}
+                    </li>
+                  ))}
+                </ul>
+              </details>
+            )}
 
             {prompt.map((message, idx) => (
               <CoreMessageView
@@ -1,9 +1,11 @@
 import { ArrowLeftIcon } from '@radix-ui/react-icons';
 import { ApiKeyCard } from '~/components/settings/ApiKeyCard';
+import { LocalModelCard } from '~/components/settings/LocalModelCard';
 import { ThemeCard } from '~/components/settings/ThemeCard';
 import { ProfileCard } from '~/components/settings/ProfileCard';
 import { UsageCard } from '~/components/settings/UsageCard';
 import { McpServersCard } from '~/components/settings/McpServersCard';
+import { ReviewModeCard } from '~/components/settings/ReviewModeCard';
 import { Toaster } from '~/components/ui/Toaster';
 import { UserProvider } from '~/components/UserProvider';
 
@@ -23,7 +25,9 @@ export function SettingsContent() {
             <ProfileCard />
             <UsageCard />
             <ApiKeyCard />
+            <LocalModelCard />
             <McpServersCard />
+            <ReviewModeCard />
             <ThemeCard />
           </div>
         </div>
@@ -146,7 +146,7 @@ const ActionList = memo(function ActionList({ actions }: ActionListProps) {
       <ul className="list-none space-y-2.5">
         {actions.map((action, index) => {
           const { status, type } = action;
-          if (type !== 'file') {
+          if (type !== 'file' && type !== 'delete' && type !== 'rename') {
             // This happens a ton, it's just telling us that our TypeScript types are wrong, we have an action that
             // surprises us.
             if (Math.random() < 0.001) {
@@ -156,7 +156,6 @@ const ActionList = memo(function ActionList({ actions }: ActionListProps) {
             }
             return null;
           }
-          const message = action.isEdit ? 'Edit' : 'Create';
           return (
             <motion.li
               key={index}
@@ -180,15 +179,22 @@ const ActionList = memo(function ActionList({ actions }: ActionListProps) {
                     <Cross2Icon />
                   ) : null}
                 </div>
-                <div>
-                  {message}{' '}
-                  <code
-                    className="cursor-pointer rounded-md bg-bolt-elements-artifacts-inlineCode-background px-1.5 py-1 text-bolt-elements-artifacts-inlineCode-text text-bolt-elements-item-contentAccent hover:underline"
-                    onClick={() => openArtifactInWorkbench(action.filePath)}
-                  >
-                    {action.filePath}
-                  </code>
-                </div>
+                {action.type === 'file' && (
+                  <div>
+                    {action.isEdit ? 'Edit' : 'Create'} <FilePathLink filePath={action.filePath} />
+                  </div>
+                )}
+                {action.type === 'delete' && (
+                  <div>
+                    Delete <code className={inlineCodeClassName}>{action.filePath}</code>
+                  </div>
+                )}
+                {action.type === 'rename' && (
+                  <div>
+                    Move <code className={inlineCodeClassName}>{action.filePath}</code> to{' '}
+                    <FilePathLink filePath={action.newFilePath} />
+                  </div>
+                )}
               </div>
             </motion.li>
           );
@@ -198,6 +204,23 @@ const ActionList = memo(function ActionList({ actions }: ActionListProps) {
   );
 });
 
+const inlineCodeClassName =
+  'rounded-md bg-bolt-elements-artifacts-inlineCode-background px-1.5 py-1 text-bolt-elements-artifacts-inlineCode-text';
+
+function FilePathLink({ filePath }: { filePath: RelativePath }) {
+  return (
+    <code
+      className={classNames(
+        inlineCodeClassName,
+        'cursor-pointer text-bolt-elements-item-contentAccent hover:underline',
+      )}
+      onClick={() => openArtifactInWorkbench(filePath)}
+    >
+      {filePath}
+    </code>
+  );
+}
+
 function getIconColor(status: ActionState['status']) {
   switch (status) {
     case 'pending': {
@@ -178,6 +178,7 @@ function displayModel(modelInfo: { provider: ProviderType; model: string | undef
       return null;
     case 'Anthropic':
     case 'Bedrock':
+    case 'Vertex':
       return <div className="text-xs text-content-secondary">Generated with Anthropic</div>;
     case 'OpenAI':
       return <div className="text-xs text-content-secondary">Generated with OpenAI</div>;
@@ -185,6 +186,20 @@ function displayModel(modelInfo: { provider: ProviderType; model: string | undef
       return <div className="text-xs text-content-secondary">Generated with xAI</div>;
     case 'Google':
       return <div className="text-xs text-content-secondary">Generated with Google</div>;
+    case 'Azure':
+      return <div className="text-xs text-content-secondary">Generated with Azure OpenAI</div>;
+    case 'Mistral':
+      return <div className="text-xs text-content-secondary">Generated with Mistral</div>;
+    case 'DeepSeek':
+      return <div className="text-xs text-content-secondary">Generated with DeepSeek</div>;
+    case 'OpenRouter':
+      return <div className="text-xs text-content-secondary">Generated with OpenRouter</div>;
+    case 'Local':
+      return (
+        <div className="text-xs text-content-secondary">
+          Generated with {modelInfo.model ? `local model ${modelInfo.model}` : 'a local model'}
+        </div>
+      );
     default: {
       const _exhaustiveCheck: never = modelInfo.provider;
       return null;
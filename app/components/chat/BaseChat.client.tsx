@@ -15,6 +15,7 @@ import type { ActionAlert } from '~/types/actions';
 import { classNames } from '~/utils/classNames';
 import styles from './BaseChat.module.css';
 import ChatAlert from './ChatAlert';
+import { ReviewChanges } from './ReviewChanges';
 import { Messages } from './Messages.client';
 import StreamingIndicator from './StreamingIndicator';
 import { SuggestionButtons } from './SuggestionButtons';
@@ -212,6 +213,9 @@ export const BaseChat = React.forwardRef<HTMLDivElement, BaseChatProps>(
                     'sticky bottom-four': chatStarted,
                   })}
                 >
+                  <div className="mb-4 empty:hidden">
+                    <ReviewChanges />
+                  </div>
                   {actionAlert && (
                     <div className="mb-4 bg-background-secondary">
                       <ChatAlert
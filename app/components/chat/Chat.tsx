@@ -14,14 +14,21 @@ import { createScopedLogger } from 'chef-agent/utils/logger';
 import { BaseChat } from './BaseChat.client';
 import { createSampler } from '~/utils/sampler';
 import { filesToArtifacts } from '~/utils/fileUtils';
-import { ChatContextManager } from 'chef-agent/ChatContextManager';
+import { ChatContextManager, type RelevantFile } from 'chef-agent/ChatContextManager';
+import { formatParserDiagnostics } from 'chef-agent/message-parser';
+import type { TokenizerFamily } from 'chef-agent/utils/tokens';
 import { selectedTeamSlugStore, setSelectedTeamSlug, useSelectedTeamSlug } from '~/lib/stores/convexTeams';
 import { convexProjectStore } from '~/lib/stores/convexProject';
+import { formatSelectedElement, selectedElementStore } from '~/lib/stores/selectedElement';
+import { commitAssistantTurn } from '~/lib/stores/gitHistory';
+import { formatRejectedChanges, rejectedChangesStore, waitForReview } from '~/lib/stores/review';
+import { fileOperationsStore, formatFileOperations } from '~/lib/stores/fileOperations';
+import { parserDiagnosticsStore } from '~/lib/stores/parserDiagnostics';
 import { toast } from 'sonner';
 import type { PartId } from '~/lib/stores/artifacts';
 import { captureException, captureMessage } from '@sentry/remix';
 import type { ActionStatus } from '~/lib/runtime/action-runner';
-import { chatIdStore, initialIdStore } from '~/lib/stores/chatId';
+import { chatIdStore, initialIdStore, useChatId } from '~/lib/stores/chatId';
 import { useConvex, useQuery } from 'convex/react';
 import type { ConvexReactClient } from 'convex/react';
 import { api } from '@convex/_generated/api';
@@ -38,25 +45,28 @@ import { VITE_PROVISION_HOST } from '~/lib/convexProvisionHost';
 import type { ProviderType } from '~/lib/common/annotations';
 import { setChefDebugProperty } from 'chef-agent/utils/chefDebug';
 import { MissingApiKey } from './MissingApiKey';
-import { models, type ModelProvider } from '~/components/chat/ModelSelector';
+import type { ModelProvider } from '~/components/chat/ModelSelector';
+import { MODELS } from '~/lib/common/models';
 import { useLaunchDarkly } from '~/lib/hooks/useLaunchDarkly';
 import { useLocalStorage } from '@uidotdev/usehooks';
 import { KeyIcon } from '@heroicons/react/24/outline';
 import { UsageDebugView } from '~/components/debug/UsageDebugView';
 import { useReferralCode, useReferralStats } from '~/lib/hooks/useReferralCode';
 import { useUsage } from '~/lib/stores/usage';
-import { hasAnyApiKeySet, hasApiKeySet } from '~/lib/common/apiKey';
+import { apiKeyForProvider, hasAnyApiKeySet, hasApiKeySet } from '~/lib/common/apiKey';
 import { chatSyncState } from '~/lib/stores/startup/chatSyncState';
+import { collapsedMessageIndexStore } from '~/lib/stores/startup/messages';
 
 const logger = createScopedLogger('Chat');
 
 const MAX_RETRIES = 4;
+const CHARACTERS_PER_TOKEN = 4;
 
 const processSampledMessages = createSampler(
   (options: {
     messages: Message[];
     initialMessages: Message[];
-    parseMessages: (messages: Message[]) => void;
+    parseMessages: (messages: Message[], isStreaming: boolean) => void;
     streamStatus: 'streaming' | 'submitted' | 'ready' | 'error';
     storeMessageHistory: (
       messages: Message[],
@@ -64,7 +74,7 @@ const processSampledMessages = createSampler(
     ) => Promise<void>;
   }) => {
     const { messages, initialMessages, parseMessages, storeMessageHistory, streamStatus } = options;
-    parseMessages(messages);
+    parseMessages(messages, streamStatus === 'streaming' || streamStatus === 'submitted');
 
     if (messages.length >= initialMessages.length) {
       storeMessageHistory(messages, streamStatus).catch((error) => toast.error(error.message));
@@ -147,6 +157,9 @@ export const Chat = memo(
       enableResend,
       useAnthropicFraction,
     } = useLaunchDarkly();
+    const maxCollapsedMessagesTokens = charactersToTokens(maxCollapsedMessagesSize);
+    const maxRelevantFilesTokens = charactersToTokens(maxRelevantFilesSize);
+    const minCollapsedMessagesTokens = charactersToTokens(minCollapsedMessagesSize);
 
     const title = useStore(description);
 
@@ -180,48 +193,46 @@ export const Chat = memo(
       return () => clearInterval(resetInterval);
     }, []);
 
+    // The context manager outlives renders, so it reads the selected model through a ref.
+    const modelSelectionRef = useRef(modelSelection);
+    modelSelectionRef.current = modelSelection;
     const chatContextManager = useRef(
       new ChatContextManager(
         () => workbenchStore.currentDocument.get(),
         () => workbenchStore.files.get(),
         () => workbenchStore.userWrites,
+        () => tokenizerForModel(modelSelectionRef.current),
       ),
     );
 
+    // The relevant files sent with the latest user message, to record with its first request for debugging.
+    const relevantFilesRef = useRef<RelevantFile[]>([]);
+
+    const chatId = useChatId();
+    const historySummary = useQuery(
+      api.summarize.historySummary,
+      sessionId && typeof sessionId === 'string'
+        ? { sessionId: sessionId as Id<'sessions'>, chatId, subchatIndex: syncState.subchatIndex }
+        : 'skip',
+    );
+
     const checkApiKeyForCurrentModel = useCallback(
       (model: ModelSelection): { hasMissingKey: boolean; provider?: ModelProvider; requireKey: boolean } => {
-        const requireKey = models[model]?.requireKey || false;
+        const requireKey = !MODELS[model].defaultKey;
         if (apiKey?.preference !== 'always' && !requireKey) {
           return { hasMissingKey: false, requireKey: false };
         }
 
-        // Map models to their respective providers
-        const MODEL_TO_PROVIDER_MAP: {
-          [K in ModelSelection]: { providerName: ModelProvider; apiKeyField: 'value' | 'openai' | 'xai' | 'google' };
-        } = {
-          auto: { providerName: 'anthropic', apiKeyField: 'value' },
-          'claude-4-sonnet': { providerName: 'anthropic', apiKeyField: 'value' },
-          'claude-4.5-sonnet': { providerName: 'anthropic', apiKeyField: 'value' },
-          'gpt-4.1': { providerName: 'openai', apiKeyField: 'openai' },
-          'gpt-5': { providerName: 'openai', apiKeyField: 'openai' },
-          'grok-3-mini': { providerName: 'xai', apiKeyField: 'xai' },
-          'gemini-2.5-pro': { providerName: 'google', apiKeyField: 'google' },
-          'claude-3-5-haiku': { providerName: 'anthropic', apiKeyField: 'value' },
-          'gpt-4.1-mini': { providerName: 'openai', apiKeyField: 'openai' },
-        };
-
-        // Get provider info for the current model
-        const providerInfo = MODEL_TO_PROVIDER_MAP[model];
-
-        // Check if the API key for this provider is missing
-        const keyValue = apiKey?.[providerInfo.apiKeyField];
+        // Check if the API key for this model's provider is missing
+        const provider = MODELS[model].keyProvider;
+        const keyValue = apiKeyForProvider(apiKey, provider, useGeminiAuto);
         if (!keyValue || keyValue.trim() === '') {
-          return { hasMissingKey: true, provider: providerInfo.providerName, requireKey };
+          return { hasMissingKey: true, provider, requireKey };
         }
 
         return { hasMissingKey: false, requireKey };
       },
-      [apiKey],
+      [apiKey, useGeminiAuto],
     );
 
     const [_disableChatMessage, setDisableChatMessage] = useState<
@@ -295,39 +306,14 @@ export const Chat = memo(
         if (!teamSlug) {
           throw new Error('No team slug');
         }
-        let modelProvider: ProviderType;
         const retries = retryState.get();
-        let modelChoice: string | undefined = undefined;
-        if (modelSelection === 'auto') {
-          const providers: ProviderType[] = anthropicProviders;
-          modelProvider = providers[retries.numFailures % providers.length];
-          modelChoice = 'claude-sonnet-4-0';
-        } else if (modelSelection === 'claude-3-5-haiku') {
-          modelProvider = 'Anthropic';
-          modelChoice = 'claude-3-5-haiku-latest';
-        } else if (modelSelection === 'claude-4-sonnet') {
-          const providers: ProviderType[] = anthropicProviders;
-          modelProvider = providers[retries.numFailures % providers.length];
-          modelChoice = 'claude-sonnet-4-0';
-        } else if (modelSelection === 'claude-4.5-sonnet') {
-          modelProvider = 'Anthropic';
-          modelChoice = 'claude-sonnet-4-5';
-        } else if (modelSelection === 'grok-3-mini') {
-          modelProvider = 'XAI';
-        } else if (modelSelection === 'gemini-2.5-pro') {
-          modelProvider = 'Google';
-        } else if (modelSelection === 'gpt-4.1-mini') {
-          modelProvider = 'OpenAI';
-          modelChoice = 'gpt-4.1-mini';
-        } else if (modelSelection === 'gpt-4.1') {
-          modelProvider = 'OpenAI';
-        } else if (modelSelection === 'gpt-5') {
-          modelProvider = 'OpenAI';
-          modelChoice = 'gpt-5';
-        } else {
-          const _exhaustiveCheck: never = modelSelection;
-          throw new Error(`Unknown model: ${_exhaustiveCheck}`);
-        }
+        const model = MODELS[modelSelection];
+        // Spread Claude requests between Anthropic and Bedrock, and move to the other one on failure.
+        const providers = [...model.providers].sort(
+          (a, b) => anthropicProviders.indexOf(a) - anthropicProviders.indexOf(b),
+        );
+        const modelProvider: ProviderType = providers[retries.numFailures % providers.length];
+        const modelChoice = model.modelId;
         let shouldDisableTools = false;
         if (messages.length > 0 && messages[messages.length - 1].role === 'assistant') {
           const lastSystemMessage = messages[messages.length - 1];
@@ -349,9 +335,15 @@ export const Chat = memo(
         }
         const { messages: preparedMessages, collapsedMessages } = chatContextManager.current.prepareContext(
           messages,
-          maxSizeForModel(modelSelection, maxCollapsedMessagesSize),
-          minCollapsedMessagesSize,
+          maxTokensForModel(modelSelection, maxCollapsedMessagesTokens),
+          minCollapsedMessagesTokens,
+          historySummary ?? undefined,
         );
+        // The server summarizes the collapsed messages when the chat is saved, for the requests after this one.
+        const collapsedMessageIndex = chatContextManager.current.messageIndex;
+        if (collapsedMessages && collapsedMessageIndex > (historySummary?.messageIndex ?? 0)) {
+          collapsedMessageIndexStore.set(collapsedMessageIndex);
+        }
 
         const characterCounts = chatContextManager.current.calculatePromptCharacterCounts(preparedMessages);
 
@@ -384,6 +376,7 @@ export const Chat = memo(
           modelChoice,
           collapsedMessages,
           promptCharacterCounts: characterCounts,
+          relevantFiles: messages[messages.length - 1].role === 'user' ? relevantFilesRef.current : undefined,
           mcpServers: mcpServersForAgent,
           featureFlags: {
             enableResend,
@@ -395,6 +388,12 @@ export const Chat = memo(
         console.log('Starting tool call', toolCall);
         const { result } = await workbenchStore.waitOnToolCall(toolCall.toolCallId);
         console.log('Tool call finished', result);
+        // The agent deploys after writing its files, so tell it then if any of its artifacts were malformed.
+        const parserDiagnostics = parserDiagnosticsStore.get();
+        if (toolCall.toolName === 'deploy' && parserDiagnostics.length > 0) {
+          parserDiagnosticsStore.set([]);
+          return result + formatParserDiagnostics(parserDiagnostics);
+        }
         return result;
       },
       onError: async (e: Error) => {
@@ -427,6 +426,11 @@ export const Chat = memo(
         }
         if (response.finishReason == 'stop') {
           retryState.set({ numFailures: 0, nextRetry: Date.now() });
+          // Wait for the turn's actions to finish writing files before committing them, and for the
+          // user to review them in review mode so the commit only has the changes they accepted.
+          workbenchStore.addToExecutionQueue(async () => {
+            void waitForReview().then(() => commitAssistantTurn(message));
+          });
         }
         logger.debug('Finished streaming');
 
@@ -549,16 +553,53 @@ export const Chat = memo(
 
         const shouldSendRelevantFiles = chatContextManager.current.shouldSendRelevantFiles(
           messages,
-          maxSizeForModel(modelSelection, maxCollapsedMessagesSize),
+          maxTokensForModel(modelSelection, maxCollapsedMessagesTokens),
         );
         const maybeRelevantFilesMessage: UIMessage = shouldSendRelevantFiles
-          ? chatContextManager.current.relevantFiles(messages, `${Date.now()}`, maxRelevantFilesSize)
+          ? chatContextManager.current.relevantFiles(messages, `${Date.now()}`, maxRelevantFilesTokens, messageInput)
           : {
               id: `${Date.now()}`,
               content: '',
               role: 'user',
               parts: [],
             };
+        relevantFilesRef.current = shouldSendRelevantFiles ? chatContextManager.current.lastRelevantFiles : [];
+
+        const selectedElement = selectedElementStore.get();
+        if (selectedElement) {
+          maybeRelevantFilesMessage.parts.push({
+            type: 'text',
+            text: formatSelectedElement(selectedElement),
+          });
+          selectedElementStore.set(null);
+        }
+
+        const rejectedChanges = rejectedChangesStore.get();
+        if (rejectedChanges.length > 0) {
+          maybeRelevantFilesMessage.parts.push({
+            type: 'text',
+            text: formatRejectedChanges(rejectedChanges),
+          });
+          rejectedChangesStore.set([]);
+        }
+
+        const fileOperations = fileOperationsStore.get();
+        if (fileOperations.length > 0) {
+          maybeRelevantFilesMessage.parts.push({
+            type: 'text',
+            text: formatFileOperations(fileOperations),
+          });
+          fileOperationsStore.set([]);
+        }
+
+        const parserDiagnostics = parserDiagnosticsStore.get();
+        if (parserDiagnostics.length > 0) {
+          maybeRelevantFilesMessage.parts.push({
+            type: 'text',
+            text: formatParserDiagnostics(parserDiagnostics),
+          });
+          parserDiagnosticsStore.set([]);
+        }
 
         // Make a clone of the relevantFilesMessage so we can inject the modified message after relevant files before the messageInput later
         const newMessage = structuredClone(maybeRelevantFilesMessage);
@@ -836,13 +877,38 @@ export function DisabledText({
   );
 }
 
-function maxSizeForModel(modelSelection: ModelSelection, maxSize: number) {
+// The flags for the context budgets are in characters, from before the budgets were in tokens.
+function charactersToTokens(characters: number) {
+  return Math.floor(characters / CHARACTERS_PER_TOKEN);
+}
+
+function maxTokensForModel(modelSelection: ModelSelection, maxTokens: number) {
+  // Keep most of the context window for the system prompt, relevant files and the response.
+  const contextWindowLimit = Math.floor(MODELS[modelSelection].capabilities.contextWindow / 4);
   switch (modelSelection) {
     case 'auto':
     case 'gemini-2.5-pro':
-      return maxSize;
+      return Math.min(maxTokens, contextWindowLimit);
     default:
       // For non-anthropic models not yet using caching, use a lower message size limit.
-      return 8192;
+      return Math.min(2048, contextWindowLimit);
+  }
+}
+
+function tokenizerForModel(modelSelection: ModelSelection): TokenizerFamily {
+  const provider = MODELS[modelSelection].keyProvider;
+  switch (provider) {
+    // OpenRouter serves Claude.
+    case 'auto':
+    case 'openrouter':
+      return 'anthropic';
+    // These use tokenizers closer to OpenAI's than to the others.
+    case 'azure':
+    case 'mistral':
+    case 'deepseek':
+    case 'local':
+      return 'openai';
+    default:
+      return provider;
   }
 }
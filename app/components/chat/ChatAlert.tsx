@@ -2,6 +2,7 @@ import { AnimatePresence, motion } from 'framer-motion';
 import type { ActionAlert } from '~/types/actions';
 import { classNames } from '~/utils/classNames';
 import { ExclamationTriangleIcon, ChatBubbleIcon } from '@radix-ui/react-icons';
+import { messageInputStore } from '~/lib/stores/messageInput';
 
 interface Props {
   alert: ActionAlert;
@@ -13,11 +14,21 @@ export default function ChatAlert({ alert, clearAlert, postMessage }: Props) {
   const { description, content, source } = alert;
 
   const isPreview = source === 'preview';
-  const title = isPreview ? 'Preview Error' : 'Terminal Error';
+  const title = isPreview ? alert.title : 'Terminal Error';
   const message = isPreview
-    ? 'We encountered an error while running the preview. Would you like Chef to analyze and help resolve this issue?'
+    ? 'Your app reported errors while running in the preview. Would you like Chef to analyze and help resolve them?'
     : 'We encountered an error while running terminal commands. Would you like Chef to analyze and help resolve this issue?';
 
+  const askChef = () => {
+    if (isPreview) {
+      // Let the user add context about what they were doing before sending.
+      messageInputStore.set(`*Fix these errors from the preview*\n\`\`\`js\n${content}\n\`\`\`\n`);
+      clearAlert();
+      return;
+    }
+    postMessage(`*Fix this terminal error* \n\`\`\`sh\n${description}\n${content}\n\`\`\`\n`);
+  };
+
   return (
     <AnimatePresence>
       <motion.div
@@ -70,11 +81,7 @@ export default function ChatAlert({ alert, clearAlert, postMessage }: Props) {
             >
               <div className={classNames(' flex gap-2')}>
                 <button
-                  onClick={() =>
-                    postMessage(
-                      `*Fix this ${isPreview ? 'preview' : 'terminal'} error* \n\`\`\`${isPreview ? 'js' : 'sh'}\n${description}\n${content}\n\`\`\`\n`,
-                    )
-                  }
+                  onClick={askChef}
                   className={classNames(
                     `px-2 py-1.5 rounded-md text-sm font-medium`,
                     'bg-bolt-elements-button-primary-background',
@@ -85,7 +92,7 @@ export default function ChatAlert({ alert, clearAlert, postMessage }: Props) {
                   )}
                 >
                   <ChatBubbleIcon />
-                  Ask Chef
+                  {isPreview ? 'Fix these errors' : 'Ask Chef'}
                 </button>
                 <button
                   onClick={clearAlert}
@@ -20,7 +20,14 @@ import { ConvexConnection } from '~/components/convex/ConvexConnection';
 import { PROMPT_COOKIE_KEY, type ModelSelection } from '~/utils/constants';
 import { ModelSelector } from './ModelSelector';
 import { TeamSelector } from '~/components/convex/TeamSelector';
-import { ArrowRightIcon, ExclamationTriangleIcon, MagnifyingGlassIcon, StopIcon } from '@radix-ui/react-icons';
+import {
+  ArrowRightIcon,
+  Cross2Icon,
+  CursorArrowIcon,
+  ExclamationTriangleIcon,
+  MagnifyingGlassIcon,
+  StopIcon,
+} from '@radix-ui/react-icons';
 import { SquaresPlusIcon } from '@heroicons/react/24/outline';
 import { Tooltip } from '@ui/Tooltip';
 import { setSelectedTeamSlug, useSelectedTeamSlug } from '~/lib/stores/convexTeams';
@@ -39,6 +46,12 @@ import { ChatBubbleLeftIcon, DocumentArrowUpIcon, InformationCircleIcon } from '
 import { useAuth } from '@workos-inc/authkit-react';
 import { useConvex } from 'convex/react';
 import { McpToolsButton } from './McpToolsButton';
+import { selectedElementStore, type SelectedElement } from '~/lib/stores/selectedElement';
+import { workbenchStore } from '~/lib/stores/workbench.client';
+import { hasDroppedFiles, readDroppedFiles } from '~/utils/fileUpload';
+import { workDirRelative } from '~/utils/fileUtils';
+import { WORK_DIR } from 'chef-agent/constants';
+import { getAbsolutePath } from 'chef-agent/utils/workDir';
 
 const PROMPT_LENGTH_WARNING_THRESHOLD = 2000;
 
@@ -119,8 +132,10 @@ export const MessageInput = memo(function MessageInput({
   const convex = useConvex();
 
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
 
   const input = useStore(messageInputStore);
+  const selectedElement = useStore(selectedElementStore);
 
   // Set the initial input value
   const [searchParams] = useSearchParams();
@@ -227,6 +242,51 @@ export const MessageInput = memo(function MessageInput({
     }
   }, [input, convex, selectedTeamSlug]);
 
+  // Files dropped on the input are added to the project, which only exists once the chat has started.
+  const canDropFiles = chatStarted && !isStreaming && !disabled;
+
+  const handleDragOver = useCallback(
+    (event: React.DragEvent) => {
+      if (!canDropFiles || !hasDroppedFiles(event.dataTransfer)) {
+        return;
+      }
+      event.preventDefault();
+      event.dataTransfer.dropEffect = 'copy';
+      setIsDraggingFiles(true);
+    },
+    [canDropFiles],
+  );
+
+  const handleDragLeave = useCallback((event: React.DragEvent) => {
+    if (!event.currentTarget.contains(event.relatedTarget as Node | null)) {
+      setIsDraggingFiles(false);
+    }
+  }, []);
+
+  const handleDrop = useCallback(
+    async (event: React.DragEvent) => {
+      if (!canDropFiles || !hasDroppedFiles(event.dataTransfer)) {
+        return;
+      }
+      event.preventDefault();
+      setIsDraggingFiles(false);
+      try {
+        const files = await readDroppedFiles(event.dataTransfer);
+        if (files.length === 0) {
+          return;
+        }
+        const paths = await workbenchStore.uploadFiles(getAbsolutePath(WORK_DIR), files);
+        const fileList = paths.map((filePath) => `\`${workDirRelative(filePath)}\``).join(', ');
+        const current = messageInputStore.get();
+        const separator = current.trim().length === 0 ? '' : current.endsWith('\n') ? '\n' : '\n\n';
+        messageInputStore.set(`${current}${separator}I added ${fileList} to the project. `);
+      } catch (error) {
+        toast.error(error instanceof Error ? `Failed to add files: ${error.message}` : 'Failed to add files');
+      }
+    },
+    [canDropFiles],
+  );
+
   // Helper to insert template and select '[...]'
   const insertTemplate = useCallback(
     (template: string) => {
@@ -254,7 +314,14 @@ export const MessageInput = memo(function MessageInput({
   return (
     <div className="relative z-20 mx-auto w-full max-w-chat rounded-xl shadow transition-all duration-200">
       <div className="rounded-xl bg-background-primary/75 backdrop-blur-md">
-        <div className="rounded-t-xl border transition-all has-[textarea:focus]:border-border-selected">
+        <div
+          className={classNames('rounded-t-xl border transition-all has-[textarea:focus]:border-border-selected', {
+            'border-border-selected': isDraggingFiles,
+          })}
+          onDragOver={handleDragOver}
+          onDragLeave={handleDragLeave}
+          onDrop={handleDrop}
+        >
           <TextareaWithHighlights
             onKeyDown={handleKeyDown}
             onChange={handleChange}
@@ -272,6 +339,7 @@ export const MessageInput = memo(function MessageInput({
             disabled={disabled}
             highlights={HIGHLIGHTS}
           />
+          {selectedElement && <SelectedElementChip element={selectedElement} />}
         </div>
         <div
           className={classNames(
@@ -594,6 +662,26 @@ const NewLineShortcut = memo(function NewLineShortcut() {
   );
 });
 
+const SelectedElementChip = memo(function SelectedElementChip({ element }: { element: SelectedElement }) {
+  return (
+    <div className="flex px-3 pb-2">
+      <div className="flex max-w-full items-center gap-1.5 rounded-full border bg-background-secondary px-2 py-0.5 text-xs text-content-secondary">
+        <CursorArrowIcon className="shrink-0" />
+        <Tooltip tip="This element from the preview will be attached to your message." side="top">
+          <span className="truncate font-mono">{element.selector || 'body'}</span>
+        </Tooltip>
+        <button
+          className="shrink-0 text-content-tertiary hover:text-content-primary"
+          aria-label="Remove selected element"
+          onClick={() => selectedElementStore.set(null)}
+        >
+          <Cross2Icon />
+        </button>
+      </div>
+    </div>
+  );
+});
+
 const CharacterWarning = memo(function CharacterWarning() {
   return (
     <Tooltip
@@ -39,6 +39,11 @@ export function MissingApiKey({ provider, requireKey, resetDisableChatMessage }:
         openai: apiKey?.openai || undefined,
         xai: apiKey?.xai || undefined,
         google: apiKey?.google || undefined,
+        mistral: apiKey?.mistral || undefined,
+        deepseek: apiKey?.deepseek || undefined,
+        openrouter: apiKey?.openrouter || undefined,
+        azure: apiKey?.azure,
+        local: apiKey?.local,
       };
 
       switch (provider) {
@@ -54,6 +59,18 @@ export function MissingApiKey({ provider, requireKey, resetDisableChatMessage }:
         case 'xai':
           apiKeyMutation.xai = newKeyValue.trim();
           break;
+        case 'mistral':
+          apiKeyMutation.mistral = newKeyValue.trim();
+          break;
+        case 'deepseek':
+          apiKeyMutation.deepseek = newKeyValue.trim();
+          break;
+        case 'openrouter':
+          apiKeyMutation.openrouter = newKeyValue.trim();
+          break;
+        case 'azure':
+        case 'local':
+          throw new Error(`${displayModelProviderName(provider)} is configured in the settings`);
         case 'auto':
           if (useGeminiAuto) {
             apiKeyMutation.google = newKeyValue.trim();
@@ -100,6 +117,11 @@ export function MissingApiKey({ provider, requireKey, resetDisableChatMessage }:
           openai: apiKey?.openai,
           xai: apiKey?.xai,
           google: apiKey?.google,
+          mistral: apiKey?.mistral,
+          deepseek: apiKey?.deepseek,
+          openrouter: apiKey?.openrouter,
+          azure: apiKey?.azure,
+          local: apiKey?.local,
         },
       });
 
@@ -118,6 +140,24 @@ export function MissingApiKey({ provider, requireKey, resetDisableChatMessage }:
     setNewKeyValue('');
   };
 
+  if (provider === 'azure' || provider === 'local') {
+    return (
+      <div className="flex flex-col gap-1">
+        <h4>Configure {provider === 'azure' ? 'an Azure OpenAI deployment' : 'a local model'} to use it</h4>
+        <p className="max-w-prose text-pretty">
+          {provider === 'azure'
+            ? 'Add your Azure OpenAI resource, deployment and API key'
+            : 'Add the URL and name of a model served from an OpenAI-compatible API'}{' '}
+          in the{' '}
+          <a href="/settings" className="text-content-link hover:underline">
+            settings
+          </a>{' '}
+          to continue.
+        </p>
+      </div>
+    );
+  }
+
   return (
     <>
       <div className="flex flex-col gap-1">
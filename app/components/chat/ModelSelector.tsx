@@ -3,14 +3,15 @@ import { MagicWandIcon } from '@radix-ui/react-icons';
 import type { ModelSelection } from '~/utils/constants';
 import React from 'react';
 import { Tooltip } from '@ui/Tooltip';
-import { HandThumbUpIcon, KeyIcon } from '@heroicons/react/24/outline';
+import { ArrowsRightLeftIcon, CpuChipIcon, HandThumbUpIcon, KeyIcon, ServerIcon } from '@heroicons/react/24/outline';
 import { useQuery } from 'convex/react';
 import { api } from '@convex/_generated/api';
-import type { Doc } from '@convex/_generated/dataModel';
 import { captureMessage } from '@sentry/remix';
 import { useLaunchDarkly } from '~/lib/hooks/useLaunchDarkly';
+import { MODELS, type KeyProvider } from '~/lib/common/models';
+import { apiKeyForProvider } from '~/lib/common/apiKey';
 
-export type ModelProvider = 'openai' | 'google' | 'xai' | 'anthropic' | 'auto';
+export type ModelProvider = KeyProvider;
 
 export function displayModelProviderName(provider: ModelProvider) {
   switch (provider) {
@@ -22,6 +23,16 @@ export function displayModelProviderName(provider: ModelProvider) {
       return 'xAI';
     case 'anthropic':
       return 'Anthropic';
+    case 'azure':
+      return 'Azure OpenAI';
+    case 'mistral':
+      return 'Mistral';
+    case 'deepseek':
+      return 'DeepSeek';
+    case 'openrouter':
+      return 'OpenRouter';
+    case 'local':
+      return 'Local';
     case 'auto':
       return 'Anthropic';
     default: {
@@ -46,6 +57,11 @@ const providerToIcon: Record<string, React.ReactNode> = {
   openai: svgIcon('/icons/openai.svg'),
   anthropic: svgIcon('/icons/claude.svg'),
   google: svgIcon('/icons/gemini.svg'),
+  azure: svgIcon('/icons/openai.svg'),
+  mistral: <CpuChipIcon className="size-4" />,
+  deepseek: <CpuChipIcon className="size-4" />,
+  openrouter: <ArrowsRightLeftIcon className="size-4" />,
+  local: <ServerIcon className="size-4" />,
   xai: (
     <svg width="16" height="16" viewBox="0 0 1024 1024" fill="none" xmlns="http://www.w3.org/2000/svg">
       <path
@@ -60,77 +76,20 @@ const providerToIcon: Record<string, React.ReactNode> = {
   ),
 };
 
-export const models: Partial<
-  Record<
-    ModelSelection,
-    {
-      name: string;
-      recommended?: boolean;
-      requireKey?: boolean;
-      provider: ModelProvider;
-    }
-  >
-> = {
-  auto: {
-    name: 'Auto',
-    recommended: true,
-    provider: 'auto',
-  },
-  'claude-4-sonnet': {
-    name: 'Claude 4 Sonnet',
-    provider: 'anthropic',
-    recommended: true,
-    requireKey: false,
-  },
-  'claude-4.5-sonnet': {
-    name: 'Claude 4.5 Sonnet',
-    provider: 'anthropic',
-    recommended: false,
-    requireKey: false,
-  },
-  'gemini-2.5-pro': {
-    name: 'Gemini 2.5 Pro',
-    recommended: false,
-    provider: 'google',
-  },
-  'gpt-4.1': {
-    name: 'GPT-4.1',
-    provider: 'openai',
-  },
-  'gpt-5': {
-    name: 'GPT-5',
-    provider: 'openai',
-  },
-  'grok-3-mini': {
-    name: 'Grok 3 Mini',
-    provider: 'xai',
-  },
-  'claude-3-5-haiku': {
-    name: 'Claude 3.5 Haiku',
-    provider: 'anthropic',
-    requireKey: true,
-  },
-  'gpt-4.1-mini': {
-    name: 'GPT-4.1 Mini',
-    provider: 'openai',
-    requireKey: true,
-  },
-} as const;
-
 export const ModelSelector = React.memo(function ModelSelector({
   modelSelection,
   setModelSelection,
   size = 'md',
 }: ModelSelectorProps) {
   const apiKey = useQuery(api.apiKeys.apiKeyForCurrentMember);
-  const selectedModel = models[modelSelection];
+  const selectedModel = MODELS[modelSelection];
   const { useGeminiAuto, enableGpt5 } = useLaunchDarkly();
   if (!selectedModel) {
     captureMessage(`Model ${modelSelection} not found`);
     setModelSelection('auto');
   }
 
-  const availableModels = Object.entries(models).filter(([key]) => {
+  const availableModels = Object.entries(MODELS).filter(([key]) => {
     if (key === 'gpt-5') {
       return enableGpt5;
     }
@@ -142,7 +101,7 @@ export const ModelSelector = React.memo(function ModelSelector({
       searchPlaceholder="Search models..."
       label="Select model"
       options={availableModels.map(([value, model]) => ({
-        label: model.provider + ' ' + model.name,
+        label: model.keyProvider + ' ' + model.name,
         value: value as ModelSelection,
       }))}
       buttonClasses="w-fit"
@@ -156,16 +115,16 @@ export const ModelSelector = React.memo(function ModelSelector({
         setModelSelection(option);
       }}
       Option={({ value, inButton }) => {
-        const model = models[value as ModelSelection];
+        const model = MODELS[value as ModelSelection];
         if (!model) {
           return null;
         }
         const prefersAlwaysUseApiKey = apiKey?.preference === 'always';
-        const key = apiKey ? keyForProvider(apiKey, model.provider, useGeminiAuto) : undefined;
-        const canUseModel = !(model.requireKey && !key) && !(prefersAlwaysUseApiKey && !key);
+        const key = apiKey ? apiKeyForProvider(apiKey, model.keyProvider, useGeminiAuto) : undefined;
+        const canUseModel = !(!model.defaultKey && !key) && !(prefersAlwaysUseApiKey && !key);
         return (
           <div className={'flex items-center gap-2'}>
-            {providerToIcon[model.provider]}
+            {providerToIcon[model.keyProvider]}
             <div className="max-w-48 truncate">{model?.name}</div>
 
             {!inButton && (
@@ -181,7 +140,7 @@ export const ModelSelector = React.memo(function ModelSelector({
                 {!canUseModel && (
                   <Tooltip
                     tip={
-                      model.requireKey
+                      !model.defaultKey
                         ? 'You must set an API key for the relevant provider to use this model.'
                         : 'Your preferences require an API key to be set to use this model. You may change your preferences or set an API key.'
                     }
@@ -198,17 +157,3 @@ export const ModelSelector = React.memo(function ModelSelector({
     />
   );
 });
-
-const keyForProvider = (apiKeys: Doc<'convexMembers'>['apiKey'], provider: ModelProvider, useGeminiAuto: boolean) => {
-  if (provider === 'anthropic') {
-    return apiKeys?.value;
-  }
-  if (provider === 'auto') {
-    if (useGeminiAuto) {
-      return apiKeys?.google;
-    } else {
-      return apiKeys?.value;
-    }
-  }
-  return apiKeys?.[provider];
-};
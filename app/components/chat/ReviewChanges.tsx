@@ -0,0 +1,115 @@
+import { useStore } from '@nanostores/react';
+import { memo, useMemo, useState } from 'react';
+import { toast } from 'sonner';
+import { CheckIcon, ChevronDownIcon, ChevronRightIcon, Cross2Icon } from '@radix-ui/react-icons';
+import { Button } from '@ui/Button';
+import { stagedChangesStore, type StagedChange } from '~/lib/stores/review';
+import { workbenchStore } from '~/lib/stores/workbench.client';
+import { classNames } from '~/utils/classNames';
+import { diffFiles } from '~/utils/diff';
+import { getRelativePath, type AbsolutePath } from 'chef-agent/utils/workDir';
+
+export const ReviewChanges = memo(function ReviewChanges() {
+  const stagedChanges = useStore(stagedChangesStore);
+  const changes = Object.values(stagedChanges).filter((change): change is StagedChange => change !== undefined);
+
+  if (changes.length === 0) {
+    return null;
+  }
+
+  const accept = async (filePaths: AbsolutePath[]) => {
+    try {
+      for (const filePath of filePaths) {
+        await workbenchStore.acceptStagedChange(filePath);
+      }
+    } catch (error) {
+      console.error('Failed to apply changes', error);
+      toast.error('Failed to apply changes');
+    }
+  };
+  const reject = (filePaths: AbsolutePath[]) => {
+    for (const filePath of filePaths) {
+      workbenchStore.rejectStagedChange(filePath);
+    }
+  };
+  const allPaths = changes.map((change) => change.filePath);
+
+  return (
+    <div className="flex max-h-[50vh] flex-col rounded-lg border bg-background-secondary shadow">
+      <div className="flex items-center gap-2 border-b px-4 py-2">
+        <div className="text-sm font-medium text-content-primary">
+          Review {changes.length} changed {changes.length === 1 ? 'file' : 'files'}
+        </div>
+        <div className="ml-auto flex gap-2">
+          <Button variant="neutral" size="xs" icon={<Cross2Icon />} onClick={() => reject(allPaths)}>
+            Reject all
+          </Button>
+          <Button size="xs" icon={<CheckIcon />} onClick={() => accept(allPaths)}>
+            Accept all
+          </Button>
+        </div>
+      </div>
+      <div className="overflow-auto">
+        {changes.map((change) => (
+          <StagedFile
+            key={change.filePath}
+            change={change}
+            onAccept={() => accept([change.filePath])}
+            onReject={() => reject([change.filePath])}
+          />
+        ))}
+      </div>
+    </div>
+  );
+});
+
+function StagedFile({
+  change,
+  onAccept,
+  onReject,
+}: {
+  change: StagedChange;
+  onAccept: () => void;
+  onReject: () => void;
+}) {
+  const [expanded, setExpanded] = useState(false);
+  const relativePath = getRelativePath(change.filePath);
+  const diff = useMemo(
+    () => (expanded ? diffFiles(relativePath, change.originalContent ?? '', change.content ?? '') : undefined),
+    [expanded, relativePath, change],
+  );
+
+  return (
+    <div className="border-b last:border-b-0">
+      <div className="flex items-center gap-2 px-4 py-1.5 text-sm">
+        <button className="flex min-w-0 items-center gap-1 text-content-primary" onClick={() => setExpanded(!expanded)}>
+          {expanded ? <ChevronDownIcon /> : <ChevronRightIcon />}
+          <span className="truncate font-mono">{relativePath}</span>
+          {change.originalContent === null && <span className="text-xs text-content-secondary">(new)</span>}
+          {change.content === null && <span className="text-xs text-content-secondary">(deleted)</span>}
+        </button>
+        <div className="ml-auto flex shrink-0 gap-1">
+          <Button variant="neutral" size="xs" tip="Reject" icon={<Cross2Icon />} onClick={onReject} />
+          <Button variant="neutral" size="xs" tip="Accept" icon={<CheckIcon />} onClick={onAccept} />
+        </div>
+      </div>
+      {expanded && (
+        <pre className="overflow-x-auto bg-bolt-elements-background-depth-1 py-2 font-mono text-xs">
+          {(diff ?? '').split('\n').map((line, index) => (
+            <div
+              key={index}
+              className={classNames('px-4', {
+                'bg-green-500/10 text-green-500': line.startsWith('+'),
+                'bg-red-500/10 text-red-500': line.startsWith('-'),
+                'text-content-tertiary': line.startsWith('@@'),
+                'text-content-secondary': !/^[-+@]/.test(line),
+              })}
+            >
+              {line || ' '}
+            </div>
+          ))}
+        </pre>
+      )}
+    </div>
+  );
+}
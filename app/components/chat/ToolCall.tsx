@@ -13,6 +13,8 @@ import {
   Pencil1Icon,
   ExternalLinkIcon,
   ExclamationTriangleIcon,
+  MagnifyingGlassIcon,
+  CameraIcon,
 } from '@radix-ui/react-icons';
 import type { ActionState } from '~/lib/runtime/action-runner';
 import { workbenchStore, type ArtifactState } from '~/lib/stores/workbench.client';
@@ -28,6 +30,14 @@ import { themeStore } from '~/lib/stores/theme';
 import { getLanguageFromExtension } from '~/utils/getLanguageFromExtension';
 import { path } from 'chef-agent/utils/path';
 import { editToolParameters } from 'chef-agent/tools/edit';
+import { searchParameters } from 'chef-agent/tools/search';
+import { patchToolParameters } from 'chef-agent/tools/patch';
+import { patchPaths } from 'chef-agent/utils/patch';
+import { runConvexFunctionToolParameters } from 'chef-agent/tools/runConvexFunction';
+import { normalizeFunctionPath } from 'chef-agent/convexFunctions';
+import { readLogsToolParameters } from 'chef-agent/tools/readLogs';
+import { inspectDataToolParameters } from 'chef-agent/tools/inspectData';
+import { parseScreenshotResult, screenshotToolParameters } from 'chef-agent/tools/screenshot';
 import { npmInstallToolParameters } from 'chef-agent/tools/npmInstall';
 import { loggingSafeParse } from 'chef-agent/utils/zodUtil';
 import { deployToolParameters } from 'chef-agent/tools/deploy';
@@ -39,6 +49,9 @@ import { getRelativePath } from 'chef-agent/utils/workDir';
 import { lookupDocsParameters } from 'chef-agent/tools/lookupDocs';
 import { Markdown } from '~/components/chat/Markdown';
 import { addEnvironmentVariablesParameters } from 'chef-agent/tools/addEnvironmentVariables';
+import { writeFileToolParameters } from 'chef-agent/tools/writeFile';
+import { deleteFileToolParameters } from 'chef-agent/tools/deleteFile';
+import { renameFileToolParameters } from 'chef-agent/tools/renameFile';
 import { openDashboardToPath } from '~/lib/stores/dashboardPath';
 
 export const ToolCall = memo(function ToolCall({ partId, toolCallId }: { partId: PartId; toolCallId: string }) {
@@ -155,6 +168,12 @@ const ToolUseContents = memo(function ToolUseContents({
     case 'edit': {
       return <EditTool invocation={invocation} />;
     }
+    case 'search': {
+      return <SearchTool invocation={invocation} />;
+    }
+    case 'patch': {
+      return <PatchTool invocation={invocation} />;
+    }
     case 'lookupDocs': {
       return <LookupDocsTool invocation={invocation} />;
     }
@@ -164,6 +183,25 @@ const ToolUseContents = memo(function ToolUseContents({
     case 'getConvexDeploymentName': {
       return <GetConvexDeploymentNameTool invocation={invocation} />;
     }
+    case 'runConvexFunction': {
+      return <RunConvexFunctionTool invocation={invocation} />;
+    }
+    case 'readLogs': {
+      return <ReadLogsTool invocation={invocation} />;
+    }
+    case 'inspectData': {
+      return <InspectDataTool invocation={invocation} />;
+    }
+    case 'screenshot': {
+      return <ScreenshotTool invocation={invocation} />;
+    }
+    case 'writeFile': {
+      return <WriteFileTool invocation={invocation} />;
+    }
+    case 'deleteFile':
+    case 'renameFile': {
+      return <MoveFileTool invocation={invocation} />;
+    }
     default: {
       // Fallback for other tool types
       return <pre className="overflow-x-auto whitespace-pre-wrap">{JSON.stringify(invocation, null, 2)}</pre>;
@@ -314,6 +352,69 @@ function parseToolInvocation(
         }
         break;
       }
+      case 'search': {
+        const args = loggingSafeParse(searchParameters, parsedContent.args);
+        if (!args.success) {
+          zodError = args.error;
+        }
+        break;
+      }
+      case 'patch': {
+        const args = loggingSafeParse(patchToolParameters, parsedContent.args);
+        if (!args.success) {
+          zodError = args.error;
+        }
+        break;
+      }
+      case 'runConvexFunction': {
+        const args = loggingSafeParse(runConvexFunctionToolParameters, parsedContent.args);
+        if (!args.success) {
+          zodError = args.error;
+        }
+        break;
+      }
+      case 'readLogs': {
+        const args = loggingSafeParse(readLogsToolParameters, parsedContent.args);
+        if (!args.success) {
+          zodError = args.error;
+        }
+        break;
+      }
+      case 'inspectData': {
+        const args = loggingSafeParse(inspectDataToolParameters, parsedContent.args);
+        if (!args.success) {
+          zodError = args.error;
+        }
+        break;
+      }
+      case 'screenshot': {
+        const args = loggingSafeParse(screenshotToolParameters, parsedContent.args);
+        if (!args.success) {
+          zodError = args.error;
+        }
+        break;
+      }
+      case 'writeFile': {
+        const args = loggingSafeParse(writeFileToolParameters, parsedContent.args);
+        if (!args.success) {
+          zodError = args.error;
+        }
+        break;
+      }
+      case 'deleteFile': {
+        const args = loggingSafeParse(deleteFileToolParameters, parsedContent.args);
+        if (!args.success) {
+          zodError = args.error;
+        }
+        break;
+      }
+      case 'renameFile': {
+        const args = loggingSafeParse(renameFileToolParameters, parsedContent.args);
+        if (!args.success) {
+          zodError = args.error;
+        }
+        break;
+      }
       default: {
         break;
       }
@@ -465,6 +566,45 @@ function toolTitle(invocation: ConvexToolInvocation): React.ReactNode {
         </div>
       );
     }
+    case 'patch': {
+      if (invocation.state === 'partial-call' || invocation.state === 'call') {
+        return 'Applying patch...';
+      }
+      const args = loggingSafeParse(patchToolParameters, invocation.args);
+      let renderedFiles = 'files';
+      if (args.success) {
+        const paths = patchPaths(args.data);
+        renderedFiles = paths.length === 1 ? paths[0] : `${paths.length} files`;
+      }
+      return (
+        <div className="flex items-center gap-2">
+          <Pencil1Icon className="text-content-secondary" />
+          <span>
+            {invocation.result.startsWith('Error:') ? 'Failed to patch' : 'Patched'} {renderedFiles}
+          </span>
+        </div>
+      );
+    }
+    case 'search': {
+      const args = loggingSafeParse(searchParameters, invocation.args);
+      let renderedPattern = 'the project';
+      if (args.success) {
+        renderedPattern = args.data.pattern;
+      }
+      let verb = 'Searched';
+      if (invocation.state === 'partial-call' || invocation.state === 'call') {
+        verb = 'Searching';
+      }
+      return (
+        <div className="flex items-center gap-2">
+          <MagnifyingGlassIcon className="text-content-secondary" />
+          <span>
+            {verb} for <span className="font-mono text-sm">{renderedPattern}</span>
+            {args.success && args.data.glob ? ` in ${args.data.glob}` : ''}
+          </span>
+        </div>
+      );
+    }
     case 'lookupDocs': {
       const args = loggingSafeParse(lookupDocsParameters, invocation.args);
       if (!args.success) {
@@ -503,6 +643,138 @@ function toolTitle(invocation: ConvexToolInvocation): React.ReactNode {
         );
       }
     }
+    case 'runConvexFunction': {
+      const args = loggingSafeParse(runConvexFunctionToolParameters, invocation.args);
+      const functionPath = args.success ? normalizeFunctionPath(args.data.functionName) : 'a Convex function';
+      let verb = 'Ran';
+      if (invocation.state === 'partial-call' || invocation.state === 'call') {
+        verb = 'Running';
+      } else if (invocation.result?.startsWith('Error:')) {
+        verb = 'Failed to run';
+      }
+      return (
+        <div className="flex items-center gap-2">
+          <img className="mr-1 size-4" height="16" width="16" src="/icons/Convex.svg" alt="Convex" />
+          <span>
+            {verb} <span className="font-mono text-sm">{functionPath}</span>
+          </span>
+        </div>
+      );
+    }
+    case 'readLogs': {
+      const args = loggingSafeParse(readLogsToolParameters, invocation.args);
+      let verb = 'Read';
+      if (invocation.state === 'partial-call' || invocation.state === 'call') {
+        verb = 'Reading';
+      } else if (invocation.result?.startsWith('Error:')) {
+        verb = 'Failed to read';
+      }
+      return (
+        <div className="flex items-center gap-2">
+          <img className="mr-1 size-4" height="16" width="16" src="/icons/Convex.svg" alt="Convex" />
+          <span>
+            {verb} Convex logs
+            {args.success && args.data.functionName ? ` for ${args.data.functionName}` : ''}
+          </span>
+        </div>
+      );
+    }
+    case 'inspectData': {
+      const args = loggingSafeParse(inspectDataToolParameters, invocation.args);
+      const inProgress = invocation.state === 'partial-call' || invocation.state === 'call';
+      const failed = invocation.state === 'result' && invocation.result.startsWith('Error:');
+      let description: React.ReactNode = 'Convex data';
+      if (args.success && args.data.action === 'listTables') {
+        description = 'Convex tables';
+      } else if (args.success && args.data.action === 'schema') {
+        description = 'deployed schema';
+      } else if (args.success && args.data.action === 'documents') {
+        description = (
+          <>
+            documents in <span className="font-mono text-sm">{args.data.table}</span>
+          </>
+        );
+      }
+      return (
+        <div className="flex items-center gap-2">
+          <img className="mr-1 size-4" height="16" width="16" src="/icons/Convex.svg" alt="Convex" />
+          <span>
+            {inProgress ? 'Inspecting' : failed ? 'Failed to inspect' : 'Inspected'} {description}
+          </span>
+        </div>
+      );
+    }
+    case 'screenshot': {
+      const args = loggingSafeParse(screenshotToolParameters, invocation.args);
+      let verb = 'Took a screenshot of';
+      if (invocation.state === 'partial-call' || invocation.state === 'call') {
+        verb = 'Taking a screenshot of';
+      } else if (invocation.result?.startsWith('Error:')) {
+        verb = 'Failed to take a screenshot of';
+      }
+      return (
+        <div className="flex items-center gap-2">
+          <CameraIcon className="size-4" />
+          <span>
+            {verb} <span className="font-mono text-sm">{(args.success && args.data.route) || '/'}</span>
+          </span>
+        </div>
+      );
+    }
+    case 'writeFile': {
+      if (invocation.state === 'partial-call' || invocation.state === 'call') {
+        return 'Writing a file...';
+      }
+      const args = loggingSafeParse(writeFileToolParameters, invocation.args);
+      let renderedPath = 'a file';
+      if (args.success) {
+        renderedPath = getRelativePath(args.data.path);
+      }
+      return (
+        <div className="flex items-center gap-2">
+          <FileIcon className="text-content-secondary" />
+          <span>
+            {invocation.result.startsWith('Error:') ? 'Failed to write' : 'Wrote'} {renderedPath}
+          </span>
+        </div>
+      );
+    }
+    case 'deleteFile': {
+      if (invocation.state === 'partial-call' || invocation.state === 'call') {
+        return 'Deleting a file...';
+      }
+      const args = loggingSafeParse(deleteFileToolParameters, invocation.args);
+      let renderedPath = 'a file';
+      if (args.success) {
+        renderedPath = getRelativePath(args.data.path);
+      }
+      return (
+        <div className="flex items-center gap-2">
+          <FileIcon className="text-content-secondary" />
+          <span>
+            {invocation.result.startsWith('Error:') ? 'Failed to delete' : 'Deleted'} {renderedPath}
+          </span>
+        </div>
+      );
+    }
+    case 'renameFile': {
+      if (invocation.state === 'partial-call' || invocation.state === 'call') {
+        return 'Moving a file...';
+      }
+      const args = loggingSafeParse(renameFileToolParameters, invocation.args);
+      let renderedPaths = 'a file';
+      if (args.success) {
+        renderedPaths = `${getRelativePath(args.data.path)} to ${getRelativePath(args.data.newPath)}`;
+      }
+      return (
+        <div className="flex items-center gap-2">
+          <FileIcon className="text-content-secondary" />
+          <span>
+            {invocation.result.startsWith('Error:') ? 'Failed to move' : 'Moved'} {renderedPaths}
+          </span>
+        </div>
+      );
+    }
     default: {
       return (invocation as any).toolName;
     }
@@ -661,6 +933,105 @@ function EditTool({ invocation }: { invocation: ConvexToolInvocation }) {
   );
 }
 
+function WriteFileTool({ invocation }: { invocation: ConvexToolInvocation }) {
+  if (invocation.toolName !== 'writeFile') {
+    throw new Error('Write file tool can only be used for the writeFile tool');
+  }
+  if (invocation.state === 'partial-call') {
+    return null;
+  }
+  const args = loggingSafeParse(writeFileToolParameters, invocation.args);
+  if (!args.success) {
+    return null;
+  }
+  if (invocation.state === 'result' && invocation.result.startsWith('Error:')) {
+    return (
+      <div className="overflow-hidden rounded-lg border bg-bolt-elements-background-depth-1 font-mono text-sm text-content-primary">
+        <pre className="whitespace-pre-wrap p-4 text-bolt-elements-icon-error">{invocation.result}</pre>
+      </div>
+    );
+  }
+  return (
+    <LineNumberViewer
+      lines={args.data.content.split('\n')}
+      language={getLanguageFromExtension(path.extname(args.data.path))}
+    />
+  );
+}
+
+function MoveFileTool({ invocation }: { invocation: ConvexToolInvocation }) {
+  if (invocation.toolName !== 'deleteFile' && invocation.toolName !== 'renameFile') {
+    throw new Error('Move file tool can only be used for the deleteFile and renameFile tools');
+  }
+  if (invocation.state !== 'result' || !invocation.result.startsWith('Error:')) {
+    return null;
+  }
+  return (
+    <div className="overflow-hidden rounded-lg border bg-bolt-elements-background-depth-1 font-mono text-sm text-content-primary">
+      <pre className="whitespace-pre-wrap p-4 text-bolt-elements-icon-error">{invocation.result}</pre>
+    </div>
+  );
+}
+
+function PatchTool({ invocation }: { invocation: ConvexToolInvocation }) {
+  if (invocation.toolName !== 'patch') {
+    throw new Error('Patch tool can only be used for the patch tool');
+  }
+  if (invocation.state === 'partial-call') {
+    return null;
+  }
+  const args = loggingSafeParse(patchToolParameters, invocation.args);
+  if (!args.success) {
+    return null;
+  }
+  return (
+    <div className="overflow-hidden rounded-lg border bg-bolt-elements-background-depth-1 font-mono text-sm text-content-primary">
+      <div className="max-h-[400px] space-y-4 overflow-auto p-4">
+        {invocation.state === 'result' && invocation.result.startsWith('Error:') && (
+          <pre className="whitespace-pre-wrap text-bolt-elements-icon-error">{invocation.result}</pre>
+        )}
+        {args.data.diff !== null && (
+          <pre>
+            {args.data.diff.split('\n').map((line, i) => (
+              <div
+                key={i}
+                className={classNames({
+                  'text-bolt-elements-icon-success': line.startsWith('+') && !line.startsWith('+++'),
+                  'text-bolt-elements-icon-error': line.startsWith('-') && !line.startsWith('---'),
+                  'text-content-secondary': line.startsWith('@@'),
+                })}
+              >
+                {line || ' '}
+              </div>
+            ))}
+          </pre>
+        )}
+        {args.data.edits?.map((edit, i) => (
+          <div key={i} className="space-y-2 overflow-x-auto">
+            <div className="text-content-secondary">{getRelativePath(edit.path)}</div>
+            <pre className="text-bolt-elements-icon-error">{edit.search}</pre>
+            <pre className="text-bolt-elements-icon-success">{edit.replace}</pre>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function SearchTool({ invocation }: { invocation: ConvexToolInvocation }) {
+  if (invocation.toolName !== 'search') {
+    throw new Error('Search tool can only be used for the search tool');
+  }
+  if (invocation.state === 'partial-call' || invocation.state === 'call') {
+    return null;
+  }
+  return (
+    <div className="overflow-hidden rounded-lg border bg-bolt-elements-background-depth-1 font-mono text-sm text-content-primary">
+      <pre className="max-h-[400px] overflow-auto whitespace-pre p-4">{invocation.result}</pre>
+    </div>
+  );
+}
+
 function LookupDocsTool({ invocation }: { invocation: ConvexToolInvocation }) {
   if (invocation.toolName !== 'lookupDocs') {
     throw new Error('LookupDocs tool can only be used for the lookupDocs tool');
@@ -729,6 +1100,74 @@ function AddEnvironmentVariablesTool({ invocation }: { invocation: ConvexToolInv
   );
 }
 
+function RunConvexFunctionTool({ invocation }: { invocation: ConvexToolInvocation }) {
+  if (invocation.toolName !== 'runConvexFunction') {
+    throw new Error('RunConvexFunctionTool can only be used for the runConvexFunction tool');
+  }
+  if (invocation.state === 'partial-call') {
+    return null;
+  }
+  const args = loggingSafeParse(runConvexFunctionToolParameters, invocation.args);
+  return (
+    <div className="overflow-hidden rounded-lg border bg-bolt-elements-background-depth-1 font-mono text-sm text-content-primary">
+      <div className="max-h-[400px] space-y-2 overflow-auto p-4">
+        {args.success && args.data.args && <pre className="text-content-secondary">Args: {args.data.args}</pre>}
+        {invocation.state === 'result' && <pre className="whitespace-pre-wrap">{invocation.result}</pre>}
+      </div>
+    </div>
+  );
+}
+
+function ReadLogsTool({ invocation }: { invocation: ConvexToolInvocation }) {
+  if (invocation.toolName !== 'readLogs') {
+    throw new Error('ReadLogsTool can only be used for the readLogs tool');
+  }
+  if (invocation.state === 'partial-call' || invocation.state === 'call') {
+    return null;
+  }
+  return (
+    <div className="overflow-hidden rounded-lg border bg-bolt-elements-background-depth-1 font-mono text-sm text-content-primary">
+      <pre className="max-h-[400px] overflow-auto whitespace-pre-wrap p-4">{invocation.result}</pre>
+    </div>
+  );
+}
+
+function InspectDataTool({ invocation }: { invocation: ConvexToolInvocation }) {
+  if (invocation.toolName !== 'inspectData') {
+    throw new Error('InspectDataTool can only be used for the inspectData tool');
+  }
+  if (invocation.state === 'partial-call' || invocation.state === 'call') {
+    return null;
+  }
+  return (
+    <div className="overflow-hidden rounded-lg border bg-bolt-elements-background-depth-1 font-mono text-sm text-content-primary">
+      <pre className="max-h-[400px] overflow-auto whitespace-pre-wrap p-4">{invocation.result}</pre>
+    </div>
+  );
+}
+
+function ScreenshotTool({ invocation }: { invocation: ConvexToolInvocation }) {
+  if (invocation.toolName !== 'screenshot') {
+    throw new Error('ScreenshotTool can only be used for the screenshot tool');
+  }
+  if (invocation.state === 'partial-call' || invocation.state === 'call') {
+    return null;
+  }
+  const { text, image } = parseScreenshotResult(invocation.result);
+  if (!image) {
+    return (
+      <div className="overflow-hidden rounded-lg border bg-bolt-elements-background-depth-1 font-mono text-sm text-content-primary">
+        <pre className="whitespace-pre-wrap p-4">{text}</pre>
+      </div>
+    );
+  }
+  return (
+    <div className="overflow-hidden rounded-lg border bg-bolt-elements-background-depth-1">
+      <img className="max-h-[400px] w-full object-contain object-top" src={image} alt={text} />
+    </div>
+  );
+}
+
 function GetConvexDeploymentNameTool({ invocation }: { invocation: ConvexToolInvocation }) {
   if (invocation.toolName !== 'getConvexDeploymentName') {
     throw new Error('GetConvexDeploymentNameTool can only be used for the getConvexDeploymentName tool');
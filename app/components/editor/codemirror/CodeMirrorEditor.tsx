@@ -26,6 +26,8 @@ import { BinaryContent } from './BinaryContent';
 import { getTheme, reconfigureTheme } from './cm-theme';
 import { indentKeyBinding } from './indent';
 import { getLanguage } from './languages';
+import { typescriptExtension, type OnGoToDefinitionCallback } from './typescript';
+import { isTypeScriptPath } from '~/lib/typescript/protocol';
 import type { EditorDocument } from 'chef-agent/types';
 import type { ScrollPosition } from 'chef-agent/types';
 const logger = createScopedLogger('CodeMirrorEditor');
@@ -54,6 +56,13 @@ export type OnScrollCallback = (position: ScrollPosition) => void;
 export type OnWheelCallback = () => void;
 export type OnSaveCallback = () => void;
 
+// A range to select in a file, like a search result.
+export interface EditorRange {
+  filePath: string;
+  from: number;
+  to: number;
+}
+
 interface Props {
   theme: Theme;
   id?: unknown;
@@ -65,6 +74,9 @@ interface Props {
   onScroll?: OnScrollCallback;
   onWheel?: OnWheelCallback;
   onSave?: OnSaveCallback;
+  onGoToDefinition?: OnGoToDefinitionCallback;
+  // Selected and scrolled to when it changes, once its file is open.
+  selection?: EditorRange;
   className?: string;
 }
 
@@ -122,6 +134,8 @@ export const CodeMirrorEditor = memo(
     onChange,
     onWheel,
     onSave,
+    onGoToDefinition,
+    selection,
     scrollToDocAppend,
     theme,
     className = '',
@@ -129,6 +143,7 @@ export const CodeMirrorEditor = memo(
     renderLogger.trace('CodeMirrorEditor');
 
     const [languageCompartment] = useState(() => new Compartment());
+    const [typescriptCompartment] = useState(() => new Compartment());
 
     const containerRef = useRef<HTMLDivElement | null>(null);
     const viewRef = useRef<EditorView>();
@@ -139,6 +154,10 @@ export const CodeMirrorEditor = memo(
     const onWheelRef = useRef(onWheel);
     const onChangeRef = useRef(onChange);
     const onSaveRef = useRef(onSave);
+    const onGoToDefinitionRef = useRef(onGoToDefinition);
+    // What to select once another file is opened, e.g. after going to a definition in it.
+    const pendingSelectionRef = useRef<EditorRange>();
+    const shownFilePathRef = useRef<string>();
 
     /**
      * This effect is used to avoid side effects directly in the render function
@@ -149,6 +168,7 @@ export const CodeMirrorEditor = memo(
       onWheelRef.current = onWheel;
       onChangeRef.current = onChange;
       onSaveRef.current = onSave;
+      onGoToDefinitionRef.current = onGoToDefinition;
       docRef.current = doc;
       themeRef.current = theme;
     });
@@ -205,6 +225,18 @@ export const CodeMirrorEditor = memo(
       editorStatesRef.current = new Map<string, EditorState>();
     }, [id]);
 
+    // This runs before the effect below so that it can pick up the selection when the file opens.
+    useEffect(() => {
+      if (!selection) {
+        return;
+      }
+      if (viewRef.current && shownFilePathRef.current === selection.filePath) {
+        revealSelection(viewRef.current, selection);
+        return;
+      }
+      pendingSelectionRef.current = selection;
+    }, [selection]);
+
     useEffect(() => {
       const editorStates = editorStatesRef.current!;
       const view = viewRef.current!;
@@ -215,11 +247,13 @@ export const CodeMirrorEditor = memo(
       if (!doc) {
         const state = newEditorState('', theme, settings, onScrollRef, onWheelRef, onSaveRef, [
           languageCompartment.of([]),
+          typescriptCompartment.of([]),
         ]);
 
         view.setState(state);
 
         setNoDocument(view);
+        shownFilePathRef.current = undefined;
 
         return;
       }
@@ -237,6 +271,7 @@ export const CodeMirrorEditor = memo(
       if (!state) {
         state = newEditorState(doc.value, theme, settings, onScrollRef, onWheelRef, onSaveRef, [
           languageCompartment.of([]),
+          typescriptCompartment.of([]),
         ]);
 
         editorStates.set(doc.filePath, state);
@@ -249,8 +284,29 @@ export const CodeMirrorEditor = memo(
 
       if (isFileChange) {
         view.setState(state);
+        view.dispatch({
+          effects: typescriptCompartment.reconfigure(
+            isTypeScriptPath(doc.filePath)
+              ? typescriptExtension(doc.filePath, (filePath, pos) => {
+                  if (filePath === docRef.current?.filePath) {
+                    revealSelection(view, { filePath, from: pos, to: pos });
+                    return;
+                  }
+                  pendingSelectionRef.current = { filePath, from: pos, to: pos };
+                  onGoToDefinitionRef.current?.(filePath, pos);
+                })
+              : [],
+          ),
+        });
       }
 
+      const pendingSelection = pendingSelectionRef.current;
+      const initialSelection = pendingSelection?.filePath === doc.filePath ? pendingSelection : undefined;
+      if (initialSelection) {
+        pendingSelectionRef.current = undefined;
+      }
+      shownFilePathRef.current = doc.filePath;
+
       setEditorDocument(
         view,
         theme,
@@ -260,6 +316,7 @@ export const CodeMirrorEditor = memo(
         doc,
         isFileChange,
         scrollToDocAppend && simpleAppend,
+        initialSelection,
       );
       // We don’t want this to run when `doc` changes without a change in isBinary/filePath/value
       // (i.e. a change when only `scroll` changes). While `setEditorDocument` uses the scroll
@@ -273,6 +330,7 @@ export const CodeMirrorEditor = memo(
       autoFocusOnDocumentChange,
       scrollToDocAppend,
       languageCompartment,
+      typescriptCompartment,
     ]);
 
     return (
@@ -378,6 +436,16 @@ function newEditorState(
   });
 }
 
+function revealSelection(view: EditorView, selection: EditorRange) {
+  const length = view.state.doc.length;
+  const from = Math.min(selection.from, length);
+  view.dispatch({
+    selection: { anchor: from, head: Math.min(selection.to, length) },
+    effects: EditorView.scrollIntoView(from, { y: 'center' }),
+  });
+  view.focus();
+}
+
 function setNoDocument(view: EditorView) {
   view.dispatch({
     selection: { anchor: 0 },
@@ -400,6 +468,7 @@ function setEditorDocument(
   doc: TextEditorDocument,
   isFileChange: boolean,
   scrollToBottom: boolean,
+  initialSelection?: EditorRange,
 ) {
   if (doc.value !== view.state.doc.toString()) {
     view.dispatch({
@@ -418,6 +487,9 @@ function setEditorDocument(
 
   getLanguage(doc.filePath).then((languageSupport) => {
     if (!languageSupport) {
+      if (initialSelection) {
+        revealSelection(view, initialSelection);
+      }
       return;
     }
 
@@ -444,8 +516,15 @@ function setEditorDocument(
           }
         }
 
+        if (initialSelection) {
+          revealSelection(view, initialSelection);
+          return;
+        }
+
         view.scrollDOM.scrollTo(newLeft, newTop);
       });
+    } else if (initialSelection) {
+      revealSelection(view, initialSelection);
     }
     if (scrollToBottom) {
       requestAnimationFrame(() => {
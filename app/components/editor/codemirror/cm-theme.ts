@@ -178,6 +178,20 @@ function getEditorTheme(settings: EditorSettings) {
         borderTopColor: 'transparent',
       },
     },
+    '.cm-typescript-tooltip': {
+      maxWidth: '600px',
+      maxHeight: '300px',
+      overflow: 'auto',
+      padding: '4px 8px',
+      '& pre': {
+        whiteSpace: 'pre-wrap',
+        fontFamily: 'Roboto Mono, monospace',
+      },
+      '& div': {
+        marginTop: '4px',
+        whiteSpace: 'pre-wrap',
+      },
+    },
   });
 }
 
@@ -0,0 +1,122 @@
+import type { CompletionContext, CompletionResult } from '@codemirror/autocomplete';
+import { linter, type Diagnostic } from '@codemirror/lint';
+import { EditorState, type Extension } from '@codemirror/state';
+import { EditorView, hoverTooltip, keymap } from '@codemirror/view';
+import { createScopedLogger } from 'chef-agent/utils/logger';
+import { getTypeScriptClient } from '~/lib/typescript/client';
+
+const logger = createScopedLogger('TypeScriptExtension');
+
+const LINT_DELAY = 750;
+
+export type OnGoToDefinitionCallback = (filePath: string, pos: number) => void;
+
+/**
+ * Diagnostics, hover types, completions and go-to-definition (F12 or Cmd/Ctrl-click) for a
+ * TypeScript file, backed by the language service worker.
+ */
+export function typescriptExtension(filePath: string, onGoToDefinition: OnGoToDefinitionCallback): Extension {
+  // Send the editor's contents before each request so results reflect unsaved changes.
+  const sync = (state: EditorState) => {
+    const client = getTypeScriptClient();
+    client.updateFile(filePath, state.doc.toString());
+    return client;
+  };
+
+  const goToDefinition = async (view: EditorView, pos: number) => {
+    try {
+      const definition = await sync(view.state).request({ method: 'definition', filePath, pos });
+      if (definition) {
+        onGoToDefinition(definition.filePath, definition.pos);
+      }
+    } catch (e) {
+      logger.error('Failed to find definition', e);
+    }
+  };
+
+  return [
+    linter(
+      async (view) => {
+        const length = view.state.doc.length;
+        const diagnostics = await sync(view.state).request({ method: 'diagnostics', filePath });
+        return diagnostics.map(
+          (diagnostic): Diagnostic => ({
+            from: Math.min(diagnostic.from, length),
+            to: Math.min(diagnostic.to, length),
+            severity: diagnostic.severity,
+            message: diagnostic.message,
+            source: 'ts',
+          }),
+        );
+      },
+      { delay: LINT_DELAY },
+    ),
+    hoverTooltip(async (view, pos) => {
+      const info = await sync(view.state).request({ method: 'quickInfo', filePath, pos });
+      if (!info) {
+        return null;
+      }
+      return {
+        pos: info.from,
+        end: info.to,
+        above: true,
+        create: () => {
+          const dom = document.createElement('div');
+          dom.className = 'cm-typescript-tooltip';
+          const type = document.createElement('pre');
+          type.textContent = info.type;
+          dom.appendChild(type);
+          if (info.documentation) {
+            const documentation = document.createElement('div');
+            documentation.textContent = info.documentation;
+            dom.appendChild(documentation);
+          }
+          return { dom };
+        },
+      };
+    }),
+    EditorState.languageData.of(() => [
+      {
+        autocomplete: async (context: CompletionContext): Promise<CompletionResult | null> => {
+          const word = context.matchBefore(/[\w$]*/);
+          const afterDot = context.matchBefore(/\.[\w$]*/);
+          if (!context.explicit && !afterDot && (!word || word.from === word.to)) {
+            return null;
+          }
+          const completions = await sync(context.state).request({
+            method: 'completions',
+            filePath,
+            pos: context.pos,
+          });
+          if (!completions || context.aborted) {
+            return null;
+          }
+          return { from: completions.from, options: completions.options, validFor: /^[\w$]*$/ };
+        },
+      },
+    ]),
+    keymap.of([
+      {
+        key: 'F12',
+        run: (view) => {
+          void goToDefinition(view, view.state.selection.main.head);
+          return true;
+        },
+      },
+    ]),
+    EditorView.domEventHandlers({
+      mousedown: (event, view) => {
+        if (!(event.metaKey || event.ctrlKey)) {
+          return false;
+        }
+        const pos = view.posAtCoords(event);
+        if (pos === null) {
+          return false;
+        }
+        event.preventDefault();
+        void goToDefinition(view, pos);
+        return true;
+      },
+    }),
+  ];
+}
@@ -11,6 +11,7 @@ import { Tooltip } from '@ui/Tooltip';
 import { captureException } from '@sentry/remix';
 import { Spinner } from '@ui/Spinner';
 import { useDebounce } from '@uidotdev/usehooks';
+import type { AzureOpenAI } from '@convex/schema';
 
 export function ApiKeyCard() {
   const convex = useConvex();
@@ -26,6 +27,11 @@ export function ApiKeyCard() {
           openai: apiKey?.openai,
           xai: apiKey?.xai,
           google: apiKey?.google,
+          mistral: apiKey?.mistral,
+          deepseek: apiKey?.deepseek,
+          openrouter: apiKey?.openrouter,
+          azure: apiKey?.azure,
+          local: apiKey?.local,
         },
       });
       toast.success('Preference updated.', { id: value ? 'always' : 'quotaExhausted' });
@@ -35,7 +41,16 @@ export function ApiKeyCard() {
     }
   };
 
-  const hasAnyKey = apiKey && (apiKey.value || apiKey.openai || apiKey.xai || apiKey.google);
+  const hasAnyKey =
+    apiKey &&
+    (apiKey.value ||
+      apiKey.openai ||
+      apiKey.xai ||
+      apiKey.google ||
+      apiKey.mistral ||
+      apiKey.deepseek ||
+      apiKey.openrouter ||
+      apiKey.azure);
 
   const validateAnthropicApiKey = async (apiKey: string) => {
     return await convex.action(api.apiKeys.validateAnthropicApiKey, {
@@ -61,6 +76,24 @@ export function ApiKeyCard() {
     });
   };
 
+  const validateMistralApiKey = async (apiKey: string) => {
+    return await convex.action(api.apiKeys.validateMistralApiKey, {
+      apiKey,
+    });
+  };
+
+  const validateDeepseekApiKey = async (apiKey: string) => {
+    return await convex.action(api.apiKeys.validateDeepseekApiKey, {
+      apiKey,
+    });
+  };
+
+  const validateOpenrouterApiKey = async (apiKey: string) => {
+    return await convex.action(api.apiKeys.validateOpenrouterApiKey, {
+      apiKey,
+    });
+  };
+
   return (
     <div className="rounded-lg border bg-bolt-elements-background-depth-1 shadow-sm">
       <div className="p-6">
@@ -150,13 +183,69 @@ export function ApiKeyCard() {
             value={apiKey?.xai || ''}
             onValidate={validateXaiApiKey}
           />
+
+          <ApiKeyItem
+            label="Mistral API key"
+            description={
+              <a
+                href="https://docs.mistral.ai/getting-started/quickstart/"
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-content-link hover:underline"
+              >
+                See instructions for generating a Mistral API key
+              </a>
+            }
+            isLoading={apiKey === undefined}
+            keyType="mistral"
+            value={apiKey?.mistral || ''}
+            onValidate={validateMistralApiKey}
+          />
+
+          <ApiKeyItem
+            label="DeepSeek API key"
+            description={
+              <a
+                href="https://api-docs.deepseek.com/"
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-content-link hover:underline"
+              >
+                See instructions for generating a DeepSeek API key
+              </a>
+            }
+            isLoading={apiKey === undefined}
+            keyType="deepseek"
+            value={apiKey?.deepseek || ''}
+            onValidate={validateDeepseekApiKey}
+          />
+
+          <ApiKeyItem
+            label="OpenRouter API key"
+            description={
+              <a
+                href="https://openrouter.ai/docs/api-reference/authentication"
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-content-link hover:underline"
+              >
+                See instructions for generating an OpenRouter API key
+              </a>
+            }
+            isLoading={apiKey === undefined}
+            keyType="openrouter"
+            value={apiKey?.openrouter || ''}
+            onValidate={validateOpenrouterApiKey}
+          />
+
+          <AzureOpenaiItem isLoading={apiKey === undefined} value={apiKey?.azure} />
         </div>
       </div>
     </div>
   );
 }
 
-type KeyType = 'anthropic' | 'google' | 'openai' | 'xai';
+type KeyType = 'anthropic' | 'google' | 'openai' | 'xai' | 'mistral' | 'deepseek' | 'openrouter';
 
 function ApiKeyItem({
   label,
@@ -241,6 +330,18 @@ function ApiKeyItem({
           await convex.mutation(api.apiKeys.deleteXaiApiKeyForCurrentMember);
           toast.success('xAI API key removed', { id: 'xai-removed' });
           break;
+        case 'mistral':
+          await convex.mutation(api.apiKeys.deleteMistralApiKeyForCurrentMember);
+          toast.success('Mistral API key removed', { id: 'mistral-removed' });
+          break;
+        case 'deepseek':
+          await convex.mutation(api.apiKeys.deleteDeepseekApiKeyForCurrentMember);
+          toast.success('DeepSeek API key removed', { id: 'deepseek-removed' });
+          break;
+        case 'openrouter':
+          await convex.mutation(api.apiKeys.deleteOpenrouterApiKeyForCurrentMember);
+          toast.success('OpenRouter API key removed', { id: 'openrouter-removed' });
+          break;
       }
     } catch (error) {
       captureException(error);
@@ -265,6 +366,11 @@ function ApiKeyItem({
         openai: apiKey?.openai || undefined,
         xai: apiKey?.xai || undefined,
         google: apiKey?.google || undefined,
+        mistral: apiKey?.mistral || undefined,
+        deepseek: apiKey?.deepseek || undefined,
+        openrouter: apiKey?.openrouter || undefined,
+        azure: apiKey?.azure,
+        local: apiKey?.local,
       };
 
       switch (keyType) {
@@ -280,6 +386,15 @@ function ApiKeyItem({
         case 'xai':
           apiKeyMutation.xai = cleanApiKey(newKeyValue);
           break;
+        case 'mistral':
+          apiKeyMutation.mistral = cleanApiKey(newKeyValue);
+          break;
+        case 'deepseek':
+          apiKeyMutation.deepseek = cleanApiKey(newKeyValue);
+          break;
+        case 'openrouter':
+          apiKeyMutation.openrouter = cleanApiKey(newKeyValue);
+          break;
       }
 
       await convex.mutation(api.apiKeys.setApiKeyForCurrentMember, {
@@ -374,6 +489,146 @@ function ApiKeyItem({
   );
 }
 
+// Azure OpenAI needs a resource and deployment along with the key, so it has its own form.
+function AzureOpenaiItem({ isLoading, value }: { isLoading: boolean; value: AzureOpenAI | undefined }) {
+  const convex = useConvex();
+  const [isAdding, setIsAdding] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [resourceName, setResourceName] = useState('');
+  const [deployment, setDeployment] = useState('');
+  const [newKeyValue, setNewKeyValue] = useState('');
+  const [validationError, setValidationError] = useState<string | null>(null);
+
+  if (isLoading) {
+    return <div className="h-[78px] w-full animate-pulse rounded-lg bg-gray-200 dark:bg-gray-700" />;
+  }
+
+  const handleRemove = async () => {
+    try {
+      setIsSaving(true);
+      await convex.mutation(api.apiKeys.deleteAzureOpenaiApiKeyForCurrentMember);
+      toast.success('Azure OpenAI API key removed', { id: 'azure-removed' });
+    } catch (error) {
+      captureException(error);
+      toast.error('Failed to remove Azure OpenAI API key');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setIsSaving(true);
+      setValidationError(null);
+      const azure = { apiKey: newKeyValue.trim(), resourceName: resourceName.trim(), deployment: deployment.trim() };
+      const isValid = await convex.action(api.apiKeys.validateAzureOpenaiApiKey, {
+        apiKey: azure.apiKey,
+        resourceName: azure.resourceName,
+      });
+      if (!isValid) {
+        setValidationError('This resource name or API key appears to be invalid.');
+        return;
+      }
+
+      // Get the current API key data
+      const apiKey = await convex.query(api.apiKeys.apiKeyForCurrentMember);
+
+      await convex.mutation(api.apiKeys.setApiKeyForCurrentMember, {
+        apiKey: {
+          preference: apiKey?.preference || 'quotaExhausted',
+          value: apiKey?.value,
+          openai: apiKey?.openai,
+          xai: apiKey?.xai,
+          google: apiKey?.google,
+          mistral: apiKey?.mistral,
+          deepseek: apiKey?.deepseek,
+          openrouter: apiKey?.openrouter,
+          azure,
+          local: apiKey?.local,
+        },
+      });
+
+      toast.success('Azure OpenAI API key saved', { id: 'azure' });
+      setIsAdding(false);
+      setResourceName('');
+      setDeployment('');
+      setNewKeyValue('');
+    } catch (error) {
+      captureException(error);
+      toast.error('Failed to save Azure OpenAI API key');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const canSave = !!resourceName.trim() && !!deployment.trim() && !!newKeyValue.trim();
+
+  return (
+    <div>
+      <div className="mb-1.5">
+        <span className="font-medium text-content-primary">Azure OpenAI API key</span>
+      </div>
+      <div className="mb-2 text-xs text-content-secondary">
+        <a
+          href="https://learn.microsoft.com/en-us/azure/ai-foundry/openai/how-to/create-resource"
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-content-link hover:underline"
+        >
+          See instructions for creating an Azure OpenAI resource and deployment
+        </a>
+      </div>
+
+      {value ? (
+        <div className="flex items-center gap-2 py-1.5">
+          <span className="max-w-80 truncate font-mono text-sm">
+            {value.resourceName}/{value.deployment}
+          </span>
+          <Button variant="danger" onClick={handleRemove} disabled={isSaving} icon={<TrashIcon />} inline />
+        </div>
+      ) : isAdding ? (
+        <form onSubmit={handleSave} className="flex w-80 flex-col gap-2">
+          <TextInput
+            id="azure-resource-name"
+            autoFocus
+            value={resourceName}
+            onChange={(e) => setResourceName(e.target.value)}
+            placeholder="Resource name"
+          />
+          <TextInput
+            id="azure-deployment"
+            value={deployment}
+            onChange={(e) => setDeployment(e.target.value)}
+            placeholder="Deployment name"
+          />
+          <TextInput
+            id="azure-api-key"
+            type="password"
+            value={newKeyValue}
+            onChange={(e) => setNewKeyValue(e.target.value)}
+            placeholder="Enter your Azure OpenAI API key"
+            error={validationError ?? undefined}
+          />
+          <div className="flex gap-2">
+            <Button type="submit" disabled={isSaving || !canSave} icon={isSaving && <Spinner />}>
+              Save
+            </Button>
+            <Button type="button" variant="neutral" onClick={() => setIsAdding(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+          </div>
+        </form>
+      ) : (
+        <Button variant="neutral" onClick={() => setIsAdding(true)} icon={<PlusIcon />}>
+          Add Azure OpenAI API key
+        </Button>
+      )}
+    </div>
+  );
+}
+
 function AlwaysUseKeyCheckbox(props: {
   isLoading: boolean;
   disabled: boolean;
@@ -0,0 +1,179 @@
+import { useEffect, useState } from 'react';
+import { useConvex, useQuery } from 'convex/react';
+import { api } from '@convex/_generated/api';
+import type { LocalModel } from '@convex/schema';
+import { toast } from 'sonner';
+import { Button } from '@ui/Button';
+import { TextInput } from '@ui/TextInput';
+import { Checkbox } from '@ui/Checkbox';
+import { captureException } from '@sentry/remix';
+
+export function LocalModelCard() {
+  const convex = useConvex();
+  const apiKey = useQuery(api.apiKeys.apiKeyForCurrentMember);
+  const localModel = apiKey?.local;
+
+  const [baseUrl, setBaseUrl] = useState('');
+  const [model, setModel] = useState('');
+  const [localApiKey, setLocalApiKey] = useState('');
+  const [maxTokens, setMaxTokens] = useState('');
+  const [supportsTools, setSupportsTools] = useState(false);
+  const [supportsImages, setSupportsImages] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setBaseUrl(localModel?.baseUrl ?? '');
+    setModel(localModel?.model ?? '');
+    setLocalApiKey(localModel?.apiKey ?? '');
+    setMaxTokens(localModel?.maxTokens?.toString() ?? '');
+    setSupportsTools(localModel?.supportsTools ?? false);
+    setSupportsImages(localModel?.supportsImages ?? false);
+  }, [localModel]);
+
+  const baseUrlError = baseUrl.trim() && !isValidUrl(baseUrl.trim()) ? 'Enter a valid http or https URL' : undefined;
+  const maxTokensError =
+    maxTokens.trim() && !(Number.isInteger(Number(maxTokens)) && Number(maxTokens) > 0)
+      ? 'Enter a positive whole number'
+      : undefined;
+  const canSave = !!baseUrl.trim() && !!model.trim() && !baseUrlError && !maxTokensError;
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setIsSaving(true);
+
+      // Get the current API key data
+      const apiKey = await convex.query(api.apiKeys.apiKeyForCurrentMember);
+
+      const local: LocalModel = {
+        baseUrl: baseUrl.trim().replace(/\/+$/, ''),
+        model: model.trim(),
+        apiKey: localApiKey.trim() || undefined,
+        maxTokens: maxTokens.trim() ? Number(maxTokens) : undefined,
+        supportsTools,
+        supportsImages,
+      };
+      await convex.mutation(api.apiKeys.setApiKeyForCurrentMember, {
+        apiKey: {
+          preference: apiKey?.preference || 'quotaExhausted',
+          value: apiKey?.value,
+          openai: apiKey?.openai,
+          xai: apiKey?.xai,
+          google: apiKey?.google,
+          mistral: apiKey?.mistral,
+          deepseek: apiKey?.deepseek,
+          openrouter: apiKey?.openrouter,
+          azure: apiKey?.azure,
+          local,
+        },
+      });
+      toast.success('Local model saved', { id: 'local-model' });
+    } catch (error) {
+      captureException(error);
+      toast.error('Failed to save local model');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    try {
+      setIsSaving(true);
+      await convex.mutation(api.apiKeys.deleteLocalModelForCurrentMember);
+      toast.success('Local model removed', { id: 'local-model-removed' });
+    } catch (error) {
+      captureException(error);
+      toast.error('Failed to remove local model');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="rounded-lg border bg-bolt-elements-background-depth-1 shadow-sm">
+      <div className="p-6">
+        <h2 className="mb-2 text-xl font-semibold text-content-primary">Local Model</h2>
+        <p className="mb-4 max-w-prose text-sm text-content-secondary">
+          Cook with a model served from your own OpenAI-compatible API, like Ollama, vLLM or LM Studio. Local models
+          need to be enabled on the server running Chef.
+        </p>
+        <form className="flex max-w-prose flex-col gap-4" onSubmit={handleSave}>
+          <TextInput
+            id="local-model-base-url"
+            label="Base URL"
+            value={baseUrl}
+            onChange={(e) => setBaseUrl(e.target.value)}
+            placeholder="http://localhost:11434/v1"
+            error={baseUrlError}
+            disabled={apiKey === undefined}
+          />
+          <TextInput
+            id="local-model-name"
+            label="Model"
+            value={model}
+            onChange={(e) => setModel(e.target.value)}
+            placeholder="qwen2.5-coder:32b"
+            disabled={apiKey === undefined}
+          />
+          <TextInput
+            id="local-model-api-key"
+            label="API key"
+            type="password"
+            value={localApiKey}
+            onChange={(e) => setLocalApiKey(e.target.value)}
+            description="Optional, for servers that require one."
+            disabled={apiKey === undefined}
+          />
+          <TextInput
+            id="local-model-max-tokens"
+            label="Max output tokens"
+            value={maxTokens}
+            onChange={(e) => setMaxTokens(e.target.value)}
+            placeholder="8192"
+            error={maxTokensError}
+            disabled={apiKey === undefined}
+          />
+          <div className="flex items-center gap-2">
+            <Checkbox
+              checked={supportsTools}
+              onChange={() => setSupportsTools(!supportsTools)}
+              id="local-model-supports-tools"
+            />
+            <label htmlFor="local-model-supports-tools" className="text-sm text-content-secondary">
+              Supports tool calling, which lets the model deploy and inspect your app
+            </label>
+          </div>
+          <div className="flex items-center gap-2">
+            <Checkbox
+              checked={supportsImages}
+              onChange={() => setSupportsImages(!supportsImages)}
+              id="local-model-supports-images"
+            />
+            <label htmlFor="local-model-supports-images" className="text-sm text-content-secondary">
+              Supports image inputs, which lets the model take screenshots
+            </label>
+          </div>
+          <div className="flex gap-2">
+            <Button type="submit" disabled={isSaving || !canSave} loading={isSaving}>
+              Save
+            </Button>
+            {localModel && (
+              <Button variant="danger" onClick={handleRemove} disabled={isSaving}>
+                Remove
+              </Button>
+            )}
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+function isValidUrl(value: string) {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,20 @@
+import { useStore } from '@nanostores/react';
+import { Checkbox } from '@ui/Checkbox';
+import { reviewModeStore, setReviewMode } from '~/lib/stores/review';
+
+export function ReviewModeCard() {
+  const reviewMode = useStore(reviewModeStore);
+  return (
+    <div className="rounded-lg border bg-bolt-elements-background-depth-1 shadow-sm">
+      <div className="p-6">
+        <h2 className="mb-4 text-xl font-semibold text-content-primary">Review Mode</h2>
+        <div className="flex items-center gap-2">
+          <Checkbox checked={reviewMode} onChange={() => setReviewMode(!reviewMode)} id="review-mode" />
+          <label htmlFor="review-mode" className="text-sm text-content-secondary">
+            Review the agent&apos;s file changes before they&apos;re written to your project
+          </label>
+        </div>
+      </div>
+    </div>
+  );
+}
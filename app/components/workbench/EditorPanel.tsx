@@ -1,8 +1,9 @@
 import { useStore } from '@nanostores/react';
-import { memo, useMemo } from 'react';
+import { memo, useMemo, useState } from 'react';
 import { Panel, PanelGroup, PanelResizeHandle } from 'react-resizable-panels';
 import {
   CodeMirrorEditor,
+  type EditorRange,
   type OnChangeCallback as OnEditorChange,
   type OnSaveCallback as OnEditorSave,
   type OnScrollCallback as OnEditorScroll,
@@ -15,14 +16,25 @@ import type { FileMap } from 'chef-agent/types';
 import type { FileHistory } from '~/types/actions';
 import { themeStore } from '~/lib/stores/theme';
 import { WORK_DIR } from 'chef-agent/constants';
-import { renderLogger } from 'chef-agent/utils/logger';
+import { createScopedLogger, renderLogger } from 'chef-agent/utils/logger';
+import { classNames } from '~/utils/classNames';
 import { isMobile } from '~/utils/mobile';
 import { FileBreadcrumb } from './FileBreadcrumb';
-import { FileTree } from './FileTree';
+import { FileTimeline } from './FileTimeline';
+import { FileTree, type FileActions } from './FileTree';
+import { FileOperationDialog, type FileOperationRequest } from './FileOperationDialog';
+import { SearchPanel } from './SearchPanel';
 import { DEFAULT_TERMINAL_SIZE, TerminalTabs } from './terminal/TerminalTabs';
 import { workbenchStore } from '~/lib/stores/workbench.client';
 import type { TerminalInitializationOptions } from '~/types/terminal';
-import { CheckIcon, ResetIcon } from '@radix-ui/react-icons';
+import { CheckIcon, CounterClockwiseClockIcon, MagnifyingGlassIcon, ResetIcon } from '@radix-ui/react-icons';
+import { getAbsolutePath } from 'chef-agent/utils/workDir';
+import { path } from 'chef-agent/utils/path';
+import { toast } from 'sonner';
+import { readDroppedFiles } from '~/utils/fileUpload';
+import { workDirRelative } from '~/utils/fileUtils';
+
+const logger = createScopedLogger('EditorPanel');
 
 interface EditorPanelProps {
   files?: FileMap;
@@ -63,6 +75,28 @@ export const EditorPanel = memo(function EditorPanel({
 
   const theme = useStore(themeStore);
   const showTerminal = useStore(workbenchStore.showTerminal);
+  const [showTimeline, setShowTimeline] = useState(false);
+  const [sidebar, setSidebar] = useState<'files' | 'search'>('files');
+  const [selection, setSelection] = useState<EditorRange>();
+  const [fileOperation, setFileOperation] = useState<FileOperationRequest>();
+
+  const fileActions = useMemo<FileActions>(
+    () => ({
+      onNewFile: (folder) => setFileOperation({ type: 'newFile', folder }),
+      onNewFolder: (folder) => setFileOperation({ type: 'newFolder', folder }),
+      onRename: (filePath) => setFileOperation({ type: 'rename', filePath }),
+      onDelete: (filePath) => setFileOperation({ type: 'delete', filePath }),
+      onMove: (filePath, folder) => {
+        workbenchStore
+          .renamePath(getAbsolutePath(filePath), getAbsolutePath(path.join(folder, path.basename(filePath))))
+          .catch((e) => {
+            logger.error('Failed to move file', e);
+            toast.error(e instanceof Error ? e.message : 'Failed to move file');
+          });
+      },
+    }),
+    [],
+  );
 
   const activeFileSegments = useMemo(() => {
     if (!editorDocument) {
@@ -72,27 +106,79 @@ export const EditorPanel = memo(function EditorPanel({
     return editorDocument.filePath.split('/');
   }, [editorDocument]);
 
+  const onSelectMatch = (range: EditorRange) => {
+    setShowTimeline(false);
+    setSelection(range);
+    onFileSelect?.(range.filePath);
+  };
+
+  const onDropFiles = async (folder: string, dataTransfer: DataTransfer) => {
+    try {
+      const files = await readDroppedFiles(dataTransfer);
+      if (files.length === 0) {
+        return;
+      }
+      const paths = await workbenchStore.uploadFiles(getAbsolutePath(folder), files);
+      toast.success(paths.length === 1 ? `Added ${workDirRelative(paths[0])}` : `Added ${paths.length} files`);
+    } catch (e) {
+      logger.error('Failed to upload files', e);
+      toast.error(e instanceof Error ? `Failed to add files: ${e.message}` : 'Failed to add files');
+    }
+  };
+
+  const onGoToDefinition = (filePath: string) => {
+    if (files?.[getAbsolutePath(filePath)]?.type !== 'file') {
+      // Definitions in `node_modules` and TypeScript's lib files aren't in the file tree.
+      toast.info(`Definition is in ${filePath.includes('/node_modules/') ? 'a dependency' : filePath}`);
+      return;
+    }
+    onFileSelect?.(filePath);
+  };
+
   const activeFileUnsaved = useMemo(() => {
     return editorDocument !== undefined && unsavedFiles?.has(editorDocument.filePath);
   }, [editorDocument, unsavedFiles]);
 
   return (
     <PanelGroup direction="vertical">
+      {fileOperation && <FileOperationDialog request={fileOperation} onClose={() => setFileOperation(undefined)} />}
       <Panel defaultSize={showTerminal ? DEFAULT_EDITOR_SIZE : 100} minSize={20}>
         <PanelGroup direction="horizontal">
           <Panel defaultSize={20} minSize={10} collapsible>
             <div className="flex h-full flex-col border-r">
-              <PanelHeader>Files</PanelHeader>
-              <FileTree
-                className="h-full"
-                files={files}
-                hideRoot
-                unsavedFiles={unsavedFiles}
-                fileHistory={fileHistory}
-                rootFolder={WORK_DIR}
-                selectedFile={selectedFile}
-                onFileSelect={onFileSelect}
-              />
+              <PanelHeader className="gap-1">
+                <PanelHeaderButton
+                  className={classNames({ 'text-content-primary': sidebar === 'files' })}
+                  onClick={() => setSidebar('files')}
+                >
+                  Files
+                </PanelHeaderButton>
+                <PanelHeaderButton
+                  className={classNames({ 'text-content-primary': sidebar === 'search' })}
+                  onClick={() => setSidebar('search')}
+                >
+                  <MagnifyingGlassIcon />
+                  Search
+                </PanelHeaderButton>
+              </PanelHeader>
+              {sidebar === 'files' ? (
+                <FileTree
+                  className="h-full"
+                  files={files}
+                  hideRoot
+                  unsavedFiles={unsavedFiles}
+                  fileHistory={fileHistory}
+                  rootFolder={WORK_DIR}
+                  selectedFile={selectedFile}
+                  onFileSelect={onFileSelect}
+                  onDropFiles={isStreaming ? undefined : onDropFiles}
+                  fileActions={isStreaming ? undefined : fileActions}
+                />
+              ) : (
+                <div className="min-h-0 flex-1">
+                  <SearchPanel isStreaming={isStreaming} onSelectMatch={onSelectMatch} />
+                </div>
+              )}
             </div>
           </Panel>
           <PanelResizeHandle />
@@ -101,22 +187,41 @@ export const EditorPanel = memo(function EditorPanel({
               {activeFileSegments?.length && (
                 <div className="flex flex-1 items-center text-sm">
                   <FileBreadcrumb pathSegments={activeFileSegments} files={files} onFileSelect={onFileSelect} />
-                  {activeFileUnsaved && (
-                    <div className="-mr-1.5 ml-auto flex gap-1">
-                      <PanelHeaderButton onClick={onFileSave}>
-                        <CheckIcon />
-                        Save
-                      </PanelHeaderButton>
-                      <PanelHeaderButton onClick={onFileReset}>
-                        <ResetIcon />
-                        Reset
-                      </PanelHeaderButton>
-                    </div>
-                  )}
+                  <div className="-mr-1.5 ml-auto flex gap-1">
+                    <PanelHeaderButton
+                      className={classNames({ 'text-content-primary': showTimeline })}
+                      onClick={() => setShowTimeline(!showTimeline)}
+                    >
+                      <CounterClockwiseClockIcon />
+                      {showTimeline ? 'Hide Timeline' : 'Timeline'}
+                    </PanelHeaderButton>
+                    {activeFileUnsaved && (
+                      <>
+                        <PanelHeaderButton onClick={onFileSave}>
+                          <CheckIcon />
+                          Save
+                        </PanelHeaderButton>
+                        <PanelHeaderButton onClick={onFileReset}>
+                          <ResetIcon />
+                          Reset
+                        </PanelHeaderButton>
+                      </>
+                    )}
+                  </div>
                 </div>
               )}
             </PanelHeader>
-            <div className="h-full flex-1 overflow-hidden">
+            {showTimeline && editorDocument && (
+              <div className="h-full flex-1 overflow-hidden">
+                <FileTimeline
+                  key={editorDocument.filePath}
+                  filePath={getAbsolutePath(editorDocument.filePath)}
+                  currentContent={editorDocument.value}
+                />
+              </div>
+            )}
+            {/* Keep the editor mounted while the timeline is open so it doesn't lose its undo history. */}
+            <div className={classNames('h-full flex-1 overflow-hidden', { hidden: showTimeline && !!editorDocument })}>
               <CodeMirrorEditor
                 theme={theme}
                 editable={!isStreaming && editorDocument !== undefined}
@@ -127,6 +232,8 @@ export const EditorPanel = memo(function EditorPanel({
                 onWheel={onEditorWheel}
                 onChange={onEditorChange}
                 onSave={onFileSave}
+                onGoToDefinition={onGoToDefinition}
+                selection={selection}
               />
             </div>
           </Panel>
@@ -0,0 +1,126 @@
+import { useState } from 'react';
+import { Button } from '@ui/Button';
+import { ConfirmationDialog } from '@ui/ConfirmationDialog';
+import { Modal } from '@ui/Modal';
+import { TextInput } from '@ui/TextInput';
+import { workbenchStore } from '~/lib/stores/workbench.client';
+import { workDirRelative } from '~/utils/fileUtils';
+import { getAbsolutePath } from 'chef-agent/utils/workDir';
+
+export type FileOperationRequest =
+  | { type: 'newFile' | 'newFolder'; folder: string }
+  | { type: 'rename'; filePath: string }
+  | { type: 'delete'; filePath: string };
+
+const TITLES = {
+  newFile: 'New file',
+  newFolder: 'New folder',
+  rename: 'Rename',
+};
+
+export function FileOperationDialog({ request, onClose }: { request: FileOperationRequest; onClose: () => void }) {
+  const [error, setError] = useState<string>();
+
+  if (request.type === 'delete') {
+    const relativePath = workDirRelative(request.filePath);
+    return (
+      <ConfirmationDialog
+        onClose={onClose}
+        onConfirm={async () => {
+          try {
+            await workbenchStore.deletePath(getAbsolutePath(request.filePath));
+            onClose();
+          } catch (e) {
+            setError(e instanceof Error ? e.message : String(e));
+          }
+        }}
+        variant="danger"
+        confirmText="Delete"
+        dialogTitle={`Delete ${relativePath}`}
+        dialogBody={`Are you sure you want to delete ${relativePath}? This can't be undone.`}
+        error={error}
+      />
+    );
+  }
+
+  return <PathDialog request={request} onClose={onClose} />;
+}
+
+function PathDialog({
+  request,
+  onClose,
+}: {
+  request: Exclude<FileOperationRequest, { type: 'delete' }>;
+  onClose: () => void;
+}) {
+  const initialPath =
+    request.type === 'rename' ? workDirRelative(request.filePath) : withTrailingSlash(workDirRelative(request.folder));
+  const [value, setValue] = useState(initialPath);
+  const [error, setError] = useState<string>();
+  const [submitting, setSubmitting] = useState(false);
+
+  const submit = async () => {
+    const relativePath = value.trim().replace(/^\/+|\/+$/g, '');
+    if (!relativePath) {
+      setError('Enter a path');
+      return;
+    }
+    const newPath = getAbsolutePath(relativePath);
+    setSubmitting(true);
+    try {
+      switch (request.type) {
+        case 'newFile':
+          await workbenchStore.createFile(newPath);
+          break;
+        case 'newFolder':
+          await workbenchStore.createFolder(newPath);
+          break;
+        case 'rename':
+          await workbenchStore.renamePath(getAbsolutePath(request.filePath), newPath);
+          break;
+      }
+      onClose();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal onClose={onClose} title={TITLES[request.type]} size="sm">
+      <form
+        className="flex flex-col gap-4"
+        onSubmit={(e) => {
+          e.preventDefault();
+          submit();
+        }}
+      >
+        <TextInput
+          id="file-operation-path"
+          label="Path"
+          description="Relative to the project root. Folders in the path are created if needed."
+          autoFocus
+          value={value}
+          error={error}
+          onChange={(e) => {
+            setValue(e.target.value);
+            setError(undefined);
+          }}
+        />
+        <div className="flex justify-end gap-2">
+          <Button variant="neutral" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button type="submit" loading={submitting} disabled={value.trim() === initialPath}>
+            {request.type === 'rename' ? 'Rename' : 'Create'}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
+
+function withTrailingSlash(folder: string) {
+  return folder ? `${folder}/` : '';
+}
@@ -0,0 +1,115 @@
+import { useStore } from '@nanostores/react';
+import { diffLines } from 'diff';
+import { memo, useMemo, useState } from 'react';
+import { toast } from 'sonner';
+import { ResetIcon } from '@radix-ui/react-icons';
+import { PanelHeaderButton } from '~/components/ui/PanelHeaderButton';
+import { lastCompleteMessageInfoStore } from '~/lib/stores/startup/messages';
+import { workbenchStore } from '~/lib/stores/workbench.client';
+import { classNames } from '~/utils/classNames';
+import { fileVersions, type FileVersion } from '~/utils/fileVersions';
+import type { AbsolutePath } from 'chef-agent/utils/workDir';
+
+const SOURCE_LABELS: Record<FileVersion['source'], string> = {
+  file: 'Wrote file',
+  edit: 'Edited',
+  patch: 'Patched',
+};
+
+interface FileTimelineProps {
+  filePath: AbsolutePath;
+  currentContent: string;
+}
+
+export const FileTimeline = memo(function FileTimeline({ filePath, currentContent }: FileTimelineProps) {
+  const messages = useStore(lastCompleteMessageInfoStore)?.allMessages;
+  const versions = useMemo(() => fileVersions(messages ?? [], filePath).reverse(), [messages, filePath]);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const selected = versions[selectedIndex] as FileVersion | undefined;
+
+  const changes = useMemo(
+    () => (selected ? diffLines(currentContent, selected.content) : []),
+    [currentContent, selected],
+  );
+
+  const restore = async (version: FileVersion) => {
+    try {
+      await workbenchStore.restoreFileVersion(filePath, version.content);
+      toast.success('Restored file');
+    } catch (error) {
+      console.error('Failed to restore file', error);
+      toast.error('Failed to restore file');
+    }
+  };
+
+  if (versions.length === 0) {
+    return (
+      <div className="p-4 text-sm text-content-secondary">
+        The assistant hasn&apos;t written this file in this chat, or changed it in a way that can&apos;t be replayed.
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex h-full text-sm">
+      <ol className="w-56 shrink-0 overflow-auto border-r">
+        {versions.map((version, index) => (
+          <li key={`${version.messageId}-${version.partIndex}`}>
+            <button
+              className={classNames('flex w-full flex-col px-3 py-2 text-left', {
+                'bg-bolt-elements-item-backgroundAccent text-bolt-elements-item-contentAccent': index === selectedIndex,
+                'hover:bg-bolt-elements-item-backgroundActive': index !== selectedIndex,
+              })}
+              onClick={() => setSelectedIndex(index)}
+            >
+              <span>
+                {index === 0 ? 'Latest version' : `Version ${versions.length - index}`}
+                {version.content === currentContent && ' (current)'}
+              </span>
+              <span className="text-xs text-content-secondary">
+                {SOURCE_LABELS[version.source]} in message {messageNumber(messages ?? [], version.messageId)}
+              </span>
+            </button>
+          </li>
+        ))}
+      </ol>
+      {selected && (
+        <div className="flex min-w-0 flex-1 flex-col">
+          <div className="flex items-center border-b px-3 py-1">
+            <span className="text-content-secondary">Changes to restore this version</span>
+            <PanelHeaderButton
+              className="ml-auto"
+              disabled={selected.content === currentContent}
+              onClick={() => restore(selected)}
+            >
+              <ResetIcon />
+              Restore
+            </PanelHeaderButton>
+          </div>
+          <pre className="flex-1 overflow-auto bg-bolt-elements-background-depth-1 py-2 font-mono text-xs">
+            {changes.map((change, index) => (
+              <div
+                key={index}
+                className={classNames('whitespace-pre-wrap px-3', {
+                  'bg-green-500/10 text-green-500': !!change.added,
+                  'bg-red-500/10 text-red-500': !!change.removed,
+                  'text-content-secondary': !change.added && !change.removed,
+                })}
+              >
+                {change.value
+                  .replace(/\n$/, '')
+                  .split('\n')
+                  .map((line) => `${change.added ? '+' : change.removed ? '-' : ' '} ${line}`)
+                  .join('\n')}
+              </div>
+            ))}
+          </pre>
+        </div>
+      )}
+    </div>
+  );
+});
+
+function messageNumber(messages: { id: string }[], messageId: string) {
+  return messages.findIndex((message) => message.id === messageId) + 1;
+}
@@ -7,10 +7,14 @@ import type { FileHistory } from '~/types/actions';
 import { diffLines, type Change } from 'diff';
 import { CaretRightIcon, CaretDownIcon, FileIcon } from '@radix-ui/react-icons';
 import { DEFAULT_COLLAPSED_FOLDERS } from '~/utils/constants';
+import { hasDroppedFiles } from '~/utils/fileUpload';
+import { path } from 'chef-agent/utils/path';
 
 const logger = createScopedLogger('FileTree');
 
 const NODE_PADDING_LEFT = 8;
+// The data type for dragging a file or folder within the tree.
+const MOVE_DATA_TYPE = 'application/x-chef-file-path';
 const DEFAULT_HIDDEN_FILES = [/\/node_modules\//, /\/\.next/, /\/\.astro/];
 
 interface Props {
@@ -24,9 +28,21 @@ interface Props {
   hiddenFiles?: Array<string | RegExp>;
   unsavedFiles?: Set<string>;
   fileHistory?: Record<string, FileHistory>;
+  // Called with the folder that files from the user's computer were dropped on.
+  onDropFiles?: (folder: string, dataTransfer: DataTransfer) => void;
+  // Enables the context menu items and dragging to change the project's files.
+  fileActions?: FileActions;
   className?: string;
 }
 
+export interface FileActions {
+  onNewFile: (folder: string) => void;
+  onNewFolder: (folder: string) => void;
+  onRename: (filePath: string) => void;
+  onDelete: (filePath: string) => void;
+  onMove: (filePath: string, folder: string) => void;
+}
+
 export const FileTree = memo(
   ({
     files = {},
@@ -40,6 +56,8 @@ export const FileTree = memo(
     className,
     unsavedFiles,
     fileHistory = {},
+    onDropFiles,
+    fileActions,
   }: Props) => {
     renderLogger.trace('FileTree');
 
@@ -105,6 +123,46 @@ export const FileTree = memo(
       return list;
     }, [fileList, collapsedFolders]);
 
+    const [dropFolder, setDropFolder] = useState<string>();
+
+    const dropFolderAt = (target: EventTarget) => {
+      const node = (target as HTMLElement).closest<HTMLElement>('[data-drop-folder]');
+      return node?.dataset.dropFolder ?? rootFolder ?? '/';
+    };
+
+    const isMove = (event: React.DragEvent) =>
+      !!fileActions && Array.from(event.dataTransfer.types).includes(MOVE_DATA_TYPE);
+    const isUpload = (event: React.DragEvent) => !!onDropFiles && hasDroppedFiles(event.dataTransfer);
+
+    const onDragOver = (event: React.DragEvent) => {
+      if (!isMove(event) && !isUpload(event)) {
+        return;
+      }
+      event.preventDefault();
+      event.dataTransfer.dropEffect = isMove(event) ? 'move' : 'copy';
+      setDropFolder(dropFolderAt(event.target));
+    };
+
+    const onDragLeave = (event: React.DragEvent) => {
+      if (!event.currentTarget.contains(event.relatedTarget as HTMLElement | null)) {
+        setDropFolder(undefined);
+      }
+    };
+
+    const onDrop = (event: React.DragEvent) => {
+      if (isMove(event)) {
+        event.preventDefault();
+        setDropFolder(undefined);
+        fileActions!.onMove(event.dataTransfer.getData(MOVE_DATA_TYPE), dropFolderAt(event.target));
+        return;
+      }
+      if (isUpload(event)) {
+        event.preventDefault();
+        setDropFolder(undefined);
+        onDropFiles!(dropFolderAt(event.target), event.dataTransfer);
+      }
+    };
+
     const toggleCollapseState = (fullPath: string) => {
       setCollapsedFolders((prevSet) => {
         const newSet = new Set(prevSet);
@@ -120,12 +178,21 @@ export const FileTree = memo(
     };
 
     return (
-      <div className={classNames('text-sm', className, 'overflow-y-auto')}>
+      <div
+        className={classNames('text-sm', className, 'overflow-y-auto', {
+          'bg-bolt-elements-item-backgroundActive': dropFolder !== undefined && dropFolder === rootFolder,
+        })}
+        onDragOver={onDragOver}
+        onDragLeave={onDragLeave}
+        onDrop={onDrop}
+      >
         {filteredFileList.map((fileOrFolder) => {
           return (
             <FileOrFolder
               key={fileOrFolder.id}
               fileOrFolder={fileOrFolder}
+              dropFolder={dropFolder}
+              fileActions={fileActions}
               rootFolder={rootFolder}
               selectedFile={selectedFile}
               unsavedFiles={unsavedFiles}
@@ -145,6 +212,8 @@ FileTree.displayName = 'FileTree';
 
 interface FileOrFolderProps {
   fileOrFolder: FileNode | FolderNode;
+  dropFolder?: string;
+  fileActions?: FileActions;
   rootFolder?: string;
   selectedFile?: string;
   unsavedFiles?: Set<string>;
@@ -157,6 +226,8 @@ interface FileOrFolderProps {
 
 function FileOrFolder({
   fileOrFolder,
+  dropFolder,
+  fileActions,
   rootFolder,
   selectedFile,
   unsavedFiles,
@@ -189,38 +260,50 @@ function FileOrFolder({
     toggleCollapseState(fileOrFolder.fullPath);
   }, [fileOrFolder.fullPath, toggleCollapseState]);
 
-  switch (fileOrFolder.kind) {
-    case 'file': {
-      return (
+  // Files dropped on a file go in its folder.
+  const folder = fileOrFolder.kind === 'folder' ? fileOrFolder.fullPath : path.dirname(fileOrFolder.fullPath);
+
+  const actions = useMemo<NodeActions | undefined>(
+    () =>
+      fileActions && {
+        path: fileOrFolder.fullPath,
+        onNewFile: () => fileActions.onNewFile(folder),
+        onNewFolder: () => fileActions.onNewFolder(folder),
+        onRename: () => fileActions.onRename(fileOrFolder.fullPath),
+        onDelete: () => fileActions.onDelete(fileOrFolder.fullPath),
+      },
+    [fileActions, fileOrFolder.fullPath, folder],
+  );
+
+  return (
+    <div
+      data-drop-folder={folder}
+      className={classNames({ 'bg-bolt-elements-item-backgroundActive': dropFolder === folder })}
+    >
+      {fileOrFolder.kind === 'file' ? (
         <File
-          key={fileOrFolder.id}
           selected={selectedFile === fileOrFolder.fullPath}
           file={fileOrFolder}
           unsavedChanges={unsavedFiles?.has(fileOrFolder.fullPath)}
           fileHistory={fileHistory}
           onCopyPath={onCopyPath}
           onCopyRelativePath={onCopyRelativePath}
+          actions={actions}
           onClick={onFileClick}
         />
-      );
-    }
-    case 'folder': {
-      return (
+      ) : (
         <Folder
-          key={fileOrFolder.id}
           folder={fileOrFolder}
           selected={allowFolderSelection && selectedFile === fileOrFolder.fullPath}
           collapsed={collapsedFolders.has(fileOrFolder.fullPath)}
           onCopyPath={onCopyPath}
           onCopyRelativePath={onCopyRelativePath}
+          actions={actions}
           onClick={onFolderClick}
         />
-      );
-    }
-    default: {
-      return undefined;
-    }
-  }
+      )}
+    </div>
+  );
 }
 
 interface FolderProps {
@@ -229,12 +312,23 @@ interface FolderProps {
   selected?: boolean;
   onCopyPath: () => void;
   onCopyRelativePath: () => void;
+  actions?: NodeActions;
   onClick: () => void;
 }
 
+// `FileActions` for a node in the tree.
+interface NodeActions {
+  path: string;
+  onNewFile: () => void;
+  onNewFolder: () => void;
+  onRename: () => void;
+  onDelete: () => void;
+}
+
 interface FolderContextMenuProps {
   onCopyPath?: () => void;
   onCopyRelativePath?: () => void;
+  actions?: NodeActions;
   children: ReactNode;
 }
 
@@ -250,7 +344,7 @@ function ContextMenuItem({ onSelect, children }: { onSelect?: () => void; childr
   );
 }
 
-function FileContextMenu({ onCopyPath, onCopyRelativePath, children }: FolderContextMenuProps) {
+function FileContextMenu({ onCopyPath, onCopyRelativePath, actions, children }: FolderContextMenuProps) {
   return (
     <ContextMenu.Root>
       <ContextMenu.Trigger>{children}</ContextMenu.Trigger>
@@ -263,15 +357,35 @@ function FileContextMenu({ onCopyPath, onCopyRelativePath, children }: FolderCon
             <ContextMenuItem onSelect={onCopyPath}>Copy path</ContextMenuItem>
             <ContextMenuItem onSelect={onCopyRelativePath}>Copy relative path</ContextMenuItem>
           </ContextMenu.Group>
+          {actions && (
+            <>
+              <ContextMenu.Group className="border-b p-1">
+                <ContextMenuItem onSelect={actions.onNewFile}>New file…</ContextMenuItem>
+                <ContextMenuItem onSelect={actions.onNewFolder}>New folder…</ContextMenuItem>
+              </ContextMenu.Group>
+              <ContextMenu.Group className="p-1">
+                <ContextMenuItem onSelect={actions.onRename}>Rename…</ContextMenuItem>
+                <ContextMenuItem onSelect={actions.onDelete}>Delete</ContextMenuItem>
+              </ContextMenu.Group>
+            </>
+          )}
         </ContextMenu.Content>
       </ContextMenu.Portal>
     </ContextMenu.Root>
   );
 }
 
-function Folder({ folder, collapsed, selected = false, onCopyPath, onCopyRelativePath, onClick }: FolderProps) {
+function Folder({
+  folder,
+  collapsed,
+  selected = false,
+  onCopyPath,
+  onCopyRelativePath,
+  actions,
+  onClick,
+}: FolderProps) {
   return (
-    <FileContextMenu onCopyPath={onCopyPath} onCopyRelativePath={onCopyRelativePath}>
+    <FileContextMenu onCopyPath={onCopyPath} onCopyRelativePath={onCopyRelativePath} actions={actions}>
       <NodeButton
         className={classNames('group', {
           'bg-transparent text-bolt-elements-item-contentDefault hover:text-bolt-elements-item-contentActive hover:bg-bolt-elements-item-backgroundActive':
@@ -279,6 +393,7 @@ function Folder({ folder, collapsed, selected = false, onCopyPath, onCopyRelativ
           'bg-bolt-elements-item-backgroundAccent text-bolt-elements-item-contentAccent': selected,
         })}
         depth={folder.depth}
+        dragPath={actions?.path}
         icon={collapsed ? <CaretRightIcon /> : <CaretDownIcon />}
         onClick={onClick}
       >
@@ -295,6 +410,7 @@ interface FileProps {
   fileHistory?: Record<string, FileHistory>;
   onCopyPath: () => void;
   onCopyRelativePath: () => void;
+  actions?: NodeActions;
   onClick: () => void;
 }
 
@@ -303,6 +419,7 @@ function File({
   onClick,
   onCopyPath,
   onCopyRelativePath,
+  actions,
   selected,
   unsavedChanges = false,
   fileHistory = {},
@@ -351,7 +468,7 @@ function File({
   const showStats = additions > 0 || deletions > 0;
 
   return (
-    <FileContextMenu onCopyPath={onCopyPath} onCopyRelativePath={onCopyRelativePath}>
+    <FileContextMenu onCopyPath={onCopyPath} onCopyRelativePath={onCopyRelativePath} actions={actions}>
       <NodeButton
         className={classNames('group', {
           'bg-transparent hover:bg-bolt-elements-item-backgroundActive text-bolt-elements-item-contentDefault':
@@ -359,6 +476,7 @@ function File({
           'bg-bolt-elements-item-backgroundAccent text-bolt-elements-item-contentAccent': selected,
         })}
         depth={depth}
+        dragPath={actions?.path}
         icon={
           <FileIcon
             className={classNames({
@@ -391,15 +509,24 @@ function File({
 
 interface ButtonProps {
   depth: number;
+  // Makes the node draggable to move it to another folder.
+  dragPath?: string;
   icon: ReactNode;
   children: ReactNode;
   className?: string;
   onClick?: () => void;
 }
 
-function NodeButton({ depth, icon, onClick, className, children }: ButtonProps) {
+function NodeButton({ depth, dragPath, icon, onClick, className, children }: ButtonProps) {
   return (
     <button
+      draggable={dragPath !== undefined}
+      onDragStart={(event) => {
+        if (dragPath !== undefined) {
+          event.dataTransfer.setData(MOVE_DATA_TYPE, dragPath);
+          event.dataTransfer.effectAllowed = 'move';
+        }
+      }}
       className={classNames(
         'flex items-center gap-1.5 w-full pr-2 border-2 border-transparent text-faded py-0.5',
         className,
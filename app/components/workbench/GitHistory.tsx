@@ -0,0 +1,39 @@
+import { useStore } from '@nanostores/react';
+import { memo, useEffect } from 'react';
+import { TimestampDistance } from '~/components/ui/TimestampDistance';
+import { gitHistoryStore, loadGitHistory } from '~/lib/stores/gitHistory';
+import { createScopedLogger } from 'chef-agent/utils/logger';
+
+const logger = createScopedLogger('GitHistory');
+
+export const GitHistory = memo(function GitHistory() {
+  const commits = useStore(gitHistoryStore);
+
+  useEffect(() => {
+    loadGitHistory().catch((e) => logger.error('Failed to load git history', e));
+  }, []);
+
+  return (
+    <div className="h-full overflow-auto bg-bolt-elements-background-depth-1 px-4 py-3 text-sm text-content-primary">
+      {commits.length === 0 && (
+        <div className="text-content-secondary">
+          Each completed response is committed to a git repository in the project. No commits yet.
+        </div>
+      )}
+      <ol className="flex flex-col">
+        {commits.map((commit) => (
+          <li key={commit.oid} className="flex flex-col gap-1 border-b py-2 last:border-b-0">
+            <div className="flex items-baseline gap-2">
+              <span className="truncate font-medium">{commit.subject}</span>
+              <span className="ml-auto shrink-0 font-mono text-xs text-content-tertiary">{commit.oid.slice(0, 7)}</span>
+            </div>
+            <TimestampDistance date={new Date(commit.timestamp)} />
+            {commit.body && (
+              <div className="line-clamp-3 whitespace-pre-wrap text-xs text-content-secondary">{commit.body}</div>
+            )}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+});
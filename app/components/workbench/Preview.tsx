@@ -4,10 +4,19 @@ import { IconButton } from '~/components/ui/IconButton';
 import { workbenchStore } from '~/lib/stores/workbench.client';
 import { PortDropdown } from './PortDropdown';
 import { Spinner } from '@ui/Spinner';
-import { UpdateIcon, MobileIcon, ExternalLinkIcon, CrossCircledIcon, ImageIcon } from '@radix-ui/react-icons';
+import {
+  UpdateIcon,
+  MobileIcon,
+  ExternalLinkIcon,
+  CrossCircledIcon,
+  ImageIcon,
+  CursorArrowIcon,
+} from '@radix-ui/react-icons';
 import * as Sentry from '@sentry/remix';
 import * as Dialog from '@radix-ui/react-dialog';
 import { ThumbnailChooser } from './ThumbnailChooser';
+import { selectedElementStore } from '~/lib/stores/selectedElement';
+import { toast } from 'sonner';
 
 type ResizeSide = 'left' | 'right' | null;
 
@@ -119,6 +128,26 @@ export const Preview = memo(function Preview({ showClose, onClose }: { showClose
     return workbenchStore.requestScreenshot(activePreviewIndex);
   }, [activePreviewIndex]);
 
+  const [isPickingElement, setIsPickingElement] = useState(false);
+  const toggleElementPicker = async () => {
+    if (isPickingElement) {
+      workbenchStore.stopPickingElement(activePreviewIndex);
+      return;
+    }
+    setIsPickingElement(true);
+    try {
+      const element = await workbenchStore.pickElement(activePreviewIndex);
+      if (element) {
+        selectedElementStore.set(element);
+      }
+    } catch (error) {
+      toast.error('Failed to select an element in the preview');
+      Sentry.captureException(error);
+    } finally {
+      setIsPickingElement(false);
+    }
+  };
+
   const startResizing = (e: React.MouseEvent, side: ResizeSide) => {
     if (!isDeviceModeOn) {
       return;
@@ -319,6 +348,14 @@ export const Preview = memo(function Preview({ showClose, onClose }: { showClose
             />
           </Dialog.Root>
 
+          <IconButton
+            icon={<CursorArrowIcon />}
+            onClick={toggleElementPicker}
+            className={isPickingElement ? 'text-content-link' : undefined}
+            disabled={!proxyBaseUrl}
+            title={isPickingElement ? 'Cancel Selecting an Element' : 'Select an Element to Reference in Chat'}
+          />
+
           <IconButton
             icon={<MobileIcon />}
             onClick={toggleDeviceMode}
@@ -351,6 +388,7 @@ export const Preview = memo(function Preview({ showClose, onClose }: { showClose
                 title="preview"
                 className="size-full border-none bg-bolt-elements-background-depth-1"
                 src={iframeUrl}
+                onLoad={() => workbenchStore.subscribeToPreviewErrors(activePreviewIndex)}
                 sandbox="allow-downloads allow-forms allow-modals allow-orientation-lock allow-pointer-lock allow-popups allow-popups-to-escape-sandbox allow-presentation allow-same-origin allow-scripts"
                 allow="accelerometer; ambient-light-sensor; autoplay; bluetooth; camera; clipboard-write; compute-pressure; display-capture; fullscreen; gamepad; geolocation; gyroscope; hid; identity-credentials-get; idle-detection; local-fonts; magnetometer; microphone; midi; otp-credentials; payment; picture-in-picture; publickey-credentials-create; publickey-credentials-get; screen-wake-lock; serial; speaker-selection; usb; web-share; window-management; xr-spatial-tracking"
                 allowFullScreen={true}
@@ -0,0 +1,175 @@
+import { useStore } from '@nanostores/react';
+import { memo, useMemo, useState } from 'react';
+import { ChevronDownIcon, ChevronRightIcon } from '@radix-ui/react-icons';
+import { Button } from '@ui/Button';
+import { toast } from 'sonner';
+import { workbenchStore } from '~/lib/stores/workbench.client';
+import { workDirRelative } from '~/utils/fileUtils';
+import { classNames } from '~/utils/classNames';
+import { searchFiles, searchRegExp, type SearchOptions } from '~/utils/search';
+import type { EditorRange } from '~/components/editor/codemirror/CodeMirrorEditor';
+import { createScopedLogger } from 'chef-agent/utils/logger';
+
+const logger = createScopedLogger('SearchPanel');
+
+const TOGGLES = [
+  { option: 'caseSensitive', label: 'Aa', title: 'Match case' },
+  { option: 'wholeWord', label: 'ab', title: 'Match whole word' },
+  { option: 'regex', label: '.*', title: 'Use regular expression' },
+] as const;
+
+interface SearchPanelProps {
+  isStreaming?: boolean;
+  onSelectMatch: (range: EditorRange) => void;
+}
+
+export const SearchPanel = memo(function SearchPanel({ isStreaming, onSelectMatch }: SearchPanelProps) {
+  const files = useStore(workbenchStore.files);
+  const [options, setOptions] = useState<SearchOptions>({
+    query: '',
+    regex: false,
+    caseSensitive: false,
+    wholeWord: false,
+    include: '',
+    exclude: 'node_modules',
+  });
+  const [replacement, setReplacement] = useState('');
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [replacing, setReplacing] = useState(false);
+
+  const regexpError = useMemo(() => {
+    const regexp = searchRegExp(options);
+    return typeof regexp === 'string' ? regexp : null;
+  }, [options]);
+  const results = useMemo(() => searchFiles(files, options), [files, options]);
+  const matchCount = results.reduce((count, result) => count + result.matches.length, 0);
+
+  const setOption = <K extends keyof SearchOptions>(option: K, value: SearchOptions[K]) => {
+    setOptions((options) => ({ ...options, [option]: value }));
+  };
+
+  const toggleCollapsed = (filePath: string) => {
+    const newCollapsed = new Set(collapsed);
+    if (newCollapsed.has(filePath)) {
+      newCollapsed.delete(filePath);
+    } else {
+      newCollapsed.add(filePath);
+    }
+    setCollapsed(newCollapsed);
+  };
+
+  const replaceAll = async () => {
+    setReplacing(true);
+    try {
+      const { changed, skipped } = await workbenchStore.replaceInFiles(options, replacement);
+      toast.success(`Replaced matches in ${changed} ${changed === 1 ? 'file' : 'files'}`);
+      if (skipped.length > 0) {
+        toast.info(
+          `Skipped ${skipped.length === 1 ? 'a file' : `${skipped.length} files`} with unsaved changes: ${skipped.map(workDirRelative).join(', ')}`,
+        );
+      }
+    } catch (e) {
+      logger.error('Failed to replace', e);
+      toast.error('Failed to replace');
+    } finally {
+      setReplacing(false);
+    }
+  };
+
+  const inputClassName = 'w-full rounded border bg-bolt-elements-background-depth-1 px-2 py-1 text-content-primary';
+
+  return (
+    <div className="flex h-full flex-col text-sm text-content-primary">
+      <div className="flex flex-col gap-1.5 border-b p-2">
+        <div className="flex items-center gap-1">
+          <input
+            className={classNames(inputClassName, { 'border-content-error': !!regexpError })}
+            placeholder="Search"
+            title={regexpError ?? undefined}
+            value={options.query}
+            onChange={(e) => setOption('query', e.target.value)}
+          />
+          {TOGGLES.map((toggle) => (
+            <button
+              key={toggle.option}
+              title={toggle.title}
+              className={classNames('rounded px-1.5 py-1 font-mono text-xs', {
+                'bg-bolt-elements-terminals-buttonBackground text-content-primary': options[toggle.option],
+                'text-content-secondary hover:bg-bolt-elements-terminals-buttonBackground': !options[toggle.option],
+              })}
+              onClick={() => setOption(toggle.option, !options[toggle.option])}
+            >
+              {toggle.label}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-1">
+          <input
+            className={inputClassName}
+            placeholder="Replace"
+            value={replacement}
+            onChange={(e) => setReplacement(e.target.value)}
+          />
+          <Button
+            size="xs"
+            variant="neutral"
+            disabled={results.length === 0 || replacing || isStreaming}
+            tip={isStreaming ? 'Wait for the response to finish' : undefined}
+            onClick={replaceAll}
+          >
+            Replace All
+          </Button>
+        </div>
+        <input
+          className={inputClassName}
+          placeholder="Files to include (e.g. src/**/*.tsx)"
+          value={options.include}
+          onChange={(e) => setOption('include', e.target.value)}
+        />
+        <input
+          className={inputClassName}
+          placeholder="Files to exclude"
+          value={options.exclude}
+          onChange={(e) => setOption('exclude', e.target.value)}
+        />
+      </div>
+      <div className="flex-1 overflow-auto py-1">
+        {options.query && !regexpError && (
+          <div className="px-2 py-1 text-xs text-content-secondary">
+            {matchCount} {matchCount === 1 ? 'result' : 'results'} in {results.length}{' '}
+            {results.length === 1 ? 'file' : 'files'}
+          </div>
+        )}
+        {results.map((result) => (
+          <div key={result.filePath}>
+            <button
+              className="flex w-full items-center gap-1 px-2 py-0.5 text-left hover:bg-bolt-elements-item-backgroundActive"
+              onClick={() => toggleCollapsed(result.filePath)}
+            >
+              {collapsed.has(result.filePath) ? <ChevronRightIcon /> : <ChevronDownIcon />}
+              <span className="truncate">{workDirRelative(result.filePath)}</span>
+              <span className="ml-auto shrink-0 text-xs text-content-tertiary">{result.matches.length}</span>
+            </button>
+            {!collapsed.has(result.filePath) &&
+              result.matches.map((match) => (
+                <button
+                  key={match.from}
+                  className="flex w-full gap-2 py-0.5 pl-7 pr-2 text-left font-mono text-xs hover:bg-bolt-elements-item-backgroundActive"
+                  onClick={() => onSelectMatch({ filePath: result.filePath, from: match.from, to: match.to })}
+                >
+                  <span className="shrink-0 text-content-tertiary">{match.line}</span>
+                  <span className="truncate whitespace-pre text-content-secondary">
+                    {match.preview.slice(0, match.previewFrom).trimStart()}
+                    <span className="rounded-sm bg-yellow-500/30 text-content-primary">
+                      {match.preview.slice(match.previewFrom, match.previewTo)}
+                    </span>
+                    {match.preview.slice(match.previewTo)}
+                  </span>
+                </button>
+              ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+});
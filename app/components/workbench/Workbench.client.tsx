@@ -19,6 +19,7 @@ import { EditorPanel } from './EditorPanel';
 import { Preview } from './Preview';
 import useViewport from '~/lib/hooks/useViewport';
 import { Dashboard } from './Dashboard';
+import { GitHistory } from './GitHistory';
 import { Allotment } from 'allotment';
 import { convexProjectStore } from '~/lib/stores/convexProject';
 import { BackupStatusIndicator } from '~/components/BackupStatusIndicator';
@@ -159,6 +160,10 @@ export const Workbench = memo(function Workbench({
               },
             ]
           : []),
+        {
+          value: 'history',
+          text: 'History',
+        },
       ],
     }),
     [showDashboard],
@@ -264,6 +269,9 @@ export const Workbench = memo(function Workbench({
                       <Dashboard />
                     </View>
                   )}
+                  <View {...slidingPosition({ view: 'history', selectedView, showDashboard })}>
+                    <GitHistory />
+                  </View>
                 </div>
               </div>
             </div>
@@ -296,7 +304,12 @@ function slidingPosition({
   selectedView: WorkbenchViewType;
   showDashboard: boolean;
 }) {
-  const tabsInOrder: WorkbenchViewType[] = ['code', 'preview', ...(showDashboard ? ['dashboard' as const] : [])];
+  const tabsInOrder: WorkbenchViewType[] = [
+    'code',
+    'preview',
+    ...(showDashboard ? ['dashboard' as const] : []),
+    'history',
+  ];
 
   const viewIndex = tabsInOrder.indexOf(view);
   const selectedViewIndex = tabsInOrder.indexOf(selectedView);
@@ -0,0 +1,92 @@
+import { useStore } from '@nanostores/react';
+import { memo, useEffect, useMemo, useRef, useState } from 'react';
+import { filterFunctionLogs, functionPath, type LogLevelFilter } from 'chef-agent/convexLogs';
+import { convexProjectStore } from '~/lib/stores/convexProject';
+import { convexLogsStore, ensureConvexLogsStream } from '~/lib/stores/convexLogs';
+import { classNames } from '~/utils/classNames';
+
+const LEVEL_FILTERS: { value: LogLevelFilter; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'warn', label: 'Warnings' },
+  { value: 'error', label: 'Errors' },
+];
+
+export const ConvexLogs = memo(function ConvexLogs({ className }: { className?: string }) {
+  const convexProject = useStore(convexProjectStore);
+  const logs = useStore(convexLogsStore);
+  const [functionName, setFunctionName] = useState('');
+  const [level, setLevel] = useState<LogLevelFilter>('all');
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (convexProject) {
+      void ensureConvexLogsStream(convexProject);
+    }
+  }, [convexProject]);
+
+  const filtered = useMemo(() => filterFunctionLogs(logs, { functionName, level }), [logs, functionName, level]);
+
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (element) {
+      element.scrollTop = element.scrollHeight;
+    }
+  }, [filtered]);
+
+  return (
+    <div className={classNames('flex h-full flex-col font-mono text-xs text-content-primary', className)}>
+      <div className="flex items-center gap-2 border-b px-3 py-1.5">
+        <input
+          className="w-56 rounded border bg-bolt-elements-background-depth-1 px-2 py-1 text-content-primary"
+          placeholder="Filter by function"
+          value={functionName}
+          onChange={(e) => setFunctionName(e.target.value)}
+        />
+        {LEVEL_FILTERS.map((filter) => (
+          <button
+            key={filter.value}
+            className={classNames('rounded-full px-2 py-1', {
+              'bg-bolt-elements-terminals-buttonBackground text-content-primary': level === filter.value,
+              'text-content-secondary hover:bg-bolt-elements-terminals-buttonBackground': level !== filter.value,
+            })}
+            onClick={() => setLevel(filter.value)}
+          >
+            {filter.label}
+          </button>
+        ))}
+      </div>
+      <div ref={scrollRef} className="flex-1 overflow-auto px-3 py-2">
+        {!convexProject && <div className="text-content-secondary">Connect a Convex project to see its logs.</div>}
+        {convexProject && filtered.length === 0 && (
+          <div className="text-content-secondary">No function executions yet.</div>
+        )}
+        {filtered.map((entry, i) => (
+          <div key={i} className="py-0.5">
+            <div className="flex gap-2">
+              <span className="text-content-tertiary">{new Date(entry.timestamp * 1000).toLocaleTimeString()}</span>
+              <span className="text-content-secondary">{entry.udfType[0]}</span>
+              <span className={classNames({ 'text-content-error': !!entry.error })}>
+                {functionPath(entry.identifier)}
+              </span>
+              {entry.executionTime !== undefined && (
+                <span className="text-content-tertiary">{Math.round(entry.executionTime * 1000)}ms</span>
+              )}
+            </div>
+            {entry.logLines.map((line, j) => (
+              <div
+                key={j}
+                className={classNames('whitespace-pre-wrap pl-4', {
+                  'text-content-error': line.level === 'ERROR',
+                  'text-content-warning': line.level === 'WARN',
+                })}
+              >
+                [{line.level}] {line.messages.join(' ')}
+              </div>
+            ))}
+            {entry.error && <div className="whitespace-pre-wrap pl-4 text-content-error">{entry.error}</div>}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+});
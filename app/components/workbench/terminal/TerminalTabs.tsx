@@ -13,11 +13,15 @@ import {
   isConvexDeployTerminalVisibleStore,
   VITE_TAB_INDEX,
   CONVEX_DEPLOY_TAB_INDEX,
+  CONVEX_LOGS_TAB_INDEX,
 } from '~/lib/stores/terminalTabs';
-import { CommandLineIcon } from '@heroicons/react/24/outline';
+import { convexProjectStore } from '~/lib/stores/convexProject';
+import { CommandLineIcon, QueueListIcon } from '@heroicons/react/24/outline';
+import { ConvexLogs } from './ConvexLogs';
 import { CaretDownIcon, PlusIcon } from '@radix-ui/react-icons';
 
-const MAX_TERMINALS = 5;
+// Includes the dev server, Convex deploy and Convex logs tabs.
+const MAX_TERMINALS = 6;
 export const DEFAULT_TERMINAL_SIZE = 25;
 
 export const TerminalTabs = memo(function TerminalTabs(terminalInitializationOptions?: TerminalInitializationOptions) {
@@ -26,9 +30,10 @@ export const TerminalTabs = memo(function TerminalTabs(terminalInitializationOpt
   const terminalPanelRef = useRef<ImperativePanelHandle>(null);
 
   const activeTerminal = useStore(activeTerminalTabStore);
-  const [terminalCount, setTerminalCount] = useState(2);
+  const [terminalCount, setTerminalCount] = useState(3);
 
   const isConvexDeployTerminalVisible = useStore(isConvexDeployTerminalVisibleStore);
+  const convexProject = useStore(convexProjectStore);
 
   const addTerminal = () => {
     if (terminalCount < MAX_TERMINALS) {
@@ -75,6 +80,9 @@ export const TerminalTabs = memo(function TerminalTabs(terminalInitializationOpt
               if (index === CONVEX_DEPLOY_TAB_INDEX && !isConvexDeployTerminalVisible) {
                 return null;
               }
+              if (index === CONVEX_LOGS_TAB_INDEX && !convexProject) {
+                return null;
+              }
 
               return (
                 <button
@@ -89,12 +97,18 @@ export const TerminalTabs = memo(function TerminalTabs(terminalInitializationOpt
                   )}
                   onClick={() => activeTerminalTabStore.set(index)}
                 >
-                  <CommandLineIcon className="size-4" />
+                  {index === CONVEX_LOGS_TAB_INDEX ? (
+                    <QueueListIcon className="size-4" />
+                  ) : (
+                    <CommandLineIcon className="size-4" />
+                  )}
                   {index === VITE_TAB_INDEX
                     ? 'Dev Server'
                     : index === CONVEX_DEPLOY_TAB_INDEX
                       ? 'Convex Deploy'
-                      : `Terminal ${terminalCount > 2 ? index - 1 : ''}`}
+                      : index === CONVEX_LOGS_TAB_INDEX
+                        ? 'Convex Logs'
+                        : `Terminal ${terminalCount > 3 ? index - 2 : ''}`}
                 </button>
               );
             })}
@@ -107,15 +121,19 @@ export const TerminalTabs = memo(function TerminalTabs(terminalInitializationOpt
               onClick={() => workbenchStore.toggleTerminal(false)}
             />
           </div>
-          {Array.from({ length: terminalCount + 1 }, (_, index) => (
-            <TerminalWrapper
-              key={index}
-              index={index}
-              activeTerminal={activeTerminal}
-              isReload={terminalInitializationOptions?.isReload}
-              shouldDeployConvexFunctions={terminalInitializationOptions?.shouldDeployConvexFunctions}
-            />
-          ))}
+          {Array.from({ length: terminalCount + 1 }, (_, index) =>
+            index === CONVEX_LOGS_TAB_INDEX ? (
+              <ConvexLogs key={index} className={classNames({ hidden: activeTerminal !== index })} />
+            ) : (
+              <TerminalWrapper
+                key={index}
+                index={index}
+                activeTerminal={activeTerminal}
+                isReload={terminalInitializationOptions?.isReload}
+                shouldDeployConvexFunctions={terminalInitializationOptions?.shouldDeployConvexFunctions}
+              />
+            ),
+          )}
         </div>
       </div>
     </Panel>
@@ -6,9 +6,16 @@ import { BatchSpanProcessor, WebTracerProvider } from '@opentelemetry/sdk-trace-
 import type { LanguageModelUsage, Message, ProviderMetadata } from 'ai';
 import { checkTokenUsage, recordUsage } from '~/lib/.server/usage';
 import { disabledText, noTokensText } from '~/lib/convexUsage';
-import type { ModelProvider } from '~/lib/.server/llm/provider';
+import {
+  localModelsEnabled,
+  OPENAI_COMPATIBLE_PROVIDERS,
+  type ModelProvider,
+  type ProviderSettings,
+} from '~/lib/.server/llm/provider';
 import { getEnv } from '~/lib/.server/env';
-import type { PromptCharacterCounts } from 'chef-agent/ChatContextManager';
+import { canUseDefaultKey } from '~/lib/common/models';
+import type { PromptCharacterCounts, RelevantFile } from 'chef-agent/ChatContextManager';
+import type { ApiKey } from '@convex/schema';
 
 type Messages = Message[];
 
@@ -61,13 +68,12 @@ export async function chatAction({ request }: ActionFunctionArgs) {
     deploymentName: string | undefined;
     modelProvider: ModelProvider;
     modelChoice: string | undefined;
-    userApiKey:
-      | { preference: 'always' | 'quotaExhausted'; value?: string; openai?: string; xai?: string; google?: string }
-      | undefined;
+    userApiKey: ApiKey | undefined;
     shouldDisableTools: boolean;
     recordRawPromptsForDebugging?: boolean;
     collapsedMessages: boolean;
     promptCharacterCounts?: PromptCharacterCounts;
+    relevantFiles?: RelevantFile[];
     mcpServers?: Array<{
       name: string;
       description?: string;
@@ -89,17 +95,21 @@ export async function chatAction({ request }: ActionFunctionArgs) {
     body.modelProvider = 'Anthropic';
   }
 
+  if (body.modelProvider === 'Local' && !localModelsEnabled()) {
+    return new Response(JSON.stringify({ error: 'Local models are not enabled on this server.' }), {
+      status: 400,
+    });
+  }
+
   let useUserApiKey = false;
 
-  // Use the user's API key if they're set to always mode or if they manually set a model.
-  // Sonnet 4 can be used with the default API key since it has the same pricing as Sonnet 3.5
-  // GPT-5 can be used with our own API key since it has the same pricing as Gemini 2.5 Pro
+  // Use the user's API key if they're set to always mode or if they manually set a model that
+  // can't be used with the default API keys, which is set in the model registry.
+  // Chef has no API keys for the OpenAI-compatible providers, so they always use the user's own.
   if (
     body.userApiKey?.preference === 'always' ||
-    (body.modelChoice &&
-      body.modelChoice !== 'claude-sonnet-4-0' &&
-      body.modelChoice !== 'gpt-5' &&
-      body.modelChoice !== 'claude-sonnet-4-5')
+    OPENAI_COMPATIBLE_PROVIDERS.includes(body.modelProvider) ||
+    (body.modelChoice && !canUseDefaultKey(body.modelChoice))
   ) {
     useUserApiKey = true;
   }
@@ -136,8 +146,25 @@ export async function chatAction({ request }: ActionFunctionArgs) {
   }
 
   let userApiKey: string | undefined;
+  const providerSettings: ProviderSettings = {};
   if (useUserApiKey) {
-    if (body.modelProvider === 'Anthropic' || body.modelProvider === 'Bedrock') {
+    if (body.modelProvider === 'Local') {
+      providerSettings.localModel = body.userApiKey?.local;
+    } else if (body.modelProvider === 'Azure') {
+      const azure = body.userApiKey?.azure;
+      userApiKey = azure?.apiKey;
+      providerSettings.azure = azure && { resourceName: azure.resourceName, deployment: azure.deployment };
+    } else if (body.modelProvider === 'Mistral') {
+      userApiKey = body.userApiKey?.mistral;
+    } else if (body.modelProvider === 'DeepSeek') {
+      userApiKey = body.userApiKey?.deepseek;
+    } else if (body.modelProvider === 'OpenRouter') {
+      userApiKey = body.userApiKey?.openrouter;
+    } else if (
+      body.modelProvider === 'Anthropic' ||
+      body.modelProvider === 'Bedrock' ||
+      body.modelProvider === 'Vertex'
+    ) {
       userApiKey = body.userApiKey?.value;
       body.modelProvider = 'Anthropic';
     } else if (body.modelProvider === 'OpenAI') {
@@ -148,7 +175,7 @@ export async function chatAction({ request }: ActionFunctionArgs) {
       userApiKey = body.userApiKey?.google;
     }
 
-    if (!userApiKey) {
+    if (!userApiKey && !providerSettings.localModel) {
       return new Response(
         JSON.stringify({ code: 'missing-api-key', error: `Tried to use missing ${body.modelProvider} API key.` }),
         {
@@ -162,17 +189,10 @@ export async function chatAction({ request }: ActionFunctionArgs) {
   const recordUsageCb = async (
     lastMessage: Message | undefined,
     finalGeneration: { usage: LanguageModelUsage; providerMetadata?: ProviderMetadata },
+    servedBy: ModelProvider,
   ) => {
-    if (!userApiKey && getEnv('DISABLE_USAGE_REPORTING') !== '1') {
-      await recordUsage(
-        PROVISION_HOST,
-        token,
-        body.modelProvider,
-        teamSlug,
-        deploymentName,
-        lastMessage,
-        finalGeneration,
-      );
+    if (!userApiKey && !providerSettings.localModel && getEnv('DISABLE_USAGE_REPORTING') !== '1') {
+      await recordUsage(PROVISION_HOST, token, servedBy, teamSlug, deploymentName, lastMessage, finalGeneration);
     }
   };
 
@@ -185,20 +205,20 @@ export async function chatAction({ request }: ActionFunctionArgs) {
       messages,
       tracer,
       modelProvider: body.modelProvider,
-      // Only set the requested model choice if we're using a user API key or Claude 4 Sonnet/GPT-5
+      // Local models and Azure deployments use the model from the member's settings. Otherwise, only
+      // set the requested model choice if we're using a user API key or it can use the default keys.
       modelChoice:
-        userApiKey ||
-        body.modelChoice === 'claude-sonnet-4-0' ||
-        body.modelChoice === 'gpt-5' ||
-        body.modelChoice === 'claude-sonnet-4-5'
-          ? body.modelChoice
-          : undefined,
+        providerSettings.localModel?.model ??
+        providerSettings.azure?.deployment ??
+        (userApiKey || canUseDefaultKey(body.modelChoice) ? body.modelChoice : undefined),
       userApiKey,
+      providerSettings,
       shouldDisableTools: body.shouldDisableTools,
       recordUsageCb,
       recordRawPromptsForDebugging: !!recordRawPromptsForDebugging,
       collapsedMessages: body.collapsedMessages,
       promptCharacterCounts: body.promptCharacterCounts,
+      relevantFiles: body.relevantFiles,
       mcpServers: body.mcpServers,
       featureFlags: {
         enableResend: body.featureFlags.enableResend ?? false,
@@ -232,12 +252,7 @@ export async function chatAction({ request }: ActionFunctionArgs) {
 }
 
 // Returns whether or not the user has an API key set for a given provider
-function hasApiKeySetForProvider(
-  userApiKey:
-    | { preference: 'always' | 'quotaExhausted'; value?: string; openai?: string; xai?: string; google?: string }
-    | undefined,
-  provider: ModelProvider,
-) {
+function hasApiKeySetForProvider(userApiKey: ApiKey | undefined, provider: ModelProvider) {
   switch (provider) {
     case 'Anthropic':
       return userApiKey?.value !== undefined;
@@ -247,6 +262,16 @@ function hasApiKeySetForProvider(
       return userApiKey?.xai !== undefined;
     case 'Google':
       return userApiKey?.google !== undefined;
+    case 'Azure':
+      return userApiKey?.azure !== undefined;
+    case 'Mistral':
+      return userApiKey?.mistral !== undefined;
+    case 'DeepSeek':
+      return userApiKey?.deepseek !== undefined;
+    case 'OpenRouter':
+      return userApiKey?.openrouter !== undefined;
+    case 'Local':
+      return userApiKey?.local !== undefined;
     default:
       return false;
   }
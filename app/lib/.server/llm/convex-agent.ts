@@ -17,8 +17,10 @@ import type { ConvexToolSet } from 'chef-agent/types';
 import { npmInstallTool } from 'chef-agent/tools/npmInstall';
 import type { Tracer } from '~/lib/.server/chat';
 import { editTool } from 'chef-agent/tools/edit';
+import { searchTool } from 'chef-agent/tools/search';
+import { patchTool } from 'chef-agent/tools/patch';
 import { captureException, captureMessage } from '@sentry/remix';
-import type { SystemPromptOptions } from 'chef-agent/types';
+import type { FileWriteMode, SystemPromptOptions } from 'chef-agent/types';
 import { cleanupAssistantMessages } from 'chef-agent/cleanupAssistantMessages';
 import { logger } from 'chef-agent/utils/logger';
 import { encodeUsageAnnotation, encodeModelAnnotation } from '~/lib/.server/usage';
@@ -29,17 +31,49 @@ import { waitUntil } from '@vercel/functions';
 import type { internal } from '@convex/_generated/api';
 import type { Usage } from '~/lib/common/annotations';
 import type { UsageRecord } from '@convex/schema';
-import { getProvider, type ModelProvider } from '~/lib/.server/llm/provider';
+import {
+  getProvider,
+  providerFallbackChain,
+  supportsImageInputs,
+  supportsTools,
+  type ModelProvider,
+  type ProviderSettings,
+} from '~/lib/.server/llm/provider';
 import { getEnv } from '~/lib/.server/env';
-import { calculateChefTokens, usageFromGeneration } from '~/lib/common/usage';
+import { failoverModel } from '~/lib/.server/llm/failover';
+import { calculateChefTokens, tokenCount, usageFromGeneration } from '~/lib/common/usage';
 import { lookupDocsTool } from 'chef-agent/tools/lookupDocs';
 import { addEnvironmentVariablesTool } from 'chef-agent/tools/addEnvironmentVariables';
 import { getConvexDeploymentNameTool } from 'chef-agent/tools/getConvexDeploymentName';
-import type { PromptCharacterCounts } from 'chef-agent/ChatContextManager';
+import { runConvexFunctionTool } from 'chef-agent/tools/runConvexFunction';
+import { readLogsTool } from 'chef-agent/tools/readLogs';
+import { inspectDataTool } from 'chef-agent/tools/inspectData';
+import { screenshotTool } from 'chef-agent/tools/screenshot';
+import { writeFileTool } from 'chef-agent/tools/writeFile';
+import { deleteFileTool } from 'chef-agent/tools/deleteFile';
+import { renameFileTool } from 'chef-agent/tools/renameFile';
+import type { PromptCharacterCounts, RelevantFile } from 'chef-agent/ChatContextManager';
 import { loadMCPTools } from '~/lib/.server/mcp/mcpLoader';
 
 type Messages = Message[];
 
+// How each provider's models write files. Gemini, GPT, Mistral and DeepSeek models often leave
+// `<boltArtifact>` and `<boltAction>` tags half-closed, so they write files with the `writeFile`
+// tool instead. OpenRouter defaults to Claude.
+const FILE_WRITE_MODES: Record<ModelProvider, FileWriteMode> = {
+  Anthropic: 'artifact',
+  Bedrock: 'artifact',
+  Vertex: 'artifact',
+  OpenAI: 'toolCall',
+  Google: 'toolCall',
+  XAI: 'artifact',
+  Azure: 'toolCall',
+  Mistral: 'toolCall',
+  DeepSeek: 'toolCall',
+  OpenRouter: 'artifact',
+  Local: 'artifact',
+};
+
 export async function convexAgent(args: {
   chatInitialId: string;
   firstUserMessage: boolean;
@@ -48,14 +82,17 @@ export async function convexAgent(args: {
   modelProvider: ModelProvider;
   modelChoice: string | undefined;
   userApiKey: string | undefined;
+  providerSettings: ProviderSettings;
   shouldDisableTools: boolean;
   recordUsageCb: (
     lastMessage: Message | undefined,
     finalGeneration: { usage: LanguageModelUsage; providerMetadata?: ProviderMetadata },
+    servedBy: ModelProvider,
   ) => Promise<void>;
   recordRawPromptsForDebugging: boolean;
   collapsedMessages: boolean;
   promptCharacterCounts?: PromptCharacterCounts;
+  relevantFiles?: RelevantFile[];
   mcpServers?: Array<{
     name: string;
     description?: string;
@@ -77,12 +114,14 @@ export async function convexAgent(args: {
     tracer,
     modelProvider,
     userApiKey,
+    providerSettings,
     modelChoice,
     shouldDisableTools,
     recordUsageCb,
     recordRawPromptsForDebugging,
     collapsedMessages,
     promptCharacterCounts,
+    relevantFiles,
     mcpServers,
     featureFlags,
   } = args;
@@ -94,7 +133,13 @@ export async function convexAgent(args: {
   const startTime = Date.now();
   let firstResponseTime: number | null = null;
 
-  const provider = getProvider(userApiKey, modelProvider, modelChoice);
+  // Overloaded and server errors are retried with backoff, failing over along the provider chain.
+  const chain = providerFallbackChain(modelProvider, userApiKey);
+  const providers = chain.map((chainProvider) => getProvider(userApiKey, chainProvider, modelChoice, providerSettings));
+  const provider = providers[0];
+  const failover = failoverModel(
+    chain.map((chainProvider, i) => ({ provider: chainProvider, model: providers[i].model })),
+  );
   const opts: SystemPromptOptions = {
     enableBulkEdits: true,
     includeTemplate: true,
@@ -104,6 +149,8 @@ export async function convexAgent(args: {
     resendProxyEnabled: getEnv('RESEND_PROXY_ENABLED') == '1',
     enableResend: featureFlags.enableResend,
     hasMcpServers: mcpServers && mcpServers.length > 0,
+    enableScreenshots: supportsImageInputs(modelProvider, modelChoice, providerSettings),
+    fileWriteMode: FILE_WRITE_MODES[modelProvider],
   };
   const tools: ConvexToolSet = {
     deploy: deployTool,
@@ -114,6 +161,19 @@ export async function convexAgent(args: {
   tools.addEnvironmentVariables = addEnvironmentVariablesTool();
   tools.view = viewTool;
   tools.edit = editTool;
+  tools.search = searchTool;
+  tools.patch = patchTool;
+  tools.runConvexFunction = runConvexFunctionTool;
+  tools.readLogs = readLogsTool;
+  tools.inspectData = inspectDataTool;
+  if (opts.enableScreenshots) {
+    tools.screenshot = screenshotTool;
+  }
+  if (opts.fileWriteMode === 'toolCall') {
+    tools.writeFile = writeFileTool;
+    tools.deleteFile = deleteFileTool;
+    tools.renameFile = renameFileTool;
+  }
 
   // Load MCP tools if available
   if (mcpServers && mcpServers.length > 0) {
@@ -136,11 +196,14 @@ export async function convexAgent(args: {
       role: 'system' as const,
       content: generalSystemPrompt(opts),
     },
-    ...cleanupAssistantMessages(messages),
+    ...cleanupAssistantMessages(messages, tools),
   ];
 
-  if (modelProvider === 'Bedrock') {
-    messagesForDataStream[messagesForDataStream.length - 1].providerOptions = {
+  // Set the cache point for every provider the request might fail over to.
+  const lastMessage = messagesForDataStream[messagesForDataStream.length - 1];
+  if (chain.includes('Bedrock')) {
+    lastMessage.providerOptions = {
+      ...lastMessage.providerOptions,
       bedrock: {
         cachePoint: {
           type: 'default',
@@ -149,8 +212,9 @@ export async function convexAgent(args: {
     };
   }
 
-  if (modelProvider === 'Anthropic') {
-    messagesForDataStream[messagesForDataStream.length - 1].providerOptions = {
+  if (chain.includes('Anthropic') || chain.includes('Vertex')) {
+    lastMessage.providerOptions = {
+      ...lastMessage.providerOptions,
       anthropic: {
         cacheControl: {
           type: 'ephemeral',
@@ -162,12 +226,16 @@ export async function convexAgent(args: {
   const dataStream = createDataStream({
     execute(dataStream) {
       const result = streamText({
-        model: provider.model,
+        model: failover.model,
+        // `failover` retries instead.
+        maxRetries: 0,
         maxTokens: provider.maxTokens,
         providerOptions: provider.options,
         messages: messagesForDataStream,
-        tools,
-        toolChoice: shouldDisableTools ? 'none' : 'auto',
+        // Models without tool calling reject requests with tools, so they only write files.
+        ...(supportsTools(modelProvider, modelChoice, providerSettings)
+          ? { tools, toolChoice: shouldDisableTools ? 'none' : 'auto' }
+          : {}),
         onFinish: (result) => {
           onFinishHandler({
             dataStream,
@@ -179,10 +247,11 @@ export async function convexAgent(args: {
             toolsDisabledFromRepeatedErrors: shouldDisableTools,
             recordRawPromptsForDebugging,
             coreMessages: messagesForDataStream,
-            modelProvider,
+            modelProvider: failover.servedBy(),
             modelChoice,
             collapsedMessages,
             promptCharacterCounts,
+            relevantFiles,
             _startTime: startTime,
             _firstResponseTime: firstResponseTime,
             providerModel: provider.model.modelId,
@@ -251,6 +320,7 @@ async function onFinishHandler({
   modelChoice,
   collapsedMessages,
   promptCharacterCounts,
+  relevantFiles,
   _startTime,
   _firstResponseTime,
   providerModel,
@@ -263,14 +333,17 @@ async function onFinishHandler({
   recordUsageCb: (
     lastMessage: Message | undefined,
     finalGeneration: { usage: LanguageModelUsage; providerMetadata?: ProviderMetadata },
+    servedBy: ModelProvider,
   ) => Promise<void>;
   recordRawPromptsForDebugging: boolean;
   toolsDisabledFromRepeatedErrors: boolean;
   coreMessages: CoreMessage[];
+  // The provider that served this step, which may be a fallback for the requested one.
   modelProvider: ModelProvider;
   modelChoice: string | undefined;
   collapsedMessages: boolean;
   promptCharacterCounts?: PromptCharacterCounts;
+  relevantFiles?: RelevantFile[];
   _startTime: number;
   _firstResponseTime: number | null;
   providerModel: string;
@@ -278,9 +351,9 @@ async function onFinishHandler({
   const { providerMetadata } = result;
   // This usage accumulates accross multiple /api/chat calls until finishReason of 'stop'.
   const usage = {
-    completionTokens: normalizeUsage(result.usage.completionTokens),
-    promptTokens: normalizeUsage(result.usage.promptTokens),
-    totalTokens: normalizeUsage(result.usage.totalTokens),
+    completionTokens: tokenCount(result.usage.completionTokens),
+    promptTokens: tokenCount(result.usage.promptTokens),
+    totalTokens: tokenCount(result.usage.totalTokens),
   };
   console.log('Finished streaming', {
     finishReason: result.finishReason,
@@ -297,11 +370,15 @@ async function onFinishHandler({
     span.setAttribute('usage.totalTokens', usage.totalTokens);
     span.setAttribute('collapsedMessages', collapsedMessages);
     span.setAttribute('model', providerModel);
+    span.setAttribute('provider', modelProvider);
 
     if (promptCharacterCounts) {
       span.setAttribute('promptCharacterCounts.messageHistoryChars', promptCharacterCounts.messageHistoryChars);
       span.setAttribute('promptCharacterCounts.currentTurnChars', promptCharacterCounts.currentTurnChars);
       span.setAttribute('promptCharacterCounts.totalPromptChars', promptCharacterCounts.totalPromptChars);
+      span.setAttribute('promptCharacterCounts.messageHistoryTokens', promptCharacterCounts.messageHistoryTokens);
+      span.setAttribute('promptCharacterCounts.currentTurnTokens', promptCharacterCounts.currentTurnTokens);
+      span.setAttribute('promptCharacterCounts.totalPromptTokens', promptCharacterCounts.totalPromptTokens);
     }
     if (providerMetadata) {
       if (providerMetadata.anthropic) {
@@ -364,13 +441,13 @@ async function onFinishHandler({
   if (toolCallId) {
     const annotation = encodeUsageAnnotation(toolCallId, usage, providerMetadata);
     dataStream.writeMessageAnnotation({ type: 'usage', usage: annotation });
-    const modelAnnotation = encodeModelAnnotation(toolCallId, providerMetadata, modelChoice);
+    const modelAnnotation = encodeModelAnnotation(toolCallId, modelProvider, modelChoice);
     dataStream.writeMessageAnnotation({ type: 'model', ...modelAnnotation });
   }
 
   // Record usage once we've generated the final part.
   if (result.finishReason === 'stop') {
-    await recordUsageCb(messages[messages.length - 1], { usage, providerMetadata });
+    await recordUsageCb(messages[messages.length - 1], { usage, providerMetadata }, modelProvider);
   }
   if (recordRawPromptsForDebugging) {
     const responseCoreMessages = result.response.messages as (CoreAssistantMessage | CoreToolMessage)[];
@@ -386,6 +463,8 @@ async function onFinishHandler({
           providerMetadata,
         },
         modelProvider,
+        promptCharacterCounts,
+        relevantFiles,
       ),
     );
   }
@@ -467,6 +546,8 @@ async function storeDebugPrompt(
   result: Omit<StepResult<any>, 'stepType' | 'isContinued'>,
   generation: { usage: LanguageModelUsage; providerMetadata?: ProviderMetadata },
   modelProvider: ModelProvider,
+  promptCharacterCounts: PromptCharacterCounts | undefined,
+  relevantFiles: RelevantFile[] | undefined,
 ) {
   try {
     const finishReason = result.finishReason;
@@ -486,6 +567,8 @@ async function storeDebugPrompt(
       modelId,
       usage: buildUsageRecord(usage),
       chefTokens,
+      promptCharacterCounts,
+      relevantFiles,
     } satisfies Metadata;
 
     const formData = new FormData();
@@ -508,7 +591,3 @@ async function storeDebugPrompt(
     captureException(error);
   }
 }
-
-function normalizeUsage(usage: number) {
-  return Number.isNaN(usage) ? 0 : usage;
-}
@@ -0,0 +1,122 @@
+import { APICallError, type LanguageModelV1CallOptions, type LanguageModelV1StreamPart } from 'ai';
+import { MockLanguageModelV1, simulateReadableStream } from 'ai/test';
+import { describe, expect, test } from 'vitest';
+import { failoverModel } from './failover';
+
+const callOptions: LanguageModelV1CallOptions = {
+  inputFormat: 'messages',
+  mode: { type: 'regular' },
+  prompt: [{ role: 'user', content: [{ type: 'text', text: 'Build a todo app' }] }],
+};
+
+const finish: LanguageModelV1StreamPart = {
+  type: 'finish',
+  finishReason: 'stop',
+  usage: { promptTokens: 10, completionTokens: 5 },
+};
+
+function overloaded(statusCode = 529) {
+  return new APICallError({ message: 'Overloaded', url: '', requestBodyValues: undefined, statusCode });
+}
+
+function streamingModel(parts: LanguageModelV1StreamPart[], prompts: LanguageModelV1CallOptions['prompt'][] = []) {
+  return new MockLanguageModelV1({
+    doStream: async (options) => {
+      prompts.push(options.prompt);
+      return { stream: simulateReadableStream({ chunks: parts }), rawCall: { rawPrompt: null, rawSettings: {} } };
+    },
+  });
+}
+
+function failingModel(error: unknown) {
+  return new MockLanguageModelV1({
+    doStream: async () => {
+      throw error;
+    },
+  });
+}
+
+async function readAll(stream: ReadableStream<LanguageModelV1StreamPart>) {
+  const parts: LanguageModelV1StreamPart[] = [];
+  for await (const part of stream as unknown as AsyncIterable<LanguageModelV1StreamPart>) {
+    parts.push(part);
+  }
+  return parts;
+}
+
+const noSleep = () => Promise.resolve();
+
+describe('failoverModel', () => {
+  test('moves to the next provider when a request fails with a retriable error', async () => {
+    const { model, servedBy } = failoverModel(
+      [
+        { provider: 'Anthropic', model: failingModel(overloaded()) },
+        { provider: 'Bedrock', model: streamingModel([{ type: 'text-delta', textDelta: 'Hello' }, finish]) },
+      ],
+      { sleep: noSleep },
+    );
+    const { stream } = await model.doStream(callOptions);
+    expect(await readAll(stream)).toEqual([{ type: 'text-delta', textDelta: 'Hello' }, finish]);
+    expect(servedBy()).toBe('Bedrock');
+  });
+
+  test('does not retry errors that are not retriable', async () => {
+    const { model, servedBy } = failoverModel(
+      [
+        { provider: 'Anthropic', model: failingModel(overloaded(400)) },
+        { provider: 'Bedrock', model: streamingModel([finish]) },
+      ],
+      { sleep: noSleep },
+    );
+    await expect(model.doStream(callOptions)).rejects.toThrow('Overloaded');
+    expect(servedBy()).toBe('Anthropic');
+  });
+
+  test('continues from the streamed text when a stream fails partway through', async () => {
+    const prompts: LanguageModelV1CallOptions['prompt'][] = [];
+    const { model, servedBy } = failoverModel(
+      [
+        {
+          provider: 'Anthropic',
+          model: streamingModel([
+            { type: 'text-delta', textDelta: 'Let me write ' },
+            { type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } },
+          ]),
+        },
+        {
+          provider: 'Bedrock',
+          model: streamingModel([{ type: 'text-delta', textDelta: ' the schema.' }, finish], prompts),
+        },
+      ],
+      { sleep: noSleep },
+    );
+    const { stream } = await model.doStream(callOptions);
+    expect(await readAll(stream)).toEqual([
+      { type: 'text-delta', textDelta: 'Let me write ' },
+      { type: 'text-delta', textDelta: ' the schema.' },
+      finish,
+    ]);
+    expect(prompts[0].at(-1)).toEqual({ role: 'assistant', content: [{ type: 'text', text: 'Let me write' }] });
+    expect(servedBy()).toBe('Bedrock');
+  });
+
+  test('reports the error when a stream fails after a tool call', async () => {
+    const error = { type: 'overloaded_error', message: 'Overloaded' };
+    const toolCall: LanguageModelV1StreamPart = {
+      type: 'tool-call-delta',
+      toolCallType: 'function',
+      toolCallId: 'call_1',
+      toolName: 'deploy',
+      argsTextDelta: '{',
+    };
+    const { model } = failoverModel(
+      [
+        { provider: 'Anthropic', model: streamingModel([toolCall, { type: 'error', error }]) },
+        { provider: 'Bedrock', model: streamingModel([finish]) },
+      ],
+      { sleep: noSleep },
+    );
+    const { stream } = await model.doStream(callOptions);
+    expect(await readAll(stream)).toEqual([toolCall, { type: 'error', error }]);
+  });
+});
@@ -0,0 +1,177 @@
+import {
+  APICallError,
+  type LanguageModelV1,
+  type LanguageModelV1CallOptions,
+  type LanguageModelV1StreamPart,
+} from 'ai';
+import { createScopedLogger } from 'chef-agent/utils/logger';
+import type { ModelProvider } from './provider';
+
+const logger = createScopedLogger('failover');
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const BASE_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 8000;
+
+// Errors Anthropic's API sends in the middle of a stream when it's overloaded or failing.
+const RETRIABLE_STREAM_ERROR_TYPES = ['overloaded_error', 'api_error'];
+
+// Stream parts that can be continued by another provider if the stream fails after them.
+const CONTINUABLE_PART_TYPES: LanguageModelV1StreamPart['type'][] = ['text-delta', 'response-metadata'];
+
+export type FailoverAttempt = {
+  provider: ModelProvider;
+  model: LanguageModelV1;
+};
+
+/**
+ * Wrap the models of a fallback chain in a single model that retries retriable errors with
+ * exponential backoff, moving to the next provider in the chain on each attempt.
+ *
+ * If a stream fails after it's written some text, the next provider continues the response from
+ * that text, so the parts the user has already seen are kept. `servedBy` returns the provider that
+ * finished the last call, which is the one to bill for it.
+ */
+export function failoverModel(
+  attempts: FailoverAttempt[],
+  options: { maxAttempts?: number; sleep?: (ms: number) => Promise<void> } = {},
+): { model: LanguageModelV1; servedBy: () => ModelProvider } {
+  const maxAttempts = Math.max(options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS, 1);
+  const sleep = options.sleep ?? ((ms: number) => new Promise((resolve) => setTimeout(resolve, ms)));
+  const primary = attempts[0];
+  let servedBy = primary.provider;
+
+  const attemptAt = (attempt: number) => attempts[attempt % attempts.length];
+
+  // Run `call` against each provider in turn until it succeeds, starting from `firstAttempt`.
+  async function withRetries<T>(
+    firstAttempt: number,
+    call: (attempt: FailoverAttempt) => PromiseLike<T>,
+  ): Promise<{ result: T; attempt: number }> {
+    for (let attempt = firstAttempt; ; attempt++) {
+      if (attempt > firstAttempt) {
+        await sleep(backoff(attempt - 1));
+      }
+      const current = attemptAt(attempt);
+      try {
+        return { result: await call(current), attempt };
+      } catch (error) {
+        if (!isRetriableError(error) || attempt + 1 >= maxAttempts) {
+          throw error;
+        }
+        logger.warn(`${current.provider} failed, retrying with ${attemptAt(attempt + 1).provider}`, error);
+      }
+    }
+  }
+
+  const model: LanguageModelV1 = {
+    specificationVersion: 'v1',
+    provider: primary.model.provider,
+    modelId: primary.model.modelId,
+    defaultObjectGenerationMode: primary.model.defaultObjectGenerationMode,
+    supportsImageUrls: primary.model.supportsImageUrls,
+    supportsStructuredOutputs: primary.model.supportsStructuredOutputs,
+
+    async doGenerate(callOptions) {
+      const { result, attempt } = await withRetries(0, (current) => current.model.doGenerate(callOptions));
+      servedBy = attemptAt(attempt).provider;
+      return result;
+    },
+
+    async doStream(callOptions) {
+      const first = await withRetries(0, (current) => current.model.doStream(callOptions));
+      let attempt = first.attempt;
+      servedBy = attemptAt(attempt).provider;
+
+      const stream = new ReadableStream<LanguageModelV1StreamPart>({
+        async start(controller) {
+          let current = first.result.stream;
+          // The text streamed so far, for the next provider to continue from.
+          let streamedText = '';
+          let continuable = true;
+          for (;;) {
+            let failure: unknown = undefined;
+            const reader = current.getReader();
+            try {
+              for (;;) {
+                const { done, value } = await reader.read();
+                if (done) {
+                  break;
+                }
+                if (value.type === 'error') {
+                  failure = value.error;
+                  break;
+                }
+                if (value.type === 'text-delta') {
+                  streamedText += value.textDelta;
+                }
+                continuable = continuable && CONTINUABLE_PART_TYPES.includes(value.type);
+                controller.enqueue(value);
+              }
+            } catch (error) {
+              failure = error;
+            } finally {
+              reader.releaseLock();
+            }
+
+            if (failure === undefined) {
+              controller.close();
+              return;
+            }
+            if (!continuable || !isRetriableError(failure) || attempt + 1 >= maxAttempts) {
+              controller.enqueue({ type: 'error', error: failure });
+              controller.close();
+              return;
+            }
+            logger.warn(
+              `${attemptAt(attempt).provider} failed mid-stream, continuing with ${attemptAt(attempt + 1).provider}`,
+              failure,
+            );
+            try {
+              const next = await withRetries(attempt + 1, (nextAttempt) =>
+                nextAttempt.model.doStream(continueFrom(callOptions, streamedText)),
+              );
+              attempt = next.attempt;
+              servedBy = attemptAt(attempt).provider;
+              current = next.result.stream;
+            } catch (error) {
+              controller.enqueue({ type: 'error', error });
+              controller.close();
+              return;
+            }
+          }
+        },
+      });
+      return { ...first.result, stream };
+    },
+  };
+  return { model, servedBy: () => servedBy };
+}
+
+export function isRetriableError(error: unknown): boolean {
+  if (APICallError.isInstance(error)) {
+    return error.isRetryable;
+  }
+  // Anthropic sends these as the stream's error part.
+  if (typeof error === 'object' && error !== null && 'type' in error && typeof error.type === 'string') {
+    return RETRIABLE_STREAM_ERROR_TYPES.includes(error.type);
+  }
+  return false;
+}
+
+function backoff(attempt: number) {
+  const jitter = Math.random() + 0.5;
+  return Math.min(BASE_BACKOFF_MS * Math.pow(2, attempt), MAX_BACKOFF_MS) * jitter;
+}
+
+// Claude continues a response from a trailing assistant message, which can't end in whitespace.
+function continueFrom(callOptions: LanguageModelV1CallOptions, streamedText: string): LanguageModelV1CallOptions {
+  const text = streamedText.trimEnd();
+  if (!text) {
+    return callOptions;
+  }
+  return {
+    ...callOptions,
+    prompt: [...callOptions.prompt, { role: 'assistant', content: [{ type: 'text', text }] }],
+  };
+}
@@ -1,14 +1,17 @@
-import type { LanguageModelV1 } from 'ai';
+import { APICallError, type LanguageModelV1 } from 'ai';
 import { createAmazonBedrock } from '@ai-sdk/amazon-bedrock';
 import { createAnthropic } from '@ai-sdk/anthropic';
 import { createXai } from '@ai-sdk/xai';
 import { createGoogleGenerativeAI } from '@ai-sdk/google';
 import { createVertex } from '@ai-sdk/google-vertex';
+import { createVertexAnthropic } from '@ai-sdk/google-vertex/anthropic';
 import { createOpenAI } from '@ai-sdk/openai';
 import { awsCredentialsProvider } from '@vercel/functions/oidc';
 import { captureException } from '@sentry/remix';
 import { logger } from 'chef-agent/utils/logger';
 import type { ProviderType } from '~/lib/common/annotations';
+import { modelForChoice } from '~/lib/common/models';
+import type { AzureOpenAI, LocalModel } from '@convex/schema';
 import { getEnv } from '~/lib/.server/env';
 // workaround for Vercel environment from
 // https://github.com/vercel/ai/issues/199#issuecomment-1605245593
@@ -17,6 +20,22 @@ import { fetch } from '~/lib/.server/fetch';
 const ALLOWED_AWS_REGIONS = ['us-east-1', 'us-west-2'];
 
 export type ModelProvider = Exclude<ProviderType, 'Unknown'>;
+
+// What providers that need more than an API key are configured with.
+export type ProviderSettings = {
+  localModel?: LocalModel;
+  azure?: Omit<AzureOpenAI, 'apiKey'>;
+};
+
+// Providers that are called through their OpenAI-compatible APIs, which report `openai` metadata.
+export const OPENAI_COMPATIBLE_PROVIDERS: ModelProvider[] = ['Azure', 'Mistral', 'DeepSeek', 'OpenRouter', 'Local'];
+
+const OPENAI_COMPATIBLE_BASE_URLS = {
+  Mistral: 'https://api.mistral.ai/v1',
+  DeepSeek: 'https://api.deepseek.com/v1',
+  OpenRouter: 'https://openrouter.ai/api/v1',
+};
+
 type Provider = {
   maxTokens: number;
   model: LanguageModelV1;
@@ -32,27 +51,31 @@ type Provider = {
 
 export function modelForProvider(provider: ModelProvider, modelChoice: string | undefined) {
   if (modelChoice) {
-    if (modelChoice === 'claude-sonnet-4-0' && provider === 'Bedrock') {
-      return 'us.anthropic.claude-sonnet-4-20250514-v1:0';
-    }
-
-    if (modelChoice === 'gpt-5') {
-      return 'gpt-5';
-    }
-
-    return modelChoice;
+    return modelForChoice(modelChoice)?.providerModelIds?.[provider] ?? modelChoice;
   }
   switch (provider) {
     case 'Anthropic':
       return getEnv('ANTHROPIC_MODEL') || 'claude-3-5-sonnet-20241022';
     case 'Bedrock':
       return getEnv('AMAZON_BEDROCK_MODEL') || 'us.anthropic.claude-3-5-sonnet-20241022-v2:0';
+    case 'Vertex':
+      return getEnv('GOOGLE_VERTEX_ANTHROPIC_MODEL') || 'claude-3-5-sonnet-v2@20241022';
     case 'OpenAI':
       return getEnv('OPENAI_MODEL') || 'gpt-4.1';
     case 'XAI':
       return getEnv('XAI_MODEL') || 'grok-3-mini';
     case 'Google':
       return getEnv('GOOGLE_MODEL') || 'gemini-2.5-pro';
+    case 'Mistral':
+      return getEnv('MISTRAL_MODEL') || 'mistral-large-latest';
+    case 'DeepSeek':
+      return getEnv('DEEPSEEK_MODEL') || 'deepseek-chat';
+    case 'OpenRouter':
+      return getEnv('OPENROUTER_MODEL') || 'anthropic/claude-sonnet-4';
+    case 'Azure':
+      throw new Error('Azure OpenAI deployments must be chosen explicitly');
+    case 'Local':
+      throw new Error('Local models must be chosen explicitly');
     default: {
       const _exhaustiveCheck: never = provider;
       throw new Error(`Unknown provider: ${_exhaustiveCheck}`);
@@ -60,14 +83,74 @@ export function modelForProvider(provider: ModelProvider, modelChoice: string |
   }
 }
 
-function anthropicMaxTokens(modelChoice: string | undefined) {
-  return modelChoice === 'claude-sonnet-4-0' || modelChoice === 'claude-sonnet-4-5' ? 24576 : 8192;
+// Used to decide whether to give the model tools that return images, like screenshots.
+export function supportsImageInputs(
+  provider: ModelProvider,
+  modelChoice: string | undefined,
+  settings: ProviderSettings,
+) {
+  if (provider === 'Local') {
+    return settings.localModel?.supportsImages ?? false;
+  }
+  const definition = modelForChoice(modelChoice);
+  if (definition) {
+    return definition.capabilities.vision;
+  }
+  if (provider === 'DeepSeek' || provider === 'Mistral') {
+    return false;
+  }
+  if (provider !== 'XAI') {
+    return true;
+  }
+  const model = modelForProvider(provider, modelChoice);
+  return model.includes('vision') || model.startsWith('grok-4');
+}
+
+// Self-hosted models are configured by the user, who knows whether they support tool calling.
+export function supportsTools(provider: ModelProvider, modelChoice: string | undefined, settings: ProviderSettings) {
+  if (provider === 'Local') {
+    return settings.localModel?.supportsTools ?? false;
+  }
+  return modelForChoice(modelChoice)?.capabilities.tools ?? true;
+}
+
+// Self-hosted models can only be used where Chef runs next to them, since hosted Chef shouldn't
+// make requests to arbitrary URLs on its users' behalf.
+export function localModelsEnabled() {
+  return getEnv('LOCAL_MODELS_ENABLED') === '1';
+}
+
+// Providers that serve the same Claude models, so a turn can move between them.
+const CLAUDE_PROVIDERS: ModelProvider[] = ['Anthropic', 'Bedrock', 'Vertex'];
+
+/**
+ * The providers to try for a request, in order. Claude requests with Chef's own keys fail over to
+ * the other providers in `PROVIDER_FALLBACK_CHAIN` (like `Anthropic,Bedrock,Vertex`), while requests
+ * with a user's API key only go to the provider the key is for.
+ */
+export function providerFallbackChain(modelProvider: ModelProvider, userApiKey: string | undefined): ModelProvider[] {
+  if (userApiKey || !CLAUDE_PROVIDERS.includes(modelProvider)) {
+    return [modelProvider];
+  }
+  const configured = (getEnv('PROVIDER_FALLBACK_CHAIN') || 'Anthropic,Bedrock')
+    .split(',')
+    .map((provider) => provider.trim() as ModelProvider)
+    .filter((provider) => CLAUDE_PROVIDERS.includes(provider) && provider !== modelProvider)
+    .filter((provider) => provider !== 'Bedrock' || getEnv('DISABLE_BEDROCK') !== '1')
+    .filter((provider) => provider !== 'Vertex' || !!getEnv('GOOGLE_VERTEX_CREDENTIALS_JSON'));
+  return [modelProvider, ...new Set(configured)];
+}
+
+// Models that aren't in the registry, like the providers' defaults, get the provider's limit.
+function maxOutputTokens(modelChoice: string | undefined, providerMaxTokens: number) {
+  return modelForChoice(modelChoice)?.capabilities.maxOutputTokens ?? providerMaxTokens;
 }
 
 export function getProvider(
   userApiKey: string | undefined,
   modelProvider: ModelProvider,
   modelChoice: string | undefined,
+  settings: ProviderSettings = {},
 ): Provider {
   let model: string;
   let provider: Provider;
@@ -100,7 +183,7 @@ export function getProvider(
       }
       provider = {
         model: google(model),
-        maxTokens: 24576,
+        maxTokens: maxOutputTokens(modelChoice, 24576),
       };
       break;
     }
@@ -112,7 +195,7 @@ export function getProvider(
       });
       provider = {
         model: xai(model),
-        maxTokens: 8192,
+        maxTokens: maxOutputTokens(modelChoice, 8192),
         options: {
           xai: {
             stream_options: { include_usage: true },
@@ -130,8 +213,68 @@ export function getProvider(
       });
       provider = {
         model: openai(model),
-        maxTokens: 24576,
-        options: modelChoice === 'gpt-5' ? { openai: { reasoningEffort: 'medium' } } : undefined,
+        maxTokens: maxOutputTokens(modelChoice, 24576),
+        options: modelForChoice(modelChoice)?.capabilities.reasoning
+          ? { openai: { reasoningEffort: 'medium' } }
+          : undefined,
+      };
+      break;
+    }
+    case 'Mistral':
+    case 'DeepSeek':
+    case 'OpenRouter': {
+      model = modelForProvider(modelProvider, modelChoice);
+      const openaiCompatible = createOpenAI({
+        name: modelProvider.toLowerCase(),
+        baseURL: OPENAI_COMPATIBLE_BASE_URLS[modelProvider],
+        apiKey: userApiKey,
+        fetch: userKeyApiFetch(modelProvider),
+        // Mistral rejects `stream_options`, so it doesn't get usage while streaming.
+        compatibility: modelProvider === 'Mistral' ? 'compatible' : 'strict',
+      });
+      provider = {
+        model: openaiCompatible(model),
+        maxTokens: maxOutputTokens(modelChoice, 8192),
+      };
+      break;
+    }
+    case 'Azure': {
+      const resourceName = settings.azure?.resourceName ?? '';
+      // The resource name is a subdomain, so anything else could send requests to another host.
+      if (!/^[a-z0-9][a-z0-9-]{1,62}$/i.test(resourceName)) {
+        throw new Error('Invalid Azure OpenAI resource name');
+      }
+      model = modelForProvider(modelProvider, modelChoice);
+      const azure = createOpenAI({
+        name: 'azure',
+        baseURL: `https://${resourceName}.openai.azure.com/openai/v1`,
+        apiKey: userApiKey,
+        fetch: userKeyApiFetch('Azure'),
+        compatibility: 'strict',
+      });
+      provider = {
+        model: azure(model),
+        maxTokens: maxOutputTokens(modelChoice, 24576),
+      };
+      break;
+    }
+    case 'Local': {
+      const localModel = settings.localModel;
+      if (!localModel) {
+        throw new Error('No local model is configured');
+      }
+      model = modelForProvider(modelProvider, modelChoice);
+      // Ollama, vLLM and LM Studio implement the OpenAI API, but not its newer parameters.
+      const local = createOpenAI({
+        name: 'local',
+        baseURL: localModel.baseUrl,
+        apiKey: localModel.apiKey || 'local',
+        fetch: userKeyApiFetch('Local'),
+        compatibility: 'compatible',
+      });
+      provider = {
+        model: local(model),
+        maxTokens: localModel.maxTokens ?? 8192,
       };
       break;
     }
@@ -150,11 +293,33 @@ export function getProvider(
       });
       provider = {
         model: bedrock(model),
-        maxTokens: anthropicMaxTokens(modelChoice),
+        maxTokens: maxOutputTokens(modelChoice, 8192),
         options: undefined,
       };
       break;
     }
+    case 'Vertex': {
+      // Claude on Vertex AI, which always uses Chef's credentials.
+      model = modelForProvider(modelProvider, modelChoice);
+      const credentials = JSON.parse(getEnv('GOOGLE_VERTEX_CREDENTIALS_JSON')!);
+      const vertexAnthropic = createVertexAnthropic({
+        project: credentials.project_id,
+        location: getEnv('GOOGLE_VERTEX_ANTHROPIC_LOCATION') || 'us-east5',
+        googleAuthOptions: {
+          credentials: {
+            client_email: credentials.client_email,
+            private_key_id: credentials.private_key_id,
+            private_key: credentials.private_key,
+          },
+        },
+        fetch,
+      });
+      provider = {
+        model: vertexAnthropic(model),
+        maxTokens: maxOutputTokens(modelChoice, 8192),
+      };
+      break;
+    }
     case 'Anthropic': {
       model = modelForProvider(modelProvider, modelChoice);
       // Falls back to the low Quality-of-Service Anthropic API key if the primary key is rate limited
@@ -175,7 +340,14 @@ export function getProvider(
             logger.error(
               `Anthropic${isLowQos ? ' (low QoS)' : ''} returned an error (${response.status} ${response.statusText}): ${text}`,
             );
-            throw new Error(JSON.stringify({ error: 'The model hit an error. Try sending your message again.' }));
+            // Keep the status so overloaded and server errors can fail over to another provider.
+            throw new APICallError({
+              message: JSON.stringify({ error: 'The model hit an error. Try sending your message again.' }),
+              url: response.url,
+              requestBodyValues: undefined,
+              statusCode: response.status,
+              responseBody: text,
+            });
           };
 
           const response = await fetch(input, init);
@@ -214,7 +386,7 @@ export function getProvider(
 
       provider = {
         model: anthropic(model),
-        maxTokens: anthropicMaxTokens(modelChoice),
+        maxTokens: maxOutputTokens(modelChoice, 8192),
       };
       break;
     }
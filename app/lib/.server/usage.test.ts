@@ -160,3 +160,25 @@ test('encodeUsageAnnotationBedrock', async () => {
     },
   });
 });
+
+test('encodeUsageAnnotationMissingUsage', async () => {
+  // OpenAI-compatible servers may not report usage at all.
+  const usage = {
+    completionTokens: NaN,
+    promptTokens: undefined as unknown as number,
+    totalTokens: NaN,
+  };
+  const annotation = encodeUsageAnnotation({ kind: 'final' }, usage, undefined);
+  const parsed = annotationValidator.safeParse({ type: 'usage', usage: annotation });
+  expect(parsed.success).toBe(true);
+  if (parsed.data?.type !== 'usage') {
+    throw new Error('Expected usage annotation');
+  }
+  const payload = usageAnnotationValidator.parse(JSON.parse(parsed.data?.usage.payload ?? '{}'));
+  expect(payload).toEqual({
+    toolCallId: 'final',
+    completionTokens: 0,
+    promptTokens: 0,
+    totalTokens: 0,
+  });
+});
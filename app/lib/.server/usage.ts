@@ -1,9 +1,9 @@
 import type { LanguageModelUsage, Message, ProviderMetadata } from 'ai';
 import { createScopedLogger } from 'chef-agent/utils/logger';
 import { getTokenUsage } from '~/lib/convexUsage';
-import type { ProviderType, UsageAnnotation } from '~/lib/common/annotations';
-import { modelForProvider, type ModelProvider } from './llm/provider';
-import { calculateTotalBilledUsageForMessage, calculateChefTokens } from '~/lib/common/usage';
+import type { UsageAnnotation } from '~/lib/common/annotations';
+import { modelForProvider, OPENAI_COMPATIBLE_PROVIDERS, type ModelProvider } from './llm/provider';
+import { calculateTotalBilledUsageForMessage, calculateChefTokensForMessage, tokenCount } from '~/lib/common/usage';
 import { captureMessage } from '@sentry/remix';
 
 const logger = createScopedLogger('usage');
@@ -33,39 +33,26 @@ export function encodeUsageAnnotation(
 ) {
   const payload: UsageAnnotation = {
     toolCallId: toolCallId.kind === 'tool-call' ? toolCallId.toolCallId : 'final',
-    completionTokens: usage.completionTokens,
-    promptTokens: usage.promptTokens,
-    totalTokens: usage.totalTokens,
+    completionTokens: tokenCount(usage.completionTokens),
+    promptTokens: tokenCount(usage.promptTokens),
+    totalTokens: tokenCount(usage.totalTokens),
     providerMetadata,
   };
   const serialized = JSON.stringify(payload);
   return { payload: serialized };
 }
 
+// `modelProvider` is the provider that served the step, which is what it's billed for.
 export function encodeModelAnnotation(
   call: { kind: 'tool-call'; toolCallId: string | null } | { kind: 'final' },
-  providerMetadata: ProviderMetadata | undefined,
+  modelProvider: ModelProvider,
   modelChoice: string | undefined,
 ) {
-  let provider: ProviderType | null = null;
-  let model: string | null = null;
-  if (providerMetadata?.anthropic) {
-    provider = 'Anthropic';
-    model = modelForProvider('Anthropic', modelChoice);
-  } else if (providerMetadata?.openai) {
-    provider = 'OpenAI';
-    model = modelForProvider('OpenAI', modelChoice);
-  } else if (providerMetadata?.xai) {
-    provider = 'XAI';
-    model = modelForProvider('XAI', modelChoice);
-  } else if (providerMetadata?.google) {
-    provider = 'Google';
-    model = modelForProvider('Google', modelChoice);
-  } else if (providerMetadata?.bedrock) {
-    provider = 'Bedrock';
-    model = modelForProvider('Bedrock', modelChoice);
-  }
-  return { toolCallId: call.kind === 'tool-call' ? call.toolCallId : 'final', provider, model };
+  // The OpenAI-compatible providers' model choice is the model itself.
+  const model = OPENAI_COMPATIBLE_PROVIDERS.includes(modelProvider)
+    ? (modelChoice ?? null)
+    : modelForProvider(modelProvider, modelChoice);
+  return { toolCallId: call.kind === 'tool-call' ? call.toolCallId : 'final', provider: modelProvider, model };
 }
 
 export async function recordUsage(
@@ -78,7 +65,7 @@ export async function recordUsage(
   finalGeneration: { usage: LanguageModelUsage; providerMetadata?: ProviderMetadata },
 ) {
   const totalUsageBilledFor = await calculateTotalBilledUsageForMessage(lastMessage, finalGeneration);
-  const { chefTokens } = calculateChefTokens(totalUsageBilledFor, modelProvider);
+  const chefTokens = calculateChefTokensForMessage(lastMessage, finalGeneration, modelProvider);
 
   if (chefTokens === 0) {
     captureMessage('Recorded usage was 0. Something wrong with provider?', {
@@ -60,7 +60,20 @@ export type Usage = UsageAnnotation & {
   bedrockCacheReadInputTokens: number;
 };
 
-const providerValidator = z.enum(['Anthropic', 'Bedrock', 'OpenAI', 'XAI', 'Google', 'Unknown']);
+const providerValidator = z.enum([
+  'Anthropic',
+  'Bedrock',
+  'Vertex',
+  'OpenAI',
+  'XAI',
+  'Google',
+  'Azure',
+  'Mistral',
+  'DeepSeek',
+  'OpenRouter',
+  'Local',
+  'Unknown',
+]);
 export type ProviderType = z.infer<typeof providerValidator>;
 
 export const annotationValidator = z.discriminatedUnion('type', [
@@ -1,5 +1,6 @@
 import type { Doc } from '@convex/_generated/dataModel';
 import { type ModelSelection } from '~/utils/constants';
+import { MODELS, type KeyProvider } from '~/lib/common/models';
 
 export function hasApiKeySet(
   modelSelection: ModelSelection,
@@ -9,29 +10,26 @@ export function hasApiKeySet(
   if (!apiKey) {
     return false;
   }
+  return !!apiKeyForProvider(apiKey, MODELS[modelSelection].keyProvider, useGeminiAuto)?.trim();
+}
 
-  switch (modelSelection) {
+// Local models don't need a key, so they count as set once a model is configured.
+export function apiKeyForProvider(
+  apiKey: Doc<'convexMembers'>['apiKey'] | null | undefined,
+  provider: KeyProvider,
+  useGeminiAuto: boolean,
+) {
+  switch (provider) {
+    case 'anthropic':
+      return apiKey?.value;
+    case 'azure':
+      return apiKey?.azure?.apiKey;
+    case 'local':
+      return apiKey?.local?.model;
     case 'auto':
-      if (useGeminiAuto) {
-        return !!apiKey.google?.trim();
-      }
-      return !!apiKey.value?.trim();
-    case 'claude-3-5-haiku':
-    case 'claude-4-sonnet':
-    case 'claude-4.5-sonnet':
-      return !!apiKey.value?.trim();
-    case 'gpt-4.1':
-    case 'gpt-4.1-mini':
-    case 'gpt-5':
-      return !!apiKey.openai?.trim();
-    case 'grok-3-mini':
-      return !!apiKey.xai?.trim();
-    case 'gemini-2.5-pro':
-      return !!apiKey.google?.trim();
-    default: {
-      const _exhaustiveCheck: never = modelSelection;
-      return false;
-    }
+      return useGeminiAuto ? apiKey?.google : apiKey?.value;
+    default:
+      return apiKey?.[provider];
   }
 }
 
@@ -39,6 +37,9 @@ export function hasAnyApiKeySet(apiKey?: Doc<'convexMembers'>['apiKey'] | null)
   if (!apiKey) {
     return false;
   }
+  if (apiKey.azure?.apiKey.trim()) {
+    return true;
+  }
   return Object.entries(apiKey).some(([key, value]) => {
     if (key === 'preference') {
       return false;
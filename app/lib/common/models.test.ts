@@ -0,0 +1,38 @@
+import { describe, expect, test } from 'vitest';
+import { MODELS, applyModelOverrides, canUseDefaultKey, modelForChoice } from './models';
+
+describe('modelForChoice', () => {
+  test('finds models by their ID', () => {
+    expect(modelForChoice('claude-sonnet-4-5')?.name).toBe('Claude 4.5 Sonnet');
+    expect(modelForChoice('claude-sonnet-4-5')?.providerModelIds?.Vertex).toBe('claude-sonnet-4-5@20250929');
+  });
+
+  test('returns nothing for choices that are not in the registry', () => {
+    expect(modelForChoice(undefined)).toBeUndefined();
+    expect(modelForChoice('my-deployment')).toBeUndefined();
+    expect(modelForChoice('grok-4')).toBeUndefined();
+  });
+});
+
+test('canUseDefaultKey', () => {
+  expect(canUseDefaultKey('claude-sonnet-4-0')).toBe(true);
+  expect(canUseDefaultKey('claude-3-5-haiku-latest')).toBe(false);
+  expect(canUseDefaultKey('some-other-model')).toBe(false);
+});
+
+describe('applyModelOverrides', () => {
+  test('merges overrides into the models', () => {
+    const models = applyModelOverrides(
+      MODELS,
+      JSON.stringify({ 'gpt-5': { defaultKey: false, capabilities: { maxOutputTokens: 32768 } } }),
+    );
+    expect(models['gpt-5'].defaultKey).toBe(false);
+    expect(models['gpt-5'].capabilities).toEqual({ ...MODELS['gpt-5'].capabilities, maxOutputTokens: 32768 });
+    expect(models['gpt-4.1']).toBe(MODELS['gpt-4.1']);
+  });
+
+  test('ignores invalid overrides', () => {
+    expect(applyModelOverrides(MODELS, '{"gpt-5": {"defaultKey": "yes"}}')).toBe(MODELS);
+    expect(applyModelOverrides(MODELS, 'not json')).toBe(MODELS);
+  });
+});
@@ -0,0 +1,383 @@
+import { z } from 'zod';
+import { createScopedLogger } from 'chef-agent/utils/logger';
+import type { ProviderType } from '~/lib/common/annotations';
+
+type ModelProvider = Exclude<ProviderType, 'Unknown'>;
+
+const logger = createScopedLogger('Models');
+
+// The provider a model is listed under in the model selector, whose API key it uses. `auto` uses
+// Anthropic's key, or Google's when Gemini is the default model.
+export type KeyProvider =
+  | 'openai'
+  | 'google'
+  | 'xai'
+  | 'anthropic'
+  | 'azure'
+  | 'mistral'
+  | 'deepseek'
+  | 'openrouter'
+  | 'local'
+  | 'auto';
+
+// How expensive a model is to run compared to the others.
+export type PriceClass = 'low' | 'medium' | 'high';
+
+export type ModelCapabilities = {
+  // Whether the model accepts images, which lets it take screenshots.
+  vision: boolean;
+  tools: boolean;
+  reasoning: boolean;
+  // In tokens, including the system prompt and the response.
+  contextWindow: number;
+  maxOutputTokens: number;
+  // Whether its provider caches the prompt between requests, so Chef can send more of the chat.
+  promptCaching: boolean;
+  priceClass: PriceClass;
+};
+
+export type ModelDefinition = {
+  name: string;
+  keyProvider: KeyProvider;
+  // The providers that serve the model with Chef's keys. The client moves to the next one when a
+  // request fails.
+  providers: ModelProvider[];
+  // The model's ID, which the client sends as the model choice. Unset for models that use their
+  // provider's default model, which is configured by the server, or the member's settings.
+  modelId?: string;
+  // IDs for providers that name the model differently than its first provider.
+  providerModelIds?: Partial<Record<ModelProvider, string>>;
+  // Whether the model can be used with Chef's API keys. Otherwise, members need to set their own.
+  defaultKey: boolean;
+  recommended?: boolean;
+  capabilities: ModelCapabilities;
+};
+
+const DEFAULT_MODELS = {
+  auto: {
+    name: 'Auto',
+    keyProvider: 'auto',
+    providers: ['Anthropic', 'Bedrock'],
+    modelId: 'claude-sonnet-4-0',
+    providerModelIds: {
+      Bedrock: 'us.anthropic.claude-sonnet-4-20250514-v1:0',
+      Vertex: 'claude-sonnet-4@20250514',
+    },
+    defaultKey: true,
+    recommended: true,
+    capabilities: {
+      vision: true,
+      tools: true,
+      reasoning: false,
+      contextWindow: 200_000,
+      maxOutputTokens: 24576,
+      promptCaching: true,
+      priceClass: 'medium',
+    },
+  },
+  'claude-4-sonnet': {
+    name: 'Claude 4 Sonnet',
+    keyProvider: 'anthropic',
+    providers: ['Anthropic', 'Bedrock'],
+    modelId: 'claude-sonnet-4-0',
+    providerModelIds: {
+      Bedrock: 'us.anthropic.claude-sonnet-4-20250514-v1:0',
+      Vertex: 'claude-sonnet-4@20250514',
+    },
+    defaultKey: true,
+    recommended: true,
+    capabilities: {
+      vision: true,
+      tools: true,
+      reasoning: false,
+      contextWindow: 200_000,
+      maxOutputTokens: 24576,
+      promptCaching: true,
+      priceClass: 'medium',
+    },
+  },
+  'claude-4.5-sonnet': {
+    name: 'Claude 4.5 Sonnet',
+    keyProvider: 'anthropic',
+    providers: ['Anthropic'],
+    modelId: 'claude-sonnet-4-5',
+    providerModelIds: {
+      Bedrock: 'us.anthropic.claude-sonnet-4-5-20250929-v1:0',
+      Vertex: 'claude-sonnet-4-5@20250929',
+    },
+    defaultKey: true,
+    capabilities: {
+      vision: true,
+      tools: true,
+      reasoning: false,
+      contextWindow: 200_000,
+      maxOutputTokens: 24576,
+      promptCaching: true,
+      priceClass: 'medium',
+    },
+  },
+  'gemini-2.5-pro': {
+    name: 'Gemini 2.5 Pro',
+    keyProvider: 'google',
+    providers: ['Google'],
+    defaultKey: true,
+    capabilities: {
+      vision: true,
+      tools: true,
+      reasoning: true,
+      contextWindow: 1_048_576,
+      maxOutputTokens: 24576,
+      promptCaching: true,
+      priceClass: 'medium',
+    },
+  },
+  'gpt-4.1': {
+    name: 'GPT-4.1',
+    keyProvider: 'openai',
+    providers: ['OpenAI'],
+    defaultKey: true,
+    capabilities: {
+      vision: true,
+      tools: true,
+      reasoning: false,
+      contextWindow: 1_047_576,
+      maxOutputTokens: 24576,
+      promptCaching: false,
+      priceClass: 'medium',
+    },
+  },
+  'gpt-5': {
+    name: 'GPT-5',
+    keyProvider: 'openai',
+    providers: ['OpenAI'],
+    modelId: 'gpt-5',
+    defaultKey: true,
+    capabilities: {
+      vision: true,
+      tools: true,
+      reasoning: true,
+      contextWindow: 400_000,
+      maxOutputTokens: 24576,
+      promptCaching: false,
+      priceClass: 'medium',
+    },
+  },
+  'grok-3-mini': {
+    name: 'Grok 3 Mini',
+    keyProvider: 'xai',
+    providers: ['XAI'],
+    defaultKey: true,
+    capabilities: {
+      vision: false,
+      tools: true,
+      reasoning: true,
+      contextWindow: 131_072,
+      maxOutputTokens: 8192,
+      promptCaching: false,
+      priceClass: 'low',
+    },
+  },
+  'claude-3-5-haiku': {
+    name: 'Claude 3.5 Haiku',
+    keyProvider: 'anthropic',
+    providers: ['Anthropic'],
+    modelId: 'claude-3-5-haiku-latest',
+    providerModelIds: {
+      Bedrock: 'us.anthropic.claude-3-5-haiku-20241022-v1:0',
+      Vertex: 'claude-3-5-haiku@20241022',
+    },
+    defaultKey: false,
+    capabilities: {
+      vision: true,
+      tools: true,
+      reasoning: false,
+      contextWindow: 200_000,
+      maxOutputTokens: 8192,
+      promptCaching: true,
+      priceClass: 'low',
+    },
+  },
+  'gpt-4.1-mini': {
+    name: 'GPT-4.1 Mini',
+    keyProvider: 'openai',
+    providers: ['OpenAI'],
+    modelId: 'gpt-4.1-mini',
+    defaultKey: false,
+    capabilities: {
+      vision: true,
+      tools: true,
+      reasoning: false,
+      contextWindow: 1_047_576,
+      maxOutputTokens: 24576,
+      promptCaching: false,
+      priceClass: 'low',
+    },
+  },
+  // The deployment configured in the settings.
+  'azure-openai': {
+    name: 'Azure OpenAI',
+    keyProvider: 'azure',
+    providers: ['Azure'],
+    defaultKey: false,
+    capabilities: {
+      vision: true,
+      tools: true,
+      reasoning: false,
+      contextWindow: 128_000,
+      maxOutputTokens: 24576,
+      promptCaching: false,
+      priceClass: 'medium',
+    },
+  },
+  'mistral-large': {
+    name: 'Mistral Large',
+    keyProvider: 'mistral',
+    providers: ['Mistral'],
+    modelId: 'mistral-large-latest',
+    defaultKey: false,
+    capabilities: {
+      vision: false,
+      tools: true,
+      reasoning: false,
+      contextWindow: 131_072,
+      maxOutputTokens: 8192,
+      promptCaching: false,
+      priceClass: 'medium',
+    },
+  },
+  'deepseek-chat': {
+    name: 'DeepSeek V3',
+    keyProvider: 'deepseek',
+    providers: ['DeepSeek'],
+    modelId: 'deepseek-chat',
+    defaultKey: false,
+    capabilities: {
+      vision: false,
+      tools: true,
+      reasoning: false,
+      contextWindow: 128_000,
+      maxOutputTokens: 8192,
+      promptCaching: false,
+      priceClass: 'low',
+    },
+  },
+  'openrouter-claude-4-sonnet': {
+    name: 'Claude 4 Sonnet (OpenRouter)',
+    keyProvider: 'openrouter',
+    providers: ['OpenRouter'],
+    modelId: 'anthropic/claude-sonnet-4',
+    defaultKey: false,
+    capabilities: {
+      vision: true,
+      tools: true,
+      reasoning: false,
+      contextWindow: 200_000,
+      maxOutputTokens: 8192,
+      promptCaching: false,
+      priceClass: 'medium',
+    },
+  },
+  // The model configured in the settings, served from an OpenAI-compatible endpoint. Its tool and
+  // image support and maximum output come from the settings too.
+  local: {
+    name: 'Local model',
+    keyProvider: 'local',
+    providers: ['Local'],
+    defaultKey: false,
+    capabilities: {
+      vision: false,
+      tools: false,
+      reasoning: false,
+      contextWindow: 32_768,
+      maxOutputTokens: 8192,
+      promptCaching: false,
+      priceClass: 'low',
+    },
+  },
+} satisfies Record<string, ModelDefinition>;
+
+// These are the user facing options for the model selector, which the client then maps to the
+// model provider used by the backend.
+export type ModelSelection = keyof typeof DEFAULT_MODELS;
+
+const modelOverrideValidator = z.record(
+  z
+    .object({
+      name: z.string(),
+      modelId: z.string(),
+      providerModelIds: z.record(z.string()),
+      defaultKey: z.boolean(),
+      recommended: z.boolean(),
+      capabilities: z
+        .object({
+          vision: z.boolean(),
+          tools: z.boolean(),
+          reasoning: z.boolean(),
+          contextWindow: z.number(),
+          maxOutputTokens: z.number(),
+          promptCaching: z.boolean(),
+          priceClass: z.enum(['low', 'medium', 'high']),
+        })
+        .partial(),
+    })
+    .partial(),
+);
+
+/**
+ * Apply overrides from `VITE_MODEL_OVERRIDES`, a JSON object from model selections to the fields
+ * to change, like `{"gpt-5": {"defaultKey": false, "capabilities": {"maxOutputTokens": 32768}}}`.
+ * It's set at build time, so the server and the client see the same models.
+ */
+export function applyModelOverrides(
+  models: Record<ModelSelection, ModelDefinition>,
+  overridesJson: string | undefined,
+): Record<ModelSelection, ModelDefinition> {
+  if (!overridesJson) {
+    return models;
+  }
+  let parsed;
+  try {
+    parsed = modelOverrideValidator.safeParse(JSON.parse(overridesJson));
+  } catch (error) {
+    logger.error('Ignoring model overrides that are not valid JSON', error);
+    return models;
+  }
+  if (!parsed.success) {
+    logger.error('Ignoring invalid model overrides', parsed.error);
+    return models;
+  }
+  const result = { ...models };
+  for (const [selection, override] of Object.entries(parsed.data)) {
+    const model = result[selection as ModelSelection];
+    if (!model) {
+      logger.error(`Ignoring overrides for unknown model ${selection}`);
+      continue;
+    }
+    result[selection as ModelSelection] = {
+      ...model,
+      ...override,
+      providerModelIds: { ...model.providerModelIds, ...override.providerModelIds },
+      capabilities: { ...model.capabilities, ...override.capabilities },
+    };
+  }
+  return result;
+}
+
+export const MODELS: Record<ModelSelection, ModelDefinition> = applyModelOverrides(
+  DEFAULT_MODELS,
+  import.meta.env.VITE_MODEL_OVERRIDES,
+);
+
+// The model for a request's model choice. Choices that aren't in the registry, like the providers'
+// defaults and the member's own models, have no definition.
+export function modelForChoice(modelChoice: string | undefined): ModelDefinition | undefined {
+  if (!modelChoice) {
+    return undefined;
+  }
+  return Object.values(MODELS).find((model) => model.modelId === modelChoice);
+}
+
+// Whether Chef's own API keys can be used for a model choice sent by the client.
+export function canUseDefaultKey(modelChoice: string | undefined) {
+  return Object.values(MODELS).some((model) => model.modelId === modelChoice && model.defaultKey);
+}
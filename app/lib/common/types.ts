@@ -7,6 +7,15 @@ import type { ActionStatus } from '~/lib/runtime/action-runner';
 import type { lookupDocsParameters } from 'chef-agent/tools/lookupDocs';
 import type { ConvexToolSet, EmptyArgs } from 'chef-agent/types';
 import type { getConvexDeploymentNameParameters } from 'chef-agent/tools/getConvexDeploymentName';
+import type { searchParameters } from 'chef-agent/tools/search';
+import type { patchToolParameters } from 'chef-agent/tools/patch';
+import type { runConvexFunctionToolParameters } from 'chef-agent/tools/runConvexFunction';
+import type { readLogsToolParameters } from 'chef-agent/tools/readLogs';
+import type { inspectDataToolParameters } from 'chef-agent/tools/inspectData';
+import type { screenshotToolParameters } from 'chef-agent/tools/screenshot';
+import type { writeFileToolParameters } from 'chef-agent/tools/writeFile';
+import type { deleteFileToolParameters } from 'chef-agent/tools/deleteFile';
+import type { renameFileToolParameters } from 'chef-agent/tools/renameFile';
 
 type ConvexToolCall = ToolCallUnion<ConvexToolSet>;
 
@@ -33,6 +42,16 @@ type ConvexToolResult =
       args: typeof editToolParameters;
       result: string;
     }
+  | {
+      toolName: 'patch';
+      args: typeof patchToolParameters;
+      result: string;
+    }
+  | {
+      toolName: 'search';
+      args: typeof searchParameters;
+      result: string;
+    }
   | {
       toolName: 'lookupDocs';
       args: typeof lookupDocsParameters;
@@ -47,6 +66,41 @@ type ConvexToolResult =
       toolName: 'getConvexDeploymentName';
       args: typeof getConvexDeploymentNameParameters;
       result: string;
+    }
+  | {
+      toolName: 'runConvexFunction';
+      args: typeof runConvexFunctionToolParameters;
+      result: string;
+    }
+  | {
+      toolName: 'readLogs';
+      args: typeof readLogsToolParameters;
+      result: string;
+    }
+  | {
+      toolName: 'inspectData';
+      args: typeof inspectDataToolParameters;
+      result: string;
+    }
+  | {
+      toolName: 'screenshot';
+      args: typeof screenshotToolParameters;
+      result: string;
+    }
+  | {
+      toolName: 'writeFile';
+      args: typeof writeFileToolParameters;
+      result: string;
+    }
+  | {
+      toolName: 'deleteFile';
+      args: typeof deleteFileToolParameters;
+      result: string;
+    }
+  | {
+      toolName: 'renameFile';
+      args: typeof renameFileToolParameters;
+      result: string;
     };
 
 export type ConvexToolInvocation =
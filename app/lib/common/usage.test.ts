@@ -1,5 +1,5 @@
 import { expect, test } from 'vitest';
-import { calculateChefTokens, initializeUsage } from './usage';
+import { calculateChefTokens, calculateChefTokensForMessage, initializeUsage } from './usage';
 
 test('calculateChefTokensGoogle', () => {
   const usage = {
@@ -89,3 +89,28 @@ test('calculateChefTokensBedrock', () => {
   expect(breakdown.promptTokens.bedrock.uncached).toBe(8000);
   expect(breakdown.promptTokens.bedrock.cached).toBe(30 + 2000);
 });
+
+test('calculateChefTokensForMessageFailover', () => {
+  const usage = (toolCallId: string) => ({
+    type: 'usage',
+    usage: { payload: JSON.stringify({ toolCallId, completionTokens: 100, promptTokens: 200, totalTokens: 300 }) },
+  });
+  const message = {
+    id: '1',
+    role: 'assistant' as const,
+    content: '',
+    annotations: [
+      usage('call_1'),
+      { type: 'model', toolCallId: 'call_1', provider: 'Google', model: 'gemini-2.5-pro' },
+      usage('final'),
+      { type: 'model', toolCallId: 'final', provider: 'Anthropic', model: 'claude-sonnet-4-0' },
+    ],
+  };
+  const finalGeneration = { usage: { completionTokens: 100, promptTokens: 200, totalTokens: 300 } };
+
+  const chefTokens = calculateChefTokensForMessage(message, finalGeneration, 'Anthropic');
+
+  // The first step was served by Google: 100 * 140 + 200 * 18 = 17600
+  // The final step was served by Anthropic: 100 * 200 + 200 * 40 = 28000
+  expect(chefTokens).toBe(17600 + 28000);
+});
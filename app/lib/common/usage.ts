@@ -2,18 +2,24 @@ import type { LanguageModelUsage, Message, ProviderMetadata } from 'ai';
 import { type ProviderType, type Usage, type UsageAnnotation, parseAnnotations } from '~/lib/common/annotations';
 import { captureMessage } from '@sentry/remix';
 
+// OpenAI-compatible servers don't always report usage, which leaves token counts undefined or NaN.
+export function tokenCount(tokens: number | undefined | null) {
+  return typeof tokens === 'number' && Number.isFinite(tokens) ? tokens : 0;
+}
+
 export function usageFromGeneration(generation: {
   usage: LanguageModelUsage;
   providerMetadata?: ProviderMetadata;
 }): Usage {
   const bedrockUsage = generation.providerMetadata?.bedrock?.usage as any;
   return {
-    completionTokens: generation.usage.completionTokens,
-    promptTokens: generation.usage.promptTokens,
-    totalTokens: generation.usage.totalTokens,
+    completionTokens: tokenCount(generation.usage?.completionTokens),
+    promptTokens: tokenCount(generation.usage?.promptTokens),
+    totalTokens: tokenCount(generation.usage?.totalTokens),
     providerMetadata: generation.providerMetadata,
     anthropicCacheCreationInputTokens: Number(generation.providerMetadata?.anthropic?.cacheCreationInputTokens ?? 0),
     anthropicCacheReadInputTokens: Number(generation.providerMetadata?.anthropic?.cacheReadInputTokens ?? 0),
+    // Also set for Azure, Mistral, DeepSeek, OpenRouter and local models, which use OpenAI's API.
     openaiCachedPromptTokens: Number(generation.providerMetadata?.openai?.cachedPromptTokens ?? 0),
     xaiCachedPromptTokens: Number(generation.providerMetadata?.xai?.cachedPromptTokens ?? 0),
     googleCachedContentTokenCount: Number(generation.providerMetadata?.google?.cachedContentTokenCount ?? 0),
@@ -87,6 +93,39 @@ export async function calculateTotalBilledUsageForMessage(
   return totalUsageBilledFor;
 }
 
+/**
+ * Bill each part of a message at the price of the provider that served it, since a message can fail
+ * over between providers partway through. `finalProvider` served the final generation.
+ */
+export function calculateChefTokensForMessage(
+  lastMessage: Message | undefined,
+  finalGeneration: { usage: LanguageModelUsage; providerMetadata?: ProviderMetadata },
+  finalProvider: ProviderType,
+): number {
+  const { usageForToolCall, modelForToolCall } = parseAnnotations(lastMessage?.annotations ?? []);
+  const usageByProvider = new Map<ProviderType, Usage>();
+  if (!usageForToolCall.final) {
+    usageByProvider.set(finalProvider, usageFromGeneration(finalGeneration));
+  }
+  for (const [toolCallId, payload] of Object.entries(usageForToolCall)) {
+    if (!payload) {
+      continue;
+    }
+    const provider = modelForToolCall[toolCallId]?.provider ?? finalProvider;
+    let usage = usageByProvider.get(provider);
+    if (!usage) {
+      usage = initializeUsage();
+      usageByProvider.set(provider, usage);
+    }
+    addUsage(usage, payload);
+  }
+  let chefTokens = 0;
+  for (const [provider, usage] of usageByProvider) {
+    chefTokens += calculateChefTokens(usage, provider).chefTokens;
+  }
+  return chefTokens;
+}
+
 function addUsage(totalUsage: Usage, payload: UsageAnnotation) {
   totalUsage.completionTokens += payload.completionTokens;
   totalUsage.promptTokens += payload.promptTokens;
@@ -153,7 +192,8 @@ export function calculateChefTokens(totalUsage: Usage, provider?: ProviderType)
       },
     },
   };
-  if (provider === 'Anthropic') {
+  // Vertex serves Claude at Anthropic's prices and reports Anthropic's usage metadata.
+  if (provider === 'Anthropic' || provider === 'Vertex') {
     const anthropicCompletionTokens = totalUsage.completionTokens * 200;
     chefTokens += anthropicCompletionTokens;
     breakdown.completionTokens.anthropic = anthropicCompletionTokens;
@@ -211,6 +251,14 @@ export function calculateChefTokens(totalUsage: Usage, provider?: ProviderType)
     const googleCachedContentTokens = totalUsage.googleCachedContentTokenCount * 5;
     chefTokens += googleCachedContentTokens;
     breakdown.promptTokens.google.cached = googleCachedContentTokens;
+  } else if (
+    provider === 'Azure' ||
+    provider === 'Mistral' ||
+    provider === 'DeepSeek' ||
+    provider === 'OpenRouter' ||
+    provider === 'Local'
+  ) {
+    // These are only used with the user's own API keys or hardware, so they don't use Chef tokens.
   } else {
     captureMessage('WARNING: Unknown provider. Not recording usage. Giving away for free.', {
       level: 'error',
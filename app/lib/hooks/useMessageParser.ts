@@ -5,6 +5,7 @@ import { workbenchStore } from '~/lib/stores/workbench.client';
 import { makePartId, type PartId } from 'chef-agent/partId';
 import type { BoltAction } from 'chef-agent/types';
 import { EXCLUDED_FILE_PATHS } from 'chef-agent/constants';
+import { recordParserDiagnostic } from '~/lib/stores/parserDiagnostics';
 
 export const messageParser = new StreamingMessageParser({
   callbacks: {
@@ -34,10 +35,17 @@ export const messageParser = new StreamingMessageParser({
         workbenchStore.runAction(data, true);
       }
     },
+    onDiagnostic: (diagnostic) => {
+      // The agent already heard about problems in messages from before the page loaded.
+      if (!workbenchStore.isReloadedPart(diagnostic.partId)) {
+        recordParserDiagnostic(diagnostic);
+      }
+    },
   },
 });
 
-export type PartCache = Map<PartId, { original: Part; parsed: Part }>;
+// `complete` is set once a part has finished streaming and anything left open in it was closed.
+export type PartCache = Map<PartId, { original: Part; parsed: Part; complete?: boolean }>;
 
 function isPartMaybeEqual(a: Part, b: Part): boolean {
   if (a.type === 'text' && b.type === 'text') {
@@ -54,6 +62,7 @@ function isPartMaybeEqual(a: Part, b: Part): boolean {
 export function processMessage(
   message: Message,
   previousParts: PartCache,
+  isStreaming: boolean = false,
 ): { message: Message; hitRate: [number, number] } {
   if (message.role === 'user') {
     return { message, hitRate: [0, 0] };
@@ -67,7 +76,9 @@ export function processMessage(
     const part = message.parts[i];
     const partId = makePartId(message.id, i);
     const cacheEntry = previousParts.get(partId);
-    if (cacheEntry && isPartMaybeEqual(cacheEntry.original, part)) {
+    // Only the last part of a streaming message can still change.
+    const complete = !isStreaming || i < message.parts.length - 1;
+    if (cacheEntry && isPartMaybeEqual(cacheEntry.original, part) && (cacheEntry.complete || !complete)) {
       parsedParts.push(cacheEntry.parsed);
       hits++;
       continue;
@@ -79,7 +90,7 @@ export function processMessage(
         if (cacheEntry && cacheEntry.parsed.type === 'text') {
           prevContent = cacheEntry.parsed.text;
         }
-        const delta = messageParser.parse(partId, part.text);
+        const delta = complete ? messageParser.end(partId, part.text) : messageParser.parse(partId, part.text);
         newPart = {
           type: 'text' as const,
           text: prevContent + delta,
@@ -118,7 +129,7 @@ export function processMessage(
       }
     }
     parsedParts.push(newPart);
-    previousParts.set(partId, { original: part, parsed: newPart });
+    previousParts.set(partId, { original: part, parsed: newPart, complete });
   }
   return {
     message: {
@@ -134,26 +145,28 @@ type Part = UIMessage['parts'][number];
 export function useMessageParser(partCache: PartCache) {
   const [parsedMessages, setParsedMessages] = useState<Message[]>([]);
 
-  const previousMessages = useRef<{ original: Message; parsed: Message }[]>([]);
+  const previousMessages = useRef<{ original: Message; parsed: Message; streaming: boolean }[]>([]);
   const previousParts = useRef<PartCache>(partCache);
 
-  const parseMessages = useCallback((messages: Message[]) => {
-    const nextPrevMessages: { original: Message; parsed: Message }[] = [];
+  const parseMessages = useCallback((messages: Message[], isStreaming: boolean) => {
+    const nextPrevMessages: { original: Message; parsed: Message; streaming: boolean }[] = [];
 
     for (let i = 0; i < messages.length; i++) {
       const prev = previousMessages.current[i];
       const message = messages[i];
+      const streaming = isStreaming && i === messages.length - 1;
       if (!prev) {
-        const { message: parsed } = processMessage(message, previousParts.current);
-        nextPrevMessages.push({ original: message, parsed });
+        const { message: parsed } = processMessage(message, previousParts.current, streaming);
+        nextPrevMessages.push({ original: message, parsed, streaming });
         continue;
       }
-      if (prev.original === message) {
+      // Reparse a message that just finished streaming so anything left open in it gets closed.
+      if (prev.original === message && prev.streaming === streaming) {
         nextPrevMessages.push(prev);
         continue;
       }
-      const { message: parsed } = processMessage(message, previousParts.current);
-      nextPrevMessages.push({ original: message, parsed });
+      const { message: parsed } = processMessage(message, previousParts.current, streaming);
+      nextPrevMessages.push({ original: message, parsed, streaming });
     }
     previousMessages.current = nextPrevMessages;
     setParsedMessages(nextPrevMessages.map((p) => p.parsed));
@@ -163,8 +176,15 @@ export function useMessageParser(partCache: PartCache) {
 }
 
 function isValidAction(action: BoltAction): boolean {
-  if (action.type === 'file') {
-    return !EXCLUDED_FILE_PATHS.some((excludedPath) => action.filePath.includes(excludedPath));
+  if (action.type === 'file' || action.type === 'delete') {
+    return !isExcludedPath(action.filePath);
+  }
+  if (action.type === 'rename') {
+    return !isExcludedPath(action.filePath) && !isExcludedPath(action.newFilePath);
   }
   return true;
 }
+
+function isExcludedPath(filePath: string) {
+  return EXCLUDED_FILE_PATHS.some((excludedPath) => filePath.includes(excludedPath));
+}
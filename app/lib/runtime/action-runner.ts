@@ -9,13 +9,17 @@ import type { ToolInvocation } from 'ai';
 import { viewParameters } from 'chef-agent/tools/view';
 import { renderDirectory } from 'chef-agent/utils/renderDirectory';
 import { renderFile } from 'chef-agent/utils/renderFile';
-import { readPath, workDirRelative } from '~/utils/fileUtils';
+import { readFilesRecursive, readPath, workDirRelative } from '~/utils/fileUtils';
 import { ContainerBootState, waitForContainerBootState } from '~/lib/stores/containerBootState';
 import { npmInstallToolParameters } from 'chef-agent/tools/npmInstall';
 import { workbenchStore } from '~/lib/stores/workbench.client';
 import { z } from 'zod';
 import { editToolParameters } from 'chef-agent/tools/edit';
-import { getAbsolutePath } from 'chef-agent/utils/workDir';
+import { searchParameters } from 'chef-agent/tools/search';
+import { patchToolParameters } from 'chef-agent/tools/patch';
+import { applyPatch, renderPatchedFiles } from 'chef-agent/utils/patch';
+import { SEARCH_IGNORED_DIRECTORIES, searchFiles } from 'chef-agent/utils/search';
+import { getAbsolutePath, getRelativePath, type AbsolutePath, type RelativePath } from 'chef-agent/utils/workDir';
 import { cleanConvexOutput } from 'chef-agent/utils/shell';
 import type { BoltAction } from 'chef-agent/types';
 import type { BoltShell } from '~/utils/shell';
@@ -26,9 +30,31 @@ import { lookupDocsParameters, docs, type DocKey } from 'chef-agent/tools/lookup
 import { addEnvironmentVariablesParameters } from 'chef-agent/tools/addEnvironmentVariables';
 import { openDashboardToPath } from '~/lib/stores/dashboardPath';
 import { convexProjectStore } from '~/lib/stores/convexProject';
+import { runConvexFunctionToolParameters } from 'chef-agent/tools/runConvexFunction';
+import { runConvexFunction } from 'chef-agent/convexFunctions';
+import { readLogsToolParameters } from 'chef-agent/tools/readLogs';
+import { inspectDataToolParameters } from 'chef-agent/tools/inspectData';
+import { inspectData } from 'chef-agent/convexData';
+import {
+  DEFAULT_SCREENSHOT_HEIGHT,
+  DEFAULT_SCREENSHOT_WIDTH,
+  encodeScreenshotResult,
+  screenshotToolParameters,
+} from 'chef-agent/tools/screenshot';
+import { filterFunctionLogs, formatFunctionLogs } from 'chef-agent/convexLogs';
+import { waitForConvexLogs } from '~/lib/stores/convexLogs';
+import { reviewModeStore, stageChange, stagedChangesStore } from '~/lib/stores/review';
+import { isProtectedPath } from '~/lib/stores/fileOperations';
+import { writeFileToolParameters } from 'chef-agent/tools/writeFile';
+import { deleteFileToolParameters } from 'chef-agent/tools/deleteFile';
+import { renameFileToolParameters } from 'chef-agent/tools/renameFile';
+import { EXCLUDED_FILE_PATHS, WORK_DIR } from 'chef-agent/constants';
 
 const logger = createScopedLogger('ActionRunner');
 
+// How long to wait for a deployment with no buffered logs before reporting that there are none.
+const INITIAL_LOGS_TIMEOUT_MS = 2000;
+
 export type ActionStatus = 'pending' | 'running' | 'complete' | 'aborted' | 'failed';
 
 type BaseActionState = BoltAction & {
@@ -215,7 +241,19 @@ export class ActionRunner {
     try {
       switch (action.type) {
         case 'file': {
-          await this.#runFileAction(action);
+          if (reviewModeStore.get()) {
+            await this.#stageFileAction(action);
+          } else {
+            await this.#runFileAction(action);
+          }
+          break;
+        }
+        case 'delete': {
+          await this.#runDeleteAction(action);
+          break;
+        }
+        case 'rename': {
+          await this.#runRenameAction(action);
           break;
         }
         case 'toolUse': {
@@ -284,6 +322,97 @@ export class ActionRunner {
     }
   }
 
+  async #stageFileAction(action: ActionState) {
+    if (action.type !== 'file') {
+      unreachable('Expected file action');
+    }
+    const webcontainer = await this.#webcontainer;
+    await this.#writeFile(webcontainer, nodePath.relative(webcontainer.workdir, action.filePath), action.content);
+  }
+
+  async #runDeleteAction(action: ActionState) {
+    if (action.type !== 'delete') {
+      unreachable('Expected delete action');
+    }
+    await this.#deletePath(action.filePath);
+  }
+
+  async #deletePath(path: string) {
+    const filePath = getAbsolutePath(path);
+    const relativePath = projectRelativePath(filePath, path);
+    if (isProtectedPath(filePath)) {
+      throw new Error(`${path} can't be deleted because the app needs it`);
+    }
+    const webcontainer = await this.#webcontainer;
+    if (reviewModeStore.get()) {
+      for (const relPath of filesUnder(filePath)) {
+        stageChange(getAbsolutePath(relPath), await readFileIfExists(webcontainer, relPath), null);
+      }
+      return;
+    }
+    await webcontainer.fs.rm(relativePath, { recursive: true, force: true });
+    logger.debug(`Deleted ${path}`);
+  }
+
+  async #runRenameAction(action: ActionState) {
+    if (action.type !== 'rename') {
+      unreachable('Expected rename action');
+    }
+    await this.#movePath(action.filePath, action.newFilePath);
+  }
+
+  async #movePath(path: string, newPath: string) {
+    const filePath = getAbsolutePath(path);
+    const newFilePath = getAbsolutePath(newPath);
+    const relativePath = projectRelativePath(filePath, path);
+    const newRelativePath = projectRelativePath(newFilePath, newPath);
+    if (isProtectedPath(filePath) || isProtectedPath(newFilePath)) {
+      throw new Error(`${path} can't be moved to ${newPath} because the app needs it`);
+    }
+    if (newFilePath === filePath || newFilePath.startsWith(`${filePath}/`)) {
+      throw new Error(`Can't move ${path} to ${newPath}`);
+    }
+    const webcontainer = await this.#webcontainer;
+    if (reviewModeStore.get()) {
+      // Stage a move as writing each file to its new path and deleting the old one.
+      for (const relPath of filesUnder(filePath)) {
+        const content = await this.#readFile(webcontainer, relPath);
+        if (content === null) {
+          continue;
+        }
+        const newRelPath = getRelativePath(newFilePath + getAbsolutePath(relPath).slice(filePath.length));
+        await this.#writeFile(webcontainer, newRelPath, content);
+        stageChange(getAbsolutePath(relPath), await readFileIfExists(webcontainer, relPath), null);
+      }
+      return;
+    }
+    const folder = nodePath.dirname(newRelativePath);
+    if (folder !== '.') {
+      await webcontainer.fs.mkdir(folder, { recursive: true });
+    }
+    await webcontainer.fs.rename(relativePath, newRelativePath);
+    logger.debug(`Moved ${path} to ${newPath}`);
+  }
+
+  // Read a file as the agent sees it, including its own staged changes in review mode.
+  async #readFile(container: WebContainer, relPath: string): Promise<string | null> {
+    const staged = stagedChangesStore.get()[getAbsolutePath(relPath)];
+    return staged ? staged.content : await readFileIfExists(container, relPath);
+  }
+
+  // Write a file from a tool call, or stage the write for the user to review.
+  async #writeFile(container: WebContainer, relPath: string, content: string) {
+    if (reviewModeStore.get()) {
+      stageChange(getAbsolutePath(relPath), await readFileIfExists(container, relPath), content);
+      return;
+    }
+    const folder = nodePath.dirname(relPath);
+    if (folder !== '.') {
+      await container.fs.mkdir(folder, { recursive: true });
+    }
+    await container.fs.writeFile(relPath, content);
+  }
+
   updateAction(id: string, newState: ActionStateUpdate) {
     const actions = this.actions.get();
 
@@ -340,7 +469,14 @@ export class ActionRunner {
           const args = viewParameters.parse(parsed.args);
           const container = await this.#webcontainer;
           const relPath = workDirRelative(args.path);
-          const file = await readPath(container, relPath);
+          const staged = stagedChangesStore.get()[getAbsolutePath(relPath)];
+          if (staged?.content === null) {
+            throw new Error(`File not found: ${args.path}`);
+          }
+          const file =
+            staged && staged.content !== null
+              ? { type: 'file' as const, content: staged.content }
+              : await readPath(container, relPath);
           if (file.type === 'directory') {
             result = renderDirectory(file.children);
           } else {
@@ -355,11 +491,10 @@ export class ActionRunner {
           const args = editToolParameters.parse(parsed.args);
           const container = await this.#webcontainer;
           const relPath = workDirRelative(args.path);
-          const file = await readPath(container, relPath);
-          if (file.type !== 'file') {
-            throw new Error('Expected a file');
+          let content = await this.#readFile(container, relPath);
+          if (content === null) {
+            throw new Error(`File not found: ${args.path}`);
           }
-          let content = file.content;
           if (args.old.length > 1024) {
             throw new Error(`Old text must be less than 1024 characters: ${args.old}`);
           }
@@ -375,10 +510,33 @@ export class ActionRunner {
             throw new Error(`Old text found multiple times: ${args.old}`);
           }
           content = content.replace(args.old, args.new);
-          await container.fs.writeFile(relPath, content);
+          await this.#writeFile(container, relPath, content);
           result = `Successfully edited ${args.path}`;
           break;
         }
+        case 'patch': {
+          const args = patchToolParameters.parse(parsed.args);
+          const container = await this.#webcontainer;
+          const patchedFiles = await applyPatch(args, (relPath) => this.#readFile(container, relPath));
+          // The whole patch applies, so write all of the files.
+          for (const file of patchedFiles) {
+            await this.#writeFile(container, file.path, file.newContent);
+          }
+          if (!reviewModeStore.get()) {
+            // The agent made these changes, so don't send them back to it as the user's edits.
+            workbenchStore.resetFileModifications(patchedFiles.map((file) => getAbsolutePath(file.path)));
+          }
+          result = renderPatchedFiles(patchedFiles);
+          break;
+        }
+        case 'search': {
+          const args = searchParameters.parse(parsed.args);
+          const container = await this.#webcontainer;
+          const relPath = workDirRelative(args.path ?? '');
+          const files = await readFilesRecursive(container, relPath, SEARCH_IGNORED_DIRECTORIES);
+          result = searchFiles(files, args);
+          break;
+        }
         case 'npmInstall': {
           try {
             const args = npmInstallToolParameters.parse(parsed.args);
@@ -427,6 +585,15 @@ export class ActionRunner {
           break;
         }
         case 'deploy': {
+          // Only deploy the files the user accepted, so wait for them to review the rest.
+          const stagedCount = Object.keys(stagedChangesStore.get()).length;
+          if (stagedCount > 0) {
+            result =
+              `Your changes to ${stagedCount} ${stagedCount === 1 ? 'file are' : 'files are'} waiting for the ` +
+              `user to review them, so nothing was deployed. End your turn here. The user will ask you to ` +
+              `deploy again once they've accepted or rejected the changes.`;
+            break;
+          }
           const container = await this.#webcontainer;
           await waitForContainerBootState(ContainerBootState.READY);
 
@@ -531,6 +698,68 @@ export class ActionRunner {
           }
           break;
         }
+        case 'runConvexFunction': {
+          const args = runConvexFunctionToolParameters.parse(parsed.args);
+          const convexProject = convexProjectStore.get();
+          if (!convexProject) {
+            throw new Error('No Convex project is currently connected. Please connect a Convex project first.');
+          }
+          result = await runConvexFunction(convexProject, args.functionName, args.args);
+          break;
+        }
+        case 'readLogs': {
+          const args = readLogsToolParameters.parse(parsed.args);
+          const convexProject = convexProjectStore.get();
+          if (!convexProject) {
+            throw new Error('No Convex project is currently connected. Please connect a Convex project first.');
+          }
+          const entries = await waitForConvexLogs(convexProject, INITIAL_LOGS_TIMEOUT_MS);
+          result = formatFunctionLogs(filterFunctionLogs(entries, args), args.limit ?? undefined);
+          break;
+        }
+        case 'inspectData': {
+          const args = inspectDataToolParameters.parse(parsed.args);
+          const convexProject = convexProjectStore.get();
+          if (!convexProject) {
+            throw new Error('No Convex project is currently connected. Please connect a Convex project first.');
+          }
+          result = await inspectData(convexProject, args);
+          break;
+        }
+        case 'screenshot': {
+          const args = screenshotToolParameters.parse(parsed.args);
+          const route = args.route ?? '/';
+          const width = args.width ?? DEFAULT_SCREENSHOT_WIDTH;
+          const height = args.height ?? DEFAULT_SCREENSHOT_HEIGHT;
+          const image = await workbenchStore.captureScreenshot({ route, width, height });
+          result = encodeScreenshotResult(`Screenshot of ${route} at ${width}x${height}.`, image);
+          break;
+        }
+        case 'writeFile': {
+          const args = writeFileToolParameters.parse(parsed.args);
+          const container = await this.#webcontainer;
+          const relPath = workDirRelative(args.path);
+          if (EXCLUDED_FILE_PATHS.some((excludedPath) => relPath.includes(excludedPath))) {
+            throw new Error(
+              `You tried to modify \`${relPath}\` but this is not allowed. Please modify a different file.`,
+            );
+          }
+          await this.#writeFile(container, relPath, args.content);
+          result = `Successfully wrote ${args.path}`;
+          break;
+        }
+        case 'deleteFile': {
+          const args = deleteFileToolParameters.parse(parsed.args);
+          await this.#deletePath(args.path);
+          result = `Successfully deleted ${args.path}`;
+          break;
+        }
+        case 'renameFile': {
+          const args = renameFileToolParameters.parse(parsed.args);
+          await this.#movePath(args.path, args.newPath);
+          result = `Successfully moved ${args.path} to ${args.newPath}`;
+          break;
+        }
         default: {
           throw new Error(`Unknown tool: ${parsed.toolName}`);
         }
@@ -557,3 +786,42 @@ export class ActionRunner {
     }
   }
 }
+
+// Deletes and moves can only touch paths inside the project, and not the project folder itself.
+function projectRelativePath(filePath: AbsolutePath, actionPath: string): string {
+  const relativePath = nodePath.relative(WORK_DIR, filePath);
+  if (!relativePath || relativePath.startsWith('..')) {
+    throw new Error(`${actionPath} is not a path inside the project`);
+  }
+  return relativePath;
+}
+
+// The files at or under `filePath`, including ones the agent has staged but not written yet.
+function filesUnder(filePath: AbsolutePath): RelativePath[] {
+  const filePaths = new Set<string>();
+  const files = workbenchStore.files.get();
+  for (const [direntPath, dirent] of Object.entries(files)) {
+    if (dirent?.type === 'file') {
+      filePaths.add(direntPath);
+    }
+  }
+  for (const [stagedPath, change] of Object.entries(stagedChangesStore.get())) {
+    if (change) {
+      filePaths.add(stagedPath);
+    }
+  }
+  return [...filePaths]
+    .filter((path) => path === filePath || path.startsWith(`${filePath}/`))
+    .map((path) => getRelativePath(path));
+}
+
+async function readFileIfExists(container: WebContainer, relPath: string): Promise<string | null> {
+  try {
+    return await container.fs.readFile(relPath, 'utf-8');
+  } catch (e: any) {
+    if (typeof e.message === 'string' && e.message.startsWith('ENOENT')) {
+      return null;
+    }
+    throw e;
+  }
+}
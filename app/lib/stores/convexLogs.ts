@@ -0,0 +1,64 @@
+import { atom } from 'nanostores';
+import { fetchFunctionLogs, type FunctionExecutionLog } from 'chef-agent/convexLogs';
+import type { ConvexProject } from 'chef-agent/types';
+import { createScopedLogger } from 'chef-agent/utils/logger';
+
+const logger = createScopedLogger('ConvexLogs');
+
+const MAX_LOG_ENTRIES = 500;
+const RETRY_DELAY_MS = 5000;
+
+export const convexLogsStore = atom<FunctionExecutionLog[]>([]);
+
+let stream: { deploymentUrl: string; abortController: AbortController; initialFetch: Promise<void> } | null = null;
+
+/**
+ * Start streaming function logs from `project` into `convexLogsStore` if we aren't already.
+ * Resolves once the logs the deployment has buffered have been fetched.
+ */
+export function ensureConvexLogsStream(project: ConvexProject): Promise<void> {
+  if (stream && stream.deploymentUrl === project.deploymentUrl) {
+    return stream.initialFetch;
+  }
+  if (stream) {
+    stream.abortController.abort();
+    convexLogsStore.set([]);
+  }
+  const abortController = new AbortController();
+  let resolveInitialFetch!: () => void;
+  const initialFetch = new Promise<void>((resolve) => {
+    resolveInitialFetch = resolve;
+  });
+  stream = { deploymentUrl: project.deploymentUrl, abortController, initialFetch };
+  void streamLogs(project, abortController.signal, resolveInitialFetch);
+  return initialFetch;
+}
+
+/**
+ * Wait for the initial fetch of buffered logs, giving up after `timeoutMs` since the
+ * deployment holds the request open until there's a new execution if it has no logs.
+ */
+export async function waitForConvexLogs(project: ConvexProject, timeoutMs: number) {
+  await Promise.race([ensureConvexLogsStream(project), new Promise<void>((resolve) => setTimeout(resolve, timeoutMs))]);
+  return convexLogsStore.get();
+}
+
+async function streamLogs(project: ConvexProject, signal: AbortSignal, onInitialFetch: () => void) {
+  let cursor = 0;
+  while (!signal.aborted) {
+    try {
+      const { entries, newCursor } = await fetchFunctionLogs(project, cursor, signal);
+      cursor = newCursor;
+      if (entries.length > 0) {
+        convexLogsStore.set([...convexLogsStore.get(), ...entries].slice(-MAX_LOG_ENTRIES));
+      }
+    } catch (error) {
+      if (signal.aborted) {
+        return;
+      }
+      logger.warn('Failed to fetch Convex logs', error);
+      await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY_MS));
+    }
+    onInitialFetch();
+  }
+}
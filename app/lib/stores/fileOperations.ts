@@ -0,0 +1,47 @@
+import { atom } from 'nanostores';
+import { EXCLUDED_FILE_PATHS } from 'chef-agent/constants';
+import type { AbsolutePath } from 'chef-agent/utils/workDir';
+import { getRelativePath } from 'chef-agent/utils/workDir';
+
+// A change the user made to the project's files from the file tree.
+export type FileOperation =
+  | { type: 'create'; filePath: AbsolutePath; isFolder: boolean }
+  | { type: 'rename'; filePath: AbsolutePath; newPath: AbsolutePath }
+  | { type: 'delete'; filePath: AbsolutePath };
+
+// File operations since the last message, to report to the agent.
+export const fileOperationsStore = atom<FileOperation[]>([]);
+
+export function recordFileOperation(operation: FileOperation) {
+  fileOperationsStore.set([...fileOperationsStore.get(), operation]);
+}
+
+/**
+ * Whether renaming or deleting `filePath` would touch a file the agent isn't allowed to modify,
+ * which the template needs to work.
+ */
+export function isProtectedPath(filePath: AbsolutePath) {
+  const relativePath = getRelativePath(filePath);
+  return EXCLUDED_FILE_PATHS.some(
+    (excludedPath) => excludedPath === relativePath || excludedPath.startsWith(`${relativePath}/`),
+  );
+}
+
+export function formatFileOperations(operations: FileOperation[]): string {
+  const lines = operations.map((operation) => {
+    if (operation.type === 'create') {
+      return `- Created ${operation.isFolder ? 'folder' : 'file'} ${getRelativePath(operation.filePath)}`;
+    }
+    if (operation.type === 'rename') {
+      return `- Moved ${getRelativePath(operation.filePath)} to ${getRelativePath(operation.newPath)}`;
+    }
+    return `- Deleted ${getRelativePath(operation.filePath)}`;
+  });
+  return `
+<file_operations>
+The user changed the project's files since your last response:
+${lines.join('\n')}
+Don't recreate deleted files or write to the old paths of moved files, and update imports of moved files if they're out of date.
+</file_operations>
+`;
+}
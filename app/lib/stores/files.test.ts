@@ -0,0 +1,39 @@
+import { describe, expect, test } from 'vitest';
+import type { WebContainer } from '@webcontainer/api';
+import { WORK_DIR } from 'chef-agent/constants';
+import type { AbsolutePath } from 'chef-agent/utils/workDir';
+import { FilesStore } from './files';
+
+function fakeWebContainer() {
+  const written = new Map<string, string>();
+  const container = {
+    workdir: WORK_DIR,
+    fs: {
+      mkdir: async () => undefined,
+      writeFile: async (path: string, content: string) => {
+        written.set(path, content);
+      },
+    },
+    internal: {
+      watchPaths: () => undefined,
+    },
+  };
+  return { container: container as unknown as WebContainer, written };
+}
+
+describe('FilesStore', () => {
+  test('saves edits to a file created from the file tree', async () => {
+    const { container, written } = fakeWebContainer();
+    const store = new FilesStore(Promise.resolve(container));
+    const filePath = `${WORK_DIR}/src/notes.ts` as AbsolutePath;
+    await store.createFile(filePath);
+    expect(store.getFile(filePath)?.content).toBe('');
+
+    await store.saveFile(filePath, 'export const notes = [];\n');
+    expect(written.get('src/notes.ts')).toBe('export const notes = [];\n');
+    expect(store.getFile(filePath)?.content).toBe('export const notes = [];\n');
+    expect(store.getModifiedFiles()).toEqual({
+      [filePath]: { type: 'file', content: 'export const notes = [];\n', isBinary: false },
+    });
+  });
+});
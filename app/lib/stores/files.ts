@@ -90,8 +90,14 @@ export class FilesStore {
     return modifiedFiles;
   }
 
-  resetFileModifications() {
-    this.#modifiedFiles.clear();
+  resetFileModifications(filePaths?: AbsolutePath[]) {
+    if (!filePaths) {
+      this.#modifiedFiles.clear();
+      return;
+    }
+    for (const filePath of filePaths) {
+      this.#modifiedFiles.delete(filePath);
+    }
   }
 
   async saveFile(filePath: AbsolutePath, content: string) {
@@ -106,7 +112,8 @@ export class FilesStore {
 
       const oldContent = this.getFile(filePath)?.content;
 
-      if (!oldContent) {
+      // New files are empty, so only a missing file is unexpected.
+      if (oldContent === undefined) {
         unreachable('Expected content to be defined');
       }
 
@@ -128,18 +135,160 @@ export class FilesStore {
     }
   }
 
+  /**
+   * Write files the user uploaded, creating their folders. Text files are recorded as user writes
+   * so that they're included in the relevant files of the next prompt.
+   */
+  async uploadFiles(files: { filePath: AbsolutePath; data: Uint8Array }[]) {
+    const webcontainer = await this.#webcontainer;
+
+    for (const { filePath, data } of files) {
+      const relativePath = path.relative(webcontainer.workdir, filePath);
+
+      if (!relativePath || relativePath.startsWith('..')) {
+        throw new Error(`EINVAL: invalid file path, write '${relativePath}'`);
+      }
+
+      const folder = path.dirname(relativePath);
+
+      if (folder !== '.') {
+        await webcontainer.fs.mkdir(folder, { recursive: true });
+      }
+
+      await webcontainer.fs.writeFile(relativePath, data);
+
+      // like `saveFile`, we update the file tree immediately instead of waiting for the watcher
+      this.#addParentFolders(filePath);
+
+      const file = this.#fileFromBuffer(data);
+      this.files.setKey(filePath, file);
+
+      if (!file.isBinary) {
+        this.userWrites.set(filePath, Date.now());
+      }
+    }
+
+    logger.info(`Uploaded ${files.length} files`);
+  }
+
+  async createFile(filePath: AbsolutePath) {
+    const webcontainer = await this.#webcontainer;
+    const relativePath = this.#checkNewPath(webcontainer, filePath);
+    const folder = path.dirname(relativePath);
+
+    if (folder !== '.') {
+      await webcontainer.fs.mkdir(folder, { recursive: true });
+    }
+
+    await webcontainer.fs.writeFile(relativePath, '');
+    this.#addParentFolders(filePath);
+    this.files.setKey(filePath, { type: 'file', content: '', isBinary: false });
+  }
+
+  async createFolder(folderPath: AbsolutePath) {
+    const webcontainer = await this.#webcontainer;
+    const relativePath = this.#checkNewPath(webcontainer, folderPath);
+
+    await webcontainer.fs.mkdir(relativePath, { recursive: true });
+    this.#addParentFolders(folderPath);
+    this.files.setKey(folderPath, { type: 'folder' });
+  }
+
+  /**
+   * Rename or move a file or folder, along with everything in it.
+   */
+  async rename(oldPath: AbsolutePath, newPath: AbsolutePath) {
+    const webcontainer = await this.#webcontainer;
+    const newRelativePath = this.#checkNewPath(webcontainer, newPath);
+
+    if (!this.files.get()[oldPath]) {
+      throw new Error(`ENOENT: no such file or directory, rename '${oldPath}'`);
+    }
+
+    const newFolder = path.dirname(newRelativePath);
+
+    if (newFolder !== '.') {
+      await webcontainer.fs.mkdir(newFolder, { recursive: true });
+    }
+
+    await webcontainer.fs.rename(path.relative(webcontainer.workdir, oldPath), newRelativePath);
+    this.#addParentFolders(newPath);
+
+    for (const [direntPath, dirent] of Object.entries(this.files.get())) {
+      if (direntPath !== oldPath && !direntPath.startsWith(`${oldPath}/`)) {
+        continue;
+      }
+
+      const oldDirentPath = direntPath as AbsolutePath;
+      const newDirentPath = getAbsolutePath(newPath + direntPath.slice(oldPath.length));
+      this.files.setKey(oldDirentPath, undefined);
+      this.files.setKey(newDirentPath, dirent);
+
+      for (const tracked of [this.#modifiedFiles, this.userWrites] as Map<AbsolutePath, unknown>[]) {
+        if (tracked.has(oldDirentPath)) {
+          tracked.set(newDirentPath, tracked.get(oldDirentPath));
+          tracked.delete(oldDirentPath);
+        }
+      }
+    }
+  }
+
+  /**
+   * Delete a file or a folder and everything in it.
+   */
+  async delete(filePath: AbsolutePath) {
+    const webcontainer = await this.#webcontainer;
+    const relativePath = path.relative(webcontainer.workdir, filePath);
+
+    if (!relativePath || relativePath.startsWith('..')) {
+      throw new Error(`EINVAL: invalid file path, delete '${relativePath}'`);
+    }
+
+    await webcontainer.fs.rm(relativePath, { recursive: true, force: true });
+
+    for (const direntPath of Object.keys(this.files.get())) {
+      if (direntPath === filePath || direntPath.startsWith(`${filePath}/`)) {
+        this.files.setKey(direntPath as AbsolutePath, undefined);
+        this.#modifiedFiles.delete(direntPath as AbsolutePath);
+        this.userWrites.delete(direntPath as AbsolutePath);
+      }
+    }
+  }
+
+  #checkNewPath(webcontainer: WebContainer, filePath: AbsolutePath) {
+    const relativePath = path.relative(webcontainer.workdir, filePath);
+
+    if (!relativePath || relativePath.startsWith('..')) {
+      throw new Error(`EINVAL: invalid file path '${relativePath}'`);
+    }
+
+    if (this.files.get()[filePath]) {
+      throw new Error(`${relativePath} already exists`);
+    }
+
+    return relativePath;
+  }
+
+  #addParentFolders(filePath: AbsolutePath) {
+    for (let dir = path.dirname(filePath); dir.startsWith(`${WORK_DIR}/`); dir = path.dirname(dir)) {
+      if (!this.files.get()[getAbsolutePath(dir)]) {
+        this.files.setKey(getAbsolutePath(dir), { type: 'folder' });
+      }
+    }
+  }
+
   async #init() {
     const webcontainer = await this.#webcontainer;
     (globalThis as any).webcontainer = webcontainer;
     webcontainer.internal.watchPaths(
-      { include: [`${WORK_DIR}/**`], exclude: ['**/node_modules', '.git'], includeContent: true },
+      { include: [`${WORK_DIR}/**`], exclude: ['**/node_modules', '**/.git'], includeContent: true },
       bufferWatchEvents(FILE_EVENTS_DEBOUNCE_MS, this.#processEventBuffer.bind(this)),
     );
   }
 
   async prewarmWorkdir(container: WebContainer) {
     const absFilePaths = await container.internal.fileSearch([] as any, WORK_DIR, {
-      excludes: ['.gitignore', 'node_modules'],
+      excludes: ['.gitignore', 'node_modules', '.git'],
     });
     const dirs = new Set<string>();
     for (const absPath of absFilePaths) {
@@ -161,12 +310,7 @@ export class FilesStore {
         return;
       }
       const buffer = await container.fs.readFile(relativePath);
-      const isBinary = isBinaryFile(buffer);
-      let content = '';
-      if (!isBinary) {
-        content = this.#decodeFileContent(buffer);
-      }
-      this.files.setKey(getAbsolutePath(absPath), { type: 'file', content, isBinary });
+      this.files.setKey(getAbsolutePath(absPath), this.#fileFromBuffer(buffer));
     };
     await Promise.all(absFilePaths.map(loadFile));
   }
@@ -201,21 +345,7 @@ export class FilesStore {
             this.#size++;
           }
 
-          let content = '';
-
-          /**
-           * @note This check is purely for the editor. The way we detect this is not
-           * bullet-proof and it's a best guess so there might be false-positives.
-           * The reason we do this is because we don't want to display binary files
-           * in the editor nor allow to edit them.
-           */
-          const isBinary = isBinaryFile(buffer);
-
-          if (!isBinary) {
-            content = this.#decodeFileContent(buffer);
-          }
-
-          this.files.setKey(getAbsolutePath(sanitizedPath), { type: 'file', content, isBinary });
+          this.files.setKey(getAbsolutePath(sanitizedPath), this.#fileFromBuffer(buffer));
 
           break;
         }
@@ -232,6 +362,25 @@ export class FilesStore {
     }
   }
 
+  #fileFromBuffer(buffer?: Uint8Array): File {
+    /**
+     * @note This check is purely for the editor. The way we detect this is not
+     * bullet-proof and it's a best guess so there might be false-positives.
+     * The reason we do this is because we don't want to display binary files
+     * in the editor nor allow to edit them.
+     */
+    if (isBinaryFile(buffer)) {
+      return { type: 'file', content: '', isBinary: true };
+    }
+
+    const content = this.#decodeFileContent(buffer);
+
+    // Files that aren't valid UTF-8 are binary too, and saving them from the editor would corrupt them.
+    return content === null
+      ? { type: 'file', content: '', isBinary: true }
+      : { type: 'file', content, isBinary: false };
+  }
+
   #decodeFileContent(buffer?: Uint8Array) {
     if (!buffer || buffer.byteLength === 0) {
       return '';
@@ -241,7 +390,7 @@ export class FilesStore {
       return utf8TextDecoder.decode(buffer);
     } catch (error) {
       console.log(error);
-      return '';
+      return null;
     }
   }
 }
@@ -0,0 +1,211 @@
+import git from 'isomorphic-git';
+import type JSZip from 'jszip';
+import type { Message } from 'ai';
+import type { WebContainer } from '@webcontainer/api';
+import { atom } from 'nanostores';
+import { createScopedLogger } from 'chef-agent/utils/logger';
+import { webcontainer } from '~/lib/webcontainer';
+import { IGNORED_RELATIVE_PATHS } from '~/utils/constants';
+import { webcontainerGitFs } from '~/utils/webcontainerGitFs';
+
+const logger = createScopedLogger('GitHistory');
+
+// The repo lives in the WebContainer's working directory, which all of its paths are relative to.
+const DIR = '.';
+const AUTHOR = { name: 'Chef', email: 'chef@convex.dev' };
+const MAX_SUBJECT_LENGTH = 72;
+const MAX_BODY_LENGTH = 2000;
+
+export interface GitCommitInfo {
+  oid: string;
+  subject: string;
+  body: string;
+  timestamp: number;
+}
+
+export const gitHistoryStore = atom<GitCommitInfo[]>([]);
+
+// Serialize git operations so a slow commit can't race with the next one.
+let gitQueue: Promise<unknown> = Promise.resolve();
+function enqueue<T>(operation: () => Promise<T>): Promise<T> {
+  const result = gitQueue.then(operation);
+  gitQueue = result.catch(() => {
+    // The caller handles the failure; later operations should still run.
+  });
+  return result;
+}
+
+/**
+ * Commit the current state of the project, if anything changed since the last commit.
+ * Returns the new commit's oid.
+ */
+export function commitProjectChanges(message: string): Promise<string | null> {
+  return enqueue(async () => {
+    const container = await webcontainer;
+    const fs = webcontainerGitFs(container);
+    await git.init({ fs, dir: DIR, defaultBranch: 'main' });
+
+    const committed = await headFiles(fs);
+    const current = await workingFiles(container, fs);
+    const changed: string[] = [];
+    for (const [filepath, content] of current) {
+      const { oid } = await git.hashBlob({ object: content });
+      if (committed.get(filepath) !== oid) {
+        changed.push(filepath);
+      }
+    }
+    const removed = [...committed.keys()].filter((filepath) => !current.has(filepath));
+    if (changed.length === 0 && removed.length === 0) {
+      return null;
+    }
+
+    if (changed.length > 0) {
+      await git.add({ fs, dir: DIR, filepath: changed });
+    }
+    for (const filepath of removed) {
+      await git.remove({ fs, dir: DIR, filepath });
+    }
+    const oid = await git.commit({ fs, dir: DIR, message, author: AUTHOR });
+    logger.info(`Committed ${oid}: ${changed.length} changed, ${removed.length} removed`);
+    await refreshHistory(fs);
+    return oid;
+  });
+}
+
+/**
+ * Commit the changes from a finished assistant turn. Failures are logged rather than thrown
+ * since history is best-effort and shouldn't interrupt the chat.
+ */
+export async function commitAssistantTurn(message: Message): Promise<void> {
+  try {
+    await commitProjectChanges(commitMessageForTurn(message));
+  } catch (e) {
+    logger.error('Failed to commit assistant turn', e);
+  }
+}
+
+export function loadGitHistory(): Promise<void> {
+  return enqueue(async () => {
+    const container = await webcontainer;
+    await refreshHistory(webcontainerGitFs(container));
+  });
+}
+
+/**
+ * Add the project's `.git` directory to `zip` so exports keep their history.
+ */
+export function addGitRepoToZip(zip: JSZip): Promise<void> {
+  return enqueue(async () => {
+    const container = await webcontainer;
+    const walk = async (dir: string) => {
+      let entries;
+      try {
+        entries = await container.fs.readdir(dir, { withFileTypes: true });
+      } catch (_e) {
+        // No commits yet.
+        return;
+      }
+      for (const entry of entries) {
+        const entryPath = `${dir}/${entry.name}`;
+        if (entry.isDirectory()) {
+          await walk(entryPath);
+        } else if (entry.isFile()) {
+          zip.file(entryPath, await container.fs.readFile(entryPath));
+        }
+      }
+    };
+    await walk('.git');
+  });
+}
+
+/**
+ * Turn an assistant message into a commit message: the first line of its final text (which
+ * summarizes what it did) as the subject, and the rest as the body.
+ */
+export function commitMessageForTurn(message: Message): string {
+  const texts = (message.parts ?? [])
+    .filter((part) => part.type === 'text')
+    .map((part) => part.text.replace(/<boltArtifact[\s\S]*?<\/boltArtifact>/g, '').trim())
+    .filter((text) => text.length > 0);
+  const summary = texts.at(-1) ?? '';
+  const artifactTitle = message.content.match(/<boltArtifact[^>]*title="([^"]*)"/)?.[1];
+  const [firstLine, ...rest] = summary.split('\n');
+  let subject = firstLine.replace(/^[#*\s]+/, '').trim() || artifactTitle || 'Update project';
+  if (subject.length > MAX_SUBJECT_LENGTH) {
+    subject = `${subject.slice(0, MAX_SUBJECT_LENGTH - 3)}...`;
+  }
+  const body = rest.join('\n').trim().slice(0, MAX_BODY_LENGTH);
+  return body ? `${subject}\n\n${body}\n` : `${subject}\n`;
+}
+
+async function refreshHistory(fs: ReturnType<typeof webcontainerGitFs>) {
+  let commits;
+  try {
+    commits = await git.log({ fs, dir: DIR });
+  } catch (e: any) {
+    if (e?.code === 'NotFoundError') {
+      gitHistoryStore.set([]);
+      return;
+    }
+    throw e;
+  }
+  gitHistoryStore.set(
+    commits.map(({ oid, commit }) => {
+      const [subject, ...body] = commit.message.split('\n');
+      return { oid, subject, body: body.join('\n').trim(), timestamp: commit.author.timestamp * 1000 };
+    }),
+  );
+}
+
+// Map each file in the last commit to its blob oid.
+async function headFiles(fs: ReturnType<typeof webcontainerGitFs>): Promise<Map<string, string>> {
+  const files = new Map<string, string>();
+  let headOid: string;
+  try {
+    headOid = await git.resolveRef({ fs, dir: DIR, ref: 'HEAD' });
+  } catch (e: any) {
+    if (e?.code === 'NotFoundError') {
+      return files;
+    }
+    throw e;
+  }
+  const walk = async (treeOid: string, prefix: string) => {
+    const { tree } = await git.readTree({ fs, dir: DIR, oid: treeOid });
+    for (const entry of tree) {
+      if (entry.type === 'tree') {
+        await walk(entry.oid, `${prefix}${entry.path}/`);
+      } else if (entry.type === 'blob') {
+        files.set(`${prefix}${entry.path}`, entry.oid);
+      }
+    }
+  };
+  const { commit } = await git.readCommit({ fs, dir: DIR, oid: headOid });
+  await walk(commit.tree, '');
+  return files;
+}
+
+// Read every file in the project that should be committed, skipping ignored paths.
+async function workingFiles(
+  container: WebContainer,
+  fs: ReturnType<typeof webcontainerGitFs>,
+): Promise<Map<string, Uint8Array>> {
+  const files = new Map<string, Uint8Array>();
+  const walk = async (dir: string) => {
+    for (const entry of await container.fs.readdir(dir || '.', { withFileTypes: true })) {
+      const filepath = dir ? `${dir}/${entry.name}` : entry.name;
+      if (IGNORED_RELATIVE_PATHS.includes(filepath)) {
+        continue;
+      }
+      if (await git.isIgnored({ fs, dir: DIR, filepath })) {
+        continue;
+      }
+      if (entry.isDirectory()) {
+        await walk(filepath);
+      } else if (entry.isFile()) {
+        files.set(filepath, await container.fs.readFile(filepath));
+      }
+    }
+  };
+  await walk('');
+  return files;
+}
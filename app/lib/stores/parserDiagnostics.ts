@@ -0,0 +1,9 @@
+import { atom } from 'nanostores';
+import type { ParserDiagnostic } from 'chef-agent/message-parser';
+
+// Malformed artifacts in the agent's responses that the parser recovered from, to report to the agent.
+export const parserDiagnosticsStore = atom<ParserDiagnostic[]>([]);
+
+export function recordParserDiagnostic(diagnostic: ParserDiagnostic) {
+  parserDiagnosticsStore.set([...parserDiagnosticsStore.get(), diagnostic]);
+}
@@ -2,6 +2,7 @@ import type { WebContainer } from '@webcontainer/api';
 import { atom } from 'nanostores';
 import { createScopedLogger } from 'chef-agent/utils/logger';
 import { withResolvers } from '~/utils/promises';
+import type { SelectedElement } from './selectedElement';
 
 export interface PreviewInfo {
   port: number;
@@ -10,7 +11,19 @@ export interface PreviewInfo {
   iframe: HTMLIFrameElement | null;
 }
 
+// An error reported by the app running in a preview, sent by the iframe worker.
+export interface PreviewError {
+  kind: 'console' | 'error' | 'unhandledrejection';
+  message: string;
+  stack?: string;
+  timestamp: number;
+}
+
+const MAX_PREVIEW_ERRORS = 20;
+
 const PROXY_PORT_RANGE_START = 0xc4ef;
+const CAPTURE_LOAD_TIMEOUT_MS = 20000;
+const CAPTURE_SETTLE_MS = 1500;
 
 // This is a separate codebase.
 // eslint-disable-next-line no-restricted-imports
@@ -23,6 +36,7 @@ export class PreviewsStore {
   #webcontainer: Promise<WebContainer>;
 
   previews = atom<PreviewInfo[]>([]);
+  previewErrors = atom<PreviewError[]>([]);
 
   #proxies = new Map<number, ProxyState>();
 
@@ -32,6 +46,8 @@ export class PreviewsStore {
   }
 
   async #init() {
+    window.addEventListener('message', this.#handlePreviewError);
+
     const webcontainer = await this.#webcontainer;
 
     // Listen for server ready events
@@ -143,6 +159,81 @@ export class PreviewsStore {
     proxy.stop();
   }
 
+  /**
+   * Ask the app in a preview to forward its runtime errors to `previewErrors`. This needs to be
+   * called each time the preview loads since a reload forgets the subscription. The app records
+   * the errors from before it loads, like ones from the first render, and sends them along.
+   */
+  subscribeToErrors(previewIndex: number) {
+    const iframe = this.previews.get()[previewIndex]?.iframe;
+    if (!iframe?.contentWindow) {
+      return;
+    }
+    iframe.contentWindow.postMessage(
+      { type: 'chefPreviewRequest', request: 'subscribeErrors' },
+      new URL(iframe.src).origin,
+    );
+  }
+
+  clearPreviewErrors() {
+    this.previewErrors.set([]);
+  }
+
+  #handlePreviewError = (e: MessageEvent) => {
+    if (e.data?.type !== 'previewError') {
+      return;
+    }
+    const isFromPreview = this.previews.get().some((preview) => preview.iframe?.contentWindow === e.source);
+    if (!isFromPreview) {
+      return;
+    }
+    const error = e.data.data as PreviewError;
+    const errors = this.previewErrors.get();
+    // Errors thrown on every render would otherwise fill the list with copies.
+    if (errors.some((existing) => existing.message === error.message && existing.stack === error.stack)) {
+      return;
+    }
+    this.previewErrors.set([...errors, error].slice(-MAX_PREVIEW_ERRORS));
+  };
+
+  /**
+   * Let the user pick an element in the preview. Resolves with the element, or null if
+   * the user pressed Escape or the picker was stopped.
+   */
+  async pickElement(previewIndex: number): Promise<SelectedElement | null> {
+    const iframe = this.previews.get()[previewIndex]?.iframe;
+    if (!iframe?.contentWindow) {
+      throw new Error('No preview yet');
+    }
+    const targetOrigin = new URL(iframe.src).origin;
+    const { promise, resolve } = withResolvers<SelectedElement | null>();
+    const handleMessage = (e: MessageEvent) => {
+      if (e.source !== iframe.contentWindow || e.data?.type !== 'elementPicked') {
+        return;
+      }
+      resolve(e.data.data as SelectedElement | null);
+    };
+    // Resolve rather than hang if the preview navigates away while picking.
+    const handleLoad = () => resolve(null);
+    window.addEventListener('message', handleMessage);
+    iframe.addEventListener('load', handleLoad);
+    try {
+      iframe.contentWindow.postMessage({ type: 'chefPreviewRequest', request: 'startElementPicker' }, targetOrigin);
+      return await promise;
+    } finally {
+      window.removeEventListener('message', handleMessage);
+      iframe.removeEventListener('load', handleLoad);
+    }
+  }
+
+  stopPickingElement(previewIndex: number) {
+    const iframe = this.previews.get()[previewIndex]?.iframe;
+    iframe?.contentWindow?.postMessage(
+      { type: 'chefPreviewRequest', request: 'stopElementPicker' },
+      new URL(iframe.src).origin,
+    );
+  }
+
   async requestAnyScreenshot(timeout = 30000): Promise<string> {
     const t0 = performance.now();
     let previewIndex;
@@ -165,14 +256,66 @@ export class PreviewsStore {
     if (!iframe?.contentWindow) {
       throw new Error('No preview yet');
     }
+    return this.#requestFromIframe(iframe, 'screenshot', 'screenshot', 1000);
+  }
+
+  /**
+   * Screenshot `route` of the default preview in a hidden iframe of the given size, so the
+   * capture doesn't depend on how the user has sized or navigated the visible preview.
+   */
+  async captureScreenshot({ route, width, height }: { route: string; width: number; height: number }): Promise<string> {
+    const preview = this.previews.get().find((p) => p.ready);
+    if (!preview) {
+      throw new Error('The preview is not running. Deploy the app to start the dev server first.');
+    }
+    const container = document.createElement('div');
+    container.style.cssText = `position: fixed; left: -${width + 100}px; top: 0; width: ${width}px; height: ${height}px; pointer-events: none;`;
+    const iframe = document.createElement('iframe');
+    iframe.style.cssText = `width: ${width}px; height: ${height}px; border: none;`;
+    iframe.src = new URL(route.startsWith('/') ? route : `/${route}`, preview.baseUrl).href;
+    container.appendChild(iframe);
+    document.body.appendChild(container);
+    try {
+      // The app only loads the screenshot worker after it's rendered, so keep pinging until it responds.
+      const deadline = performance.now() + CAPTURE_LOAD_TIMEOUT_MS;
+      while (true) {
+        try {
+          await this.#requestFromIframe(iframe, 'ping', 'pong', 500);
+          break;
+        } catch (e) {
+          if (performance.now() > deadline) {
+            throw new Error(`The preview didn't load ${route} within ${CAPTURE_LOAD_TIMEOUT_MS / 1000} seconds`, {
+              cause: e,
+            });
+          }
+        }
+      }
+      // Give queries a moment to load so we don't just capture loading spinners.
+      await new Promise((resolve) => setTimeout(resolve, CAPTURE_SETTLE_MS));
+      return await this.#requestFromIframe(iframe, 'screenshot', 'screenshot', 10000);
+    } finally {
+      container.remove();
+    }
+  }
 
+  async #requestFromIframe(
+    iframe: HTMLIFrameElement,
+    request: string,
+    responseType: string,
+    timeout: number,
+  ): Promise<string> {
     const targetOrigin = new URL(iframe.src).origin;
     let cleanup: (() => void) | undefined;
 
-    const getScreenshotData = (): Promise<string> =>
+    const getResponseData = (): Promise<string> =>
       new Promise<string>((resolve) => {
         const handleMessage = (e: MessageEvent) => {
-          if (e.origin !== targetOrigin || !('type' in e.data) || e.data.type !== 'screenshot') {
+          if (
+            e.origin !== targetOrigin ||
+            e.source !== iframe.contentWindow ||
+            !('type' in e.data) ||
+            e.data.type !== responseType
+          ) {
             return;
           }
           resolve(e.data.data as string);
@@ -184,16 +327,24 @@ export class PreviewsStore {
       iframe.contentWindow?.postMessage(
         {
           type: 'chefPreviewRequest',
-          request: 'screenshot',
+          request,
         },
         targetOrigin,
       );
       return await Promise.race([
-        getScreenshotData(),
-        new Promise<never>((_, reject) => setTimeout(() => reject(new Error('Screenshot timeout')), 1000)),
+        getResponseData(),
+        new Promise<never>((_, reject) => setTimeout(() => reject(new Error(`Preview ${request} timeout`)), timeout)),
       ]);
     } finally {
       cleanup?.();
     }
   }
 }
+
+export function formatPreviewErrors(errors: readonly PreviewError[]): string {
+  return errors
+    .map((error) =>
+      error.stack?.includes(error.message) ? error.stack : [error.message, error.stack].filter(Boolean).join('\n'),
+    )
+    .join('\n\n');
+}
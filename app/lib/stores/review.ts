@@ -0,0 +1,105 @@
+import { atom, map } from 'nanostores';
+import type { AbsolutePath } from 'chef-agent/utils/workDir';
+import { getRelativePath } from 'chef-agent/utils/workDir';
+import { getLocalStorage, setLocalStorage } from '~/lib/persistence';
+import { initialIdStore } from './chatId';
+
+const kReviewMode = 'chef_review_mode';
+const kStagedChanges = 'chef_staged_changes';
+
+// A file write or deletion from the agent that's waiting for the user to accept or reject it.
+export interface StagedChange {
+  filePath: AbsolutePath;
+  // `null` if the file doesn't exist in the container.
+  originalContent: string | null;
+  // `null` if the agent deleted the file.
+  content: string | null;
+}
+
+// When enabled, the agent's file writes and edits are staged for review instead of being
+// written to the WebContainer.
+export const reviewModeStore = atom<boolean>(initReviewMode());
+
+export const stagedChangesStore = map<Record<AbsolutePath, StagedChange | undefined>>({});
+
+// Keep the staged changes for each chat until they're reviewed, so reloading the page doesn't
+// lose the agent's work.
+if (!import.meta.env.SSR) {
+  stagedChangesStore.listen((changes) => {
+    const key = stagedChangesKey(initialIdStore.get());
+    if (Object.keys(changes).length === 0) {
+      localStorage.removeItem(key);
+    } else {
+      setLocalStorage(key, changes);
+    }
+  });
+}
+
+function stagedChangesKey(initialId: string) {
+  return `${kStagedChanges}_${initialId}`;
+}
+
+export function restoreStagedChanges(initialId: string) {
+  const changes = getLocalStorage(stagedChangesKey(initialId));
+  if (changes) {
+    stagedChangesStore.set(changes);
+  }
+}
+
+// Files whose changes the user rejected since the last message, to report to the agent.
+export const rejectedChangesStore = atom<AbsolutePath[]>([]);
+
+function initReviewMode() {
+  if (import.meta.env.SSR) {
+    return false;
+  }
+  return localStorage.getItem(kReviewMode) === 'true';
+}
+
+export function setReviewMode(enabled: boolean) {
+  reviewModeStore.set(enabled);
+  localStorage.setItem(kReviewMode, String(enabled));
+}
+
+export function stageChange(filePath: AbsolutePath, originalContent: string | null, content: string | null) {
+  const existing = stagedChangesStore.get()[filePath];
+  // Keep the content from before the first staged change so the diff covers the whole turn.
+  const firstOriginalContent = existing ? existing.originalContent : originalContent;
+  if (firstOriginalContent === null && content === null) {
+    // The agent deleted a file it created this turn, so there's nothing left to review.
+    stagedChangesStore.setKey(filePath, undefined);
+    return;
+  }
+  stagedChangesStore.setKey(filePath, { filePath, originalContent: firstOriginalContent, content });
+}
+
+export function unstageChange(filePath: AbsolutePath): StagedChange | undefined {
+  const change = stagedChangesStore.get()[filePath];
+  stagedChangesStore.setKey(filePath, undefined);
+  return change;
+}
+
+/**
+ * Resolve once the user has accepted or rejected every staged change.
+ */
+export function waitForReview(): Promise<void> {
+  return new Promise((resolve) => {
+    const unsubscribe = stagedChangesStore.subscribe((changes) => {
+      if (Object.keys(changes).length === 0) {
+        queueMicrotask(() => unsubscribe());
+        resolve();
+      }
+    });
+  });
+}
+
+export function formatRejectedChanges(filePaths: AbsolutePath[]): string {
+  const files = filePaths.map((filePath) => `- ${getRelativePath(filePath)}`).join('\n');
+  return `
+<review_feedback>
+The user reviewed your changes and rejected the changes to these files, so they still have their previous contents:
+${files}
+Don't make these changes again unless the user asks for them.
+</review_feedback>
+`;
+}
@@ -0,0 +1,30 @@
+import { atom } from 'nanostores';
+
+// An element the user picked in the preview, as described by the iframe worker.
+export interface SelectedElement {
+  selector: string;
+  html: string;
+  styles: Record<string, string>;
+  boundingBox: { x: number; y: number; width: number; height: number };
+}
+
+// The element to attach to the next user message, if any.
+export const selectedElementStore = atom<SelectedElement | null>(null);
+
+export function formatSelectedElement(element: SelectedElement): string {
+  const { x, y, width, height } = element.boundingBox;
+  const styles = Object.entries(element.styles)
+    .filter(([, value]) => value !== '')
+    .map(([property, value]) => `${property}: ${value};`)
+    .join(' ');
+  return `
+<selected_element>
+The user selected this element in the preview. Find the JSX that renders it before making changes.
+Selector: ${element.selector}
+Bounding box: ${width}x${height} at (${x}, ${y})
+Computed styles: ${styles}
+HTML:
+${element.html}
+</selected_element>
+`;
+}
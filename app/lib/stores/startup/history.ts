@@ -8,6 +8,7 @@ import { backoffTime } from '~/utils/constants';
 import { useEffect } from 'react';
 import { compressWithLz4 } from '~/lib/compression';
 import {
+  collapsedMessageIndexStore,
   handleUrlHintAndDescription,
   lastCompleteMessageInfoStore,
   prepareMessageHistory,
@@ -232,6 +233,10 @@ async function chatSyncWorker(args: {
     if (firstMessage !== undefined) {
       formData.append('firstMessage', firstMessage);
     }
+    const collapsedMessageIndex = collapsedMessageIndexStore.get();
+    if (messageBlob !== undefined && collapsedMessageIndex !== null) {
+      formData.append('collapsedMessageIndex', collapsedMessageIndex.toString());
+    }
     if (currentState.subchatIndex !== subchatIndexStore.get()) {
       chatSyncState.set({
         ...currentState,
@@ -276,6 +281,9 @@ async function chatSyncWorker(args: {
     if (currentState.numFailures >= 3) {
       toast.dismiss('chat-save-failure');
     }
+    if (messageBlob !== undefined && collapsedMessageIndexStore.get() === collapsedMessageIndex) {
+      collapsedMessageIndexStore.set(null);
+    }
 
     const updates: Partial<BackupSyncState> = {
       lastSync: now,
@@ -1,6 +1,7 @@
 import { expect, test, describe, vi } from 'vitest';
 import type { Message } from '@ai-sdk/react';
 import { serializeMessageForConvex } from './messages';
+import { encodeScreenshotResult } from 'chef-agent/tools/screenshot';
 
 vi.mock('lz4-wasm', () => ({
   compress: (data: Uint8Array) => data,
@@ -29,4 +30,29 @@ describe('serializeMessageForConvex', () => {
       text: 'some content',
     });
   });
+
+  test('stores screenshots without their images', () => {
+    const message: Message = {
+      id: 'test',
+      role: 'assistant',
+      content: '',
+      parts: [
+        {
+          type: 'tool-invocation',
+          toolInvocation: {
+            state: 'result',
+            toolCallId: 'call_1',
+            toolName: 'screenshot',
+            args: { route: '/', width: null, height: null },
+            result: encodeScreenshotResult('Screenshot of / at 1280x800.', 'data:image/png;base64,iVBORw0KGgo='),
+          },
+        },
+      ],
+    };
+
+    const serialized = serializeMessageForConvex(message);
+
+    expect(serialized.parts?.[0]).toMatchObject({ toolInvocation: { result: 'Screenshot of / at 1280x800.' } });
+    expect(message.parts?.[0]).toMatchObject({ toolInvocation: { result: expect.stringContaining('data:image/png') } });
+  });
 });
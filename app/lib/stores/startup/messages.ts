@@ -8,6 +8,7 @@ import { api } from '@convex/_generated/api';
 import { description as descriptionStore } from '~/lib/stores/description';
 import { compressWithLz4 } from '~/lib/compression';
 import { stripMetadata } from '~/components/chat/UserMessage';
+import { parseScreenshotResult } from 'chef-agent/tools/screenshot';
 
 type CompleteMessageInfo = {
   messageIndex: number;
@@ -18,6 +19,10 @@ type CompleteMessageInfo = {
 
 export const lastCompleteMessageInfoStore = atom<CompleteMessageInfo | null>(null);
 
+// The index of the first message still sent in full after older ones were collapsed, if that's
+// changed since the chat was last saved. The server summarizes the messages before it.
+export const collapsedMessageIndexStore = atom<number | null>(null);
+
 export async function prepareMessageHistory(args: {
   chatId: string;
   sessionId: string;
@@ -129,11 +134,25 @@ export function serializeMessageForConvex(message: Message) {
 
   return {
     ...rest,
-    parts: message.parts,
+    parts: message.parts?.map(stripScreenshotImage),
     createdAt: message.createdAt?.getTime() ?? undefined,
   };
 }
 
+// Screenshots are only for the model to look at while it's working, and their data URLs are
+// large, so store the chat with just their text description.
+function stripScreenshotImage(part: NonNullable<Message['parts']>[number]) {
+  if (
+    part.type !== 'tool-invocation' ||
+    part.toolInvocation.toolName !== 'screenshot' ||
+    part.toolInvocation.state !== 'result'
+  ) {
+    return part;
+  }
+  const { text } = parseScreenshotResult(part.toolInvocation.result);
+  return { ...part, toolInvocation: { ...part.toolInvocation, result: text } };
+}
+
 async function compressMessages(messages: Message[], lastMessageRank: number, partIndex: number): Promise<Uint8Array> {
   const slicedMessages = messages.slice(0, lastMessageRank + 1);
   slicedMessages[lastMessageRank].parts = slicedMessages[lastMessageRank].parts?.slice(0, partIndex + 1);
@@ -6,6 +6,7 @@ import type { SerializedMessage } from '@convex/messages';
 import type { Message } from '@ai-sdk/react';
 import { setKnownUrlId } from '~/lib/stores/chatId';
 import { setKnownInitialId } from '~/lib/stores/chatId';
+import { restoreStagedChanges } from '~/lib/stores/review';
 import { description } from '~/lib/stores/description';
 import { toast } from 'sonner';
 import * as lz4 from 'lz4-wasm';
@@ -52,6 +53,7 @@ export function useInitialMessages(chatId: string | undefined):
         }
 
         setKnownInitialId(chatInfo.initialId);
+        restoreStagedChanges(chatInfo.initialId);
         if (chatInfo.urlId) {
           setKnownUrlId(chatInfo.urlId);
         }
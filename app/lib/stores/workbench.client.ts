@@ -10,7 +10,7 @@ import { FilesStore } from './files';
 import type { FileMap } from 'chef-agent/types';
 import type { AbsolutePath } from 'chef-agent/utils/workDir';
 import { getAbsolutePath, getRelativePath } from 'chef-agent/utils/workDir';
-import { PreviewsStore } from './previews';
+import { formatPreviewErrors, PreviewsStore } from './previews';
 import { TerminalStore } from './terminal';
 import JSZip from 'jszip';
 import fileSaver from 'file-saver';
@@ -28,9 +28,18 @@ import { setupMjsContent } from '~/lib/download/setupMjsContent';
 import type { ConvexProject } from 'chef-agent/types';
 import { cursorRulesContent } from '~/lib/download/cursorRulesContent';
 import type { ConvexToolName } from '~/lib/common/types';
+import { addGitRepoToZip } from './gitHistory';
+import { rejectedChangesStore, stagedChangesStore, unstageChange } from './review';
+import { replaceInContent, searchFiles, type SearchOptions } from '~/utils/search';
+import type { DroppedFile } from '~/utils/fileUpload';
+import { isProtectedPath, recordFileOperation } from './fileOperations';
 
 const { saveAs } = fileSaver;
 
+// How long to wait for preview errors to stop coming in before showing them, so that the errors
+// from one render show up in a single alert.
+const PREVIEW_ERROR_ALERT_DELAY_MS = 1000;
+
 export interface ArtifactState {
   id: string;
   title: string;
@@ -41,7 +50,7 @@ export interface ArtifactState {
 
 type ArtifactUpdateState = Pick<ArtifactState, 'title' | 'closed'>;
 
-export type WorkbenchViewType = 'code' | 'diff' | 'preview' | 'dashboard';
+export type WorkbenchViewType = 'code' | 'diff' | 'preview' | 'dashboard' | 'history';
 
 export class WorkbenchStore {
   #previewsStore = new PreviewsStore(webcontainer);
@@ -51,6 +60,7 @@ export class WorkbenchStore {
   #toolCalls: Map<string, PromiseWithResolvers<{ result: string }> & { done: boolean }> = new Map();
 
   #reloadedParts = import.meta.hot?.data.reloadedParts ?? new Set<string>();
+  #previewErrorAlertTimeout: ReturnType<typeof setTimeout> | undefined;
 
   artifacts: Artifacts = import.meta.hot?.data.artifacts ?? map({});
 
@@ -61,7 +71,6 @@ export class WorkbenchStore {
   unsavedFiles: WritableAtom<Set<AbsolutePath>> = import.meta.hot?.data.unsavedFiles ?? atom(new Set<AbsolutePath>());
   actionAlert: WritableAtom<ActionAlert | undefined> =
     import.meta.hot?.data.unsavedFiles ?? atom<ActionAlert | undefined>(undefined);
-  modifiedFiles = new Set<string>();
   partIdList: PartId[] = [];
   #globalExecutionQueue = Promise.resolve();
   _toolCallResults: Map<MessageId, Array<{ partId: PartId; kind: 'success' | 'error'; toolName: ConvexToolName }>> =
@@ -76,6 +85,22 @@ export class WorkbenchStore {
       import.meta.hot.data.actionAlert = this.actionAlert;
       import.meta.hot.data.reloadedParts = this.#reloadedParts;
     }
+
+    this.#previewsStore.previewErrors.listen((errors) => {
+      clearTimeout(this.#previewErrorAlertTimeout);
+      if (errors.length === 0) {
+        return;
+      }
+      this.#previewErrorAlertTimeout = setTimeout(() => {
+        this.actionAlert.set({
+          type: 'error',
+          title: errors.length === 1 ? 'Preview Error' : 'Preview Errors',
+          description: errors[errors.length - 1].message,
+          content: formatPreviewErrors(errors),
+          source: 'preview',
+        });
+      }, PREVIEW_ERROR_ALERT_DELAY_MS);
+    });
   }
 
   get followingStreamedCode() {
@@ -116,6 +141,18 @@ export class WorkbenchStore {
     );
   }
 
+  subscribeToPreviewErrors(previewIndex: number) {
+    this.#previewsStore.subscribeToErrors(previewIndex);
+  }
+
+  async pickElement(previewIndex: number) {
+    return this.#previewsStore.pickElement(previewIndex);
+  }
+
+  stopPickingElement(previewIndex: number) {
+    this.#previewsStore.stopPickingElement(previewIndex);
+  }
+
   async requestAnyScreenshot(timeout = 30000): Promise<string> {
     return this.#previewsStore.requestAnyScreenshot(timeout);
   }
@@ -124,6 +161,10 @@ export class WorkbenchStore {
     return this.#previewsStore.requestScreenshot(previewIndex);
   }
 
+  async captureScreenshot(options: { route: string; width: number; height: number }): Promise<string> {
+    return this.#previewsStore.captureScreenshot(options);
+  }
+
   async startProxy(sourcePort: number) {
     return this.#previewsStore.startProxy(sourcePort);
   }
@@ -184,6 +225,7 @@ export class WorkbenchStore {
   }
   clearAlert() {
     this.actionAlert.set(undefined);
+    this.#previewsStore.clearPreviewErrors();
   }
 
   toggleTerminal(value?: boolean) {
@@ -306,6 +348,167 @@ export class WorkbenchStore {
     }
   }
 
+  /**
+   * Replace a file with an earlier version of it, saving it like a user edit so the change is
+   * included in the next prompt.
+   */
+  async restoreFileVersion(filePath: AbsolutePath, content: string) {
+    this.#editorStore.updateFile(filePath, content);
+    await this.saveFile(filePath);
+  }
+
+  /**
+   * Replace every match of a project search, saving each file like a user edit so the changes
+   * are included in the next prompt. Files with unsaved changes are skipped, since saving them
+   * would save the user's edits too. Returns the number of files changed and the skipped files.
+   */
+  async replaceInFiles(
+    options: SearchOptions,
+    replacement: string,
+  ): Promise<{ changed: number; skipped: AbsolutePath[] }> {
+    const documents = this.#editorStore.documents.get();
+    const unsavedFiles = this.unsavedFiles.get();
+    let changed = 0;
+    const skipped: AbsolutePath[] = [];
+    for (const { filePath } of searchFiles(this.files.get(), options)) {
+      const file = this.#filesStore.getFile(filePath);
+      if (!file || !documents[filePath]) {
+        continue;
+      }
+      if (unsavedFiles.has(filePath)) {
+        skipped.push(filePath);
+        continue;
+      }
+      const content = replaceInContent(file.content, options, replacement);
+      if (content === file.content) {
+        continue;
+      }
+      this.#editorStore.updateFile(filePath, content);
+      await this.saveFile(filePath);
+      changed++;
+    }
+    return { changed, skipped };
+  }
+
+  /**
+   * Write files the user dropped into `folder`. Returns their paths.
+   */
+  async uploadFiles(folder: AbsolutePath, files: DroppedFile[]): Promise<AbsolutePath[]> {
+    const uploads = files.map((file) => ({ filePath: getAbsolutePath(path.join(folder, file.path)), data: file.data }));
+    await this.#filesStore.uploadFiles(uploads);
+    if (uploads.some(({ filePath }) => filePath.startsWith(path.join(WORK_DIR, 'convex')))) {
+      await this.#terminalStore.deployFunctionsAndRunDevServer(true);
+    }
+    return uploads.map(({ filePath }) => filePath);
+  }
+
+  async createFile(filePath: AbsolutePath) {
+    await this.#filesStore.createFile(filePath);
+    recordFileOperation({ type: 'create', filePath, isFolder: false });
+    this.setSelectedFile(filePath);
+  }
+
+  async createFolder(folderPath: AbsolutePath) {
+    await this.#filesStore.createFolder(folderPath);
+    recordFileOperation({ type: 'create', filePath: folderPath, isFolder: true });
+  }
+
+  /**
+   * Rename or move a file or folder, saving any unsaved changes to it first so they move with it.
+   * Files the template needs can't be moved.
+   */
+  async renamePath(filePath: AbsolutePath, newPath: AbsolutePath) {
+    if (filePath === newPath) {
+      return;
+    }
+    if (isProtectedPath(filePath)) {
+      throw new Error(`${getRelativePath(filePath)} can't be moved because the app needs it`);
+    }
+    if (newPath.startsWith(`${filePath}/`)) {
+      throw new Error(`Can't move ${getRelativePath(filePath)} into itself`);
+    }
+    for (const unsavedFile of this.unsavedFiles.get()) {
+      if (unsavedFile === filePath || unsavedFile.startsWith(`${filePath}/`)) {
+        await this.saveFile(unsavedFile);
+      }
+    }
+    const selectedFile = this.selectedFile.get();
+    await this.#filesStore.rename(filePath, newPath);
+    recordFileOperation({ type: 'rename', filePath, newPath });
+    if (selectedFile && (selectedFile === filePath || selectedFile.startsWith(`${filePath}/`))) {
+      this.setSelectedFile(getAbsolutePath(newPath + selectedFile.slice(filePath.length)));
+    }
+    await this.#deployIfConvex([filePath, newPath]);
+  }
+
+  /**
+   * Delete a file or folder. Files the template needs can't be deleted.
+   */
+  async deletePath(filePath: AbsolutePath) {
+    if (isProtectedPath(filePath)) {
+      throw new Error(`${getRelativePath(filePath)} can't be deleted because the app needs it`);
+    }
+    this.#discardUnsavedChanges(filePath);
+    await this.#filesStore.delete(filePath);
+    recordFileOperation({ type: 'delete', filePath });
+    await this.#deployIfConvex([filePath]);
+  }
+
+  #discardUnsavedChanges(filePath: AbsolutePath) {
+    const unsavedFiles = new Set(this.unsavedFiles.get());
+    for (const unsavedFile of unsavedFiles) {
+      if (unsavedFile === filePath || unsavedFile.startsWith(`${filePath}/`)) {
+        unsavedFiles.delete(unsavedFile);
+      }
+    }
+    this.unsavedFiles.set(unsavedFiles);
+  }
+
+  async #deployIfConvex(filePaths: AbsolutePath[]) {
+    const convexDir = path.join(WORK_DIR, 'convex');
+    if (filePaths.some((filePath) => filePath === convexDir || filePath.startsWith(`${convexDir}/`))) {
+      await this.#terminalStore.deployFunctionsAndRunDevServer(true);
+    }
+  }
+
+  /**
+   * Write a change the agent made in review mode to the container.
+   */
+  async acceptStagedChange(filePath: AbsolutePath) {
+    const change = stagedChangesStore.get()[filePath];
+    if (!change) {
+      return;
+    }
+    const container = await webcontainer;
+    const relativePath = getRelativePath(filePath);
+    if (change.content === null) {
+      await container.fs.rm(relativePath, { force: true });
+      unstageChange(filePath);
+      return;
+    }
+    const folder = path.dirname(relativePath);
+    if (folder !== '.') {
+      await container.fs.mkdir(folder, { recursive: true });
+    }
+    await container.fs.writeFile(relativePath, change.content);
+    unstageChange(filePath);
+  }
+
+  /**
+   * Drop a change the agent made in review mode and remember to tell it in the next message.
+   */
+  rejectStagedChange(filePath: AbsolutePath) {
+    if (!unstageChange(filePath)) {
+      return;
+    }
+    // File actions show the agent's content in the editor while they stream, so put it back.
+    const file = this.#filesStore.getFile(filePath);
+    if (file) {
+      this.#editorStore.updateFile(filePath, file.content);
+    }
+    rejectedChangesStore.set([...rejectedChangesStore.get(), filePath]);
+  }
+
   async saveCurrentDocument() {
     const currentDocument = this.currentDocument.get();
 
@@ -350,6 +553,10 @@ export class WorkbenchStore {
     this.#filesStore.resetFileModifications();
   }
 
+  resetFileModifications(filePaths: AbsolutePath[]) {
+    this.#filesStore.resetFileModifications(filePaths);
+  }
+
   abortAllActions() {
     // Update all running tools to aborted status
     const artifacts = this.artifacts.get();
@@ -602,6 +809,8 @@ export class WorkbenchStore {
     if (!hasCursorRules) {
       zip.file('.cursor/rules/convex_rules.mdc', cursorRulesContent);
     }
+    // Include the turn-by-turn history so the project can be picked up with plain git.
+    await addGitRepoToZip(zip);
     // Generate the zip file and save it
     const content = await zip.generateAsync({ type: 'blob' });
     saveAs(content, `${projectName}.zip`);
@@ -0,0 +1,117 @@
+import type { FileMap } from 'chef-agent/types';
+import { createScopedLogger } from 'chef-agent/utils/logger';
+import { getRelativePath, type AbsolutePath } from 'chef-agent/utils/workDir';
+import { webcontainer } from '~/lib/webcontainer';
+import { workbenchStore } from '~/lib/stores/workbench.client';
+import {
+  isTypeScriptPath,
+  type FromWorkerMessage,
+  type ToWorkerMessage,
+  type TypeScriptRequest,
+  type TypeScriptResponse,
+} from './protocol';
+
+const logger = createScopedLogger('TypeScript');
+
+/**
+ * Runs the TypeScript language service in a web worker, keeps it in sync with the
+ * `FilesStore` and serves the worker's reads from `node_modules` in the WebContainer.
+ */
+class TypeScriptClient {
+  #worker: Worker;
+  #nextRequestId = 0;
+  #pendingRequests = new Map<number, { resolve: (result: any) => void; reject: (error: Error) => void }>();
+  #sentFiles = new Map<string, string>();
+
+  constructor() {
+    this.#worker = new Worker(new URL('./worker.ts', import.meta.url), { type: 'module' });
+    this.#worker.onmessage = (event: MessageEvent<FromWorkerMessage>) => this.#handleMessage(event.data);
+    workbenchStore.files.subscribe((files) => this.#syncFiles(files));
+  }
+
+  request<R extends TypeScriptRequest>(request: R): Promise<TypeScriptResponse<R>> {
+    const id = this.#nextRequestId++;
+    return new Promise((resolve, reject) => {
+      this.#pendingRequests.set(id, { resolve, reject });
+      this.#post({ type: 'request', id, request });
+    });
+  }
+
+  // Use the editor's contents for a file, which may have unsaved changes.
+  updateFile(filePath: string, content: string) {
+    if (this.#sentFiles.get(filePath) !== content) {
+      this.#sentFiles.set(filePath, content);
+      this.#post({ type: 'updateFiles', files: { [filePath]: content } });
+    }
+  }
+
+  #syncFiles(files: FileMap) {
+    const changed: Record<string, string | null> = {};
+    for (const [filePath, dirent] of Object.entries(files)) {
+      if (dirent?.type === 'file' && !dirent.isBinary && isTypeScriptPath(filePath)) {
+        if (this.#sentFiles.get(filePath) !== dirent.content) {
+          changed[filePath] = dirent.content;
+          this.#sentFiles.set(filePath, dirent.content);
+        }
+      }
+    }
+    for (const filePath of this.#sentFiles.keys()) {
+      if (files[filePath as AbsolutePath]?.type !== 'file') {
+        changed[filePath] = null;
+        this.#sentFiles.delete(filePath);
+      }
+    }
+    if (Object.keys(changed).length > 0) {
+      this.#post({ type: 'updateFiles', files: changed });
+    }
+  }
+
+  async #readFiles(id: number, paths: string[]) {
+    const container = await webcontainer;
+    const files: Record<string, string | null> = {};
+    await Promise.all(
+      paths.map(async (path) => {
+        try {
+          files[path] = await container.fs.readFile(getRelativePath(path), 'utf-8');
+        } catch (_e) {
+          // Most of these are module resolution probing for files that don't exist.
+          files[path] = null;
+        }
+      }),
+    );
+    this.#post({ type: 'readFilesResult', id, files });
+  }
+
+  #handleMessage(message: FromWorkerMessage) {
+    switch (message.type) {
+      case 'readFiles': {
+        this.#readFiles(message.id, message.paths).catch((e) => logger.error('Failed to read files', e));
+        break;
+      }
+      case 'response': {
+        this.#pendingRequests.get(message.id)?.resolve(message.result);
+        this.#pendingRequests.delete(message.id);
+        break;
+      }
+      case 'error': {
+        this.#pendingRequests.get(message.id)?.reject(new Error(message.message));
+        this.#pendingRequests.delete(message.id);
+        break;
+      }
+    }
+  }
+
+  #post(message: ToWorkerMessage) {
+    this.#worker.postMessage(message);
+  }
+}
+
+let client: TypeScriptClient | null = null;
+
+// Start the worker the first time a TypeScript file is opened.
+export function getTypeScriptClient(): TypeScriptClient {
+  if (!client) {
+    client = new TypeScriptClient();
+  }
+  return client;
+}
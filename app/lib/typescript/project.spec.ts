@@ -0,0 +1,64 @@
+import { readFile } from 'node:fs/promises';
+import { resolve } from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { WORK_DIR } from 'chef-agent/constants';
+import { TypeScriptProject } from './project';
+
+// Serve the project's `node_modules` from this repo's, which has the same `typescript` package.
+const NODE_MODULES = resolve(__dirname, '../../../node_modules');
+
+async function loadFiles(paths: string[]) {
+  const files: Record<string, string | null> = {};
+  for (const path of paths) {
+    const localPath = path.replace(`${WORK_DIR}/node_modules`, NODE_MODULES);
+    files[path] = await readFile(localPath, 'utf-8').catch(() => null);
+  }
+  return files;
+}
+
+function createProject() {
+  const project = new TypeScriptProject();
+  project.updateFiles({
+    [`${WORK_DIR}/src/math.ts`]: 'export function add(a: number, b: number) {\n  return a + b;\n}\n',
+    [`${WORK_DIR}/src/main.ts`]: "import { add } from './math';\nconst total: string = add(1, 2);\n",
+  });
+  return project;
+}
+
+describe('TypeScriptProject', () => {
+  it('reports type errors', async () => {
+    const project = createProject();
+    const diagnostics = await project.withDependencies(() => project.diagnostics(`${WORK_DIR}/src/main.ts`), loadFiles);
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0]).toMatchObject({
+      severity: 'error',
+      message: "Type 'number' is not assignable to type 'string'.",
+    });
+  });
+
+  it('finds definitions in other files', async () => {
+    const project = createProject();
+    const pos = "import { add } from './math';\nconst total: string = ".length;
+    const definition = await project.withDependencies(
+      () => project.definition(`${WORK_DIR}/src/main.ts`, pos),
+      loadFiles,
+    );
+    expect(definition).toEqual({ filePath: `${WORK_DIR}/src/math.ts`, pos: 'export function '.length });
+  });
+
+  it('shows types on hover', async () => {
+    const project = createProject();
+    const quickInfo = await project.withDependencies(
+      () => project.quickInfo(`${WORK_DIR}/src/math.ts`, 'export function '.length),
+      loadFiles,
+    );
+    expect(quickInfo?.type).toBe('function add(a: number, b: number): number');
+  });
+
+  it('updates files', async () => {
+    const project = createProject();
+    project.updateFiles({ [`${WORK_DIR}/src/main.ts`]: "import { add } from './math';\nconst total = add(1, 2);\n" });
+    const diagnostics = await project.withDependencies(() => project.diagnostics(`${WORK_DIR}/src/main.ts`), loadFiles);
+    expect(diagnostics).toEqual([]);
+  });
+});
@@ -0,0 +1,242 @@
+import ts from 'typescript';
+import { WORK_DIR } from 'chef-agent/constants';
+import {
+  isTypeScriptPath,
+  type CompletionResult,
+  type DefinitionResult,
+  type Diagnostic,
+  type QuickInfoResult,
+} from './protocol';
+
+// TypeScript's lib files are read from the project's own `typescript` package.
+const LIB_DIR = `${WORK_DIR}/node_modules/typescript/lib`;
+
+// Mirror the template's `tsconfig.app.json`, which also works for `convex/`.
+const COMPILER_OPTIONS: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ES2020,
+  lib: ['lib.es2021.d.ts', 'lib.dom.d.ts', 'lib.dom.iterable.d.ts'],
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+  moduleDetection: ts.ModuleDetectionKind.Force,
+  jsx: ts.JsxEmit.ReactJSX,
+  allowImportingTsExtensions: true,
+  allowSyntheticDefaultImports: true,
+  isolatedModules: true,
+  resolveJsonModule: true,
+  skipLibCheck: true,
+  strict: true,
+  noEmit: true,
+  baseUrl: WORK_DIR,
+  paths: { '@/*': ['./src/*'] },
+  // We can't list directories in `node_modules`, so only include `@types` packages that are imported.
+  types: [],
+};
+
+const MAX_COMPLETIONS = 100;
+
+/**
+ * A TypeScript language service over the project's files.
+ *
+ * Project files are pushed in with `updateFiles`. Files in `node_modules` are too many to
+ * send up front, so the service records the ones it looks for in `missingFiles` and callers
+ * load them with `addDependencyFiles` and retry (see `withDependencies`).
+ */
+export class TypeScriptProject {
+  #files = new Map<string, { content: string; version: number }>();
+  // Contents of files in `node_modules`, or `null` if they don't exist.
+  #dependencyFiles = new Map<string, string | null>();
+  #projectVersion = 0;
+  #registry = ts.createDocumentRegistry();
+  #service: ts.LanguageService;
+
+  missingFiles = new Set<string>();
+
+  constructor() {
+    this.#service = this.#createService();
+  }
+
+  updateFiles(files: Record<string, string | null>) {
+    for (const [path, content] of Object.entries(files)) {
+      if (content === null) {
+        this.#files.delete(path);
+      } else if (this.#files.get(path)?.content !== content) {
+        this.#files.set(path, { content, version: (this.#files.get(path)?.version ?? 0) + 1 });
+      }
+    }
+    this.#projectVersion++;
+  }
+
+  addDependencyFiles(files: Record<string, string | null>) {
+    for (const [path, content] of Object.entries(files)) {
+      this.#dependencyFiles.set(path, content);
+      this.missingFiles.delete(path);
+    }
+    this.#projectVersion++;
+    // Module resolutions that failed are cached by the program, so start over with a new service.
+    // The document registry keeps the files we already parsed.
+    this.#service = this.#createService();
+  }
+
+  /**
+   * Run `operation` until it stops asking for files in `node_modules` we haven't loaded yet.
+   */
+  async withDependencies<T>(
+    operation: () => T,
+    loadFiles: (paths: string[]) => Promise<Record<string, string | null>>,
+    maxRounds = 20,
+  ): Promise<T> {
+    let result = operation();
+    for (let round = 0; round < maxRounds && this.missingFiles.size > 0; round++) {
+      const paths = [...this.missingFiles];
+      this.missingFiles.clear();
+      this.addDependencyFiles(await loadFiles(paths));
+      result = operation();
+    }
+    return result;
+  }
+
+  diagnostics(filePath: string): Diagnostic[] {
+    if (!this.#files.has(filePath)) {
+      return [];
+    }
+    const diagnostics = [
+      ...this.#service.getSyntacticDiagnostics(filePath),
+      ...this.#service.getSemanticDiagnostics(filePath),
+    ];
+    return diagnostics.map((diagnostic) => ({
+      from: diagnostic.start ?? 0,
+      to: (diagnostic.start ?? 0) + (diagnostic.length ?? 0),
+      severity:
+        diagnostic.category === ts.DiagnosticCategory.Error
+          ? 'error'
+          : diagnostic.category === ts.DiagnosticCategory.Warning
+            ? 'warning'
+            : 'info',
+      message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+    }));
+  }
+
+  quickInfo(filePath: string, pos: number): QuickInfoResult | null {
+    const info = this.#service.getQuickInfoAtPosition(filePath, pos);
+    if (!info) {
+      return null;
+    }
+    return {
+      from: info.textSpan.start,
+      to: info.textSpan.start + info.textSpan.length,
+      type: ts.displayPartsToString(info.displayParts),
+      documentation: ts.displayPartsToString(info.documentation),
+    };
+  }
+
+  completions(filePath: string, pos: number): CompletionResult | null {
+    const completions = this.#service.getCompletionsAtPosition(filePath, pos, {
+      includeCompletionsWithInsertText: true,
+    });
+    if (!completions) {
+      return null;
+    }
+    const content = this.#files.get(filePath)?.content ?? '';
+    const wordStart = completions.optionalReplacementSpan?.start ?? wordStartBefore(content, pos);
+    return {
+      from: wordStart,
+      options: completions.entries.slice(0, MAX_COMPLETIONS).map((entry) => ({
+        label: entry.name,
+        apply: entry.insertText,
+        type: completionType(entry.kind),
+      })),
+    };
+  }
+
+  definition(filePath: string, pos: number): DefinitionResult | null {
+    const definition = this.#service.getDefinitionAtPosition(filePath, pos)?.[0];
+    if (!definition) {
+      return null;
+    }
+    return { filePath: definition.fileName, pos: definition.textSpan.start };
+  }
+
+  #createService() {
+    return ts.createLanguageService(this.#host(), this.#registry);
+  }
+
+  #host(): ts.LanguageServiceHost {
+    const readFile = (path: string) => {
+      const file = this.#files.get(path);
+      if (file) {
+        return file.content;
+      }
+      if (!isDependencyPath(path)) {
+        return undefined;
+      }
+      if (!this.#dependencyFiles.has(path)) {
+        this.missingFiles.add(path);
+        return undefined;
+      }
+      return this.#dependencyFiles.get(path) ?? undefined;
+    };
+    return {
+      getCompilationSettings: () => COMPILER_OPTIONS,
+      getProjectVersion: () => String(this.#projectVersion),
+      getScriptFileNames: () => [...this.#files.keys()].filter(isTypeScriptPath),
+      getScriptVersion: (path) => String(this.#files.get(path)?.version ?? 0),
+      getScriptSnapshot: (path) => {
+        const content = readFile(path);
+        return content === undefined ? undefined : ts.ScriptSnapshot.fromString(content);
+      },
+      getCurrentDirectory: () => WORK_DIR,
+      getDefaultLibFileName: (options) => `${LIB_DIR}/${ts.getDefaultLibFileName(options)}`,
+      fileExists: (path) => readFile(path) !== undefined,
+      readFile,
+      directoryExists: (path) => {
+        if (isDependencyPath(path) || path === `${WORK_DIR}/node_modules`) {
+          // We can't tell without listing the directory, so let resolution look for files in it.
+          return true;
+        }
+        const prefix = `${path.replace(/\/$/, '')}/`;
+        return [...this.#files.keys()].some((file) => file.startsWith(prefix));
+      },
+      getDirectories: () => [],
+      useCaseSensitiveFileNames: () => true,
+    };
+  }
+}
+
+function isDependencyPath(path: string) {
+  return path.includes('/node_modules/');
+}
+
+function wordStartBefore(content: string, pos: number) {
+  let start = pos;
+  while (start > 0 && /[\w$]/.test(content[start - 1])) {
+    start--;
+  }
+  return start;
+}
+
+function completionType(kind: ts.ScriptElementKind): string {
+  switch (kind) {
+    case ts.ScriptElementKind.functionElement:
+    case ts.ScriptElementKind.localFunctionElement:
+      return 'function';
+    case ts.ScriptElementKind.memberFunctionElement:
+      return 'method';
+    case ts.ScriptElementKind.memberVariableElement:
+    case ts.ScriptElementKind.memberGetAccessorElement:
+    case ts.ScriptElementKind.memberSetAccessorElement:
+      return 'property';
+    case ts.ScriptElementKind.classElement:
+      return 'class';
+    case ts.ScriptElementKind.interfaceElement:
+    case ts.ScriptElementKind.typeElement:
+      return 'type';
+    case ts.ScriptElementKind.enumElement:
+      return 'enum';
+    case ts.ScriptElementKind.keyword:
+      return 'keyword';
+    case ts.ScriptElementKind.constElement:
+      return 'constant';
+    default:
+      return 'variable';
+  }
+}
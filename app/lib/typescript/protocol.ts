@@ -0,0 +1,54 @@
+// Messages between the editor and the TypeScript worker. Positions are offsets into the file.
+
+export interface Diagnostic {
+  from: number;
+  to: number;
+  severity: 'error' | 'warning' | 'info';
+  message: string;
+}
+
+export interface QuickInfoResult {
+  from: number;
+  to: number;
+  type: string;
+  documentation: string;
+}
+
+export interface CompletionResult {
+  from: number;
+  options: { label: string; apply?: string; type: string }[];
+}
+
+export interface DefinitionResult {
+  filePath: string;
+  pos: number;
+}
+
+export type TypeScriptRequest =
+  | { method: 'diagnostics'; filePath: string }
+  | { method: 'quickInfo'; filePath: string; pos: number }
+  | { method: 'completions'; filePath: string; pos: number }
+  | { method: 'definition'; filePath: string; pos: number };
+
+export type TypeScriptResponse<R extends TypeScriptRequest> = R['method'] extends 'diagnostics'
+  ? Diagnostic[]
+  : R['method'] extends 'quickInfo'
+    ? QuickInfoResult | null
+    : R['method'] extends 'completions'
+      ? CompletionResult | null
+      : DefinitionResult | null;
+
+export type ToWorkerMessage =
+  | { type: 'updateFiles'; files: Record<string, string | null> }
+  | { type: 'request'; id: number; request: TypeScriptRequest }
+  | { type: 'readFilesResult'; id: number; files: Record<string, string | null> };
+
+export type FromWorkerMessage =
+  | { type: 'response'; id: number; result: unknown }
+  | { type: 'error'; id: number; message: string }
+  | { type: 'readFiles'; id: number; paths: string[] };
+
+// The project files the language service checks. Kept here so the editor can use it without loading TypeScript.
+export function isTypeScriptPath(path: string) {
+  return /\.(ts|tsx|mts|cts)$/.test(path) && !path.includes('/node_modules/');
+}
@@ -0,0 +1,67 @@
+/// <reference lib="webworker" />
+import { TypeScriptProject } from './project';
+import type { FromWorkerMessage, ToWorkerMessage, TypeScriptRequest } from './protocol';
+
+declare const self: DedicatedWorkerGlobalScope;
+
+const project = new TypeScriptProject();
+
+let nextReadId = 0;
+const pendingReads = new Map<number, (files: Record<string, string | null>) => void>();
+
+// Ask the main thread to read files in `node_modules` from the WebContainer.
+function loadFiles(paths: string[]): Promise<Record<string, string | null>> {
+  const id = nextReadId++;
+  return new Promise((resolve) => {
+    pendingReads.set(id, resolve);
+    post({ type: 'readFiles', id, paths });
+  });
+}
+
+function handleRequest(request: TypeScriptRequest) {
+  switch (request.method) {
+    case 'diagnostics':
+      return project.diagnostics(request.filePath);
+    case 'quickInfo':
+      return project.quickInfo(request.filePath, request.pos);
+    case 'completions':
+      return project.completions(request.filePath, request.pos);
+    case 'definition':
+      return project.definition(request.filePath, request.pos);
+    default:
+      throw new Error(`Unknown request: ${JSON.stringify(request)}`);
+  }
+}
+
+// Requests wait for the files they need to load, so handle them one at a time.
+let queue = Promise.resolve();
+
+self.onmessage = (event: MessageEvent<ToWorkerMessage>) => {
+  const message = event.data;
+  switch (message.type) {
+    case 'updateFiles': {
+      project.updateFiles(message.files);
+      break;
+    }
+    case 'readFilesResult': {
+      pendingReads.get(message.id)?.(message.files);
+      pendingReads.delete(message.id);
+      break;
+    }
+    case 'request': {
+      queue = queue.then(async () => {
+        try {
+          const result = await project.withDependencies(() => handleRequest(message.request), loadFiles);
+          post({ type: 'response', id: message.id, result });
+        } catch (e: any) {
+          post({ type: 'error', id: message.id, message: e?.message ?? String(e) });
+        }
+      });
+      break;
+    }
+  }
+};
+
+function post(message: FromWorkerMessage) {
+  self.postMessage(message);
+}
@@ -53,7 +53,7 @@ export function computeFileModifications(files: FileMap, modifiedFiles: Map<Abso
  *
  * @see https://www.gnu.org/software/diffutils/manual/html_node/Unified-Format.html
  */
-function diffFiles(fileName: string, oldFileContent: string, newFileContent: string) {
+export function diffFiles(fileName: string, oldFileContent: string, newFileContent: string) {
   let unifiedDiff = createTwoFilesPatch(fileName, fileName, oldFileContent, newFileContent);
 
   const patchHeaderEnd = `--- ${fileName}\n+++ ${fileName}\n`;
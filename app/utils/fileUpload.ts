@@ -0,0 +1,72 @@
+import { path } from 'chef-agent/utils/path';
+
+export interface DroppedFile {
+  // Relative to where the files were dropped, including any dropped folders.
+  path: string;
+  data: Uint8Array;
+}
+
+// Large files would make the WebContainer and the file tree slow, and don't belong in the project.
+export const MAX_UPLOAD_SIZE = 10 * 1024 * 1024;
+
+const SKIPPED_FOLDERS = new Set(['node_modules', '.git']);
+
+export function hasDroppedFiles(dataTransfer: DataTransfer) {
+  return Array.from(dataTransfer.types).includes('Files');
+}
+
+/**
+ * Read the files and folders dropped on the page. Folders are read recursively, skipping
+ * `node_modules` and `.git`. Throws if a file is larger than `MAX_UPLOAD_SIZE`.
+ */
+export async function readDroppedFiles(dataTransfer: DataTransfer): Promise<DroppedFile[]> {
+  // The entries have to be read before the drop event handler returns.
+  const entries = Array.from(dataTransfer.items)
+    .filter((item) => item.kind === 'file')
+    .map((item) => item.webkitGetAsEntry());
+  const files: DroppedFile[] = [];
+  for (const entry of entries) {
+    if (entry) {
+      await readEntry(entry, '', files);
+    }
+  }
+  return files;
+}
+
+async function readEntry(entry: FileSystemEntry, folder: string, files: DroppedFile[]) {
+  const entryPath = folder ? path.join(folder, entry.name) : entry.name;
+  if (isFile(entry)) {
+    const file = await new Promise<File>((resolve, reject) => entry.file(resolve, reject));
+    if (file.size > MAX_UPLOAD_SIZE) {
+      throw new Error(`${entryPath} is larger than ${MAX_UPLOAD_SIZE / 1024 / 1024}MB`);
+    }
+    files.push({ path: entryPath, data: new Uint8Array(await file.arrayBuffer()) });
+    return;
+  }
+  if (isDirectory(entry) && !SKIPPED_FOLDERS.has(entry.name)) {
+    for (const child of await readDirectory(entry)) {
+      await readEntry(child, entryPath, files);
+    }
+  }
+}
+
+async function readDirectory(entry: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> {
+  const reader = entry.createReader();
+  const entries: FileSystemEntry[] = [];
+  // `readEntries` returns the entries in batches, and an empty batch at the end.
+  while (true) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) {
+      return entries;
+    }
+    entries.push(...batch);
+  }
+}
+
+function isFile(entry: FileSystemEntry): entry is FileSystemFileEntry {
+  return entry.isFile;
+}
+
+function isDirectory(entry: FileSystemEntry): entry is FileSystemDirectoryEntry {
+  return entry.isDirectory;
+}
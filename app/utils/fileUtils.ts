@@ -69,3 +69,30 @@ export async function readPath(
   const content = await container.fs.readFile(relPath, 'utf-8');
   return { type: 'file', content, isBinary: false };
 }
+
+/**
+ * Recursively read every file under `relPath`, skipping `ignoredDirectories`. The returned
+ * paths are relative to the work directory.
+ */
+export async function readFilesRecursive(
+  container: WebContainer,
+  relPath: string,
+  ignoredDirectories: string[],
+): Promise<{ path: string; content: string }[]> {
+  const result: { path: string; content: string }[] = [];
+  const walk = async (dir: string) => {
+    for (const child of await readDir(container, dir || '.')) {
+      const childPath = dir ? `${dir}/${child.name}` : child.name;
+      if (child.isDirectory()) {
+        if (!ignoredDirectories.includes(child.name)) {
+          await walk(childPath);
+        }
+      } else if (child.isFile()) {
+        const content = await container.fs.readFile(childPath, 'utf-8');
+        result.push({ path: childPath, content });
+      }
+    }
+  };
+  await walk(relPath.replace(/\/+$/, ''));
+  return result;
+}
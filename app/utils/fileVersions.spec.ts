@@ -0,0 +1,168 @@
+import type { UIMessage } from 'ai';
+import { describe, expect, it } from 'vitest';
+import { WORK_DIR } from 'chef-agent/constants';
+import { getAbsolutePath } from 'chef-agent/utils/workDir';
+import { fileVersions } from './fileVersions';
+
+const APP_PATH = getAbsolutePath(`${WORK_DIR}/src/App.tsx`);
+
+function fileAction(filePath: string, content: string) {
+  return `<boltArtifact id="a" title="Update"><boltAction type="file" filePath="${filePath}">${content}</boltAction></boltArtifact>`;
+}
+
+function toolCall(toolName: string, args: unknown, result: string): UIMessage['parts'][number] {
+  return {
+    type: 'tool-invocation',
+    toolInvocation: { state: 'result', toolCallId: toolName, toolName, args, result },
+  };
+}
+
+function assistant(id: string, parts: UIMessage['parts']): UIMessage {
+  return { id, role: 'assistant', content: '', parts };
+}
+
+describe('fileVersions', () => {
+  it('tracks file actions and edits', () => {
+    const messages = [
+      assistant('1', [{ type: 'text', text: fileAction('src/App.tsx', 'const a = 1;') }]),
+      assistant('2', [toolCall('edit', { path: APP_PATH, old: 'a = 1', new: 'a = 2' }, 'Successfully edited')]),
+    ];
+    expect(fileVersions(messages, APP_PATH)).toEqual([
+      { messageId: '1', partIndex: 0, source: 'file', content: 'const a = 1;\n' },
+      { messageId: '2', partIndex: 0, source: 'edit', content: 'const a = 2;\n' },
+    ]);
+  });
+
+  it('tracks writeFile tool calls', () => {
+    const messages = [
+      assistant('1', [
+        toolCall('writeFile', { path: APP_PATH, content: 'const a = 1;\n' }, 'Successfully wrote'),
+        toolCall('edit', { path: APP_PATH, old: 'a = 1', new: 'a = 2' }, 'Successfully edited'),
+      ]),
+    ];
+    expect(fileVersions(messages, APP_PATH)).toEqual([
+      { messageId: '1', partIndex: 0, source: 'file', content: 'const a = 1;\n' },
+      { messageId: '1', partIndex: 1, source: 'edit', content: 'const a = 2;\n' },
+    ]);
+  });
+
+  it('ignores other files and failed tool calls', () => {
+    const messages = [
+      assistant('1', [
+        { type: 'text', text: fileAction('src/other.ts', 'other') },
+        { type: 'text', text: fileAction('src/App.tsx', 'const a = 1;') },
+        toolCall('edit', { path: APP_PATH, old: 'a = 1', new: 'a = 2' }, 'Error: Old text not found'),
+      ]),
+    ];
+    expect(fileVersions(messages, APP_PATH)).toEqual([
+      { messageId: '1', partIndex: 1, source: 'file', content: 'const a = 1;\n' },
+    ]);
+  });
+
+  it('stops following a file when a change cannot be replayed', () => {
+    const messages = [
+      assistant('1', [
+        { type: 'text', text: fileAction('src/App.tsx', 'const a = 1;') },
+        toolCall('patch', { diff: `--- src/App.tsx\n+++ src/App.tsx\n@@ -1 +1 @@\n-a\n+b\n`, edits: null }, 'Patched'),
+        toolCall('edit', { path: APP_PATH, old: 'a = 1', new: 'a = 2' }, 'Successfully edited'),
+      ]),
+      assistant('2', [
+        toolCall(
+          'patch',
+          { diff: null, edits: [{ path: APP_PATH, search: 'const', replace: 'let' }] },
+          'Successfully patched 1 file',
+        ),
+        { type: 'text', text: fileAction('src/App.tsx', 'const b = 1;') },
+        toolCall(
+          'patch',
+          { diff: null, edits: [{ path: APP_PATH, search: 'const', replace: 'let' }] },
+          'Successfully patched 1 file',
+        ),
+      ]),
+    ];
+    expect(fileVersions(messages, APP_PATH).map((version) => version.content)).toEqual([
+      'const a = 1;\n',
+      'const b = 1;\n',
+      'let b = 1;\n',
+    ]);
+  });
+
+  it('replays the part of a diff that touches the file', () => {
+    const diff = [
+      '--- /dev/null',
+      '+++ b/src/App.tsx',
+      '@@ -0,0 +1 @@',
+      '+const a = 1;',
+      '--- a/src/other.ts',
+      '+++ b/src/other.ts',
+      '@@ -1 +1 @@',
+      '-other',
+      '+changed',
+    ].join('\n');
+    const update = ['--- a/src/App.tsx', '+++ b/src/App.tsx', '@@ -1 +1 @@', '-const a = 1;', '+const a = 2;'].join(
+      '\n',
+    );
+    const messages = [
+      assistant('1', [toolCall('patch', { diff, edits: null }, 'Successfully patched 2 files')]),
+      assistant('2', [toolCall('patch', { diff: update, edits: null }, 'Successfully patched 1 file')]),
+    ];
+    expect(fileVersions(messages, APP_PATH)).toEqual([
+      { messageId: '1', partIndex: 0, source: 'patch', content: 'const a = 1;\n' },
+      { messageId: '2', partIndex: 0, source: 'patch', content: 'const a = 2;\n' },
+    ]);
+  });
+
+  it('follows a file when it or its folder is renamed', () => {
+    const messages = [
+      assistant('1', [{ type: 'text', text: fileAction('src/Main.tsx', 'const a = 1;') }]),
+      assistant('2', [
+        {
+          type: 'text',
+          text: '<boltArtifact id="b" title="Move"><boltAction type="rename" filePath="src/Main.tsx" newFilePath="app/App.tsx" /><boltAction type="rename" filePath="app" newFilePath="src" /></boltArtifact>',
+        },
+        toolCall('edit', { path: APP_PATH, old: 'a = 1', new: 'a = 2' }, 'Successfully edited'),
+      ]),
+    ];
+    expect(fileVersions(messages, APP_PATH).map((version) => version.content)).toEqual([
+      'const a = 1;\n',
+      'const a = 2;\n',
+    ]);
+  });
+
+  it('starts over when a file is deleted', () => {
+    const messages = [
+      assistant('1', [{ type: 'text', text: fileAction('src/App.tsx', 'const a = 1;') }]),
+      assistant('2', [
+        {
+          type: 'text',
+          text: '<boltArtifact id="b" title="Delete"><boltAction type="delete" filePath="src" /></boltArtifact>',
+        },
+        toolCall('edit', { path: APP_PATH, old: 'a = 1', new: 'a = 2' }, 'Successfully edited'),
+      ]),
+    ];
+    expect(fileVersions(messages, APP_PATH)).toEqual([]);
+  });
+
+  it('follows renameFile and deleteFile tool calls', () => {
+    const mainPath = getAbsolutePath(`${WORK_DIR}/src/Main.tsx`);
+    const messages = [
+      assistant('1', [
+        toolCall('writeFile', { path: mainPath, content: 'const a = 1;\n' }, 'Successfully wrote'),
+        toolCall('renameFile', { path: mainPath, newPath: APP_PATH }, 'Successfully moved'),
+        toolCall('edit', { path: APP_PATH, old: 'a = 1', new: 'a = 2' }, 'Successfully edited'),
+      ]),
+    ];
+    expect(fileVersions(messages, APP_PATH).map((version) => version.content)).toEqual([
+      'const a = 1;\n',
+      'const a = 2;\n',
+    ]);
+
+    messages.push(
+      assistant('2', [
+        toolCall('deleteFile', { path: APP_PATH }, 'Successfully deleted'),
+        toolCall('edit', { path: APP_PATH, old: 'a = 2', new: 'a = 3' }, 'Successfully edited'),
+      ]),
+    );
+    expect(fileVersions(messages, APP_PATH)).toEqual([]);
+  });
+});
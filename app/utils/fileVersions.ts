@@ -0,0 +1,168 @@
+import type { Message } from 'ai';
+import { StreamingMessageParser } from 'chef-agent/message-parser';
+import { makePartId } from 'chef-agent/partId';
+import { editToolParameters } from 'chef-agent/tools/edit';
+import { patchToolParameters, type PatchToolParameters } from 'chef-agent/tools/patch';
+import { writeFileToolParameters } from 'chef-agent/tools/writeFile';
+import { deleteFileToolParameters } from 'chef-agent/tools/deleteFile';
+import { renameFileToolParameters } from 'chef-agent/tools/renameFile';
+import { patchContents, patchPaths } from 'chef-agent/utils/patch';
+import { getAbsolutePath, type AbsolutePath, type RelativePath } from 'chef-agent/utils/workDir';
+import { loggingSafeParse } from 'chef-agent/utils/zodUtil';
+
+export interface FileVersion {
+  messageId: string;
+  partIndex: number;
+  source: 'file' | 'edit' | 'patch';
+  content: string;
+}
+
+/**
+ * Reconstruct every version of `filePath` the agent wrote over the course of the chat, oldest first.
+ *
+ * File actions and `writeFile` calls give us a file's full contents. `edit` and `patch` calls only describe a change,
+ * so we replay them on the last known version and lose track of the file if there isn't one
+ * (e.g. for template files the agent edited without rewriting) or if the change doesn't apply.
+ * A file's history follows it when it's renamed, and starts over when it's deleted.
+ */
+export function fileVersions(messages: Message[], filePath: AbsolutePath): FileVersion[] {
+  // Every file the agent touched, by its path at that point in the chat.
+  const histories = new Map<AbsolutePath, FileHistory>();
+
+  const historyFor = (path: AbsolutePath) => {
+    let history = histories.get(path);
+    if (!history) {
+      history = { content: null, versions: [] };
+      histories.set(path, history);
+    }
+    return history;
+  };
+  const addVersion = (
+    path: AbsolutePath,
+    messageId: string,
+    partIndex: number,
+    source: FileVersion['source'],
+    newContent: string | null,
+  ) => {
+    const history = historyFor(path);
+    history.content = newContent;
+    if (newContent !== null && history.versions.at(-1)?.content !== newContent) {
+      history.versions.push({ messageId, partIndex, source, content: newContent });
+    }
+  };
+  // The files at `path`, or in it if it's a folder.
+  const pathsUnder = (path: AbsolutePath) =>
+    [...histories.keys()].filter((other) => other === path || other.startsWith(`${path}/`));
+  const deletePath = (path: AbsolutePath) => {
+    for (const deleted of pathsUnder(path)) {
+      histories.delete(deleted);
+    }
+  };
+  const movePath = (path: AbsolutePath, newPath: AbsolutePath) => {
+    for (const oldPath of pathsUnder(path)) {
+      const history = histories.get(oldPath)!;
+      histories.delete(oldPath);
+      histories.set(getAbsolutePath(newPath + oldPath.slice(path.length)), history);
+    }
+  };
+
+  for (const message of messages) {
+    if (message.role !== 'assistant') {
+      continue;
+    }
+    (message.parts ?? []).forEach((part, partIndex) => {
+      if (part.type === 'text') {
+        const parser = new StreamingMessageParser({
+          callbacks: {
+            onActionClose: (data) => {
+              const { action } = data;
+              if (action.type === 'file') {
+                addVersion(getAbsolutePath(action.filePath), message.id, partIndex, 'file', action.content);
+              } else if (action.type === 'delete') {
+                deletePath(getAbsolutePath(action.filePath));
+              } else if (action.type === 'rename') {
+                movePath(getAbsolutePath(action.filePath), getAbsolutePath(action.newFilePath));
+              }
+            },
+          },
+        });
+        parser.parse(makePartId(message.id, partIndex), part.text);
+        return;
+      }
+      if (part.type !== 'tool-invocation' || part.toolInvocation.state !== 'result') {
+        return;
+      }
+      const { toolName, args, result } = part.toolInvocation;
+      if (typeof result === 'string' && result.startsWith('Error:')) {
+        return;
+      }
+      if (toolName === 'writeFile') {
+        const parsed = loggingSafeParse(writeFileToolParameters, args);
+        if (parsed.success) {
+          addVersion(getAbsolutePath(parsed.data.path), message.id, partIndex, 'file', parsed.data.content);
+        }
+      }
+      if (toolName === 'deleteFile') {
+        const parsed = loggingSafeParse(deleteFileToolParameters, args);
+        if (parsed.success) {
+          deletePath(getAbsolutePath(parsed.data.path));
+        }
+      }
+      if (toolName === 'renameFile') {
+        const parsed = loggingSafeParse(renameFileToolParameters, args);
+        if (parsed.success) {
+          movePath(getAbsolutePath(parsed.data.path), getAbsolutePath(parsed.data.newPath));
+        }
+      }
+      if (toolName === 'edit') {
+        const parsed = loggingSafeParse(editToolParameters, args);
+        if (!parsed.success) {
+          return;
+        }
+        const path = getAbsolutePath(parsed.data.path);
+        const content = historyFor(path).content;
+        const edited = content === null ? null : replaceOnce(content, parsed.data.old, parsed.data.new);
+        addVersion(path, message.id, partIndex, 'edit', edited);
+      }
+      if (toolName === 'patch') {
+        const parsed = loggingSafeParse(patchToolParameters, args);
+        if (!parsed.success) {
+          return;
+        }
+        for (const relPath of patchPaths(parsed.data)) {
+          const path = getAbsolutePath(relPath);
+          const patched = patchFile(parsed.data, relPath, historyFor(path).content);
+          if (patched !== undefined) {
+            addVersion(path, message.id, partIndex, 'patch', patched);
+          }
+        }
+      }
+    });
+  }
+  return histories.get(filePath)?.versions ?? [];
+}
+
+interface FileHistory {
+  // The file's latest contents, or `null` if we've lost track of them.
+  content: string | null;
+  versions: FileVersion[];
+}
+
+// Replay the changes a patch made to one file, which it may have created. Returns `undefined` if
+// the patch didn't touch the file and `null` if it doesn't apply.
+function patchFile(args: PatchToolParameters, path: RelativePath, content: string | null): string | null | undefined {
+  try {
+    return patchContents(args, new Map([[path, content]])).find((file) => file.path === path)?.newContent;
+  } catch (_e) {
+    return null;
+  }
+}
+
+// Mirror the `edit` tool, which fails unless the text appears exactly once.
+function replaceOnce(content: string, search: string, replace: string): string | null {
+  const matchPos = content.indexOf(search);
+  if (matchPos === -1 || content.indexOf(search, matchPos + search.length) !== -1) {
+    return null;
+  }
+  return content.slice(0, matchPos) + replace + content.slice(matchPos + search.length);
+}
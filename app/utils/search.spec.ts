@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import type { FileMap } from 'chef-agent/types';
+import { WORK_DIR } from 'chef-agent/constants';
+import { replaceInContent, searchFiles, type SearchOptions } from './search';
+
+function file(content: string) {
+  return { type: 'file' as const, content, isBinary: false };
+}
+
+const files = {
+  [`${WORK_DIR}/src/App.tsx`]: file('export function App() {\n  return <Counter count={count} />;\n}\n'),
+  [`${WORK_DIR}/src/counter.ts`]: file('export const count = 1;\nexport const counter = count + 1;\n'),
+  [`${WORK_DIR}/convex/schema.ts`]: file('// count things\n'),
+  [`${WORK_DIR}/node_modules/count/index.js`]: file('module.exports = count;\n'),
+} as FileMap;
+
+function options(overrides: Partial<SearchOptions>): SearchOptions {
+  return {
+    query: '',
+    regex: false,
+    caseSensitive: false,
+    wholeWord: false,
+    include: '',
+    exclude: 'node_modules',
+    ...overrides,
+  };
+}
+
+describe('searchFiles', () => {
+  it('finds matches with line previews', () => {
+    const results = searchFiles(files, options({ query: 'count', caseSensitive: true, include: 'src/**' }));
+    expect(results.map((result) => result.filePath)).toEqual([`${WORK_DIR}/src/App.tsx`, `${WORK_DIR}/src/counter.ts`]);
+    expect(results[0].matches).toEqual([
+      {
+        line: 2,
+        from: 'export function App() {\n  return <Counter '.length,
+        to: 'export function App() {\n  return <Counter count'.length,
+        preview: '  return <Counter count={count} />;',
+        previewFrom: '  return <Counter '.length,
+        previewTo: '  return <Counter count'.length,
+      },
+      expect.objectContaining({ line: 2, preview: '  return <Counter count={count} />;' }),
+    ]);
+  });
+
+  it('supports case, whole word and regex options', () => {
+    const count = (overrides: Partial<SearchOptions>) =>
+      searchFiles(files, options(overrides)).reduce((total, result) => total + result.matches.length, 0);
+    expect(count({ query: 'count' })).toBe(7);
+    expect(count({ query: 'Count', caseSensitive: true })).toBe(1);
+    expect(count({ query: 'count', wholeWord: true })).toBe(5);
+    expect(count({ query: 'count(er)?\\b', regex: true, caseSensitive: true })).toBe(6);
+    expect(count({ query: 'count(', regex: true })).toBe(0);
+  });
+
+  it('filters files with globs', () => {
+    const paths = (overrides: Partial<SearchOptions>) =>
+      searchFiles(files, options({ query: 'count', ...overrides })).map((result) => result.filePath);
+    expect(paths({ include: '*.tsx' })).toEqual([`${WORK_DIR}/src/App.tsx`]);
+    expect(paths({ include: 'src/*.{ts,tsx}, schema.ts' })).toEqual([
+      `${WORK_DIR}/convex/schema.ts`,
+      `${WORK_DIR}/src/App.tsx`,
+      `${WORK_DIR}/src/counter.ts`,
+    ]);
+    expect(paths({ include: 'convex/, src/*.ts' })).toEqual([
+      `${WORK_DIR}/convex/schema.ts`,
+      `${WORK_DIR}/src/counter.ts`,
+    ]);
+    expect(paths({ exclude: 'src' })).toEqual([
+      `${WORK_DIR}/convex/schema.ts`,
+      `${WORK_DIR}/node_modules/count/index.js`,
+    ]);
+  });
+});
+
+describe('replaceInContent', () => {
+  it('replaces literally or with regex groups', () => {
+    const content = 'const a = count + count$;';
+    expect(replaceInContent(content, options({ query: 'count$' }), 'total$1')).toBe('const a = count + total$1;');
+    expect(replaceInContent(content, options({ query: '(c)ount', regex: true }), '$1ounter')).toBe(
+      'const a = counter + counter$;',
+    );
+  });
+});
@@ -0,0 +1,149 @@
+import type { FileMap } from 'chef-agent/types';
+import type { AbsolutePath } from 'chef-agent/utils/workDir';
+import { globToRegExp } from 'chef-agent/utils/search';
+import { workDirRelative } from './fileUtils';
+
+export interface SearchOptions {
+  query: string;
+  regex: boolean;
+  caseSensitive: boolean;
+  wholeWord: boolean;
+  // Comma-separated globs matched against paths relative to the work dir.
+  include: string;
+  exclude: string;
+}
+
+export interface SearchMatch {
+  // 1-based, like the editor's gutter.
+  line: number;
+  // Offsets into the file.
+  from: number;
+  to: number;
+  // The matched line, with the match's offsets into it.
+  preview: string;
+  previewFrom: number;
+  previewTo: number;
+}
+
+export interface FileSearchResult {
+  filePath: AbsolutePath;
+  matches: SearchMatch[];
+}
+
+const MAX_MATCHES_PER_FILE = 1000;
+const MAX_PREVIEW_LENGTH = 200;
+
+/**
+ * Build the regular expression for a search, or an error message if the query isn't a valid regex.
+ */
+export function searchRegExp(options: SearchOptions): RegExp | string {
+  let source = options.regex ? options.query : escapeRegExp(options.query);
+  if (options.wholeWord) {
+    source = `\\b(?:${source})\\b`;
+  }
+  try {
+    return new RegExp(source, options.caseSensitive ? 'gm' : 'gim');
+  } catch (e: any) {
+    return e.message;
+  }
+}
+
+export function searchFiles(files: FileMap, options: SearchOptions): FileSearchResult[] {
+  const regexp = searchRegExp(options);
+  if (!options.query || typeof regexp === 'string') {
+    return [];
+  }
+  const include = parseGlobs(options.include);
+  const exclude = parseGlobs(options.exclude);
+  const results: FileSearchResult[] = [];
+  for (const [filePath, dirent] of Object.entries(files)) {
+    if (dirent?.type !== 'file' || dirent.isBinary) {
+      continue;
+    }
+    const relativePath = workDirRelative(filePath);
+    if (include.length > 0 && !include.some((glob) => glob.test(relativePath))) {
+      continue;
+    }
+    if (exclude.some((glob) => glob.test(relativePath))) {
+      continue;
+    }
+    const matches = searchContent(dirent.content, regexp);
+    if (matches.length > 0) {
+      results.push({ filePath: filePath as AbsolutePath, matches });
+    }
+  }
+  return results.sort((a, b) => a.filePath.localeCompare(b.filePath));
+}
+
+/**
+ * Replace every match of the search in `content`. With `regex` on, the replacement can refer to
+ * groups as `$1`.
+ */
+export function replaceInContent(content: string, options: SearchOptions, replacement: string): string {
+  const regexp = searchRegExp(options);
+  if (!options.query || typeof regexp === 'string') {
+    return content;
+  }
+  if (options.regex) {
+    return content.replace(regexp, replacement);
+  }
+  return content.replace(regexp, () => replacement);
+}
+
+function searchContent(content: string, regexp: RegExp): SearchMatch[] {
+  const matches: SearchMatch[] = [];
+  const lineStarts = [0];
+  for (let i = 0; i < content.length; i++) {
+    if (content[i] === '\n') {
+      lineStarts.push(i + 1);
+    }
+  }
+  let lineIndex = 0;
+  for (const match of content.matchAll(regexp)) {
+    if (match[0].length === 0) {
+      // Empty matches (like `^`) aren't useful to show.
+      continue;
+    }
+    const from = match.index;
+    while (lineIndex + 1 < lineStarts.length && lineStarts[lineIndex + 1] <= from) {
+      lineIndex++;
+    }
+    const lineStart = lineStarts[lineIndex];
+    const lineEnd = lineIndex + 1 < lineStarts.length ? lineStarts[lineIndex + 1] - 1 : content.length;
+    const previewFrom = from - lineStart;
+    const previewTo = Math.min(previewFrom + match[0].length, lineEnd - lineStart);
+    // Keep some context before the match on long lines.
+    const previewStart = Math.max(0, previewFrom - MAX_PREVIEW_LENGTH / 4);
+    matches.push({
+      line: lineIndex + 1,
+      from,
+      to: from + match[0].length,
+      preview: content.slice(
+        lineStart + previewStart,
+        Math.min(lineEnd, lineStart + previewStart + MAX_PREVIEW_LENGTH),
+      ),
+      previewFrom: previewFrom - previewStart,
+      previewTo: previewTo - previewStart,
+    });
+    if (matches.length >= MAX_MATCHES_PER_FILE) {
+      break;
+    }
+  }
+  return matches;
+}
+
+/**
+ * Parse comma-separated globs, keeping the commas in `{a,b}`. A glob without a slash matches a
+ * file or folder name anywhere, like `node_modules` or `*.tsx`, and a folder matches everything in it.
+ */
+function parseGlobs(globs: string): RegExp[] {
+  return globs
+    .split(/,(?![^{]*\})/)
+    .map((glob) => glob.trim().replace(/^\//, '').replace(/\/$/, ''))
+    .filter((glob) => glob.length > 0)
+    .map((glob) => globToRegExp(`${glob.includes('/') ? glob : `**/${glob}`}{,/**}`));
+}
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,86 @@
+import type { WebContainer } from '@webcontainer/api';
+
+/**
+ * Adapt the WebContainer filesystem to the `fs.promises`-style client isomorphic-git expects.
+ *
+ * The WebContainer API has no `stat`, so we look paths up in their parent directory and
+ * report zeroed timestamps. That's fine for the index we write: real git notices the
+ * timestamps don't match and rehashes the files.
+ */
+export function webcontainerGitFs(container: WebContainer) {
+  const fs = container.fs;
+  return {
+    promises: {
+      readFile: (path: string, options?: string | { encoding?: string | null }) =>
+        withErrorCodes(async () => {
+          const encoding = typeof options === 'string' ? options : options?.encoding;
+          return encoding ? fs.readFile(path, 'utf-8') : fs.readFile(path);
+        }),
+      writeFile: (path: string, data: string | Uint8Array) => withErrorCodes(() => fs.writeFile(path, data)),
+      mkdir: (path: string) => withErrorCodes(() => fs.mkdir(path)),
+      rmdir: (path: string) => withErrorCodes(() => fs.rm(path)),
+      unlink: (path: string) => withErrorCodes(() => fs.rm(path)),
+      readdir: (path: string) => withErrorCodes(() => fs.readdir(path)),
+      stat: (path: string) => withErrorCodes(() => stat(container, path)),
+      lstat: (path: string) => withErrorCodes(() => stat(container, path)),
+      readlink: (path: string) => Promise.reject(errorWithCode('ENOTSUP', `readlink is not supported: ${path}`)),
+      symlink: (_target: string, path: string) =>
+        Promise.reject(errorWithCode('ENOTSUP', `symlink is not supported: ${path}`)),
+    },
+  };
+}
+
+async function stat(container: WebContainer, path: string) {
+  const normalized = path.replace(/\/+$/, '').replace(/^\.\//, '');
+  if (normalized === '' || normalized === '.') {
+    return makeStats('dir', 0);
+  }
+  const lastSlash = normalized.lastIndexOf('/');
+  const parent = lastSlash === -1 ? '.' : normalized.slice(0, lastSlash) || '/';
+  const name = normalized.slice(lastSlash + 1);
+  const entry = (await container.fs.readdir(parent, { withFileTypes: true })).find((e) => e.name === name);
+  if (!entry) {
+    throw errorWithCode('ENOENT', `ENOENT: no such file or directory, stat '${path}'`);
+  }
+  if (entry.isDirectory()) {
+    return makeStats('dir', 0);
+  }
+  const content = await container.fs.readFile(normalized);
+  return makeStats('file', content.length);
+}
+
+function makeStats(type: 'file' | 'dir', size: number) {
+  return {
+    type,
+    mode: type === 'file' ? 0o100644 : 0o40000,
+    size,
+    ino: 0,
+    dev: 0,
+    uid: 0,
+    gid: 0,
+    mtimeMs: 0,
+    ctimeMs: 0,
+    isFile: () => type === 'file',
+    isDirectory: () => type === 'dir',
+    isSymbolicLink: () => false,
+  };
+}
+
+// isomorphic-git relies on Node-style `code`s, but WebContainer errors only have them in the message.
+async function withErrorCodes<T>(operation: () => Promise<T>): Promise<T> {
+  try {
+    return await operation();
+  } catch (e: any) {
+    const code = typeof e?.message === 'string' ? e.message.match(/^(E[A-Z]+)/)?.[1] : undefined;
+    if (code && !e.code) {
+      e.code = code;
+    }
+    throw e;
+  }
+}
+
+function errorWithCode(code: string, message: string) {
+  const error = new Error(message) as Error & { code: string };
+  error.code = code;
+  return error;
+}
@@ -1,6 +1,8 @@
 import { describe, expect, test } from 'vitest';
 import { ChatContextManager } from './ChatContextManager.js';
 import type { UIMessage } from 'ai';
+import type { TokenizerFamily } from './utils/tokens.js';
+import type { AbsolutePath } from './utils/workDir.js';
 
 describe('ChatContextManager', () => {
   const mockGetCurrentDocument = () => undefined;
@@ -18,7 +20,7 @@ describe('ChatContextManager', () => {
     parts,
   });
 
-  const maxCollapsedMessagesSize = 1000;
+  const maxCollapsedMessagesTokens = 1000;
   const relevantFilesMessage = createMessage('user', [
     {
       type: 'text',
@@ -39,7 +41,7 @@ describe('ChatContextManager', () => {
   describe('shouldSendRelevantFiles', () => {
     test('returns true for empty messages array', () => {
       const manager = createManager();
-      expect(manager.shouldSendRelevantFiles([], maxCollapsedMessagesSize)).toBe(true);
+      expect(manager.shouldSendRelevantFiles([], maxCollapsedMessagesTokens)).toBe(true);
     });
 
     test('returns true when message cutoff changes', () => {
@@ -49,17 +51,17 @@ describe('ChatContextManager', () => {
         createMessage('user', [
           {
             type: 'text',
-            text: 'A'.repeat(1000),
+            text: ' a'.repeat(2000),
           },
         ]),
       ];
-      expect(manager.shouldSendRelevantFiles(messages, maxCollapsedMessagesSize)).toBe(true);
+      expect(manager.shouldSendRelevantFiles(messages, maxCollapsedMessagesTokens)).toBe(true);
     });
 
     test('returns false when previous message has non-empty file content', () => {
       const manager = createManager();
       const messages = [relevantFilesMessage];
-      expect(manager.shouldSendRelevantFiles(messages, maxCollapsedMessagesSize)).toBe(false);
+      expect(manager.shouldSendRelevantFiles(messages, maxCollapsedMessagesTokens)).toBe(false);
     });
 
     test('returns true when previous message has empty file content', () => {
@@ -74,7 +76,7 @@ describe('ChatContextManager', () => {
           },
         ]),
       ];
-      expect(manager.shouldSendRelevantFiles(messages, maxCollapsedMessagesSize)).toBe(true);
+      expect(manager.shouldSendRelevantFiles(messages, maxCollapsedMessagesTokens)).toBe(true);
     });
 
     test('returns true when previous message has Relevant Files but no boltAction', () => {
@@ -88,32 +90,32 @@ describe('ChatContextManager', () => {
           },
         ]),
       ];
-      expect(manager.shouldSendRelevantFiles(messages, maxCollapsedMessagesSize)).toBe(true);
+      expect(manager.shouldSendRelevantFiles(messages, maxCollapsedMessagesTokens)).toBe(true);
     });
 
     test('returns true when previous message has multiple empty boltActions', () => {
       const manager = createManager();
       const messages = [emptyRelevantFilesMessage];
-      expect(manager.shouldSendRelevantFiles(messages, maxCollapsedMessagesSize)).toBe(true);
+      expect(manager.shouldSendRelevantFiles(messages, maxCollapsedMessagesTokens)).toBe(true);
     });
 
     test('returns false when previous message has at least one non-empty boltAction', () => {
       const manager = createManager();
       const messages = [relevantFilesMessage, emptyRelevantFilesMessage];
-      expect(manager.shouldSendRelevantFiles(messages, maxCollapsedMessagesSize)).toBe(false);
+      expect(manager.shouldSendRelevantFiles(messages, maxCollapsedMessagesTokens)).toBe(false);
     });
   });
 
   describe('prepareContext', () => {
     test('should not collapse messages when last message is not from user', () => {
-      const maxCollapsedMessagesSize = 2000;
-      const collapsedMessagesSize = 1000;
+      const maxCollapsedMessagesTokens = 2000;
+      const collapsedMessagesTokens = 1000;
       const messages: UIMessage[] = [
         {
           id: '1',
           role: 'user',
-          content: 'A'.repeat(3000), // Create a large message
-          parts: [{ type: 'text', text: 'A'.repeat(3000) }],
+          content: ' a'.repeat(4000), // Create a large message
+          parts: [{ type: 'text', text: ' a'.repeat(4000) }],
         },
         {
           id: '2',
@@ -125,16 +127,16 @@ describe('ChatContextManager', () => {
 
       const { messages: newMessages, collapsedMessages } = createManager().prepareContext(
         messages,
-        maxCollapsedMessagesSize,
-        collapsedMessagesSize,
+        maxCollapsedMessagesTokens,
+        collapsedMessagesTokens,
       );
       expect(newMessages).toEqual(messages);
       expect(collapsedMessages).toBe(false);
     });
 
     test('should truncate when message cutoff changes even if partIndex is equal', () => {
-      const maxCollapsedMessagesSize = 2000;
-      const collapsedMessagesSize = 1000;
+      const maxCollapsedMessagesTokens = 2000;
+      const collapsedMessagesTokens = 1000;
       const chatContextManager = createManager();
 
       // First message that will establish initial cutoff
@@ -142,16 +144,16 @@ describe('ChatContextManager', () => {
         {
           id: '1',
           role: 'user',
-          content: 'A'.repeat(3000), // Create a large message
-          parts: [{ type: 'text', text: 'A'.repeat(3000) }],
+          content: ' a'.repeat(4000), // Create a large message
+          parts: [{ type: 'text', text: ' a'.repeat(4000) }],
         },
       ];
 
       // This will set the initial cutoff
       const { collapsedMessages: collapsed1 } = chatContextManager.prepareContext(
         initialMessages,
-        maxCollapsedMessagesSize,
-        collapsedMessagesSize,
+        maxCollapsedMessagesTokens,
+        collapsedMessagesTokens,
       );
       expect(collapsed1).toBe(true);
 
@@ -160,15 +162,15 @@ describe('ChatContextManager', () => {
       initialMessages.push({
         id: '2',
         role: 'user',
-        content: 'B'.repeat(3000), // Same size as first message
-        parts: [{ type: 'text', text: 'B'.repeat(3000) }],
+        content: ' b'.repeat(4000), // Same size as first message
+        parts: [{ type: 'text', text: ' b'.repeat(4000) }],
       });
 
       // This should truncate even though partIndex is equal
       const { messages: truncatedMessages, collapsedMessages: collapsed2 } = chatContextManager.prepareContext(
         initialMessages,
-        maxCollapsedMessagesSize,
-        collapsedMessagesSize,
+        maxCollapsedMessagesTokens,
+        collapsedMessagesTokens,
       );
       expect(collapsed2).toBe(true);
       // The last message should be kept
@@ -177,8 +179,8 @@ describe('ChatContextManager', () => {
     });
 
     test('should preserve collapsed messages when last message is not from user', () => {
-      const maxCollapsedMessagesSize = 2000;
-      const collapsedMessagesSize = 1000;
+      const maxCollapsedMessagesTokens = 2000;
+      const collapsedMessagesTokens = 1000;
       const chatContextManager = createManager();
       const messages: UIMessage[] = [
         {
@@ -196,15 +198,15 @@ describe('ChatContextManager', () => {
         {
           id: '3',
           role: 'user',
-          content: 'A'.repeat(3000), // Create a large message
-          parts: [{ type: 'text', text: 'A'.repeat(3000) }],
+          content: ' a'.repeat(4000), // Create a large message
+          parts: [{ type: 'text', text: ' a'.repeat(4000) }],
         },
       ];
 
       const { messages: newMessages, collapsedMessages } = chatContextManager.prepareContext(
         messages,
-        maxCollapsedMessagesSize,
-        collapsedMessagesSize,
+        maxCollapsedMessagesTokens,
+        collapsedMessagesTokens,
       );
       expect(newMessages.length).toBe(1);
       // The last message is the only one that should be kept
@@ -219,17 +221,17 @@ describe('ChatContextManager', () => {
       });
       const { messages: newMessages2, collapsedMessages: collapsedMessages2 } = chatContextManager.prepareContext(
         messages,
-        maxCollapsedMessagesSize,
-        collapsedMessagesSize,
+        maxCollapsedMessagesTokens,
+        collapsedMessagesTokens,
       );
       // The previously collapsed message state should be preserved
       expect(newMessages2.length).toEqual(2);
       expect(collapsedMessages2).toBe(false);
     });
 
-    test('should collapse messages when size exceeds maxCollapsedMessagesSize', () => {
-      const maxCollapsedMessagesSize = 2000;
-      const collapsedMessagesSize = 1000;
+    test('should collapse messages when tokens exceed maxCollapsedMessagesTokens', () => {
+      const maxCollapsedMessagesTokens = 2000;
+      const collapsedMessagesTokens = 1000;
       const messages: UIMessage[] = [
         {
           id: '1',
@@ -246,15 +248,15 @@ describe('ChatContextManager', () => {
         {
           id: '3',
           role: 'user',
-          content: 'A'.repeat(3000), // Create a large message
-          parts: [{ type: 'text', text: 'A'.repeat(3000) }],
+          content: ' a'.repeat(4000), // Create a large message
+          parts: [{ type: 'text', text: ' a'.repeat(4000) }],
         },
       ];
 
       const { messages: newMessages, collapsedMessages } = createManager().prepareContext(
         messages,
-        maxCollapsedMessagesSize,
-        collapsedMessagesSize,
+        maxCollapsedMessagesTokens,
+        collapsedMessagesTokens,
       );
       expect(newMessages.length).toBe(1);
       // The last message is the only one that should be kept
@@ -265,17 +267,134 @@ describe('ChatContextManager', () => {
       newMessages.push({
         id: '4',
         role: 'user',
-        content: 'B'.repeat(100),
+        content: ' b'.repeat(100),
         parts: [],
       });
       const { messages: newMessages2, collapsedMessages: collapsedMessages2 } = createManager().prepareContext(
         newMessages,
-        maxCollapsedMessagesSize,
-        collapsedMessagesSize,
+        maxCollapsedMessagesTokens,
+        collapsedMessagesTokens,
       );
       expect(newMessages2.length).toEqual(2);
       // TODO do we want it to omit the too big message? Probably. But we can fix later.
       //   expect(collapsedMessages2).toBe(false);
     });
+
+    test("should budget with the current model's tokenizer", () => {
+      let tokenizerFamily: TokenizerFamily = 'openai';
+      const manager = new ChatContextManager(
+        mockGetCurrentDocument,
+        mockGetFiles,
+        mockGetUserWrites,
+        () => tokenizerFamily,
+      );
+      const messages: UIMessage[] = [
+        {
+          id: '1',
+          role: 'assistant',
+          content: '',
+          // Under the budget in OpenAI's tokens, but not in Anthropic's.
+          parts: [{ type: 'text', text: 'a'.repeat(7000) }],
+        },
+        {
+          id: '2',
+          role: 'user',
+          content: '',
+          parts: [{ type: 'text', text: 'Hello' }],
+        },
+      ];
+
+      expect(manager.prepareContext(messages, 2000, 1000).collapsedMessages).toBe(false);
+      tokenizerFamily = 'anthropic';
+      expect(manager.prepareContext(messages, 2000, 1000).collapsedMessages).toBe(true);
+    });
+
+    describe('history summary', () => {
+      const messages: UIMessage[] = [
+        { id: '1', role: 'user', content: '', parts: [{ type: 'text', text: 'Build a todo app with due dates' }] },
+        {
+          id: '2',
+          role: 'assistant',
+          content: '',
+          parts: [
+            {
+              type: 'text',
+              text: `Sure! <boltArtifact id="a" title="Todos"><boltAction type="file" filePath="convex/todos.ts">export {};</boltAction></boltArtifact>`,
+            },
+          ],
+        },
+        { id: '3', role: 'user', content: '', parts: [{ type: 'text', text: ' a'.repeat(4000) }] },
+      ];
+
+      test('should replace the collapsed messages with the summary', () => {
+        const { messages: newMessages } = createManager().prepareContext(messages, 2000, 1000, {
+          summary: 'The user wants a todo app with due dates.',
+          messageIndex: 2,
+        });
+        expect(newMessages.map((message) => message.id)).toEqual(['history-summary-2', '3']);
+        const summaryPart = newMessages[0].parts[0];
+        expect(summaryPart.type === 'text' && summaryPart.text).toContain('The user wants a todo app with due dates.');
+      });
+
+      test('should ignore a summary of messages that are still in the history', () => {
+        const { messages: newMessages } = createManager().prepareContext(messages, 2000, 1000, {
+          summary: 'Everything so far',
+          messageIndex: 3,
+        });
+        expect(newMessages.map((message) => message.id)).toEqual(['3']);
+      });
+    });
+  });
+
+  describe('relevantFiles', () => {
+    test('should rank files by proximity to the ones the user mentions', () => {
+      const file = (content: string) => ({ type: 'file' as const, content, isBinary: false });
+      const files = {
+        ['/home/project/src/App.tsx' as AbsolutePath]: file(
+          "import { api } from '../convex/_generated/api';\nconst todos = useQuery(api.todos.list);",
+        ),
+        ['/home/project/convex/todos.ts' as AbsolutePath]: file('export const list = query({});'),
+        ['/home/project/src/Other.tsx' as AbsolutePath]: file('export function Other() {}'),
+      };
+      const manager = new ChatContextManager(
+        mockGetCurrentDocument,
+        () => files,
+        () => new Map([['/home/project/src/Other.tsx' as AbsolutePath, Date.now()]]),
+      );
+
+      manager.relevantFiles([], '1', 2048, 'The list in App.tsx is empty.');
+      expect(manager.lastRelevantFiles).toEqual([
+        { path: 'src/App.tsx', reason: "mentioned in the user's message" },
+        { path: 'convex/todos.ts', reason: 'has functions called by src/App.tsx' },
+        { path: 'src/Other.tsx', reason: 'recently used' },
+      ]);
+    });
+  });
+
+  describe('calculatePromptCharacterCounts', () => {
+    test('should count tokens with the tokenizer for the current model', () => {
+      let tokenizerFamily: TokenizerFamily = 'openai';
+      const manager = new ChatContextManager(
+        mockGetCurrentDocument,
+        mockGetFiles,
+        mockGetUserWrites,
+        () => tokenizerFamily,
+      );
+      const messages = [
+        createMessage('assistant', [{ type: 'text', text: 'export const add = (a: number, b: number) => a + b;' }]),
+        createMessage('user', [{ type: 'text', text: 'Now make it subtract.' }]),
+      ];
+
+      const openaiCounts = manager.calculatePromptCharacterCounts(messages);
+      expect(openaiCounts.messageHistoryTokens).toBeGreaterThan(0);
+      expect(openaiCounts.currentTurnTokens).toBeGreaterThan(0);
+      expect(openaiCounts.totalPromptTokens).toBe(openaiCounts.messageHistoryTokens + openaiCounts.currentTurnTokens);
+      expect(openaiCounts.messageHistoryTokens).toBeLessThan(openaiCounts.messageHistoryChars);
+
+      tokenizerFamily = 'anthropic';
+      const anthropicCounts = manager.calculatePromptCharacterCounts(messages);
+      expect(anthropicCounts.messageHistoryChars).toBe(openaiCounts.messageHistoryChars);
+      expect(anthropicCounts.messageHistoryTokens).toBeGreaterThan(openaiCounts.messageHistoryTokens);
+    });
   });
 });
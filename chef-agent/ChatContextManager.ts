@@ -1,6 +1,6 @@
 import { type ToolInvocation, type UIMessage } from 'ai';
-import { type AbsolutePath, getAbsolutePath } from './utils/workDir.js';
-import { type Dirent, type EditorDocument, type FileMap } from './types.js';
+import { type AbsolutePath, getAbsolutePath, getRelativePath } from './utils/workDir.js';
+import { type EditorDocument, type FileMap } from './types.js';
 import { PREWARM_PATHS, WORK_DIR } from './constants.js';
 import { renderFile } from './utils/renderFile.js';
 import { StreamingMessageParser } from './message-parser.js';
@@ -9,9 +9,25 @@ import { viewParameters } from './tools/view.js';
 import { editToolParameters } from './tools/edit.js';
 import { loggingSafeParse } from './utils/zodUtil.js';
 import { npmInstallToolParameters } from './tools/npmInstall.js';
+import { searchParameters } from './tools/search.js';
+import { patchToolParameters } from './tools/patch.js';
+import { patchPaths } from './utils/patch.js';
+import { runConvexFunctionToolParameters } from './tools/runConvexFunction.js';
+import { readLogsToolParameters } from './tools/readLogs.js';
+import { inspectDataToolParameters } from './tools/inspectData.js';
+import { parseScreenshotResult, screenshotToolParameters } from './tools/screenshot.js';
+import { writeFileToolParameters } from './tools/writeFile.js';
+import { deleteFileToolParameters } from './tools/deleteFile.js';
+import { renameFileToolParameters } from './tools/renameFile.js';
 import { path } from './utils/path.js';
+import { countTokens, IMAGE_TOKEN_ESTIMATE, type TokenizerFamily } from './utils/tokens.js';
+import { buildImportGraph, nearbyFiles, type GraphProximity } from './utils/importGraph.js';
 
 const MAX_RELEVANT_FILES = 16;
+// How many imports or function references away from the files in the current turn to look for relevant files.
+const MAX_GRAPH_DISTANCE = 2;
+// Roughly the characters of text that cost as many tokens as a screenshot.
+const SCREENSHOT_SIZE_ESTIMATE = 6000;
 
 type UIMessagePart = UIMessage['parts'][number];
 
@@ -19,6 +35,22 @@ export type PromptCharacterCounts = {
   messageHistoryChars: number;
   currentTurnChars: number;
   totalPromptChars: number;
+  // Estimated with the tokenizer for the model the prompt is sent to.
+  messageHistoryTokens: number;
+  currentTurnTokens: number;
+  totalPromptTokens: number;
+};
+
+// An LLM-written summary of the messages before `messageIndex`, which stands in for them once they're collapsed.
+export type HistorySummary = {
+  summary: string;
+  messageIndex: number;
+};
+
+// A file sent with the relevant files and why it was picked, to show when debugging prompts.
+export type RelevantFile = {
+  path: string;
+  reason: string;
 };
 
 type ParsedAssistantMessage = {
@@ -29,13 +61,21 @@ export class ChatContextManager {
   assistantMessageCache: WeakMap<UIMessage, ParsedAssistantMessage> = new WeakMap();
   messageSizeCache: WeakMap<UIMessage, number> = new WeakMap();
   partSizeCache: WeakMap<UIMessagePart, number> = new WeakMap();
+  messageTokensCache: WeakMap<UIMessage, number> = new WeakMap();
+  partTokensCache: WeakMap<UIMessagePart, number> = new WeakMap();
+  // The tokenizer the token caches were computed with.
+  tokenizerFamily: TokenizerFamily | undefined;
   messageIndex: number = -1;
   partIndex: number = -1;
+  historySummary: HistorySummary | undefined;
+  // The files picked by the last call to `relevantFiles`.
+  lastRelevantFiles: RelevantFile[] = [];
 
   constructor(
     private getCurrentDocument: () => EditorDocument | undefined,
     private getFiles: () => FileMap,
     private getUserWrites: () => Map<AbsolutePath, number>,
+    private getTokenizerFamily: () => TokenizerFamily = () => 'anthropic',
   ) {}
 
   /**
@@ -46,8 +86,11 @@ export class ChatContextManager {
     this.assistantMessageCache = new WeakMap();
     this.messageSizeCache = new WeakMap();
     this.partSizeCache = new WeakMap();
+    this.messageTokensCache = new WeakMap();
+    this.partTokensCache = new WeakMap();
     this.messageIndex = -1;
     this.partIndex = -1;
+    this.historySummary = undefined;
   }
 
   /**
@@ -56,42 +99,51 @@ export class ChatContextManager {
    * 1. The Convex guidelines, which are filled in by the server and
    *    set to be cached by Anthropic (~15k tokens).
    * 2. Some relevant project files, which are filled in from the file
-   *    cache based on LRU, up to maxRelevantFilesSize.
+   *    cache based on LRU, up to maxRelevantFilesTokens.
    * 3. A potentially collapsed segment of the chat history followed
-   *    by the full fidelity recent chat history, up to maxCollapsedMessagesSize.
+   *    by the full fidelity recent chat history, up to maxCollapsedMessagesTokens.
+   *    The dropped messages are replaced by `historySummary` if it covers them.
+   *
+   * The limits are in tokens for the model's tokenizer family.
    */
   prepareContext(
     messages: UIMessage[],
-    maxCollapsedMessagesSize: number,
-    minCollapsedMessagesSize: number,
+    maxCollapsedMessagesTokens: number,
+    minCollapsedMessagesTokens: number,
+    historySummary?: HistorySummary,
   ): { messages: UIMessage[]; collapsedMessages: boolean; promptCharacterCounts?: PromptCharacterCounts } {
     // If the last message is a user message this is the first LLM call that includes that user message.
     // Only update the relevant files and the message cutoff indices if the last message is a user message to avoid clearing the cache as the agent makes changes.
     let collapsedMessages = false;
     if (messages[messages.length - 1].role === 'user') {
-      const [messageIndex, partIndex] = this.messagePartCutoff(messages, maxCollapsedMessagesSize);
+      const [messageIndex, partIndex] = this.messagePartCutoff(messages, maxCollapsedMessagesTokens);
       if (messageIndex == this.messageIndex && partIndex == this.partIndex) {
         return { messages, collapsedMessages };
       }
       if (messageIndex >= this.messageIndex && partIndex >= this.partIndex) {
-        // Truncate more than just the `maxCollapsedMessagesSize` limit because we want to get some cache hits before needing to truncate again.
-        // If we only truncate to the `maxCollapsedMessagesSize` limit, we'll keep truncating on each new message, which means cache misses.
-        const [newMessageIndex, newPartIndex] = this.messagePartCutoff(messages, minCollapsedMessagesSize);
+        // Truncate more than just the `maxCollapsedMessagesTokens` limit because we want to get some cache hits before needing to truncate again.
+        // If we only truncate to the `maxCollapsedMessagesTokens` limit, we'll keep truncating on each new message, which means cache misses.
+        const [newMessageIndex, newPartIndex] = this.messagePartCutoff(messages, minCollapsedMessagesTokens);
         this.messageIndex = newMessageIndex;
         this.partIndex = newPartIndex;
         collapsedMessages = true;
       }
+      // Like the cutoff, only pick up a new summary here so the collapsed prefix stays cached during the turn.
+      if (historySummary && historySummary.messageIndex <= this.messageIndex) {
+        this.historySummary = historySummary;
+      }
     }
     messages = this.collapseMessages(messages);
     return { messages, collapsedMessages };
   }
 
   /**
-   * Calculate character counts for different parts of the prompt
+   * Calculate character and token counts for different parts of the prompt
    */
   calculatePromptCharacterCounts(messages: UIMessage[], systemPrompts?: string[]): PromptCharacterCounts {
     // Calculate message history character count (excluding current turn)
     let messageHistoryChars = 0;
+    let messageHistoryTokens = 0;
     const lastMessage = messages[messages.length - 1];
     const isLastMessageUser = lastMessage?.role === 'user';
 
@@ -102,26 +154,36 @@ export class ChatContextManager {
         continue;
       }
       messageHistoryChars += this.messageSize(message);
+      messageHistoryTokens += this.messageTokens(message);
     }
 
     // Calculate current turn character count
     let currentTurnChars = 0;
+    let currentTurnTokens = 0;
     if (isLastMessageUser) {
       currentTurnChars = this.messageSize(lastMessage);
+      currentTurnTokens = this.messageTokens(lastMessage);
     }
 
     // Calculate system prompts character count (if provided)
     let systemPromptsChars = 0;
+    let systemPromptsTokens = 0;
     if (systemPrompts) {
+      const tokenizerFamily = this.tokenizer();
       systemPromptsChars = systemPrompts.reduce((sum, prompt) => sum + prompt.length, 0);
+      systemPromptsTokens = systemPrompts.reduce((sum, prompt) => sum + countTokens(prompt, tokenizerFamily), 0);
     }
 
     const totalPromptChars = messageHistoryChars + currentTurnChars + systemPromptsChars;
+    const totalPromptTokens = messageHistoryTokens + currentTurnTokens + systemPromptsTokens;
 
     return {
       messageHistoryChars,
       currentTurnChars,
       totalPromptChars,
+      messageHistoryTokens,
+      currentTurnTokens,
+      totalPromptTokens,
     };
   }
 
@@ -140,7 +202,31 @@ export class ChatContextManager {
     return size;
   }
 
-  relevantFiles(messages: UIMessage[], id: string, maxRelevantFilesSize: number): UIMessage {
+  private messageTokens(message: UIMessage): number {
+    const tokenizerFamily = this.tokenizer();
+    const cached = this.messageTokensCache.get(message);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    // The parts are what we send to the model. `content` just repeats their text.
+    let tokens = 0;
+    if (message.parts.length === 0) {
+      tokens = countTokens(message.content, tokenizerFamily);
+    }
+    for (const part of message.parts) {
+      tokens += this.partTokens(part);
+    }
+
+    this.messageTokensCache.set(message, tokens);
+    return tokens;
+  }
+
+  /**
+   * Pick the files to send with `userMessage`: the ones it mentions or the last response touched,
+   * then the files closest to them in the project's import graph, then the most recently used.
+   */
+  relevantFiles(messages: UIMessage[], id: string, maxRelevantFilesTokens: number, userMessage = ''): UIMessage {
     const currentDocument = this.getCurrentDocument();
     const cache = this.getFiles();
     const allPaths = Object.keys(cache).sort();
@@ -178,17 +264,30 @@ export class ChatContextManager {
       lastUsed.set(path, Math.max(existing, lastUsedTime));
     }
 
+    const turnFiles = this.turnFiles(messages, userMessage, cache);
+    const seeds = [...turnFiles.keys()];
     if (currentDocument) {
-      lastUsed.delete(currentDocument.filePath);
+      seeds.push(currentDocument.filePath);
     }
+    const nearby = nearbyFiles(buildImportGraph(cache), seeds, MAX_GRAPH_DISTANCE);
 
-    const sortedByLastUsed = Array.from(lastUsed.entries()).sort((a, b) => b[1] - a[1]);
-    let sizeEstimate = 0;
+    const candidates = new Set([...turnFiles.keys(), ...nearby.keys(), ...lastUsed.keys()]);
+    if (currentDocument) {
+      candidates.delete(currentDocument.filePath);
+    }
+    const distance = (path: AbsolutePath) =>
+      turnFiles.has(path) ? 0 : (nearby.get(path)?.distance ?? MAX_GRAPH_DISTANCE + 1);
+    const sortedByRelevance = Array.from(candidates).sort(
+      (a, b) => distance(a) - distance(b) || (lastUsed.get(b) ?? 0) - (lastUsed.get(a) ?? 0),
+    );
+    const tokenizerFamily = this.tokenizer();
+    let tokenEstimate = 0;
     const fileActions: string[] = [];
+    const selected: RelevantFile[] = [];
     let numFiles = 0;
 
-    for (const [path] of sortedByLastUsed) {
-      if (sizeEstimate > maxRelevantFilesSize) {
+    for (const path of sortedByRelevance) {
+      if (tokenEstimate > maxRelevantFilesTokens) {
         break;
       }
       if (numFiles >= MAX_RELEVANT_FILES) {
@@ -201,16 +300,19 @@ export class ChatContextManager {
       if (entry.type === 'file') {
         const content = renderFile(entry.content);
         fileActions.push(`<boltAction type="file" filePath="${path}">${content}</boltAction>`);
-        const size = estimateSize(entry);
-        sizeEstimate += size;
+        tokenEstimate += countTokens(entry.content, tokenizerFamily);
         numFiles++;
+        const reason = turnFiles.get(path) ?? proximityReason(nearby.get(path)) ?? recencyReason(lastUsed.get(path));
+        selected.push({ path: getRelativePath(path), reason });
       }
     }
 
     if (currentDocument) {
       const content = renderFile(currentDocument.value);
       fileActions.push(`<boltAction type="file" filePath="${currentDocument.filePath}">${content}</boltAction>`);
+      selected.push({ path: getRelativePath(currentDocument.filePath), reason: 'open in the editor' });
     }
+    this.lastRelevantFiles = selected;
 
     // Compose a single message with all relevant files
     if (allPaths.length > 0) {
@@ -227,6 +329,30 @@ export class ChatContextManager {
     return makeUserMessage(fileActions, id);
   }
 
+  // The files the user's message mentions and the ones the last response touched, with why they're included.
+  private turnFiles(messages: UIMessage[], userMessage: string, files: FileMap): Map<AbsolutePath, string> {
+    const result = new Map<AbsolutePath, string>();
+    const words = new Set((userMessage.match(/[\w@./-]+/g) ?? []).map((word) => word.replace(/\.+$/, '')));
+    for (const [filePath, entry] of Object.entries(files)) {
+      if (entry?.type !== 'file') {
+        continue;
+      }
+      const relativePath = getRelativePath(filePath);
+      const basename = path.basename(relativePath);
+      if (words.has(relativePath) || (basename.includes('.') && words.has(basename))) {
+        result.set(filePath as AbsolutePath, "mentioned in the user's message");
+      }
+    }
+    const lastMessage = messages[messages.length - 1];
+    const parsed = lastMessage && this.parsedAssistantMessage(lastMessage);
+    for (const filePath of parsed?.filesTouched.keys() ?? []) {
+      if (!result.has(filePath)) {
+        result.set(filePath, 'used in the last response');
+      }
+    }
+    return result;
+  }
+
   private collapseMessages(messages: UIMessage[]): UIMessage[] {
     const fullMessages = [];
     for (let i = 0; i < messages.length; i++) {
@@ -251,18 +377,34 @@ export class ChatContextManager {
       }
     }
     const result: UIMessage[] = [];
+    if (this.historySummary && this.messageIndex > 0) {
+      result.push({
+        id: `history-summary-${this.historySummary.messageIndex}`,
+        content: '',
+        role: 'user',
+        parts: [
+          {
+            type: 'text',
+            text: `<chat_history_summary>
+The earlier messages of this chat were dropped to save space. Here is a summary of them:
+${this.historySummary.summary}
+</chat_history_summary>`,
+          },
+        ],
+      });
+    }
     result.push(...fullMessages);
     return result;
   }
 
-  shouldSendRelevantFiles(messages: UIMessage[], maxCollapsedMessagesSize: number): boolean {
+  shouldSendRelevantFiles(messages: UIMessage[], maxCollapsedMessagesTokens: number): boolean {
     // Always send files on the first message
     if (messages.length === 0) {
       return true;
     }
 
     // Check if we are going to collapse messages, if so, send new files
-    const [messageIndex, partIndex] = this.messagePartCutoff(messages, maxCollapsedMessagesSize);
+    const [messageIndex, partIndex] = this.messagePartCutoff(messages, maxCollapsedMessagesTokens);
     if (messageIndex != this.messageIndex || partIndex != this.partIndex) {
       return true;
     }
@@ -287,8 +429,8 @@ export class ChatContextManager {
     return true;
   }
 
-  private messagePartCutoff(messages: UIMessage[], maxCollapsedMessagesSize: number): [number, number] {
-    let remaining = maxCollapsedMessagesSize;
+  private messagePartCutoff(messages: UIMessage[], maxCollapsedMessagesTokens: number): [number, number] {
+    let remaining = maxCollapsedMessagesTokens;
     for (let messageIndex = messages.length - 1; messageIndex >= 0; messageIndex--) {
       const message = messages[messageIndex];
       for (let partIndex = message.parts.length - 1; partIndex >= 0; partIndex--) {
@@ -296,11 +438,11 @@ export class ChatContextManager {
         if (part.type === 'tool-invocation' && part.toolInvocation.state !== 'result') {
           continue;
         }
-        const size = this.partSize(part);
-        if (size > remaining) {
+        const tokens = this.partTokens(part);
+        if (tokens > remaining) {
           return [messageIndex, partIndex];
         }
-        remaining -= size;
+        remaining -= tokens;
       }
     }
     return [-1, -1];
@@ -347,6 +489,28 @@ export class ChatContextManager {
           filesTouched.set(getAbsolutePath(args.data.path), j);
         }
       }
+      if (
+        part.type == 'tool-invocation' &&
+        part.toolInvocation.toolName == 'writeFile' &&
+        part.toolInvocation.state !== 'partial-call'
+      ) {
+        const args = loggingSafeParse(writeFileToolParameters, part.toolInvocation.args);
+        if (args.success) {
+          filesTouched.set(getAbsolutePath(args.data.path), j);
+        }
+      }
+      if (
+        part.type == 'tool-invocation' &&
+        part.toolInvocation.toolName == 'patch' &&
+        part.toolInvocation.state !== 'partial-call'
+      ) {
+        const args = loggingSafeParse(patchToolParameters, part.toolInvocation.args);
+        if (args.success) {
+          for (const relPath of patchPaths(args.data)) {
+            filesTouched.set(getAbsolutePath(relPath), j);
+          }
+        }
+      }
     }
     const result = {
       filesTouched,
@@ -374,7 +538,11 @@ export class ChatContextManager {
         break;
       case 'tool-invocation':
         result += JSON.stringify(part.toolInvocation.args).length;
-        if (part.toolInvocation.state === 'result') {
+        if (part.toolInvocation.state === 'result' && part.toolInvocation.toolName === 'screenshot') {
+          // The image is sent to the model as an image part, which costs far less than its data URL's length.
+          const { text, image } = parseScreenshotResult(part.toolInvocation.result);
+          result += text.length + (image ? SCREENSHOT_SIZE_ESTIMATE : 0);
+        } else if (part.toolInvocation.state === 'result') {
           result += JSON.stringify(part.toolInvocation.result).length;
         }
         break;
@@ -390,6 +558,70 @@ export class ChatContextManager {
     this.partSizeCache.set(part, result);
     return result;
   }
+
+  private partTokens(part: UIMessagePart) {
+    const tokenizerFamily = this.tokenizer();
+    const cached = this.partTokensCache.get(part);
+    if (cached !== undefined) {
+      return cached;
+    }
+    let result = 0;
+    switch (part.type) {
+      case 'text':
+        result = countTokens(part.text, tokenizerFamily);
+        break;
+      case 'file':
+        result = part.mimeType.startsWith('image/') ? IMAGE_TOKEN_ESTIMATE : countTokens(part.data, tokenizerFamily);
+        break;
+      case 'reasoning':
+        result = countTokens(part.reasoning, tokenizerFamily);
+        break;
+      case 'tool-invocation':
+        result += countTokens(JSON.stringify(part.toolInvocation.args), tokenizerFamily);
+        if (part.toolInvocation.state === 'result' && part.toolInvocation.toolName === 'screenshot') {
+          const { text, image } = parseScreenshotResult(part.toolInvocation.result);
+          result += countTokens(text, tokenizerFamily) + (image ? IMAGE_TOKEN_ESTIMATE : 0);
+        } else if (part.toolInvocation.state === 'result') {
+          result += countTokens(JSON.stringify(part.toolInvocation.result), tokenizerFamily);
+        }
+        break;
+      case 'source':
+        result = countTokens(`${part.source.title ?? ''} ${part.source.url}`, tokenizerFamily);
+        break;
+      case 'step-start':
+        break;
+      default:
+        throw new Error(`Unknown part type: ${JSON.stringify(part)}`);
+    }
+    this.partTokensCache.set(part, result);
+    return result;
+  }
+
+  // The tokenizer for the current model, dropping cached token counts from a different one.
+  private tokenizer(): TokenizerFamily {
+    const tokenizerFamily = this.getTokenizerFamily();
+    if (tokenizerFamily !== this.tokenizerFamily) {
+      this.messageTokensCache = new WeakMap();
+      this.partTokensCache = new WeakMap();
+      this.tokenizerFamily = tokenizerFamily;
+    }
+    return tokenizerFamily;
+  }
+}
+
+function proximityReason(proximity: GraphProximity | undefined): string | undefined {
+  if (!proximity) {
+    return undefined;
+  }
+  const via = getRelativePath(proximity.via);
+  if (proximity.direction === 'dependency') {
+    return proximity.kind === 'import' ? `imported by ${via}` : `has functions called by ${via}`;
+  }
+  return proximity.kind === 'import' ? `imports ${via}` : `calls functions in ${via}`;
+}
+
+function recencyReason(lastUsedTime: number | undefined): string {
+  return lastUsedTime ? 'recently used' : 'part of the template';
 }
 
 function makeUserMessage(content: string[], id: string): UIMessage {
@@ -408,14 +640,6 @@ ${c}
   };
 }
 
-function estimateSize(entry: Dirent): number {
-  if (entry.type === 'file') {
-    return 4 + entry.content.length;
-  } else {
-    return 6;
-  }
-}
-
 function abbreviateToolInvocation(toolInvocation: ToolInvocation): string {
   if (toolInvocation.state !== 'result') {
     throw new Error(`Invalid tool invocation state: ${toolInvocation.state}`);
@@ -454,12 +678,93 @@ function abbreviateToolInvocation(toolInvocation: ToolInvocation): string {
       }
       break;
     }
+    case 'patch': {
+      const args = loggingSafeParse(patchToolParameters, toolInvocation.args);
+      if (args.success) {
+        toolCall = `patched the files ${patchPaths(args.data).join(', ')}`;
+      } else {
+        toolCall = `attempted to patch files`;
+      }
+      break;
+    }
+    case 'writeFile': {
+      const args = loggingSafeParse(writeFileToolParameters, toolInvocation.args);
+      if (args.success) {
+        toolCall = `wrote the file ${args.data.path}`;
+      } else {
+        toolCall = `attempted to write a file`;
+      }
+      break;
+    }
+    case 'deleteFile': {
+      const args = loggingSafeParse(deleteFileToolParameters, toolInvocation.args);
+      if (args.success) {
+        toolCall = `deleted ${args.data.path}`;
+      } else {
+        toolCall = `attempted to delete a file`;
+      }
+      break;
+    }
+    case 'renameFile': {
+      const args = loggingSafeParse(renameFileToolParameters, toolInvocation.args);
+      if (args.success) {
+        toolCall = `moved ${args.data.path} to ${args.data.newPath}`;
+      } else {
+        toolCall = `attempted to move a file`;
+      }
+      break;
+    }
+    case 'search': {
+      const args = loggingSafeParse(searchParameters, toolInvocation.args);
+      if (args.success) {
+        toolCall = `searched the project for ${args.data.pattern}`;
+      } else {
+        toolCall = `attempted to search the project`;
+      }
+      break;
+    }
     case 'getConvexDeploymentName': {
       toolCall = `retrieved the Convex deployment name`;
       break;
     }
+    case 'runConvexFunction': {
+      const args = loggingSafeParse(runConvexFunctionToolParameters, toolInvocation.args);
+      if (args.success) {
+        toolCall = `ran the Convex function ${args.data.functionName}`;
+      } else {
+        toolCall = `attempted to run a Convex function`;
+      }
+      break;
+    }
+    case 'readLogs': {
+      const args = loggingSafeParse(readLogsToolParameters, toolInvocation.args);
+      if (args.success && args.data.functionName) {
+        toolCall = `read the Convex logs for ${args.data.functionName}`;
+      } else {
+        toolCall = `read the Convex logs`;
+      }
+      break;
+    }
+    case 'inspectData': {
+      const args = loggingSafeParse(inspectDataToolParameters, toolInvocation.args);
+      if (!args.success) {
+        toolCall = `attempted to inspect the Convex data`;
+      } else if (args.data.action === 'documents') {
+        toolCall = `read documents from the ${args.data.table} table`;
+      } else if (args.data.action === 'schema') {
+        toolCall = `inspected the deployed schema`;
+      } else {
+        toolCall = `listed the Convex tables`;
+      }
+      break;
+    }
+    case 'screenshot': {
+      const args = loggingSafeParse(screenshotToolParameters, toolInvocation.args);
+      toolCall = `took a screenshot of ${(args.success && args.data.route) || 'the preview'}`;
+      break;
+    }
     default:
-      throw new Error(`Unknown tool name: ${toolInvocation.toolName}`);
+      toolCall = `used the ${toolInvocation.toolName} tool`;
   }
   return `The assistant ${toolCall} ${wasError ? 'and got an error' : 'successfully'}.`;
 }
@@ -477,6 +782,6 @@ function extractFileArtifacts(partId: PartId, content: string) {
       },
     },
   });
-  parser.parse(partId, content);
+  parser.end(partId, content);
   return Array.from(filesTouched);
 }
@@ -0,0 +1,132 @@
+import { describe, expect, test } from 'vitest';
+import type { Message } from 'ai';
+import { cleanupAssistantMessages } from './cleanupAssistantMessages.js';
+import { encodeScreenshotResult, screenshotTool } from './tools/screenshot.js';
+import type { ConvexToolSet } from './types.js';
+import { writeFileTool } from './tools/writeFile.js';
+
+const PNG = 'data:image/png;base64,iVBORw0KGgo=';
+
+function screenshotMessage(id: string, route: string): Message {
+  const toolInvocation = {
+    state: 'result' as const,
+    toolCallId: `call-${id}`,
+    toolName: 'screenshot',
+    args: { route, width: null, height: null },
+    result: encodeScreenshotResult(`Screenshot of ${route} at 1280x800.`, PNG),
+  };
+  return {
+    id,
+    role: 'assistant',
+    content: '',
+    parts: [{ type: 'tool-invocation', toolInvocation }],
+    toolInvocations: [toolInvocation],
+  };
+}
+
+function toolResults(messages: ReturnType<typeof cleanupAssistantMessages>) {
+  return messages.flatMap((message) =>
+    message.role === 'tool' ? message.content.map((part) => part.experimental_content ?? part.result) : [],
+  );
+}
+
+describe('cleanupAssistantMessages', () => {
+  const messages = [screenshotMessage('1', '/'), screenshotMessage('2', '/settings')];
+
+  test('only sends the latest screenshot as an image', () => {
+    const tools = { screenshot: screenshotTool } as ConvexToolSet;
+    expect(toolResults(cleanupAssistantMessages(messages, tools))).toEqual([
+      [{ type: 'text', text: 'Screenshot of / at 1280x800.' }],
+      [
+        { type: 'text', text: 'Screenshot of /settings at 1280x800.' },
+        { type: 'image', mimeType: 'image/png', data: 'iVBORw0KGgo=' },
+      ],
+    ]);
+  });
+
+  test('drops screenshots for models without the screenshot tool', () => {
+    expect(toolResults(cleanupAssistantMessages(messages))).toEqual([
+      'Screenshot of / at 1280x800.',
+      'Screenshot of /settings at 1280x800.',
+    ]);
+  });
+});
+
+describe('writeFile tool calls', () => {
+  const toolInvocation = {
+    state: 'result' as const,
+    toolCallId: 'call-1',
+    toolName: 'writeFile',
+    args: { path: '/home/project/src/App.tsx', content: 'export default function App() {}\n' },
+    result: 'Successfully wrote /home/project/src/App.tsx',
+  };
+  const messages: Message[] = [
+    {
+      id: '1',
+      role: 'assistant',
+      content: '',
+      parts: [{ type: 'tool-invocation', toolInvocation }],
+      toolInvocations: [toolInvocation],
+    },
+  ];
+
+  test('are sent as tool calls to models with the writeFile tool', () => {
+    const tools = { writeFile: writeFileTool } as ConvexToolSet;
+    const [assistantMessage, toolMessage] = cleanupAssistantMessages(messages, tools);
+    expect(assistantMessage.content).toEqual([expect.objectContaining({ type: 'tool-call', toolName: 'writeFile' })]);
+    expect(toolMessage.role).toBe('tool');
+  });
+
+  test('are sent as artifacts to models without the writeFile tool', () => {
+    expect(cleanupAssistantMessages(messages)).toEqual([
+      {
+        role: 'assistant',
+        content: [
+          {
+            type: 'text',
+            text: '<boltArtifact id="call-1" title="Write src/App.tsx"><boltAction type="file" filePath="src/App.tsx">export default function App() {}\n</boltAction></boltArtifact>',
+          },
+        ],
+      },
+    ]);
+  });
+
+  test('turn deleteFile and renameFile calls into delete and rename actions', () => {
+    const deleteInvocation = {
+      state: 'result' as const,
+      toolCallId: 'call-2',
+      toolName: 'deleteFile',
+      args: { path: '/home/project/src/Old.tsx' },
+      result: 'Successfully deleted /home/project/src/Old.tsx',
+    };
+    const renameInvocation = {
+      state: 'result' as const,
+      toolCallId: 'call-3',
+      toolName: 'renameFile',
+      args: { path: '/home/project/convex/todos.ts', newPath: '/home/project/convex/cards.ts' },
+      result: 'Successfully moved /home/project/convex/todos.ts to /home/project/convex/cards.ts',
+    };
+    const [assistantMessage] = cleanupAssistantMessages([
+      {
+        id: '2',
+        role: 'assistant',
+        content: '',
+        parts: [
+          { type: 'tool-invocation', toolInvocation: deleteInvocation },
+          { type: 'tool-invocation', toolInvocation: renameInvocation },
+        ],
+        toolInvocations: [deleteInvocation, renameInvocation],
+      },
+    ]);
+    expect(assistantMessage.content).toEqual([
+      {
+        type: 'text',
+        text: '<boltArtifact id="call-2" title="Delete src/Old.tsx"><boltAction type="delete" filePath="src/Old.tsx" /></boltArtifact>',
+      },
+      {
+        type: 'text',
+        text: '<boltArtifact id="call-3" title="Move convex/todos.ts"><boltAction type="rename" filePath="convex/todos.ts" newFilePath="convex/cards.ts" /></boltArtifact>',
+      },
+    ]);
+  });
+});
@@ -1,8 +1,18 @@
 import { convertToCoreMessages } from 'ai';
-import type { Message } from 'ai';
+import type { Message, ToolInvocation, ToolSet } from 'ai';
 import { EXCLUDED_FILE_PATHS } from './constants.js';
+import type { ConvexToolSet } from './types.js';
+import { parseScreenshotResult } from './tools/screenshot.js';
+import { writeFileToolParameters } from './tools/writeFile.js';
+import { deleteFileToolParameters } from './tools/deleteFile.js';
+import { renameFileToolParameters } from './tools/renameFile.js';
+import { loggingSafeParse } from './utils/zodUtil.js';
+import { getRelativePath } from './utils/workDir.js';
 
-export function cleanupAssistantMessages(messages: Message[]) {
+export function cleanupAssistantMessages(messages: Message[], tools?: ConvexToolSet) {
+  if (!tools?.writeFile) {
+    messages = fileToolCallsToArtifacts(messages);
+  }
   let processedMessages = messages.map((message) => {
     if (message.role == 'assistant') {
       let content = cleanMessage(message.content);
@@ -24,7 +34,102 @@ export function cleanupAssistantMessages(messages: Message[]) {
       (message.parts &&
         message.parts.filter((part) => part.type === 'text' || part.type === 'tool-invocation').length > 0),
   );
-  return convertToCoreMessages(processedMessages).filter((message) => message.content.length > 0);
+  processedMessages = dropStaleScreenshots(processedMessages, !!tools?.screenshot);
+  return convertToCoreMessages(processedMessages, { tools: tools as ToolSet | undefined }).filter(
+    (message) => message.content.length > 0,
+  );
+}
+
+// Screenshots are large, so only send the most recent one to the model (and none at all if it
+// can't read images). Older ones are replaced with their text description.
+function dropStaleScreenshots(messages: Message[], keepLatest: boolean): Message[] {
+  let keptScreenshot = !keepLatest;
+  const result = [...messages];
+  for (let i = result.length - 1; i >= 0; i--) {
+    const message = result[i];
+    if (message.role !== 'assistant' || !message.parts) {
+      continue;
+    }
+    const parts = [...message.parts];
+    for (let j = parts.length - 1; j >= 0; j--) {
+      const part = parts[j];
+      if (
+        part.type !== 'tool-invocation' ||
+        part.toolInvocation.toolName !== 'screenshot' ||
+        part.toolInvocation.state !== 'result'
+      ) {
+        continue;
+      }
+      const { text, image } = parseScreenshotResult(part.toolInvocation.result);
+      if (!image) {
+        continue;
+      }
+      if (!keptScreenshot) {
+        keptScreenshot = true;
+        continue;
+      }
+      parts[j] = { ...part, toolInvocation: { ...part.toolInvocation, result: text } };
+    }
+    result[i] = { ...message, parts };
+  }
+  return result;
+}
+
+// Models that write files with artifacts don't have the `writeFile`, `deleteFile` and `renameFile`
+// tools, so show them the calls to them (e.g. before the user switched models) as artifacts instead.
+function fileToolCallsToArtifacts(messages: Message[]): Message[] {
+  return messages.map((message) => {
+    if (message.role !== 'assistant' || !message.parts) {
+      return message;
+    }
+    let changed = false;
+    const parts = message.parts.map((part) => {
+      if (part.type !== 'tool-invocation') {
+        return part;
+      }
+      const artifact = fileToolCallArtifact(part.toolInvocation);
+      if (artifact === null) {
+        return part;
+      }
+      changed = true;
+      return { type: 'text' as const, text: artifact };
+    });
+    return changed ? { ...message, parts } : message;
+  });
+}
+
+function fileToolCallArtifact(toolInvocation: ToolInvocation): string | null {
+  const id = toolInvocation.toolCallId;
+  switch (toolInvocation.toolName) {
+    case 'writeFile': {
+      const args = loggingSafeParse(writeFileToolParameters, toolInvocation.args);
+      if (!args.success) {
+        return null;
+      }
+      const filePath = getRelativePath(args.data.path);
+      return `<boltArtifact id="${id}" title="Write ${filePath}"><boltAction type="file" filePath="${filePath}">${args.data.content}</boltAction></boltArtifact>`;
+    }
+    case 'deleteFile': {
+      const args = loggingSafeParse(deleteFileToolParameters, toolInvocation.args);
+      if (!args.success) {
+        return null;
+      }
+      const filePath = getRelativePath(args.data.path);
+      return `<boltArtifact id="${id}" title="Delete ${filePath}"><boltAction type="delete" filePath="${filePath}" /></boltArtifact>`;
+    }
+    case 'renameFile': {
+      const args = loggingSafeParse(renameFileToolParameters, toolInvocation.args);
+      if (!args.success) {
+        return null;
+      }
+      const filePath = getRelativePath(args.data.path);
+      const newFilePath = getRelativePath(args.data.newPath);
+      return `<boltArtifact id="${id}" title="Move ${filePath}"><boltAction type="rename" filePath="${filePath}" newFilePath="${newFilePath}" /></boltArtifact>`;
+    }
+    default: {
+      return null;
+    }
+  }
 }
 
 function cleanMessage(message: string) {
@@ -0,0 +1,63 @@
+import { describe, expect, test } from 'vitest';
+import { formatDocuments, formatSchema, formatValidator } from './convexData.js';
+
+describe('convexData', () => {
+  test('renders validators as schema code', () => {
+    expect(
+      formatValidator({
+        type: 'object',
+        value: {
+          author: { fieldType: { type: 'id', tableName: 'users' }, optional: false },
+          body: { fieldType: { type: 'string' }, optional: false },
+          likes: { fieldType: { type: 'number' }, optional: true },
+          status: {
+            fieldType: {
+              type: 'union',
+              value: [
+                { type: 'literal', value: 'draft' },
+                { type: 'literal', value: 'published' },
+              ],
+            },
+            optional: false,
+          },
+          tags: { fieldType: { type: 'array', value: { type: 'string' } }, optional: false },
+        },
+      }),
+    ).toBe(
+      'v.object({ author: v.id("users"), body: v.string(), likes: v.optional(v.float64()), ' +
+        'status: v.union(v.literal("draft"), v.literal("published")), tags: v.array(v.string()) })',
+    );
+  });
+
+  test('formats the deployed schema with indexes', () => {
+    const schema = {
+      schemaValidation: true,
+      tables: [
+        {
+          tableName: 'messages',
+          indexes: [{ indexDescriptor: 'by_author', fields: ['author'] }],
+          documentType: {
+            type: 'object' as const,
+            value: { author: { fieldType: { type: 'string' as const }, optional: false } },
+          },
+        },
+        { tableName: 'users', indexes: [], documentType: null },
+      ],
+    };
+    expect(formatSchema(schema, null)).toBe(
+      ['messages: v.object({ author: v.string() })', '  index by_author: [author]', 'users: v.any()'].join('\n'),
+    );
+    expect(formatSchema(schema, 'posts')).toBe("The deployed schema doesn't define a `posts` table.");
+  });
+
+  test('includes the cursor when there are more documents', () => {
+    const result = formatDocuments('messages', [{ _id: 'abc', body: 'hi' }], 'cursor123');
+    expect(result).toBe(
+      [
+        '1 document from `messages`, newest first:',
+        '{"_id":"abc","body":"hi"}',
+        'More documents are available. Pass the cursor "cursor123" to read the next page.',
+      ].join('\n'),
+    );
+  });
+});
@@ -0,0 +1,201 @@
+import type { ConvexProject } from './types.js';
+
+// Keep the tool result small, since documents can be large.
+const MAX_RESULT_LENGTH = 8192;
+const DEFAULT_PAGE_SIZE = 10;
+const MAX_PAGE_SIZE = 50;
+
+export type InspectDataAction = 'listTables' | 'schema' | 'documents';
+
+// The JSON representation of a validator, as stored in the deployed schema.
+type ValidatorJSON =
+  | { type: 'null' | 'number' | 'bigint' | 'boolean' | 'string' | 'bytes' | 'any' }
+  | { type: 'literal'; value: unknown }
+  | { type: 'id'; tableName: string }
+  | { type: 'array'; value: ValidatorJSON }
+  | { type: 'record'; keys: ValidatorJSON; values: { fieldType: ValidatorJSON; optional: boolean } }
+  | { type: 'object'; value: Record<string, { fieldType: ValidatorJSON; optional: boolean }> }
+  | { type: 'union'; value: ValidatorJSON[] };
+
+interface TableSchemaJSON {
+  tableName: string;
+  indexes: { indexDescriptor: string; fields: string[] }[];
+  searchIndexes?: { indexDescriptor: string; searchField: string; filterFields: string[] }[];
+  vectorIndexes?: { indexDescriptor: string; vectorField: string; dimensions: number; filterFields: string[] }[];
+  documentType: ValidatorJSON | null;
+}
+
+interface SchemaJSON {
+  tables: TableSchemaJSON[];
+  schemaValidation: boolean;
+}
+
+/**
+ * Run one of the deployment's built-in system queries, which are only available with an
+ * admin key.
+ */
+async function runSystemQuery(project: ConvexProject, path: string, args: Record<string, unknown>): Promise<any> {
+  const response = await fetch(`${project.deploymentUrl}/api/query`, {
+    method: 'POST',
+    body: JSON.stringify({
+      path,
+      format: 'convex_encoded_json',
+      args: [args],
+    }),
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Convex ${project.token}`,
+    },
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to query ${path}: ${response.status} ${await response.text()}`);
+  }
+  const respJSON: any = await response.json();
+  if (respJSON.status !== 'success') {
+    throw new Error(`Failed to query ${path}: ${respJSON.errorMessage}`);
+  }
+  return respJSON.value;
+}
+
+async function listTables(project: ConvexProject): Promise<string[]> {
+  const tables: string[] = [];
+  let cursor: string | null = null;
+  while (true) {
+    const result: any = await runSystemQuery(project, '_system/cli/tables:default', {
+      paginationOpts: { cursor, numItems: 100 },
+    });
+    tables.push(...result.page.map((table: { name: string }) => table.name));
+    if (result.isDone) {
+      break;
+    }
+    cursor = result.continueCursor;
+  }
+  return tables.sort();
+}
+
+async function getDeployedSchema(project: ConvexProject): Promise<SchemaJSON | null> {
+  const schemas = await runSystemQuery(project, '_system/frontend/getSchemas:default', {});
+  return schemas?.active ? JSON.parse(schemas.active) : null;
+}
+
+/**
+ * Inspect the data in the app's deployment: list its tables, show the deployed schema, or
+ * read a page of documents from a table, newest first.
+ */
+export async function inspectData(
+  project: ConvexProject,
+  args: { action: InspectDataAction; table: string | null; cursor: string | null; limit: number | null },
+): Promise<string> {
+  switch (args.action) {
+    case 'listTables': {
+      const tables = await listTables(project);
+      if (tables.length === 0) {
+        return 'The deployment has no tables yet.';
+      }
+      return `Tables:\n${tables.map((table) => `- ${table}`).join('\n')}`;
+    }
+    case 'schema': {
+      const schema = await getDeployedSchema(project);
+      if (!schema) {
+        return 'No schema has been deployed. Documents in every table are unvalidated.';
+      }
+      return formatSchema(schema, args.table);
+    }
+    case 'documents': {
+      if (!args.table) {
+        throw new Error('The `table` argument is required when reading documents');
+      }
+      const numItems = Math.min(Math.max(Math.floor(args.limit ?? DEFAULT_PAGE_SIZE), 1), MAX_PAGE_SIZE);
+      const result = await runSystemQuery(project, '_system/cli/tableData:default', {
+        table: args.table,
+        order: 'desc',
+        paginationOpts: { cursor: args.cursor, numItems },
+      });
+      return formatDocuments(args.table, result.page, result.isDone ? null : result.continueCursor);
+    }
+    default: {
+      throw new Error(`Unknown action: ${args.action as string}`);
+    }
+  }
+}
+
+export function formatDocuments(table: string, documents: unknown[], continueCursor: string | null): string {
+  if (documents.length === 0) {
+    return `No documents found in \`${table}\`.`;
+  }
+  let body = documents.map((document) => JSON.stringify(document)).join('\n');
+  if (body.length > MAX_RESULT_LENGTH) {
+    body = `${body.slice(0, MAX_RESULT_LENGTH)}\n... (truncated ${body.length - MAX_RESULT_LENGTH} characters)`;
+  }
+  const count = documents.length === 1 ? '1 document' : `${documents.length} documents`;
+  const lines = [`${count} from \`${table}\`, newest first:`, body];
+  if (continueCursor) {
+    lines.push(
+      `More documents are available. Pass the cursor ${JSON.stringify(continueCursor)} to read the next page.`,
+    );
+  }
+  return lines.join('\n');
+}
+
+export function formatSchema(schema: SchemaJSON, table: string | null): string {
+  const tables = table ? schema.tables.filter((t) => t.tableName === table) : schema.tables;
+  if (tables.length === 0) {
+    return table
+      ? `The deployed schema doesn't define a \`${table}\` table.`
+      : 'The deployed schema defines no tables.';
+  }
+  const lines: string[] = [];
+  if (!schema.schemaValidation) {
+    lines.push('Schema validation is disabled, so existing documents may not match the schema.');
+  }
+  for (const t of tables) {
+    lines.push(`${t.tableName}: ${t.documentType ? formatValidator(t.documentType) : 'v.any()'}`);
+    for (const index of t.indexes) {
+      lines.push(`  index ${index.indexDescriptor}: [${index.fields.join(', ')}]`);
+    }
+    for (const index of t.searchIndexes ?? []) {
+      lines.push(
+        `  searchIndex ${index.indexDescriptor}: ${index.searchField} (filters: ${index.filterFields.join(', ')})`,
+      );
+    }
+    for (const index of t.vectorIndexes ?? []) {
+      lines.push(`  vectorIndex ${index.indexDescriptor}: ${index.vectorField} (${index.dimensions} dimensions)`);
+    }
+  }
+  return lines.join('\n');
+}
+
+// Render a validator the way it'd be written in `convex/schema.ts`.
+export function formatValidator(validator: ValidatorJSON): string {
+  switch (validator.type) {
+    case 'null':
+    case 'number':
+    case 'boolean':
+    case 'string':
+    case 'bytes':
+    case 'any':
+      return `v.${validator.type === 'number' ? 'float64' : validator.type}()`;
+    case 'bigint':
+      return 'v.int64()';
+    case 'literal':
+      return `v.literal(${JSON.stringify(validator.value)})`;
+    case 'id':
+      return `v.id(${JSON.stringify(validator.tableName)})`;
+    case 'array':
+      return `v.array(${formatValidator(validator.value)})`;
+    case 'record':
+      return `v.record(${formatValidator(validator.keys)}, ${formatValidator(validator.values.fieldType)})`;
+    case 'union':
+      return `v.union(${validator.value.map(formatValidator).join(', ')})`;
+    case 'object': {
+      const fields = Object.entries(validator.value).map(([name, field]) => {
+        const fieldType = formatValidator(field.fieldType);
+        return `${name}: ${field.optional ? `v.optional(${fieldType})` : fieldType}`;
+      });
+      return `v.object({ ${fields.join(', ')} })`;
+    }
+    default: {
+      throw new Error(`Unknown validator type: ${(validator as ValidatorJSON).type}`);
+    }
+  }
+}
@@ -0,0 +1,12 @@
+import { describe, expect, test } from 'vitest';
+import { normalizeFunctionPath } from './convexFunctions.js';
+
+describe('normalizeFunctionPath', () => {
+  test('accepts the different ways of naming a function', () => {
+    expect(normalizeFunctionPath('messages:list')).toBe('messages:list');
+    expect(normalizeFunctionPath('api.messages.list')).toBe('messages:list');
+    expect(normalizeFunctionPath('internal.admin.users.update')).toBe('admin/users:update');
+    expect(normalizeFunctionPath('convex/messages.ts:send')).toBe('messages:send');
+    expect(normalizeFunctionPath('messages')).toBe('messages:default');
+  });
+});
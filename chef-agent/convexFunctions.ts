@@ -0,0 +1,78 @@
+import type { ConvexProject } from './types.js';
+
+// Keep the tool result small, since large query results can blow out the context window.
+const MAX_RESULT_LENGTH = 8192;
+
+/**
+ * Normalize the different ways a model refers to a Convex function (`api.messages.list`,
+ * `convex/messages.ts:list`, `messages.list`) into the `messages:list` path the deployment
+ * expects.
+ */
+export function normalizeFunctionPath(functionName: string): string {
+  let name = functionName.trim().replace(/^(api|internal)\./, '');
+  name = name.replace(/^(\.\/)?convex\//, '');
+  let modulePath: string;
+  let exportName: string;
+  if (name.includes(':')) {
+    [modulePath, exportName] = name.split(':', 2);
+  } else if (name.includes('.') && !/\.(ts|js)$/.test(name)) {
+    const lastDot = name.lastIndexOf('.');
+    modulePath = name.slice(0, lastDot).replace(/\./g, '/');
+    exportName = name.slice(lastDot + 1);
+  } else {
+    modulePath = name;
+    exportName = 'default';
+  }
+  modulePath = modulePath.replace(/\.(ts|js)$/, '');
+  return `${modulePath}:${exportName}`;
+}
+
+/**
+ * Run a query, mutation or action with the project's admin key, which also allows calling
+ * internal functions. Returns the JSON result and any log lines, and throws with the
+ * function's error message and log lines if it fails.
+ */
+export async function runConvexFunction(project: ConvexProject, functionName: string, args: string | null) {
+  let parsedArgs: unknown;
+  try {
+    parsedArgs = JSON.parse(args ?? '{}');
+  } catch (e: any) {
+    throw new Error(`Invalid JSON arguments: ${e.message}`);
+  }
+  if (typeof parsedArgs !== 'object' || parsedArgs === null || Array.isArray(parsedArgs)) {
+    throw new Error('Arguments must be a JSON object');
+  }
+  const path = normalizeFunctionPath(functionName);
+  const response = await fetch(`${project.deploymentUrl}/api/function`, {
+    method: 'POST',
+    body: JSON.stringify({
+      path,
+      format: 'convex_encoded_json',
+      args: [parsedArgs],
+    }),
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Convex ${project.token}`,
+    },
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to run ${path}: ${response.status} ${await response.text()}`);
+  }
+  const respJSON: any = await response.json();
+  const logLines: string[] = respJSON.logLines ?? [];
+  if (respJSON.status !== 'success') {
+    throw new Error(`${path} failed: ${respJSON.errorMessage}${renderLogLines(logLines)}`);
+  }
+  let result = JSON.stringify(respJSON.value, null, 2) ?? 'null';
+  if (result.length > MAX_RESULT_LENGTH) {
+    result = `${result.slice(0, MAX_RESULT_LENGTH)}\n... (truncated ${result.length - MAX_RESULT_LENGTH} characters)`;
+  }
+  return `Ran ${path} successfully. Result:\n${result}${renderLogLines(logLines)}`;
+}
+
+function renderLogLines(logLines: string[]) {
+  if (logLines.length === 0) {
+    return '';
+  }
+  return `\n\nLogs:\n${logLines.join('\n')}`;
+}
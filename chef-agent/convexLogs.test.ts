@@ -0,0 +1,42 @@
+import { describe, expect, test } from 'vitest';
+import { filterFunctionLogs, formatFunctionLogs, type FunctionExecutionLog } from './convexLogs.js';
+
+const entries: FunctionExecutionLog[] = [
+  {
+    kind: 'Completion',
+    udfType: 'Query',
+    identifier: 'messages.js:list',
+    timestamp: 1700000000,
+    executionTime: 0.012,
+    error: null,
+    logLines: [{ level: 'LOG', messages: ["'listing messages'"], timestamp: 1700000000 }],
+  },
+  {
+    kind: 'Completion',
+    udfType: 'Mutation',
+    identifier: 'messages.js:send',
+    timestamp: 1700000001,
+    executionTime: 0.003,
+    error: 'ArgumentValidationError: Object is missing the required field `body`.',
+    logLines: [],
+  },
+];
+
+describe('convexLogs', () => {
+  test('formats executions compactly', () => {
+    expect(formatFunctionLogs(entries)).toBe(
+      [
+        '22:13:20 Query messages:list success 12ms',
+        "  [LOG] 'listing messages'",
+        '22:13:21 Mutation messages:send failure 3ms',
+        '  ArgumentValidationError: Object is missing the required field `body`.',
+      ].join('\n'),
+    );
+  });
+
+  test('filters by function name and level', () => {
+    expect(filterFunctionLogs(entries, { functionName: 'messages:send' })).toEqual([]);
+    expect(filterFunctionLogs(entries, { functionName: 'messages.js:send' })).toHaveLength(1);
+    expect(filterFunctionLogs(entries, { level: 'error' }).map((e) => e.identifier)).toEqual(['messages.js:send']);
+  });
+});
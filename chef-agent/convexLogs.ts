@@ -0,0 +1,120 @@
+import type { ConvexProject } from './types.js';
+
+export type LogLevel = 'DEBUG' | 'INFO' | 'LOG' | 'WARN' | 'ERROR';
+
+export interface LogLine {
+  level: LogLevel;
+  messages: string[];
+  timestamp: number;
+}
+
+// A single function execution, as returned by the deployment's `stream_function_logs` endpoint.
+export interface FunctionExecutionLog {
+  kind: 'Completion' | 'Progress';
+  udfType: 'Query' | 'Mutation' | 'Action' | 'HttpAction';
+  identifier: string;
+  timestamp: number;
+  executionTime?: number;
+  error: string | null;
+  logLines: LogLine[];
+}
+
+export type LogLevelFilter = 'all' | 'warn' | 'error';
+
+// The number of executions to show the model by default.
+const DEFAULT_LOG_LIMIT = 20;
+
+/**
+ * Long-poll the deployment for function executions after `cursor`. Pass a cursor of 0 to
+ * get the logs the deployment has buffered.
+ */
+export async function fetchFunctionLogs(
+  project: ConvexProject,
+  cursor: number,
+  signal?: AbortSignal,
+): Promise<{ entries: FunctionExecutionLog[]; newCursor: number }> {
+  const response = await fetch(`${project.deploymentUrl}/api/stream_function_logs?cursor=${cursor}`, {
+    headers: {
+      Authorization: `Convex ${project.token}`,
+      'Convex-Client': 'bolt-0.0.0',
+    },
+    signal,
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch logs: ${response.status} ${await response.text()}`);
+  }
+  const respJSON: any = await response.json();
+  const entries: FunctionExecutionLog[] = (respJSON.entries ?? []).map((entry: any) => ({
+    ...entry,
+    logLines: (entry.logLines ?? []).map(normalizeLogLine),
+  }));
+  return { entries, newCursor: respJSON.newCursor };
+}
+
+function normalizeLogLine(line: any): LogLine {
+  if (typeof line === 'string') {
+    // Depending on the deployment and client, lines can come preformatted like `[ERROR] 'message'`.
+    const match = line.match(/^\[(DEBUG|INFO|LOG|WARN|ERROR)\] (.*)$/s);
+    return { level: (match?.[1] as LogLevel) ?? 'LOG', messages: [match?.[2] ?? line], timestamp: 0 };
+  }
+  return { level: line.level ?? 'LOG', messages: line.messages ?? [], timestamp: line.timestamp ?? 0 };
+}
+
+export function filterFunctionLogs(
+  entries: FunctionExecutionLog[],
+  filters: { functionName?: string | null; level?: LogLevelFilter | null },
+): FunctionExecutionLog[] {
+  const level = filters.level ?? 'all';
+  const result: FunctionExecutionLog[] = [];
+  for (const entry of entries) {
+    if (entry.kind !== 'Completion') {
+      continue;
+    }
+    if (filters.functionName && !entry.identifier.includes(filters.functionName.replace(/\.(ts|js)$/, ''))) {
+      continue;
+    }
+    if (level === 'all') {
+      result.push(entry);
+      continue;
+    }
+    const levels: LogLevel[] = level === 'error' ? ['ERROR'] : ['WARN', 'ERROR'];
+    const logLines = entry.logLines.filter((line) => levels.includes(line.level));
+    if (entry.error || logLines.length > 0) {
+      result.push({ ...entry, logLines });
+    }
+  }
+  return result;
+}
+
+/**
+ * Render the most recent `limit` executions compactly, one header line per execution
+ * followed by its log lines and error.
+ */
+export function formatFunctionLogs(entries: FunctionExecutionLog[], limit: number = DEFAULT_LOG_LIMIT): string {
+  if (entries.length === 0) {
+    return 'No matching function executions found.';
+  }
+  const recent = entries.slice(-limit);
+  const lines: string[] = [];
+  if (recent.length < entries.length) {
+    lines.push(`Showing the ${recent.length} most recent of ${entries.length} executions.`);
+  }
+  for (const entry of recent) {
+    const time = new Date(entry.timestamp * 1000).toISOString().slice(11, 19);
+    const duration = entry.executionTime !== undefined ? ` ${Math.round(entry.executionTime * 1000)}ms` : '';
+    const status = entry.error ? 'failure' : 'success';
+    lines.push(`${time} ${entry.udfType} ${functionPath(entry.identifier)} ${status}${duration}`);
+    for (const logLine of entry.logLines) {
+      lines.push(`  [${logLine.level}] ${logLine.messages.join(' ')}`);
+    }
+    if (entry.error) {
+      lines.push(`  ${entry.error.split('\n').join('\n  ')}`);
+    }
+  }
+  return lines.join('\n');
+}
+
+// Deployments report `messages.js:list`, but the model knows it as `messages:list`.
+export function functionPath(identifier: string) {
+  return identifier.replace(/\.js:/, ':');
+}
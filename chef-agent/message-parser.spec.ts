@@ -1,6 +1,12 @@
 import { describe, expect, it, vi } from 'vitest';
-import { StreamingMessageParser, type ActionCallback, type ArtifactCallback } from './message-parser.js';
+import {
+  StreamingMessageParser,
+  type ActionCallback,
+  type ArtifactCallback,
+  type ParserDiagnosticKind,
+} from './message-parser.js';
 import { makePartId } from './partId.js';
+import type { BoltAction } from './types.js';
 
 interface ExpectedResult {
   output: string;
@@ -159,8 +165,205 @@ describe('StreamingMessageParser', () => {
       runTest(input, expected);
     });
   });
+
+  describe('delete and rename actions', () => {
+    it('should parse self-closing actions', () => {
+      const onActionClose = vi.fn<ActionCallback>();
+      const parser = new StreamingMessageParser({ artifactElement: () => '', callbacks: { onActionClose } });
+      const input =
+        'Before <boltArtifact title="Some title" id="artifact_1"><boltAction type="delete" filePath="src/Old.tsx" />' +
+        '<boltAction type="rename" newFilePath="src/New.tsx" filePath="src/Old2.tsx"/>' +
+        '<boltAction type="file" filePath="src/App.tsx">app</boltAction></boltArtifact> After';
+
+      let message = '';
+      let output = '';
+      for (const char of input) {
+        message += char;
+        output += parser.parse(makePartId('message_1', 0), message);
+      }
+
+      expect(output).toBe('Before  After');
+      expect(onActionClose.mock.calls.map(([data]) => [data.actionId, data.action])).toEqual([
+        ['0', { type: 'delete', filePath: 'src/Old.tsx', content: '' }],
+        ['1', { type: 'rename', filePath: 'src/Old2.tsx', newFilePath: 'src/New.tsx', content: '' }],
+        ['2', { type: 'file', filePath: 'src/App.tsx', content: 'app\n' }],
+      ]);
+    });
+
+    it('should parse actions with closing tags', () => {
+      const onActionClose = vi.fn<ActionCallback>();
+      const parser = new StreamingMessageParser({ artifactElement: () => '', callbacks: { onActionClose } });
+      parser.parse(
+        makePartId('message_1', 0),
+        '<boltArtifact title="Some title" id="artifact_1"><boltAction type="delete" filePath="src/Old.tsx"></boltAction></boltArtifact>',
+      );
+      expect(onActionClose).toHaveBeenCalledTimes(1);
+      expect(onActionClose.mock.calls[0][0].action).toEqual({ type: 'delete', filePath: 'src/Old.tsx', content: '' });
+    });
+  });
+
+  describe('file tool calls', () => {
+    it('should emit file, delete and rename actions', () => {
+      const onActionClose = vi.fn<ActionCallback>();
+      const parser = new StreamingMessageParser({ callbacks: { onActionClose } });
+      const partId = makePartId('message_1', 1);
+      const toolInvocation = {
+        toolCallId: 'call_1',
+        toolName: 'writeFile',
+        args: { path: '/home/project/src/App.tsx', content: 'app' },
+      };
+
+      expect(parser.parseToolInvocation(partId, { ...toolInvocation, state: 'partial-call' })).toBeNull();
+      expect(parser.parseToolInvocation(partId, { ...toolInvocation, toolName: 'edit', state: 'call' })).toBeNull();
+      expect(parser.parseToolInvocation(partId, { ...toolInvocation, state: 'call' })).toEqual({
+        type: 'file',
+        filePath: 'src/App.tsx',
+        content: 'app',
+      });
+      expect(onActionClose).toHaveBeenCalledTimes(1);
+      expect(onActionClose.mock.calls[0][0]).toMatchObject({ partId, actionId: 'call_1' });
+
+      expect(
+        parser.parseToolInvocation(partId, {
+          toolCallId: 'call_2',
+          toolName: 'deleteFile',
+          args: { path: '/home/project/src/Old.tsx' },
+          state: 'call',
+        }),
+      ).toEqual({ type: 'delete', filePath: 'src/Old.tsx', content: '' });
+      expect(
+        parser.parseToolInvocation(partId, {
+          toolCallId: 'call_3',
+          toolName: 'renameFile',
+          args: { path: '/home/project/convex/todos.ts', newPath: '/home/project/convex/cards.ts' },
+          state: 'call',
+        }),
+      ).toEqual({ type: 'rename', filePath: 'convex/todos.ts', newFilePath: 'convex/cards.ts', content: '' });
+      expect(onActionClose).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('malformed artifacts', () => {
+    const artifact = (body: string) =>
+      `Before <boltArtifact id="artifact_1" title="Some title">${body}</boltArtifact> After`;
+    const file = (filePath: string, content: string) => ({ type: 'file' as const, filePath, content });
+
+    it.each<[string, string, object[], ParserDiagnosticKind[]]>([
+      [
+        'an action left open before the next action',
+        artifact('<boltAction type="file" filePath="a.ts">a<boltAction type="file" filePath="b.ts">b</boltAction>'),
+        [file('a.ts', 'a\n'), file('b.ts', 'b\n')],
+        ['unclosedAction'],
+      ],
+      [
+        'an action left open before the artifact closes',
+        artifact('<boltAction type="file" filePath="a.ts">a'),
+        [file('a.ts', 'a\n')],
+        ['unclosedAction'],
+      ],
+      [
+        'an action left open at the end of the message',
+        'Before <boltArtifact id="artifact_1" title="Some title"><boltAction type="file" filePath="a.ts">a\nb',
+        [file('a.ts', 'a\nb\n')],
+        ['unclosedAction', 'unclosedArtifact'],
+      ],
+      [
+        'an artifact tag cut off at the end of the message',
+        'Before <boltArtifact id="artifact_1"',
+        [],
+        ['unclosedArtifact'],
+      ],
+      [
+        'nested artifacts',
+        artifact(
+          '<boltArtifact id="artifact_2" title="Nested"><boltAction type="file" filePath="a.ts">a</boltAction></boltArtifact>' +
+            '<boltAction type="file" filePath="b.ts">b</boltAction>',
+        ),
+        [file('a.ts', 'a\n'), file('b.ts', 'b\n')],
+        ['nestedArtifact'],
+      ],
+      [
+        'a stray closing tag',
+        artifact('<boltAction type="file" filePath="a.ts">a</boltAction></boltAction>'),
+        [file('a.ts', 'a\n')],
+        ['strayClosingTag'],
+      ],
+      [
+        'fenced content',
+        artifact('<boltAction type="file" filePath="a.ts">\n```typescript\nconst a = 1;\n```\n</boltAction>'),
+        [file('a.ts', 'const a = 1;\n')],
+        [],
+      ],
+      [
+        'fenced content without a closing fence',
+        artifact('<boltAction type="file" filePath="a.ts">```ts\nconst a = 1;</boltAction>'),
+        [file('a.ts', 'const a = 1;\n')],
+        [],
+      ],
+      [
+        'CDATA content',
+        artifact('<boltAction type="file" filePath="a.ts"><![CDATA[const a = 1 < 2;]]></boltAction>'),
+        [file('a.ts', 'const a = 1 < 2;\n')],
+        [],
+      ],
+      [
+        'a self-closing file action',
+        artifact('<boltAction type="file" filePath="a.ts" /><boltAction type="file" filePath="b.ts">b</boltAction>'),
+        [file('b.ts', 'b\n')],
+        ['invalidAction'],
+      ],
+      [
+        'a file action without a path',
+        artifact('<boltAction type="file">a</boltAction><boltAction type="file" filePath="b.ts">b</boltAction>'),
+        [file('b.ts', 'b\n')],
+        ['invalidAction'],
+      ],
+    ])('should recover from %s', (_name, input, expectedActions, expectedDiagnostics) => {
+      const whole = parseInChunks(input, input.length);
+      expect(whole.output).not.toMatch(/bolt/);
+      expect(whole.actions).toEqual(expectedActions);
+      expect(whole.diagnostics).toEqual(expectedDiagnostics);
+
+      // Streaming the message in small chunks splits its tags, which shouldn't change the result.
+      expect(parseInChunks(input, 1)).toEqual(whole);
+      expect(parseInChunks(input, 7)).toEqual(whole);
+    });
+
+    it('should only close dangling actions once', () => {
+      const onActionClose = vi.fn<ActionCallback>();
+      const parser = new StreamingMessageParser({ callbacks: { onActionClose } });
+      const partId = makePartId('message_1', 0);
+      const input = '<boltArtifact id="artifact_1" title="Some title"><boltAction type="file" filePath="a.ts">a';
+      parser.end(partId, input);
+      parser.end(partId, input);
+      expect(onActionClose).toHaveBeenCalledTimes(1);
+    });
+  });
 });
 
+function parseInChunks(input: string, chunkSize: number) {
+  const actions: BoltAction[] = [];
+  const diagnostics: ParserDiagnosticKind[] = [];
+  const parser = new StreamingMessageParser({
+    artifactElement: () => '',
+    callbacks: {
+      onActionClose: (data) => actions.push({ ...data.action }),
+      onDiagnostic: (diagnostic) => diagnostics.push(diagnostic.kind),
+    },
+  });
+  const partId = makePartId('message_1', 0);
+
+  let output = '';
+  let end = 0;
+  while (end < input.length) {
+    end = Math.min(input.length, end + chunkSize);
+    output += parser.parse(partId, input.slice(0, end));
+  }
+  output += parser.end(partId, input);
+
+  return { output, actions, diagnostics };
+}
+
 function runTest(input: string | string[], outputOrExpectedResult: string | ExpectedResult) {
   let expected: ExpectedResult;
 
@@ -1,8 +1,13 @@
+import type { ToolInvocation } from 'ai';
 import type { PartId } from './partId.js';
-import type { BoltAction, BoltArtifactData, ActionType, FileAction } from './types.js';
+import type { BoltAction, BoltArtifactData, ActionType, DeleteAction, FileAction, RenameAction } from './types.js';
 import { createScopedLogger } from './utils/logger.js';
 import { getRelativePath } from './utils/workDir.js';
 import { unreachable } from './utils/unreachable.js';
+import { loggingSafeParse } from './utils/zodUtil.js';
+import { writeFileToolParameters } from './tools/writeFile.js';
+import { deleteFileToolParameters } from './tools/deleteFile.js';
+import { renameFileToolParameters } from './tools/renameFile.js';
 
 const ARTIFACT_TAG_OPEN = '<boltArtifact';
 const ARTIFACT_TAG_CLOSE = '</boltArtifact>';
@@ -22,8 +27,23 @@ export interface ActionCallbackData {
   action: BoltAction;
 }
 
+export type ParserDiagnosticKind =
+  | 'unclosedAction'
+  | 'unclosedArtifact'
+  | 'nestedArtifact'
+  | 'strayClosingTag'
+  | 'invalidAction';
+
+// A malformed structure in a message that the parser recovered from.
+export interface ParserDiagnostic {
+  partId: PartId;
+  kind: ParserDiagnosticKind;
+  message: string;
+}
+
 export type ArtifactCallback = (data: ArtifactCallbackData) => void;
 export type ActionCallback = (data: ActionCallbackData) => void;
+export type DiagnosticCallback = (diagnostic: ParserDiagnostic) => void;
 
 interface ParserCallbacks {
   onArtifactOpen?: ArtifactCallback;
@@ -31,6 +51,7 @@ interface ParserCallbacks {
   onActionOpen?: ActionCallback;
   onActionStream?: ActionCallback;
   onActionClose?: ActionCallback;
+  onDiagnostic?: DiagnosticCallback;
 }
 
 interface ElementFactoryProps {
@@ -50,6 +71,10 @@ interface MessageState {
   insideAction: boolean;
   currentArtifact?: BoltArtifactData;
   currentAction: BoltAction | null;
+  // Set inside actions we couldn't parse, whose content is skipped without emitting callbacks.
+  ignoreAction: boolean;
+  // How many artifacts were opened inside the current one and not closed yet.
+  nestedArtifactDepth: number;
   actionId: number;
   hasCreatedArtifact: boolean;
 }
@@ -80,20 +105,7 @@ export class StreamingMessageParser {
   }
 
   parse(partId: PartId, input: string) {
-    let state = this.#messages.get(partId);
-
-    if (!state) {
-      state = {
-        position: 0,
-        insideAction: false,
-        insideArtifact: false,
-        currentAction: null,
-        actionId: 0,
-        hasCreatedArtifact: false,
-      };
-
-      this.#messages.set(partId, state);
-    }
+    const state = this.#getState(partId);
 
     let output = '';
     let i = state.position;
@@ -108,51 +120,39 @@ export class StreamingMessageParser {
         }
 
         if (state.insideAction) {
-          if (!state.currentAction) {
+          const currentAction = state.currentAction;
+
+          if (!currentAction && !state.ignoreAction) {
             unreachable('Action not initialized');
           }
 
           const closeIndex = input.indexOf(ARTIFACT_ACTION_TAG_CLOSE, i);
 
-          const currentAction = state.currentAction;
-
-          if (closeIndex !== -1) {
-            const actionContent = input.slice(i, closeIndex);
-
-            let content = actionContent.trim();
+          // Models that forget to close an action usually go on to the next action or close the
+          // artifact, so end the action there rather than swallowing the rest of the artifact.
+          const nextTagIndex = firstIndex(
+            input.indexOf(ARTIFACT_ACTION_TAG_OPEN, i),
+            input.indexOf(ARTIFACT_TAG_CLOSE, i),
+          );
 
-            if (currentAction && currentAction.type === 'file') {
-              // Remove markdown code block syntax if present and file is not markdown
-              if (!currentAction.filePath.endsWith('.md')) {
-                content = cleanoutMarkdownSyntax(content);
-                content = cleanEscapedTags(content);
-              }
+          if (closeIndex !== -1 && (nextTagIndex === -1 || closeIndex < nextTagIndex)) {
+            this.#closeAction(partId, state, input.slice(i, closeIndex));
 
-              content += '\n';
+            i = closeIndex + ARTIFACT_ACTION_TAG_CLOSE.length;
+          } else if (nextTagIndex !== -1) {
+            if (currentAction) {
+              this.#diagnose(
+                partId,
+                'unclosedAction',
+                `${describeAction(currentAction)} wasn't closed with \`${ARTIFACT_ACTION_TAG_CLOSE}\`, so it was closed at the next tag.`,
+              );
             }
 
-            currentAction.content = content;
-
-            this._options.callbacks?.onActionClose?.({
-              artifactId: currentArtifact.id,
-              partId,
-
-              /**
-               * We decrement the id because it's been incremented already
-               * when `onActionOpen` was emitted to make sure the ids are
-               * the same.
-               */
-              actionId: String(state.actionId - 1),
+            this.#closeAction(partId, state, input.slice(i, nextTagIndex));
 
-              action: currentAction as BoltAction,
-            });
-
-            state.insideAction = false;
-            state.currentAction = null;
-
-            i = closeIndex + ARTIFACT_ACTION_TAG_CLOSE.length;
+            i = nextTagIndex;
           } else {
-            if (currentAction && currentAction.type === 'file') {
+            if (currentAction?.type === 'file') {
               let content = input.slice(i);
 
               if (!currentAction.filePath.endsWith('.md')) {
@@ -165,7 +165,7 @@ export class StreamingMessageParser {
                 partId,
                 actionId: String(state.actionId - 1),
                 action: {
-                  ...(currentAction as FileAction),
+                  ...currentAction,
                   content,
                   filePath: currentAction.filePath,
                 },
@@ -177,35 +177,98 @@ export class StreamingMessageParser {
         } else {
           const actionOpenIndex = input.indexOf(ARTIFACT_ACTION_TAG_OPEN, i);
           const artifactCloseIndex = input.indexOf(ARTIFACT_TAG_CLOSE, i);
+          const nestedArtifactIndex = input.indexOf(ARTIFACT_TAG_OPEN, i);
+          const strayCloseIndex = input.indexOf(ARTIFACT_ACTION_TAG_CLOSE, i);
+          const nextIndex = firstIndex(actionOpenIndex, artifactCloseIndex, nestedArtifactIndex, strayCloseIndex);
+
+          if (nextIndex === -1) {
+            break;
+          }
 
-          if (actionOpenIndex !== -1 && (artifactCloseIndex === -1 || actionOpenIndex < artifactCloseIndex)) {
+          if (nextIndex === actionOpenIndex) {
             const actionEndIndex = input.indexOf('>', actionOpenIndex);
 
-            if (actionEndIndex !== -1) {
-              state.insideAction = true;
+            if (actionEndIndex === -1) {
+              break;
+            }
+
+            const currentAction = this.#parseActionTag(partId, input, actionOpenIndex, actionEndIndex);
 
-              state.currentAction = this.#parseActionTag(input, actionOpenIndex, actionEndIndex);
+            // Actions without content, like `<boltAction type="delete" filePath="..." />`, close right away.
+            const selfClosing = input[actionEndIndex - 1] === '/';
+
+            if (!currentAction) {
+              state.insideAction = !selfClosing;
+              state.ignoreAction = !selfClosing;
+            } else if (selfClosing && currentAction.type === 'file') {
+              this.#diagnose(
+                partId,
+                'invalidAction',
+                `${describeAction(currentAction)} had no content, so it was ignored instead of emptying the file.`,
+              );
+            } else {
+              const actionId = String(state.actionId++);
 
               this._options.callbacks?.onActionOpen?.({
                 artifactId: currentArtifact.id,
                 partId,
-                actionId: String(state.actionId++),
-                action: state.currentAction as BoltAction,
+                actionId,
+                action: currentAction,
               });
 
-              i = actionEndIndex + 1;
-            } else {
+              if (selfClosing) {
+                this._options.callbacks?.onActionClose?.({
+                  artifactId: currentArtifact.id,
+                  partId,
+                  actionId,
+                  action: currentAction,
+                });
+              } else {
+                state.insideAction = true;
+              }
+            }
+
+            if (state.insideAction) {
+              state.currentAction = currentAction;
+            }
+
+            i = actionEndIndex + 1;
+          } else if (nextIndex === nestedArtifactIndex) {
+            const nestedTagEnd = input.indexOf('>', nestedArtifactIndex);
+
+            if (nestedTagEnd === -1) {
               break;
             }
-          } else if (artifactCloseIndex !== -1) {
-            this._options.callbacks?.onArtifactClose?.({ partId, ...currentArtifact });
 
-            state.insideArtifact = false;
-            state.currentArtifact = undefined;
+            // Keep the nested artifact's actions in the outer one, and skip its closing tag.
+            state.nestedArtifactDepth++;
+
+            this.#diagnose(
+              partId,
+              'nestedArtifact',
+              `An artifact was opened inside the artifact \`${currentArtifact.id}\`, so its actions were added to the outer artifact.`,
+            );
+
+            i = nestedTagEnd + 1;
+          } else if (nextIndex === artifactCloseIndex) {
+            if (state.nestedArtifactDepth > 0) {
+              state.nestedArtifactDepth--;
+            } else {
+              this._options.callbacks?.onArtifactClose?.({ partId, ...currentArtifact });
+
+              state.insideArtifact = false;
+              state.currentArtifact = undefined;
+            }
 
             i = artifactCloseIndex + ARTIFACT_TAG_CLOSE.length;
           } else {
-            break;
+            this.#diagnose(
+              partId,
+              'strayClosingTag',
+              `A \`${ARTIFACT_ACTION_TAG_CLOSE}\` tag in the artifact \`${currentArtifact.id}\` didn't close an action, so it was ignored.`,
+            );
+
+            i = strayCloseIndex + ARTIFACT_ACTION_TAG_CLOSE.length;
           }
         }
       } else if (input[i] === '<' && input[i + 1] !== '/') {
@@ -296,11 +359,153 @@ export class StreamingMessageParser {
     return output;
   }
 
+  /**
+   * Parse a part that has finished streaming. Actions and artifacts the model left open are closed
+   * with the content so far, so their files aren't silently dropped.
+   */
+  end(partId: PartId, input: string) {
+    let output = this.parse(partId, input);
+    const state = this.#getState(partId);
+
+    if (state.insideAction) {
+      if (state.currentAction) {
+        this.#diagnose(
+          partId,
+          'unclosedAction',
+          `${describeAction(state.currentAction)} wasn't closed before the end of the message, so it may be incomplete.`,
+        );
+      }
+
+      this.#closeAction(partId, state, input.slice(state.position));
+    }
+
+    if (state.insideArtifact && state.currentArtifact) {
+      this.#diagnose(
+        partId,
+        'unclosedArtifact',
+        `The artifact \`${state.currentArtifact.id}\` wasn't closed before the end of the message.`,
+      );
+
+      this._options.callbacks?.onArtifactClose?.({ partId, ...state.currentArtifact });
+
+      state.insideArtifact = false;
+      state.currentArtifact = undefined;
+      state.nestedArtifactDepth = 0;
+    } else {
+      const rest = input.slice(state.position);
+
+      if (rest.startsWith(ARTIFACT_TAG_OPEN)) {
+        this.#diagnose(partId, 'unclosedArtifact', 'An artifact tag was cut off at the end of the message.');
+      } else if (!/^<\/?bolt/.test(rest)) {
+        // Text held back because it looked like the start of a tag.
+        output += rest;
+      }
+    }
+
+    state.position = input.length;
+
+    return output;
+  }
+
+  /**
+   * Emit the file, delete or rename action for a `writeFile`, `deleteFile` or `renameFile` tool call,
+   * the representation models use for these when they don't write `<boltArtifact>` XML. Returns the
+   * action, or null for other tool calls and for tool calls that are still streaming.
+   */
+  parseToolInvocation(partId: PartId, toolInvocation: ToolInvocation): FileAction | DeleteAction | RenameAction | null {
+    if (toolInvocation.state === 'partial-call') {
+      return null;
+    }
+
+    const action = toolInvocationAction(toolInvocation);
+
+    if (!action) {
+      return null;
+    }
+
+    const data = { artifactId: partId, partId, actionId: toolInvocation.toolCallId, action };
+
+    this._options.callbacks?.onActionOpen?.(data);
+    this._options.callbacks?.onActionClose?.(data);
+
+    return action;
+  }
+
   reset() {
     this.#messages.clear();
   }
 
-  #parseActionTag(input: string, actionOpenIndex: number, actionEndIndex: number) {
+  #getState(partId: PartId) {
+    let state = this.#messages.get(partId);
+
+    if (!state) {
+      state = {
+        position: 0,
+        insideAction: false,
+        insideArtifact: false,
+        currentAction: null,
+        ignoreAction: false,
+        nestedArtifactDepth: 0,
+        actionId: 0,
+        hasCreatedArtifact: false,
+      };
+
+      this.#messages.set(partId, state);
+    }
+
+    return state;
+  }
+
+  #closeAction(partId: PartId, state: MessageState, actionContent: string) {
+    const currentArtifact = state.currentArtifact;
+    const currentAction = state.currentAction;
+
+    if (!currentArtifact) {
+      unreachable('Artifact not initialized');
+    }
+
+    if (currentAction) {
+      let content = actionContent.trim();
+
+      if (currentAction.type === 'file') {
+        // Remove markdown code block syntax if present and file is not markdown
+        if (!currentAction.filePath.endsWith('.md')) {
+          content = cleanoutMarkdownSyntax(content);
+          content = cleanEscapedTags(content);
+        }
+
+        content += '\n';
+      }
+
+      currentAction.content = content;
+
+      this._options.callbacks?.onActionClose?.({
+        artifactId: currentArtifact.id,
+        partId,
+
+        /**
+         * We decrement the id because it's been incremented already
+         * when `onActionOpen` was emitted to make sure the ids are
+         * the same.
+         */
+        actionId: String(state.actionId - 1),
+
+        action: currentAction,
+      });
+    }
+
+    state.insideAction = false;
+    state.currentAction = null;
+    state.ignoreAction = false;
+  }
+
+  #diagnose(partId: PartId, kind: ParserDiagnosticKind, message: string) {
+    logger.warn(message);
+    this._options.callbacks?.onDiagnostic?.({ partId, kind, message });
+  }
+
+  // Returns null for actions missing the paths they need, whose content should be skipped.
+  #parseActionTag(partId: PartId, input: string, actionOpenIndex: number, actionEndIndex: number): BoltAction | null {
     const actionTag = input.slice(actionOpenIndex, actionEndIndex + 1);
 
     const actionType = this.#extractAttribute(actionTag, 'type') as ActionType;
@@ -310,23 +515,42 @@ export class StreamingMessageParser {
       content: '',
     };
 
-    if (actionType === 'file') {
-      const filePath = this.#extractAttribute(actionTag, 'filePath') as string;
+    if (actionType !== 'file' && actionType !== 'delete' && actionType !== 'rename') {
+      // The action runner fails actions with unknown types when it gets to them.
+      logger.warn(`Unknown action type '${actionType}'`);
+      return actionAttributes as BoltAction;
+    }
+
+    const filePath = this.#extractAttribute(actionTag, 'filePath');
+
+    if (!filePath) {
+      this.#diagnose(partId, 'invalidAction', `A \`${actionType}\` action without a \`filePath\` was ignored.`);
+      return null;
+    }
 
-      if (!filePath) {
-        logger.debug('File path not specified');
+    (actionAttributes as FileAction | DeleteAction).filePath = getRelativePath(filePath);
+
+    if (actionType === 'rename') {
+      const newFilePath = this.#extractAttribute(actionTag, 'newFilePath');
+
+      if (!newFilePath) {
+        this.#diagnose(
+          partId,
+          'invalidAction',
+          `The \`rename\` action for \`${filePath}\` had no \`newFilePath\` and was ignored.`,
+        );
+        return null;
       }
 
-      (actionAttributes as FileAction).filePath = getRelativePath(filePath);
-    } else {
-      logger.warn(`Unknown action type '${actionType}'`);
+      (actionAttributes as RenameAction).newFilePath = getRelativePath(newFilePath);
     }
 
-    return actionAttributes as FileAction;
+    return actionAttributes as BoltAction;
   }
 
   #extractAttribute(tag: string, attributeName: string): string | undefined {
-    const match = tag.match(new RegExp(`${attributeName}="([^"]*)"`, 'i'));
+    // Require whitespace before the name so `filePath` doesn't match inside `newFilePath`.
+    const match = tag.match(new RegExp(`\\s${attributeName}="([^"]*)"`, 'i'));
     return match ? match[1] : undefined;
   }
 }
@@ -346,8 +570,69 @@ function camelToDashCase(input: string) {
   return input.replace(/([a-z])([A-Z])/g, '$1-$2').toLowerCase();
 }
 
+/**
+ * Format the diagnostics from a response so the agent knows which of its artifacts were malformed
+ * and how the parser recovered.
+ */
+function toolInvocationAction(toolInvocation: ToolInvocation): FileAction | DeleteAction | RenameAction | null {
+  switch (toolInvocation.toolName) {
+    case 'writeFile': {
+      const args = loggingSafeParse(writeFileToolParameters, toolInvocation.args);
+      return args.success
+        ? { type: 'file', filePath: getRelativePath(args.data.path), content: args.data.content }
+        : null;
+    }
+    case 'deleteFile': {
+      const args = loggingSafeParse(deleteFileToolParameters, toolInvocation.args);
+      return args.success ? { type: 'delete', filePath: getRelativePath(args.data.path), content: '' } : null;
+    }
+    case 'renameFile': {
+      const args = loggingSafeParse(renameFileToolParameters, toolInvocation.args);
+      return args.success
+        ? {
+            type: 'rename',
+            filePath: getRelativePath(args.data.path),
+            newFilePath: getRelativePath(args.data.newPath),
+            content: '',
+          }
+        : null;
+    }
+    default: {
+      return null;
+    }
+  }
+}
+
+export function formatParserDiagnostics(diagnostics: ParserDiagnostic[]): string {
+  const lines = diagnostics.map((diagnostic) => `- ${diagnostic.message}`);
+  return `
+<parser_diagnostics>
+Some of the artifacts in your last response were malformed:
+${lines.join('\n')}
+Check that the affected files have the contents you intended and rewrite any that are incomplete. Always close every \`<boltAction>\` and \`<boltArtifact>\` tag, and don't nest artifacts.
+</parser_diagnostics>
+`;
+}
+
+function firstIndex(...indexes: number[]) {
+  const found = indexes.filter((index) => index !== -1);
+  return found.length > 0 ? Math.min(...found) : -1;
+}
+
+function describeAction(action: BoltAction) {
+  return 'filePath' in action ? `The \`${action.type}\` action for \`${action.filePath}\`` : 'An action';
+}
+
 function cleanoutMarkdownSyntax(content: string) {
-  const codeBlockRegex = /^\s*```\w*\n([\s\S]*?)\n\s*```\s*$/;
+  // Some models wrap file contents in CDATA sections as if the artifact were strict XML.
+  const cdataMatch = content.match(/^\s*<!\[CDATA\[([\s\S]*?)(?:\]\]>\s*)?$/);
+
+  if (cdataMatch) {
+    content = cdataMatch[1];
+  }
+
+  // The closing fence is missing while the action is streaming, or if the model forgot it.
+  const codeBlockRegex = /^\s*```[\w-]*\n([\s\S]*?)(?:\n\s*```\s*)?$/;
   const match = content.match(codeBlockRegex);
 
   if (match) {
@@ -22,7 +22,11 @@ export function google(options: SystemPromptOptions) {
     - You MUST end every turn with a tool call to deploy your changes.
     - You can use the deploy tool as many times as you need to.
     - Do NOT write your code directly in the output. Stuff like \`\`\`tsx\`\`\` is not allowed.
-    - Use \`<boltAction>...\<\/boltAction\>\`  and \`<boltArtifact>...\<\/boltArtifact\>\` tags to write your code.
+    - ${
+      options.fileWriteMode === 'toolCall'
+        ? 'Use the `writeFile` tool to write your code.'
+        : 'Use `<boltAction>...</boltAction>` and `<boltArtifact>...</boltArtifact>` tags to write your code.'
+    }
   </reminders>
   `;
 }
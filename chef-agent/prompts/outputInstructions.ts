@@ -42,7 +42,7 @@ export function outputInstructions(options: SystemPromptOptions) {
       ULTRA IMPORTANT: Do NOT be verbose and DO NOT explain anything unless the user is asking for more information. That is VERY important.
     </communication>
 
-    ${options.enableBulkEdits ? artifactInstructions(options) : ''}
+    ${options.enableBulkEdits ? fileWriteInstructions(options) : ''}
 
     ${toolsInstructions(options)}
 
@@ -50,6 +50,35 @@ export function outputInstructions(options: SystemPromptOptions) {
   `;
 }
 
+function fileWriteInstructions(options: SystemPromptOptions) {
+  return options.fileWriteMode === 'toolCall' ? writeFileToolInstructions() : artifactInstructions(options);
+}
+
+function writeFileToolInstructions() {
+  return stripIndents`
+  <writeFile_tool>
+    Use the \`writeFile\` tool to create new files, to make large changes that affect multiple files, or to
+    completely rewrite a file. Call it once for each file, and write as many files as you can before deploying.
+    For small changes to existing files, use the \`edit\` tool instead.
+
+    NEVER write file contents in your response text, in markdown code blocks or in \`<boltArtifact>\` tags.
+    ONLY the \`writeFile\` tool writes files.
+
+    CRITICAL: Always provide the FULL, updated content of the file. This means:
+      - Include ALL code, even if parts are unchanged
+      - NEVER use placeholders like "// rest of the code remains the same..." or "<- leave original code here ->"
+      - Avoid any form of truncation or summarization
+      - NEVER write empty files
+
+    You MUST know the latest contents of a file before rewriting it. Think HOLISTICALLY about every file your
+    change affects before writing any of them.
+
+    Use the \`deleteFile\` tool to delete a file or folder that's no longer used, and the \`renameFile\` tool
+    to move one to a new path. Update every import of a deleted or moved file so the project still typechecks.
+  </writeFile_tool>
+  `;
+}
+
 function artifactInstructions(_options: SystemPromptOptions) {
   return stripIndents`
   <artifacts>
@@ -97,6 +126,12 @@ function artifactInstructions(_options: SystemPromptOptions) {
     opening \`<boltAction>\` tag to specify the file path. The content of the file artifact is the file contents. All
     file paths MUST BE relative to the current working directory.
 
+    Use a self-closing \`<boltAction type="delete" filePath="..." />\` tag to delete a file or folder that's no longer
+    used, like a component you replaced. Use a self-closing
+    \`<boltAction type="rename" filePath="..." newFilePath="..." />\` tag to move a file or folder to a new path. Update
+    every import of a deleted or moved file in the same artifact so the project still typechecks. Never delete or move
+    files you aren't allowed to modify.
+
     CRITICAL: Always provide the FULL, updated content of the artifact. This means:
       - Include ALL code, even if parts are unchanged
       - NEVER use placeholders like "// rest of the code remains the same..." or "<- leave original code here ->"
@@ -137,6 +172,18 @@ function artifactInstructions(_options: SystemPromptOptions) {
           snake. Eat the red food to grow and increase your score. The game ends if you hit the wall or your own tail.
         </assistant_response>
       </example>
+      <example>
+        <user_query>Replace the todo list with a kanban board</user_query>
+        <assistant_response>
+          I'll replace the todo list with a kanban board and remove the old component.
+          <boltArtifact id="kanban-board" title="Kanban Board">
+            <boltAction type="file" filePath="src/components/KanbanBoard.tsx">...</boltAction>
+            <boltAction type="file" filePath="src/App.tsx">...</boltAction>
+            <boltAction type="delete" filePath="src/components/TodoList.tsx" />
+            <boltAction type="rename" filePath="convex/todos.ts" newFilePath="convex/cards.ts" />
+          </boltArtifact>
+        </assistant_response>
+      </example>
     </examples>
   </artifacts>
   `;
@@ -201,11 +248,45 @@ function toolsInstructions(options: SystemPromptOptions) {
       message so that the user has time to add the environment variables before the next message.
     </addEnvironmentVariables_tool>
 
+    <runConvexFunction_tool>
+      After a successful deploy, you can smoke-test the backend with the \`runConvexFunction\` tool, which runs a
+      query, mutation or action (including internal functions) on the app's Convex deployment with JSON arguments
+      and returns the result and any logs. Use it to check that new queries return what you expect and that
+      mutations accept the arguments the frontend sends. Do NOT use it to delete data or to run functions with
+      side effects the user wouldn't expect, like sending emails.
+    </runConvexFunction_tool>
+
+    <readLogs_tool>
+      The \`readLogs\` tool returns recent function executions from the app's Convex deployment with their
+      \`console.log\` output and errors. When the user reports that something is broken at runtime, ALWAYS read
+      the logs (filtering with \`level: "error"\` if there are many) before guessing at a fix.
+    </readLogs_tool>
+
+    <inspectData_tool>
+      The \`inspectData\` tool lists the tables in the app's Convex deployment, shows the deployed schema, and
+      reads pages of documents from a table. Before changing the fields or types of an existing table in
+      \`convex/schema.ts\`, ALWAYS inspect the deployed schema and a sample of the table's documents. If existing
+      documents wouldn't match the new schema, make new fields \`v.optional\` or write a migration instead of
+      breaking the deploy.
+    </inspectData_tool>
+
+    ${options.enableScreenshots ? screenshotInstructions() : ''}
+
     ${preciseToolInstructions()}
   </tools>
   `;
 }
 
+function screenshotInstructions() {
+  return stripIndents`
+    <screenshot_tool>
+      After a successful deploy that changes the UI, use the \`screenshot\` tool to look at the app and check
+      that it renders the way you intended before telling the user you're done. If something looks wrong, fix
+      it and take another screenshot. Pass a narrower \`width\` like 390 to check mobile layouts.
+    </screenshot_tool>
+  `;
+}
+
 function preciseToolInstructions() {
   return stripIndents`
     <view_tool>
@@ -213,6 +294,24 @@ function preciseToolInstructions() {
       tool. Use this tool especially when you're modifying existing files or when debugging an issue.
     </view_tool>
 
+    <search_tool>
+      Use the \`search\` tool to find every place a string or regular expression appears in the project, for
+      example all callers of a Convex function (\`api\\.messages\\.send\`) or all usages of a component. Prefer
+      this over viewing files one at a time when you need to know where something is used. Narrow the search
+      with the \`glob\` parameter (e.g. \`convex/**/*.ts\`) and use \`context_lines\` when you need the
+      surrounding code to make an edit.
+    </search_tool>
+
+    <patch_tool>
+      Use the \`patch\` tool when a change touches several places in one or more existing files, for example
+      renaming a Convex function and updating all of its callers. Provide either a unified \`diff\` with at least
+      three lines of unchanged context around each change, or a list of search and replace \`edits\`. The patch
+      is applied atomically, so if it fails, no files were changed: read the error, view the files if needed,
+      and send a corrected patch.
+
+      Prefer the \`edit\` tool for a single small change and artifacts for new files or complete rewrites.
+    </patch_tool>
+
     <edit_tool>
       CRITICAL: For small, targeted changes to existing files, ALWAYS use the \`edit\` tool instead of artifacts.
       The \`edit\` tool is specifically designed for:
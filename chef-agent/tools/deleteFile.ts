@@ -0,0 +1,17 @@
+import type { Tool } from 'ai';
+import { z } from 'zod';
+
+const deleteFileToolDescription = `
+Delete a file or folder that's no longer used. Deleting a folder deletes everything inside it.
+
+Update every import of the deleted file so the project still typechecks.
+`;
+
+export const deleteFileToolParameters = z.object({
+  path: z.string().describe('The absolute path to the file or folder to delete.'),
+});
+
+export const deleteFileTool: Tool = {
+  description: deleteFileToolDescription,
+  parameters: deleteFileToolParameters,
+};
@@ -0,0 +1,29 @@
+import type { Tool } from 'ai';
+import { z } from 'zod';
+
+export const inspectDataToolDescription = `
+Inspect the data in the app's Convex development deployment. Use this tool before changing
+\`convex/schema.ts\` so that your changes are compatible with the documents already in the
+database: a schema change that existing documents don't match will fail to deploy.
+
+Actions:
+- \`listTables\`: list the tables that exist in the deployment.
+- \`schema\`: show the schema that's currently deployed, including indexes.
+- \`documents\`: read a page of documents from \`table\`, newest first. If there are more documents,
+  the result includes a cursor to pass to the next call.
+`;
+
+export const inspectDataToolParameters = z.object({
+  action: z.enum(['listTables', 'schema', 'documents']).describe('What to inspect.'),
+  table: z
+    .string()
+    .nullable()
+    .describe('The table to read documents from. Required for `documents`, and limits `schema` to one table.'),
+  cursor: z.string().nullable().describe('The cursor returned by a previous `documents` call, to read the next page.'),
+  limit: z.number().nullable().describe('The number of documents to read (defaults to 10, at most 50).'),
+});
+
+export const inspectDataTool: Tool = {
+  description: inspectDataToolDescription,
+  parameters: inspectDataToolParameters,
+};
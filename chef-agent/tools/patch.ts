@@ -0,0 +1,40 @@
+import type { Tool } from 'ai';
+import { z } from 'zod';
+
+const patchToolDescription = `
+Apply a set of changes across one or more files in a single step. Use this tool instead of
+many \`edit\` calls or rewriting whole files when a change touches several places, like renaming
+a Convex function and updating all of its callers.
+
+Provide EXACTLY ONE of \`diff\` or \`edits\`:
+- \`diff\` is a unified diff (like the output of \`git diff\`) with \`---\`/\`+++\` file headers and
+  \`@@\` hunks. Hunks must include a few lines of unchanged context around each change. Line numbers
+  in the hunk headers are only used as a hint. Use \`/dev/null\` as the old path to create a new file.
+- \`edits\` is a list of search and replace blocks. Each \`search\` string must appear exactly once in its file.
+
+The patch is applied atomically: if any hunk or edit fails to apply, no files are changed and the
+error describes every failure along with the current contents around the expected location.
+
+You MUST know the current contents of each file before using this tool.
+`;
+
+export const patchToolParameters = z.object({
+  diff: z.string().nullable().describe('A unified diff spanning one or more files.'),
+  edits: z
+    .array(
+      z.object({
+        path: z.string().describe('The absolute path to the file to edit.'),
+        search: z.string().describe('The exact text to replace. Must appear exactly once in the file.'),
+        replace: z.string().describe('The text to replace it with.'),
+      }),
+    )
+    .nullable()
+    .describe('A list of search and replace blocks, applied in order.'),
+});
+
+export type PatchToolParameters = z.infer<typeof patchToolParameters>;
+
+export const patchTool: Tool = {
+  description: patchToolDescription,
+  parameters: patchToolParameters,
+};
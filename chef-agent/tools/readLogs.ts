@@ -0,0 +1,29 @@
+import type { Tool } from 'ai';
+import { z } from 'zod';
+
+export const readLogsToolDescription = `
+Read the most recent function execution logs from the app's Convex deployment, including
+\`console.log\` output and errors thrown by queries, mutations and actions (e.g. an
+\`ArgumentValidationError\` from a mutation called by the frontend).
+
+Use this tool when the user reports that something doesn't work at runtime, or after using
+the app's functions to check for errors. Each execution is shown on one line with its time,
+type, function, status and duration, followed by its log lines and error.
+`;
+
+export const readLogsToolParameters = z.object({
+  functionName: z
+    .string()
+    .nullable()
+    .describe('Only show executions of functions whose path contains this string, e.g. `messages:send`.'),
+  level: z
+    .enum(['all', 'warn', 'error'])
+    .nullable()
+    .describe('Only show executions that failed or logged at least this level. Defaults to `all`.'),
+  limit: z.number().nullable().describe('The maximum number of executions to show (defaults to 20).'),
+});
+
+export const readLogsTool: Tool = {
+  description: readLogsToolDescription,
+  parameters: readLogsToolParameters,
+};
@@ -0,0 +1,18 @@
+import type { Tool } from 'ai';
+import { z } from 'zod';
+
+const renameFileToolDescription = `
+Move a file or folder to a new path, creating the new path's parent folders if they don't exist.
+
+Update every import of the moved file so the project still typechecks.
+`;
+
+export const renameFileToolParameters = z.object({
+  path: z.string().describe('The absolute path to the file or folder to move.'),
+  newPath: z.string().describe('The absolute path to move it to.'),
+});
+
+export const renameFileTool: Tool = {
+  description: renameFileToolDescription,
+  parameters: renameFileToolParameters,
+};
@@ -0,0 +1,32 @@
+import type { Tool } from 'ai';
+import { z } from 'zod';
+
+export const runConvexFunctionToolDescription = `
+Run a query, mutation or action on the app's Convex deployment and return its result, along with
+any \`console.log\` output from the function. Internal functions can be called too.
+
+Use this tool after a successful \`deploy\` to smoke-test the backend you just wrote, for example
+by running a query to check it returns what you expect or a mutation to check its argument validators.
+
+Mutations and actions run against the real development database, so only call functions whose
+side effects are safe to repeat, and never call functions that delete user data.
+`;
+
+export const runConvexFunctionToolParameters = z.object({
+  functionName: z
+    .string()
+    .describe(
+      'The function to run, as a path like `messages:list` or `admin/users:update` (relative to the `convex/` directory).',
+    ),
+  args: z
+    .string()
+    .nullable()
+    .describe('The arguments to the function as a JSON-encoded object, e.g. `{"channelId": "..."}`. Defaults to `{}`.'),
+});
+
+export type RunConvexFunctionToolParameters = z.infer<typeof runConvexFunctionToolParameters>;
+
+export const runConvexFunctionTool: Tool = {
+  description: runConvexFunctionToolDescription,
+  parameters: runConvexFunctionToolParameters,
+};
@@ -0,0 +1,56 @@
+import type { Tool } from 'ai';
+import { z } from 'zod';
+
+export const screenshotToolDescription = `
+Take a screenshot of the app's preview and look at it. The page is loaded in a fresh browser
+window of the given size, so it reflects the current code but not the user's session or any
+state from interacting with the app in the preview.
+
+Use this tool after a successful \`deploy\` to check that the UI you built renders the way you
+intended: layout, styling, empty states and that the page isn't blank because of an error.
+`;
+
+export const screenshotToolParameters = z.object({
+  route: z.string().nullable().describe('The path to load in the preview, e.g. `/settings`. Defaults to `/`.'),
+  width: z.number().nullable().describe('The viewport width in pixels. Defaults to 1280.'),
+  height: z.number().nullable().describe('The viewport height in pixels. Defaults to 800.'),
+});
+
+export const DEFAULT_SCREENSHOT_WIDTH = 1280;
+export const DEFAULT_SCREENSHOT_HEIGHT = 800;
+
+// Tool results are strings, so a screenshot result is JSON with the text for the model and
+// the PNG as a data URL.
+type ScreenshotResult = { text: string; image: string | null };
+
+export function encodeScreenshotResult(text: string, image: string): string {
+  return JSON.stringify({ text, image } satisfies ScreenshotResult);
+}
+
+export function parseScreenshotResult(result: string): ScreenshotResult {
+  try {
+    const parsed = JSON.parse(result);
+    if (typeof parsed?.text === 'string' && typeof parsed?.image === 'string') {
+      return parsed;
+    }
+  } catch (_e) {
+    // Errors are plain strings.
+  }
+  return { text: result, image: null };
+}
+
+export const screenshotTool: Tool = {
+  description: screenshotToolDescription,
+  parameters: screenshotToolParameters,
+  experimental_toToolResultContent(result: string) {
+    const { text, image } = parseScreenshotResult(result);
+    const match = image?.match(/^data:(image\/[a-z]+);base64,(.*)$/s);
+    if (!match) {
+      return [{ type: 'text', text }];
+    }
+    return [
+      { type: 'text', text },
+      { type: 'image', mimeType: match[1], data: match[2] },
+    ];
+  },
+};
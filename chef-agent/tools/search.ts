@@ -0,0 +1,44 @@
+import type { Tool } from 'ai';
+import { z } from 'zod';
+
+const searchDescription = `
+Search the contents of every file in the project for a regular expression, like \`grep -rn\`.
+Use this tool to find all callers of a Convex function, every usage of a component, or where
+a table is read or written before changing it, instead of viewing files one at a time.
+
+Results are grouped by file and each matching line is prefixed with its 1-indexed line number,
+in the same format as the \`view\` tool. \`node_modules\` and other generated directories are skipped.
+`;
+
+const globDescription = `
+An optional glob to restrict which files are searched, e.g. \`convex/**/*.ts\` or \`*.tsx\`.
+Globs are matched against paths relative to the project root, and globs without a \`/\` are
+matched against the file name only.
+`;
+
+export const searchParameters = z.object({
+  pattern: z
+    .string()
+    .describe('A JavaScript regular expression to search for, e.g. `api\\.messages\\.send` or `useQuery\\(`.'),
+  path: z
+    .string()
+    .nullable()
+    .describe('An optional absolute path of a directory to search within. Defaults to the project root.'),
+  glob: z.string().nullable().describe(globDescription),
+  case_sensitive: z.boolean().nullable().describe('Whether the search is case sensitive. Defaults to true.'),
+  context_lines: z
+    .number()
+    .nullable()
+    .describe('An optional number of lines of context to show before and after each match (at most 10).'),
+  max_results: z
+    .number()
+    .nullable()
+    .describe('An optional maximum number of matching lines to return (defaults to 50, at most 200).'),
+});
+
+export type SearchParameters = z.infer<typeof searchParameters>;
+
+export const searchTool: Tool = {
+  description: searchDescription,
+  parameters: searchParameters,
+};
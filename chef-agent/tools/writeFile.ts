@@ -0,0 +1,20 @@
+import type { Tool } from 'ai';
+import { z } from 'zod';
+
+const writeFileToolDescription = `
+Write the complete contents of a file, creating it and its parent folders if they don't exist
+or replacing it if it does. Use this tool to create new files or to completely rewrite a file.
+
+Always write the FULL contents of the file. Never use placeholders like
+"// rest of the code remains the same...".
+`;
+
+export const writeFileToolParameters = z.object({
+  path: z.string().describe('The absolute path to the file to write.'),
+  content: z.string().describe('The full contents of the file.'),
+});
+
+export const writeFileTool: Tool = {
+  description: writeFileToolDescription,
+  parameters: writeFileToolParameters,
+};
@@ -8,6 +8,15 @@ import type { lookupDocsParameters } from './tools/lookupDocs.js';
 import type { z } from 'zod';
 import type { addEnvironmentVariablesParameters } from './tools/addEnvironmentVariables.js';
 import type { getConvexDeploymentNameParameters } from './tools/getConvexDeploymentName.js';
+import type { searchParameters } from './tools/search.js';
+import type { patchToolParameters } from './tools/patch.js';
+import type { runConvexFunctionToolParameters } from './tools/runConvexFunction.js';
+import type { readLogsToolParameters } from './tools/readLogs.js';
+import type { inspectDataToolParameters } from './tools/inspectData.js';
+import type { screenshotToolParameters } from './tools/screenshot.js';
+import type { writeFileToolParameters } from './tools/writeFile.js';
+import type { deleteFileToolParameters } from './tools/deleteFile.js';
+import type { renameFileToolParameters } from './tools/renameFile.js';
 
 export type ConvexProject = {
   token: string;
@@ -26,15 +35,22 @@ export interface SystemPromptOptions {
   resendProxyEnabled: boolean;
   enableResend: boolean;
   hasMcpServers?: boolean;
+  enableScreenshots?: boolean;
+  fileWriteMode?: FileWriteMode;
 }
 
+// How the model writes files: with `<boltArtifact>` XML in its response text (the default), or
+// with `writeFile`, `deleteFile` and `renameFile` tool calls, which are more reliable for models
+// that leave XML tags half-closed.
+export type FileWriteMode = 'artifact' | 'toolCall';
+
 export interface BoltArtifactData {
   id: string;
   title: string;
   type?: string | undefined;
 }
 
-export type ActionType = 'file' | 'toolUse';
+export type ActionType = 'file' | 'delete' | 'rename' | 'toolUse';
 
 export interface FileAction {
   type: 'file';
@@ -43,6 +59,21 @@ export interface FileAction {
   content: string;
 }
 
+// Deletes a file or folder.
+export interface DeleteAction {
+  type: 'delete';
+  filePath: RelativePath;
+  content: string;
+}
+
+// Moves a file or folder to `newFilePath`, creating its parent folders if needed.
+export interface RenameAction {
+  type: 'rename';
+  filePath: RelativePath;
+  newFilePath: RelativePath;
+  content: string;
+}
+
 export interface ToolUseAction {
   type: 'toolUse';
   toolName: string;
@@ -51,7 +82,7 @@ export interface ToolUseAction {
   content: string;
 }
 
-export type BoltAction = FileAction | ToolUseAction;
+export type BoltAction = FileAction | DeleteAction | RenameAction | ToolUseAction;
 
 export type BoltActionData = BoltAction;
 
@@ -86,7 +117,16 @@ export type ConvexToolSet = {
   addEnvironmentVariables?: Tool<typeof addEnvironmentVariablesParameters, void>;
   view?: Tool<typeof viewParameters, string>;
   edit?: Tool<typeof editToolParameters, string>;
+  search?: Tool<typeof searchParameters, string>;
+  patch?: Tool<typeof patchToolParameters, string>;
   getConvexDeploymentName: Tool<typeof getConvexDeploymentNameParameters, string>;
+  runConvexFunction?: Tool<typeof runConvexFunctionToolParameters, string>;
+  readLogs?: Tool<typeof readLogsToolParameters, string>;
+  inspectData?: Tool<typeof inspectDataToolParameters, string>;
+  screenshot?: Tool<typeof screenshotToolParameters, string>;
+  writeFile?: Tool<typeof writeFileToolParameters, string>;
+  deleteFile?: Tool<typeof deleteFileToolParameters, string>;
+  renameFile?: Tool<typeof renameFileToolParameters, string>;
 };
 
 export type Dirent = File | Folder;
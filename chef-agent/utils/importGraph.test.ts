@@ -0,0 +1,93 @@
+import { describe, expect, test } from 'vitest';
+import { buildImportGraph, nearbyFiles } from './importGraph.js';
+import type { FileMap } from '../types.js';
+import type { AbsolutePath } from './workDir.js';
+
+const file = (content: string) => ({ type: 'file' as const, content, isBinary: false });
+
+const files: FileMap = {
+  ['/home/project/src/App.tsx' as AbsolutePath]: file(
+    [
+      "import { useQuery } from 'convex/react';",
+      "import { api } from '../convex/_generated/api';",
+      "import { TodoList } from './components/TodoList';",
+      "import { Button } from '@/components/ui/button';",
+      'export default function App() {',
+      '  const todos = useQuery(api.todos.list);',
+      '  return <TodoList todos={todos} />;',
+      '}',
+    ].join('\n'),
+  ),
+  ['/home/project/src/components/TodoList.tsx' as AbsolutePath]: file(
+    "import { formatDate } from '../lib/format.js';\nexport function TodoList() {}",
+  ),
+  ['/home/project/src/components/ui/button.tsx' as AbsolutePath]: file('export function Button() {}'),
+  ['/home/project/src/lib/format.ts' as AbsolutePath]: file('export function formatDate() {}'),
+  ['/home/project/convex/todos.ts' as AbsolutePath]: file(
+    "import { internal } from './_generated/api';\nexport const list = query({ handler: async (ctx) => ctx.runQuery(internal.admin.users.count) });",
+  ),
+  ['/home/project/convex/admin/users.ts' as AbsolutePath]: file('export const count = internalQuery({});'),
+  ['/home/project/convex/_generated/api.d.ts' as AbsolutePath]: file('export declare const api: any;'),
+  ['/home/project/src/unrelated.ts' as AbsolutePath]: file('const api = { todos: { list: 1 } };\napi.todos.list;'),
+};
+
+describe('buildImportGraph', () => {
+  const graph = buildImportGraph(files);
+
+  test('resolves relative, aliased and .js imports', () => {
+    expect(graph.dependencies.get('/home/project/src/App.tsx' as AbsolutePath)).toEqual(
+      new Map([
+        ['/home/project/src/components/TodoList.tsx', 'import'],
+        ['/home/project/src/components/ui/button.tsx', 'import'],
+        ['/home/project/convex/todos.ts', 'functionReference'],
+      ]),
+    );
+    expect(graph.dependencies.get('/home/project/src/components/TodoList.tsx' as AbsolutePath)).toEqual(
+      new Map([['/home/project/src/lib/format.ts', 'import']]),
+    );
+  });
+
+  test('resolves function references to nested Convex modules', () => {
+    expect(graph.dependents.get('/home/project/convex/admin/users.ts' as AbsolutePath)).toEqual(
+      new Map([['/home/project/convex/todos.ts', 'functionReference']]),
+    );
+  });
+
+  test('ignores `api` in files that do not import the generated API', () => {
+    expect(graph.dependencies.get('/home/project/src/unrelated.ts' as AbsolutePath)).toBeUndefined();
+  });
+});
+
+describe('nearbyFiles', () => {
+  const graph = buildImportGraph(files);
+
+  test('finds files in both directions up to the maximum distance', () => {
+    const nearby = nearbyFiles(graph, ['/home/project/convex/todos.ts' as AbsolutePath], 2);
+    expect(Object.fromEntries(nearby)).toEqual({
+      '/home/project/convex/admin/users.ts': {
+        distance: 1,
+        via: '/home/project/convex/todos.ts',
+        direction: 'dependency',
+        kind: 'functionReference',
+      },
+      '/home/project/src/App.tsx': {
+        distance: 1,
+        via: '/home/project/convex/todos.ts',
+        direction: 'dependent',
+        kind: 'functionReference',
+      },
+      '/home/project/src/components/TodoList.tsx': {
+        distance: 2,
+        via: '/home/project/src/App.tsx',
+        direction: 'dependency',
+        kind: 'import',
+      },
+      '/home/project/src/components/ui/button.tsx': {
+        distance: 2,
+        via: '/home/project/src/App.tsx',
+        direction: 'dependency',
+        kind: 'import',
+      },
+    });
+  });
+});
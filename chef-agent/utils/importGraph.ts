@@ -0,0 +1,174 @@
+import type { FileMap } from '../types.js';
+import { WORK_DIR } from '../constants.js';
+import { path } from './path.js';
+import type { AbsolutePath } from './workDir.js';
+
+const SOURCE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs'];
+const IGNORED_DIRECTORIES = ['node_modules', 'dist', '.git', 'convex/_generated'].map((dir) =>
+  path.join(WORK_DIR, dir),
+);
+
+// `import x from '...'`, `import '...'`, `export { x } from '...'`, `import('...')` and `require('...')`.
+const IMPORT_REGEX = /(?:\bfrom\s*|\bimport\s*\(?\s*|\brequire\s*\(\s*)['"]([^'"\n]+)['"]/g;
+// References to Convex functions, like `api.messages.list` or `internal.users.create`.
+const FUNCTION_REFERENCE_REGEX = /\b(?:api|internal)((?:\.[A-Za-z_$][\w$]*)+)/g;
+
+// How one file depends on another: through an import, or by calling one of its Convex functions.
+export type DependencyKind = 'import' | 'functionReference';
+
+export interface ImportGraph {
+  dependencies: Map<AbsolutePath, Map<AbsolutePath, DependencyKind>>;
+  dependents: Map<AbsolutePath, Map<AbsolutePath, DependencyKind>>;
+}
+
+// How a file was reached from the nearest seed file, through `via`.
+export interface GraphProximity {
+  distance: number;
+  via: AbsolutePath;
+  // Whether the file depends on `via` or `via` depends on it.
+  direction: 'dependency' | 'dependent';
+  kind: DependencyKind;
+}
+
+/**
+ * Build the dependency graph of the project's source files from their relative and `@/` imports,
+ * and from `api.*` and `internal.*` references to the Convex functions in `convex/`.
+ */
+export function buildImportGraph(files: FileMap): ImportGraph {
+  const graph: ImportGraph = { dependencies: new Map(), dependents: new Map() };
+  for (const [filePath, dirent] of Object.entries(files)) {
+    if (dirent?.type !== 'file' || dirent.isBinary || !isSourceFile(filePath)) {
+      continue;
+    }
+    const absPath = filePath as AbsolutePath;
+    for (const [dependency, kind] of fileDependencies(absPath, dirent.content, files)) {
+      if (dependency === absPath) {
+        continue;
+      }
+      addEdge(graph.dependencies, absPath, dependency, kind);
+      addEdge(graph.dependents, dependency, absPath, kind);
+    }
+  }
+  return graph;
+}
+
+/**
+ * Find the files within `maxDistance` edges of `seeds`, in either direction, along with how
+ * each one was first reached. The seeds themselves aren't included.
+ */
+export function nearbyFiles(
+  graph: ImportGraph,
+  seeds: AbsolutePath[],
+  maxDistance: number,
+): Map<AbsolutePath, GraphProximity> {
+  const visited = new Set<AbsolutePath>(seeds);
+  const result = new Map<AbsolutePath, GraphProximity>();
+  let frontier = [...visited];
+  for (let distance = 1; distance <= maxDistance && frontier.length > 0; distance++) {
+    const next: AbsolutePath[] = [];
+    for (const file of frontier) {
+      const neighbors: [Map<AbsolutePath, DependencyKind> | undefined, GraphProximity['direction']][] = [
+        [graph.dependencies.get(file), 'dependency'],
+        [graph.dependents.get(file), 'dependent'],
+      ];
+      for (const [edges, direction] of neighbors) {
+        for (const [neighbor, kind] of edges ?? []) {
+          if (visited.has(neighbor)) {
+            continue;
+          }
+          visited.add(neighbor);
+          result.set(neighbor, { distance, via: file, direction, kind });
+          next.push(neighbor);
+        }
+      }
+    }
+    frontier = next;
+  }
+  return result;
+}
+
+function fileDependencies(filePath: AbsolutePath, content: string, files: FileMap): Map<AbsolutePath, DependencyKind> {
+  const dependencies = new Map<AbsolutePath, DependencyKind>();
+  for (const match of content.matchAll(IMPORT_REGEX)) {
+    const resolved = resolveImport(filePath, match[1], files);
+    if (resolved) {
+      dependencies.set(resolved, 'import');
+    }
+  }
+  // Only look for function references in files that import them, since `api` is a common name.
+  if (content.includes('_generated/api')) {
+    for (const match of content.matchAll(FUNCTION_REFERENCE_REGEX)) {
+      const resolved = resolveFunctionReference(match[1].slice(1).split('.'), files);
+      if (resolved && !dependencies.has(resolved)) {
+        dependencies.set(resolved, 'functionReference');
+      }
+    }
+  }
+  return dependencies;
+}
+
+function resolveImport(filePath: AbsolutePath, specifier: string, files: FileMap): AbsolutePath | null {
+  let base: string;
+  if (specifier.startsWith('./') || specifier.startsWith('../')) {
+    base = path.join(path.dirname(filePath), specifier);
+  } else if (specifier.startsWith('@/')) {
+    base = path.join(WORK_DIR, 'src', specifier.slice(2));
+  } else {
+    // Packages aren't part of the project.
+    return null;
+  }
+  // ESM imports of TypeScript files use the `.js` extension of the compiled file.
+  const withoutJsExtension = base.replace(/\.(m|c)?jsx?$/, '');
+  const candidates = [
+    base,
+    ...SOURCE_EXTENSIONS.map((extension) => withoutJsExtension + extension),
+    ...SOURCE_EXTENSIONS.map((extension) => path.join(base, `index${extension}`)),
+  ];
+  return findFile(candidates, files);
+}
+
+// `api.a.b.c` is the function `c` in `convex/a/b.ts`, or the function `b` in `convex/a.ts`.
+function resolveFunctionReference(segments: string[], files: FileMap): AbsolutePath | null {
+  for (let length = segments.length - 1; length > 0; length--) {
+    const modulePath = path.join(WORK_DIR, 'convex', ...segments.slice(0, length));
+    const resolved = findFile(
+      SOURCE_EXTENSIONS.map((extension) => modulePath + extension),
+      files,
+    );
+    if (resolved) {
+      return resolved;
+    }
+  }
+  return null;
+}
+
+function findFile(candidates: string[], files: FileMap): AbsolutePath | null {
+  for (const candidate of candidates) {
+    if (files[candidate as AbsolutePath]?.type === 'file' && !isIgnored(candidate)) {
+      return candidate as AbsolutePath;
+    }
+  }
+  return null;
+}
+
+function isSourceFile(filePath: string) {
+  return SOURCE_EXTENSIONS.some((extension) => filePath.endsWith(extension)) && !isIgnored(filePath);
+}
+
+function isIgnored(filePath: string) {
+  return IGNORED_DIRECTORIES.some((dir) => filePath.startsWith(`${dir}/`));
+}
+
+function addEdge(
+  edges: Map<AbsolutePath, Map<AbsolutePath, DependencyKind>>,
+  from: AbsolutePath,
+  to: AbsolutePath,
+  kind: DependencyKind,
+) {
+  let fileEdges = edges.get(from);
+  if (!fileEdges) {
+    fileEdges = new Map();
+    edges.set(from, fileEdges);
+  }
+  fileEdges.set(to, kind);
+}
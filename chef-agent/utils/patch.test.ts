@@ -0,0 +1,105 @@
+import { describe, expect, test } from 'vitest';
+import { applyPatch, PatchError, patchPaths } from './patch.js';
+
+const files: Record<string, string> = {
+  'convex/messages.ts': [
+    'export const list = query({',
+    '  args: {},',
+    '  handler: async (ctx) => {',
+    '    return [];',
+    '  },',
+    '});',
+    '',
+  ].join('\n'),
+  'src/App.tsx': [
+    'export default function App() {',
+    '  const messages = useQuery(api.messages.list);',
+    '  return null;',
+    '}',
+    '',
+  ].join('\n'),
+};
+
+const readFile = async (path: string) => files[path] ?? null;
+
+describe('applyPatch', () => {
+  test('applies a unified diff across several files', async () => {
+    const diff = [
+      'diff --git a/convex/messages.ts b/convex/messages.ts',
+      '--- a/convex/messages.ts',
+      '+++ b/convex/messages.ts',
+      '@@ -10,3 +10,3 @@',
+      '-export const list = query({',
+      '+export const listAll = query({',
+      '   args: {},',
+      '   handler: async (ctx) => {',
+      '--- a/src/App.tsx',
+      '+++ b/src/App.tsx',
+      '@@ -1,3 +1,3 @@',
+      ' export default function App() {',
+      '-  const messages = useQuery(api.messages.list);',
+      '+  const messages = useQuery(api.messages.listAll);',
+      '   return null;',
+      '--- /dev/null',
+      '+++ b/src/Empty.tsx',
+      '@@ -0,0 +1 @@',
+      '+export const Empty = () => null;',
+    ].join('\n');
+    const result = await applyPatch({ diff, edits: null }, readFile);
+    expect(result.map((file) => file.path)).toEqual(['convex/messages.ts', 'src/App.tsx', 'src/Empty.tsx']);
+    expect(result[0].newContent).toContain('export const listAll = query({');
+    expect(result[1].newContent).toContain('useQuery(api.messages.listAll)');
+    expect(result[2]).toEqual({
+      path: 'src/Empty.tsx',
+      oldContent: null,
+      newContent: 'export const Empty = () => null;\n',
+    });
+  });
+
+  test('applies search and replace edits', async () => {
+    const result = await applyPatch(
+      {
+        diff: null,
+        edits: [
+          { path: '/home/project/convex/messages.ts', search: 'list = query', replace: 'listAll = query' },
+          { path: 'src/App.tsx', search: 'messages.list)', replace: 'messages.listAll)' },
+        ],
+      },
+      readFile,
+    );
+    expect(result.map((file) => file.path)).toEqual(['convex/messages.ts', 'src/App.tsx']);
+    expect(result[1].newContent).toContain('useQuery(api.messages.listAll)');
+  });
+
+  test('reports every failure and changes nothing', async () => {
+    const diff = [
+      '--- src/App.tsx',
+      '+++ src/App.tsx',
+      '@@ -2,1 +2,1 @@',
+      '-  const messages = useQuery(api.messages.missing);',
+      '+  const messages = useQuery(api.messages.other);',
+      '--- src/Missing.tsx',
+      '+++ src/Missing.tsx',
+      '@@ -1,1 +1,1 @@',
+      '-a',
+      '+b',
+    ].join('\n');
+    const error = await applyPatch({ diff, edits: null }, readFile).catch((e) => e);
+    expect(error).toBeInstanceOf(PatchError);
+    expect(error.failures).toHaveLength(2);
+    expect(error.failures[0]).toContain('src/App.tsx: Hunk @@ -2,1 +2,1 @@ does not match the file.');
+    expect(error.failures[0]).toContain('2:   const messages = useQuery(api.messages.list);');
+    expect(error.failures[1]).toBe('src/Missing.tsx: File not found.');
+  });
+});
+
+describe('patchPaths', () => {
+  test('lists the files a patch touches', () => {
+    expect(patchPaths({ diff: '--- a/src/App.tsx\n+++ b/src/App.tsx\n@@ -1 +1 @@\n-a\n+b\n', edits: null })).toEqual([
+      'src/App.tsx',
+    ]);
+    expect(
+      patchPaths({ diff: null, edits: [{ path: '/home/project/convex/a.ts', search: 'a', replace: 'b' }] }),
+    ).toEqual(['convex/a.ts']);
+  });
+});
@@ -0,0 +1,280 @@
+import type { PatchToolParameters } from '../tools/patch.js';
+import { getRelativePath, type RelativePath } from './workDir.js';
+
+// Number of lines of the current file to show around a hunk that failed to apply.
+const FAILURE_CONTEXT_LINES = 3;
+
+interface Hunk {
+  // 1-indexed line number from the hunk header, only used as a hint.
+  oldStart: number;
+  header: string;
+  oldLines: string[];
+  newLines: string[];
+}
+
+interface FilePatch {
+  oldPath: RelativePath | null;
+  newPath: RelativePath | null;
+  hunks: Hunk[];
+}
+
+export interface PatchedFile {
+  path: RelativePath;
+  // `null` if the file didn't exist before the patch.
+  oldContent: string | null;
+  newContent: string;
+}
+
+export class PatchError extends Error {
+  constructor(readonly failures: string[]) {
+    super(`Failed to apply patch, no files were changed.\n\n${failures.join('\n\n')}`);
+    this.name = 'PatchError';
+  }
+}
+
+/**
+ * Apply the `diff` or `edits` of a `patch` tool call against the files returned by `readFile`,
+ * which should return `null` for files that don't exist. All changes are computed in memory
+ * and a `PatchError` listing every failed hunk or edit is thrown if any of them fail, so the
+ * caller can write the returned files knowing the whole patch applies.
+ */
+export async function applyPatch(
+  args: PatchToolParameters,
+  readFile: (path: RelativePath) => Promise<string | null>,
+): Promise<PatchedFile[]> {
+  const contents = new Map<RelativePath, string | null>();
+  for (const path of patchPaths(args)) {
+    contents.set(path, await readFile(path));
+  }
+  return patchContents(args, contents);
+}
+
+/**
+ * Like `applyPatch`, but for files that are already loaded. Changes to files that aren't in
+ * `contents` are skipped, so this can replay the part of a patch that touches some of its files.
+ */
+export function patchContents(args: PatchToolParameters, contents: Map<RelativePath, string | null>): PatchedFile[] {
+  if ((args.diff === null) === (args.edits === null)) {
+    throw new Error('Exactly one of `diff` or `edits` must be provided');
+  }
+  const files = new Map<RelativePath, PatchedFile>();
+  const failures: string[] = [];
+
+  const load = (path: RelativePath) => {
+    let file = files.get(path);
+    if (!file) {
+      const oldContent = contents.get(path) ?? null;
+      file = { path, oldContent, newContent: oldContent ?? '' };
+      files.set(path, file);
+    }
+    return file;
+  };
+
+  if (args.diff !== null) {
+    const filePatches = parseUnifiedDiff(args.diff);
+    if (filePatches.length === 0) {
+      throw new Error('The diff does not contain any file headers (`--- old` and `+++ new` lines)');
+    }
+    for (const filePatch of filePatches) {
+      const path = filePatch.newPath ?? filePatch.oldPath;
+      if (path !== null && !contents.has(path)) {
+        continue;
+      }
+      if (filePatch.newPath === null) {
+        failures.push(`${filePatch.oldPath}: Deleting files is not supported.`);
+        continue;
+      }
+      if (filePatch.oldPath !== null && filePatch.oldPath !== filePatch.newPath) {
+        failures.push(`${filePatch.oldPath}: Renaming files is not supported.`);
+        continue;
+      }
+      const file = load(filePatch.newPath);
+      if (filePatch.oldPath === null) {
+        if (file.oldContent !== null) {
+          failures.push(`${file.path}: The diff creates this file, but it already exists.`);
+          continue;
+        }
+      } else if (file.oldContent === null) {
+        failures.push(`${file.path}: File not found.`);
+        continue;
+      }
+      let offset = 0;
+      for (const hunk of filePatch.hunks) {
+        const lines = file.newContent === '' ? [] : file.newContent.split('\n');
+        const index = findHunk(lines, hunk.oldLines, hunk.oldStart - 1 + offset);
+        if (index === null) {
+          failures.push(renderHunkFailure(file.path, hunk, lines, hunk.oldStart - 1 + offset));
+          continue;
+        }
+        lines.splice(index, hunk.oldLines.length, ...hunk.newLines);
+        offset += hunk.newLines.length - hunk.oldLines.length;
+        file.newContent = lines.join('\n');
+      }
+      if (filePatch.oldPath === null && file.newContent !== '' && !file.newContent.endsWith('\n')) {
+        file.newContent += '\n';
+      }
+    }
+  } else {
+    for (const edit of args.edits!) {
+      const path = getRelativePath(edit.path);
+      if (!contents.has(path)) {
+        continue;
+      }
+      const file = load(path);
+      if (file.oldContent === null) {
+        failures.push(`${file.path}: File not found.`);
+        continue;
+      }
+      const matchPos = file.newContent.indexOf(edit.search);
+      if (matchPos === -1) {
+        failures.push(`${file.path}: Search text not found:\n${edit.search}`);
+        continue;
+      }
+      if (file.newContent.indexOf(edit.search, matchPos + edit.search.length) !== -1) {
+        failures.push(`${file.path}: Search text found multiple times:\n${edit.search}`);
+        continue;
+      }
+      file.newContent =
+        file.newContent.slice(0, matchPos) + edit.replace + file.newContent.slice(matchPos + edit.search.length);
+    }
+  }
+
+  if (failures.length > 0) {
+    throw new PatchError(failures);
+  }
+  return Array.from(files.values()).filter((file) => file.newContent !== file.oldContent);
+}
+
+/**
+ * The paths a `patch` tool call touches, without reading any files.
+ */
+export function patchPaths(args: PatchToolParameters): RelativePath[] {
+  const paths = new Set<RelativePath>();
+  if (args.diff !== null) {
+    for (const filePatch of parseUnifiedDiff(args.diff)) {
+      const path = filePatch.newPath ?? filePatch.oldPath;
+      if (path !== null) {
+        paths.add(path);
+      }
+    }
+  }
+  for (const edit of args.edits ?? []) {
+    paths.add(getRelativePath(edit.path));
+  }
+  return Array.from(paths);
+}
+
+export function renderPatchedFiles(files: PatchedFile[]) {
+  if (files.length === 0) {
+    return 'The patch applied cleanly but did not change any files.';
+  }
+  const rendered = files.map((file) => `- ${file.path}${file.oldContent === null ? ' (created)' : ''}`);
+  return `Successfully patched ${files.length} ${files.length === 1 ? 'file' : 'files'}:\n${rendered.join('\n')}`;
+}
+
+export function parseUnifiedDiff(diff: string): FilePatch[] {
+  const lines = diff.split('\n');
+  const patches: FilePatch[] = [];
+  let current: FilePatch | null = null;
+  let hunk: Hunk | null = null;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (line.startsWith('--- ') && lines[i + 1]?.startsWith('+++ ')) {
+      const [oldPath, newPath] = stripGitPrefixes(parseHeaderPath(line), parseHeaderPath(lines[i + 1]));
+      current = { oldPath, newPath, hunks: [] };
+      patches.push(current);
+      hunk = null;
+      i++;
+      continue;
+    }
+    if (!current) {
+      // Skip anything before the first file header, like `diff --git` or `index` lines.
+      continue;
+    }
+    const hunkHeader = line.match(/^@@ -(\d+)(?:,\d+)? \+\d+(?:,\d+)? @@/);
+    if (hunkHeader) {
+      hunk = { oldStart: Math.max(1, parseInt(hunkHeader[1], 10)), header: line, oldLines: [], newLines: [] };
+      current.hunks.push(hunk);
+      continue;
+    }
+    if (!hunk) {
+      continue;
+    }
+    if (line.startsWith('-')) {
+      hunk.oldLines.push(line.slice(1));
+    } else if (line.startsWith('+')) {
+      hunk.newLines.push(line.slice(1));
+    } else if (line.startsWith(' ') || line === '') {
+      // Models often strip the leading space from empty context lines.
+      if (line === '' && i === lines.length - 1) {
+        continue;
+      }
+      hunk.oldLines.push(line.slice(1));
+      hunk.newLines.push(line.slice(1));
+    }
+    // Ignore `\ No newline at end of file` and other unknown lines.
+  }
+  return patches;
+}
+
+function parseHeaderPath(line: string): string | null {
+  // Drop the `---`/`+++` prefix and an optional trailing timestamp.
+  const path = line.slice(4).split('\t')[0].trim();
+  if (path === '/dev/null') {
+    return null;
+  }
+  return path;
+}
+
+function stripGitPrefixes(oldPath: string | null, newPath: string | null): [RelativePath | null, RelativePath | null] {
+  const hasPrefixes =
+    (oldPath === null || oldPath.startsWith('a/')) &&
+    (newPath === null || newPath.startsWith('b/')) &&
+    (oldPath !== null || newPath !== null);
+  const clean = (path: string | null) => {
+    if (path === null) {
+      return null;
+    }
+    return getRelativePath(hasPrefixes ? path.slice(2) : path);
+  };
+  return [clean(oldPath), clean(newPath)];
+}
+
+// Find the position of `needle` in `lines` closest to `hint`, first matching exactly
+// and then ignoring trailing whitespace.
+function findHunk(lines: string[], needle: string[], hint: number): number | null {
+  if (needle.length === 0) {
+    return Math.min(Math.max(hint, 0), lines.length);
+  }
+  for (const normalize of [(s: string) => s, (s: string) => s.trimEnd()]) {
+    let best: number | null = null;
+    for (let start = 0; start + needle.length <= lines.length; start++) {
+      let matches = true;
+      for (let j = 0; j < needle.length; j++) {
+        if (normalize(lines[start + j]) !== normalize(needle[j])) {
+          matches = false;
+          break;
+        }
+      }
+      if (matches && (best === null || Math.abs(start - hint) < Math.abs(best - hint))) {
+        best = start;
+      }
+    }
+    if (best !== null) {
+      return best;
+    }
+  }
+  return null;
+}
+
+function renderHunkFailure(path: RelativePath, hunk: Hunk, lines: string[], hint: number) {
+  const start = Math.max(0, Math.min(hint, lines.length) - FAILURE_CONTEXT_LINES);
+  const end = Math.min(lines.length, hint + hunk.oldLines.length + FAILURE_CONTEXT_LINES);
+  const actual = lines
+    .slice(start, end)
+    .map((line, i) => `${start + i + 1}: ${line}`)
+    .join('\n');
+  const expected = hunk.oldLines.join('\n');
+  return `${path}: Hunk ${hunk.header} does not match the file.\nExpected:\n${expected}\nCurrent contents around line ${hint + 1}:\n${actual}`;
+}
@@ -0,0 +1,86 @@
+import { describe, expect, test } from 'vitest';
+import { globToRegExp, searchFiles } from './search.js';
+import type { SearchParameters } from '../tools/search.js';
+
+const files = [
+  {
+    path: 'src/App.tsx',
+    content: [
+      "import { useQuery } from 'convex/react';",
+      "import { api } from '../convex/_generated/api';",
+      '',
+      'export default function App() {',
+      '  const messages = useQuery(api.messages.list);',
+      '  return null;',
+      '}',
+    ].join('\n'),
+  },
+  {
+    path: 'convex/messages.ts',
+    content: ['export const list = query({', '  handler: async (ctx) => {', '    return [];', '  },', '});'].join('\n'),
+  },
+];
+
+const search = (args: Partial<SearchParameters> & { pattern: string }) =>
+  searchFiles(files, {
+    path: null,
+    glob: null,
+    case_sensitive: null,
+    context_lines: null,
+    max_results: null,
+    ...args,
+  });
+
+describe('searchFiles', () => {
+  test('renders matches grouped by file with line numbers', () => {
+    expect(search({ pattern: 'list' })).toBe(
+      [
+        'Found 2 matches in 2 files:',
+        '',
+        'convex/messages.ts',
+        '1: export const list = query({',
+        '',
+        'src/App.tsx',
+        '5:   const messages = useQuery(api.messages.list);',
+      ].join('\n'),
+    );
+  });
+
+  test('renders context lines and separates groups', () => {
+    expect(search({ pattern: 'import', context_lines: 1, glob: '*.tsx' })).toBe(
+      [
+        'Found 2 matches in 1 file:',
+        '',
+        'src/App.tsx',
+        "1: import { useQuery } from 'convex/react';",
+        "2: import { api } from '../convex/_generated/api';",
+        '3- ',
+      ].join('\n'),
+    );
+  });
+
+  test('respects case sensitivity', () => {
+    expect(search({ pattern: 'APP' })).toBe('No matches found for APP');
+    expect(search({ pattern: 'APP', case_sensitive: false })).toContain('4: export default function App() {');
+  });
+
+  test('stops after max_results', () => {
+    const result = search({ pattern: '.', max_results: 2 });
+    expect(result).toContain('Found 2 matches in 1 file:');
+    expect(result).toContain('Stopped after 2 matches.');
+  });
+
+  test('rejects invalid regular expressions', () => {
+    expect(() => search({ pattern: '(' })).toThrow('Invalid regular expression');
+  });
+});
+
+describe('globToRegExp', () => {
+  test('matches globstars, wildcards and braces', () => {
+    expect(globToRegExp('convex/**/*.ts').test('convex/messages.ts')).toBe(true);
+    expect(globToRegExp('convex/**/*.ts').test('convex/lib/util.ts')).toBe(true);
+    expect(globToRegExp('convex/**/*.ts').test('src/App.ts')).toBe(false);
+    expect(globToRegExp('*.{ts,tsx}').test('App.tsx')).toBe(true);
+    expect(globToRegExp('*.ts').test('src/App.ts')).toBe(false);
+  });
+});
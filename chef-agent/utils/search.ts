@@ -0,0 +1,162 @@
+import type { SearchParameters } from '../tools/search.js';
+
+// Directories that are never worth searching: dependencies, VCS metadata and build output.
+export const SEARCH_IGNORED_DIRECTORIES = ['node_modules', '.git', 'dist', '.history'];
+
+const DEFAULT_MAX_RESULTS = 50;
+const MAX_MAX_RESULTS = 200;
+const MAX_CONTEXT_LINES = 10;
+const MAX_LINE_LENGTH = 500;
+
+export interface SearchableFile {
+  // Path relative to `WORK_DIR`, used for glob matching and output.
+  path: string;
+  content: string;
+}
+
+/**
+ * Search `files` for `args.pattern` and render the matches grouped by file, using the
+ * same `lineNumber: line` format as `renderFile`. Context lines are rendered with a
+ * `-` separator instead of `:`, and non-contiguous groups are separated by `--`.
+ */
+export function searchFiles(files: SearchableFile[], args: SearchParameters): string {
+  let regex: RegExp;
+  try {
+    regex = new RegExp(args.pattern, args.case_sensitive === false ? 'i' : '');
+  } catch (e: any) {
+    throw new Error(`Invalid regular expression ${args.pattern}: ${e.message}`);
+  }
+  const globRegex = args.glob ? globToRegExp(args.glob) : null;
+  const matchBasename = args.glob ? !args.glob.includes('/') : false;
+  const maxResults = clamp(args.max_results ?? DEFAULT_MAX_RESULTS, 1, MAX_MAX_RESULTS);
+  const contextLines = clamp(args.context_lines ?? 0, 0, MAX_CONTEXT_LINES);
+
+  const sortedFiles = [...files].sort((a, b) => a.path.localeCompare(b.path));
+  const sections: string[] = [];
+  let numMatches = 0;
+  let numFiles = 0;
+  let truncated = false;
+
+  for (const file of sortedFiles) {
+    if (globRegex) {
+      const candidate = matchBasename ? file.path.split('/').pop()! : file.path;
+      if (!globRegex.test(candidate)) {
+        continue;
+      }
+    }
+    if (file.content.includes('\0')) {
+      // Skip binary files.
+      continue;
+    }
+    const lines = file.content.split('\n');
+    const matchingLines: number[] = [];
+    for (let i = 0; i < lines.length; i++) {
+      if (!regex.test(lines[i])) {
+        continue;
+      }
+      if (numMatches >= maxResults) {
+        truncated = true;
+        break;
+      }
+      matchingLines.push(i);
+      numMatches++;
+    }
+    if (matchingLines.length > 0) {
+      sections.push(renderMatches(file.path, lines, matchingLines, contextLines));
+      numFiles++;
+    }
+    if (truncated) {
+      break;
+    }
+  }
+
+  if (numMatches === 0) {
+    return `No matches found for ${args.pattern}`;
+  }
+  let result = `Found ${numMatches} ${numMatches === 1 ? 'match' : 'matches'} in ${numFiles} ${numFiles === 1 ? 'file' : 'files'}:\n\n`;
+  result += sections.join('\n\n');
+  if (truncated) {
+    result += `\n\nStopped after ${maxResults} matches. Use a more specific pattern, \`path\` or \`glob\` to narrow the search.`;
+  }
+  return result;
+}
+
+function renderMatches(filePath: string, lines: string[], matchingLines: number[], contextLines: number) {
+  const matches = new Set(matchingLines);
+  const rendered: string[] = [filePath];
+  let lastRendered = -1;
+  for (const lineIndex of matchingLines) {
+    const start = Math.max(0, lineIndex - contextLines, lastRendered + 1);
+    const end = Math.min(lines.length - 1, lineIndex + contextLines);
+    if (lastRendered !== -1 && start > lastRendered + 1) {
+      rendered.push('--');
+    }
+    for (let i = start; i <= end; i++) {
+      const separator = matches.has(i) ? ':' : '-';
+      rendered.push(`${i + 1}${separator} ${truncateLine(lines[i])}`);
+    }
+    lastRendered = Math.max(lastRendered, end);
+  }
+  return rendered.join('\n');
+}
+
+function truncateLine(line: string) {
+  if (line.length <= MAX_LINE_LENGTH) {
+    return line;
+  }
+  return `${line.slice(0, MAX_LINE_LENGTH)}... (truncated)`;
+}
+
+function clamp(value: number, min: number, max: number) {
+  return Math.min(Math.max(Math.floor(value), min), max);
+}
+
+/**
+ * Convert a glob supporting `**`, `*`, `?` and `{a,b}` into an anchored regular expression.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = '';
+  let inBraces = false;
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    switch (char) {
+      case '*': {
+        if (glob[i + 1] === '*') {
+          // `**/` matches zero or more directories, a trailing `**` matches everything.
+          if (glob[i + 2] === '/') {
+            source += '(?:.*/)?';
+            i += 2;
+          } else {
+            source += '.*';
+            i += 1;
+          }
+        } else {
+          source += '[^/]*';
+        }
+        break;
+      }
+      case '?': {
+        source += '[^/]';
+        break;
+      }
+      case '{': {
+        inBraces = true;
+        source += '(?:';
+        break;
+      }
+      case '}': {
+        inBraces = false;
+        source += ')';
+        break;
+      }
+      case ',': {
+        source += inBraces ? '|' : ',';
+        break;
+      }
+      default: {
+        source += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+      }
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
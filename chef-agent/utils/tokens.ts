@@ -0,0 +1,21 @@
+// Models whose tokenizers are the same, or close enough to share an estimate.
+export type TokenizerFamily = 'anthropic' | 'openai' | 'google' | 'xai';
+
+// Roughly what an image costs, since its data URL's length says little about its tokens.
+export const IMAGE_TOKEN_ESTIMATE = 1600;
+
+// The average number of characters in a token of chat text and code for each family. The
+// tokenizers themselves are megabytes of data, too much to send to the client for an estimate.
+const CHARACTERS_PER_TOKEN: Record<TokenizerFamily, number> = {
+  anthropic: 3.3,
+  openai: 3.8,
+  google: 3.6,
+  xai: 3.8,
+};
+
+export function countTokens(text: string, family: TokenizerFamily): number {
+  if (text.length === 0) {
+    return 0;
+  }
+  return Math.ceil(text.length / CHARACTERS_PER_TOKEN[family]);
+}
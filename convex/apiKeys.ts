@@ -161,6 +161,136 @@ export const deleteGoogleApiKeyForCurrentMember = mutation({
   },
 });
 
+export const deleteMistralApiKeyForCurrentMember = mutation({
+  args: {},
+  returns: v.null(),
+  handler: async (ctx) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new ConvexError({ code: "NotAuthorized", message: "Unauthorized" });
+    }
+
+    const existingMember = await getMemberByConvexMemberIdQuery(ctx, identity).first();
+
+    if (!existingMember) {
+      throw new ConvexError({ code: "NotAuthorized", message: "Unauthorized" });
+    }
+    if (!existingMember.apiKey) {
+      return;
+    }
+    await ctx.db.patch(existingMember._id, {
+      apiKey: {
+        ...existingMember.apiKey,
+        mistral: undefined,
+      },
+    });
+  },
+});
+
+export const deleteDeepseekApiKeyForCurrentMember = mutation({
+  args: {},
+  returns: v.null(),
+  handler: async (ctx) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new ConvexError({ code: "NotAuthorized", message: "Unauthorized" });
+    }
+
+    const existingMember = await getMemberByConvexMemberIdQuery(ctx, identity).first();
+
+    if (!existingMember) {
+      throw new ConvexError({ code: "NotAuthorized", message: "Unauthorized" });
+    }
+    if (!existingMember.apiKey) {
+      return;
+    }
+    await ctx.db.patch(existingMember._id, {
+      apiKey: {
+        ...existingMember.apiKey,
+        deepseek: undefined,
+      },
+    });
+  },
+});
+
+export const deleteOpenrouterApiKeyForCurrentMember = mutation({
+  args: {},
+  returns: v.null(),
+  handler: async (ctx) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new ConvexError({ code: "NotAuthorized", message: "Unauthorized" });
+    }
+
+    const existingMember = await getMemberByConvexMemberIdQuery(ctx, identity).first();
+
+    if (!existingMember) {
+      throw new ConvexError({ code: "NotAuthorized", message: "Unauthorized" });
+    }
+    if (!existingMember.apiKey) {
+      return;
+    }
+    await ctx.db.patch(existingMember._id, {
+      apiKey: {
+        ...existingMember.apiKey,
+        openrouter: undefined,
+      },
+    });
+  },
+});
+
+export const deleteAzureOpenaiApiKeyForCurrentMember = mutation({
+  args: {},
+  returns: v.null(),
+  handler: async (ctx) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new ConvexError({ code: "NotAuthorized", message: "Unauthorized" });
+    }
+
+    const existingMember = await getMemberByConvexMemberIdQuery(ctx, identity).first();
+
+    if (!existingMember) {
+      throw new ConvexError({ code: "NotAuthorized", message: "Unauthorized" });
+    }
+    if (!existingMember.apiKey) {
+      return;
+    }
+    await ctx.db.patch(existingMember._id, {
+      apiKey: {
+        ...existingMember.apiKey,
+        azure: undefined,
+      },
+    });
+  },
+});
+
+export const deleteLocalModelForCurrentMember = mutation({
+  args: {},
+  returns: v.null(),
+  handler: async (ctx) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new ConvexError({ code: "NotAuthorized", message: "Unauthorized" });
+    }
+
+    const existingMember = await getMemberByConvexMemberIdQuery(ctx, identity).first();
+
+    if (!existingMember) {
+      throw new ConvexError({ code: "NotAuthorized", message: "Unauthorized" });
+    }
+    if (!existingMember.apiKey) {
+      return;
+    }
+    await ctx.db.patch(existingMember._id, {
+      apiKey: {
+        ...existingMember.apiKey,
+        local: undefined,
+      },
+    });
+  },
+});
+
 export const validateAnthropicApiKey = action({
   args: {
     apiKey: v.string(),
@@ -252,3 +382,101 @@ export const validateXaiApiKey = action({
     return true;
   },
 });
+
+export const validateMistralApiKey = action({
+  args: {
+    apiKey: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new ConvexError({ code: "NotAuthorized", message: "Unauthorized" });
+    }
+
+    const response = await fetch("https://api.mistral.ai/v1/models", {
+      headers: {
+        Authorization: `Bearer ${args.apiKey}`,
+      },
+    });
+    if (response.status === 401) {
+      return false;
+    }
+    return true;
+  },
+});
+
+export const validateDeepseekApiKey = action({
+  args: {
+    apiKey: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new ConvexError({ code: "NotAuthorized", message: "Unauthorized" });
+    }
+
+    const response = await fetch("https://api.deepseek.com/models", {
+      headers: {
+        Authorization: `Bearer ${args.apiKey}`,
+      },
+    });
+    if (response.status === 401) {
+      return false;
+    }
+    return true;
+  },
+});
+
+export const validateOpenrouterApiKey = action({
+  args: {
+    apiKey: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new ConvexError({ code: "NotAuthorized", message: "Unauthorized" });
+    }
+
+    // Listing models doesn't need a key, but looking up the key does.
+    const response = await fetch("https://openrouter.ai/api/v1/key", {
+      headers: {
+        Authorization: `Bearer ${args.apiKey}`,
+      },
+    });
+    if (response.status === 401) {
+      return false;
+    }
+    return true;
+  },
+});
+
+export const validateAzureOpenaiApiKey = action({
+  args: {
+    apiKey: v.string(),
+    resourceName: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new ConvexError({ code: "NotAuthorized", message: "Unauthorized" });
+    }
+    if (!isAzureResourceName(args.resourceName)) {
+      return false;
+    }
+
+    const response = await fetch(`https://${args.resourceName}.openai.azure.com/openai/v1/models`, {
+      headers: {
+        "api-key": args.apiKey,
+      },
+    });
+    if (response.status === 401 || response.status === 404) {
+      return false;
+    }
+    return true;
+  },
+});
+
+// Azure resource names are subdomains, so anything else would send the key to another host.
+function isAzureResourceName(resourceName: string) {
+  return /^[a-z0-9][a-z0-9-]{1,62}$/i.test(resourceName);
+}
@@ -3,7 +3,7 @@ import { v } from "convex/values";
 import type { MutationCtx, QueryCtx } from "./_generated/server";
 import { assertIsConvexAdmin } from "./admin";
 import type { Id } from "./_generated/dataModel";
-import { usageRecordValidator } from "./schema";
+import { promptCharacterCountsValidator, relevantFilesValidator, usageRecordValidator } from "./schema";
 
 async function getChatByInitialId(ctx: QueryCtx, initialId: string) {
   const chatByInitialId = await ctx.db
@@ -25,6 +25,8 @@ export const storeDebugPrompt = internalMutation({
     modelId: v.optional(v.string()),
     usage: usageRecordValidator,
     chefTokens: v.number(),
+    promptCharacterCounts: v.optional(promptCharacterCountsValidator),
+    relevantFiles: v.optional(relevantFilesValidator),
   },
   handler: async (ctx, args) => {
     const {
@@ -35,6 +37,8 @@ export const storeDebugPrompt = internalMutation({
       modelId,
       usage,
       chefTokens,
+      promptCharacterCounts,
+      relevantFiles,
     } = args;
     const chat = await getChatByInitialId(ctx, chatInitialId);
     await ctx.db.insert("debugChatApiRequestLog", {
@@ -46,6 +50,8 @@ export const storeDebugPrompt = internalMutation({
       modelId: modelId ?? "",
       usage,
       chefTokens,
+      promptCharacterCounts,
+      relevantFiles,
     });
   },
 });
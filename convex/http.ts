@@ -153,6 +153,16 @@ httpWithCors.route({
         message: firstMessage,
       });
     }
+    // The client collapsed older messages, so fold them into the chat's history summary.
+    const collapsedMessageIndex = formData.get("collapsedMessageIndex");
+    if (collapsedMessageIndex !== null && messageStorageId !== null) {
+      await ctx.scheduler.runAfter(0, internal.summarize.updateHistorySummary, {
+        sessionId: sessionId as Id<"sessions">,
+        chatId: chatId!,
+        subchatIndex: parseInt(lastSubchatIndex ?? "0"),
+        messageIndex: parseInt(collapsedMessageIndex as string),
+      });
+    }
     return new Response(null, {
       status: 200,
     });
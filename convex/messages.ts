@@ -333,6 +333,7 @@ export const updateStorageState = internalMutation({
       // Should we be using null here to distinguish between not having a snapshot and records written before we also recorded snapshots here?
       snapshotId: snapshotId ?? previous.snapshotId,
       description: previous.description,
+      historySummary: previous.historySummary,
     });
     if (previous.description === undefined) {
       return id;
@@ -3,6 +3,29 @@ import { v } from "convex/values";
 import type { Infer, Validator } from "convex/values";
 import type { CoreMessage } from "ai";
 
+// A self-hosted model with an OpenAI-compatible API, like Ollama, vLLM or LM Studio.
+export const localModelValidator = v.object({
+  // The API's base URL, like `http://localhost:11434/v1`.
+  baseUrl: v.string(),
+  model: v.string(),
+  apiKey: v.optional(v.string()),
+  maxTokens: v.optional(v.number()),
+  // Models that can't call tools can write files, but can't deploy or inspect the app.
+  supportsTools: v.boolean(),
+  supportsImages: v.boolean(),
+});
+
+export type LocalModel = Infer<typeof localModelValidator>;
+
+// A model deployed to an Azure OpenAI resource, at `https://<resourceName>.openai.azure.com`.
+export const azureOpenAIValidator = v.object({
+  apiKey: v.string(),
+  resourceName: v.string(),
+  deployment: v.string(),
+});
+
+export type AzureOpenAI = Infer<typeof azureOpenAIValidator>;
+
 export const apiKeyValidator = v.object({
   preference: v.union(v.literal("always"), v.literal("quotaExhausted")),
   // NB: This is the *Anthropic* API key.
@@ -10,8 +33,15 @@ export const apiKeyValidator = v.object({
   openai: v.optional(v.string()),
   xai: v.optional(v.string()),
   google: v.optional(v.string()),
+  mistral: v.optional(v.string()),
+  deepseek: v.optional(v.string()),
+  openrouter: v.optional(v.string()),
+  azure: v.optional(azureOpenAIValidator),
+  local: v.optional(localModelValidator),
 });
 
+export type ApiKey = Infer<typeof apiKeyValidator>;
+
 // A stable-enough way to store token usage.
 export const usageRecordValidator = v.object({
   completionTokens: v.number(),
@@ -22,6 +52,27 @@ export const usageRecordValidator = v.object({
 
 export type UsageRecord = Infer<typeof usageRecordValidator>;
 
+// Our estimate of the prompt's size from the client, to compare with the usage the provider reports.
+export const promptCharacterCountsValidator = v.object({
+  messageHistoryChars: v.number(),
+  currentTurnChars: v.number(),
+  totalPromptChars: v.number(),
+  messageHistoryTokens: v.number(),
+  currentTurnTokens: v.number(),
+  totalPromptTokens: v.number(),
+});
+
+// An LLM-written summary of the chat history the agent no longer sees, covering the messages before `messageIndex`.
+export const historySummaryValidator = v.object({
+  summary: v.string(),
+  messageIndex: v.number(),
+});
+
+export type HistorySummary = Infer<typeof historySummaryValidator>;
+
+// The files the client sent as relevant files with the user's message, and why it picked each one.
+export const relevantFilesValidator = v.array(v.object({ path: v.string(), reason: v.string() }));
+
 export default defineSchema({
   /*
    * We create a session (if it does not exist) and store the ID in local storage.
@@ -124,6 +175,7 @@ export default defineSchema({
     description: v.optional(v.string()),
     partIndex: v.number(),
     snapshotId: v.optional(v.id("_storage")),
+    historySummary: v.optional(historySummaryValidator),
   })
     .index("byChatId", ["chatId", "subchatIndex", "lastMessageRank", "partIndex"])
     .index("byStorageId", ["storageId"])
@@ -224,6 +276,8 @@ export default defineSchema({
     //   but this debug info uses the correct provider for each call
     usage: usageRecordValidator,
     chefTokens: v.number(),
+    promptCharacterCounts: v.optional(promptCharacterCountsValidator),
+    relevantFiles: v.optional(relevantFilesValidator),
   })
     .index("byChatId", ["chatId"])
     .index("byStorageId", ["promptCoreMessagesStorageId"]),
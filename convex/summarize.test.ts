@@ -0,0 +1,38 @@
+import { expect, test } from "vitest";
+import type { SerializedMessage } from "./messages";
+import { historyTranscript } from "./summarize";
+
+test("historyTranscript describes the messages for the summarizer", () => {
+  const messages: SerializedMessage[] = [
+    {
+      id: "1",
+      role: "user",
+      parts: [{ type: "text", text: "Build a todo app with due dates" }],
+      createdAt: undefined,
+    },
+    {
+      id: "2",
+      role: "assistant",
+      parts: [
+        {
+          type: "text",
+          text: 'Sure!<boltArtifact id="todos" title="Todos"><boltAction type="file" filePath="convex/todos.ts">export {};</boltAction></boltArtifact>',
+        },
+        {
+          type: "tool-invocation",
+          toolInvocation: {
+            state: "result",
+            toolCallId: "call_1",
+            toolName: "deploy",
+            args: {},
+            result: "Error: failed",
+          },
+        },
+      ],
+      createdAt: undefined,
+    },
+  ];
+  expect(historyTranscript(messages)).toBe(
+    "User:\nBuild a todo app with due dates\n\nAssistant:\nSure!\nThe assistant wrote the file convex/todos.ts.\nThe assistant used the deploy tool and got an error.",
+  );
+});
@@ -1,7 +1,15 @@
 import { v } from "convex/values";
-import { internalAction, internalMutation } from "./_generated/server";
+import { internalAction, internalMutation, internalQuery, query } from "./_generated/server";
 import { OpenAI } from "openai";
 import { internal } from "./_generated/api";
+import {
+  CHAT_NOT_FOUND_ERROR,
+  getChatByIdOrUrlIdEnsuringAccess,
+  getLatestChatMessageStorageState,
+  type SerializedMessage,
+} from "./messages";
+import { decompressMessages } from "./compressMessages";
+import { historySummaryValidator, type HistorySummary } from "./schema";
 
 const SUMMARIZE_SYSTEM_PROMPT = `You are a helpful assistant that given a users' prompt, summarizes it into 5 words
 or less. These summaries should be a short description of the feature/bug a user is trying to work on.
@@ -55,3 +63,181 @@ export const saveMessageSummary = internalMutation({
     });
   },
 });
+
+const HISTORY_SUMMARY_SYSTEM_PROMPT = `You maintain a running summary of a conversation between a user and an AI
+agent that is building a web app with Convex. The oldest messages of the conversation are dropped to fit the agent's
+context window, and your summary is all the agent will know about them.
+
+You are given the current summary, which may be empty, and a transcript of the messages that were just dropped.
+Write an updated summary that merges the two, with these sections:
+
+## Requirements
+What the user asked for, including specific details like names, fields, styling and behavior. Keep the user's own
+wording for anything precise, and note when a later request changed or replaced an earlier one.
+## Decisions
+Choices the user or the agent made about the app's design, data model and libraries, and why if it was stated.
+## Files
+The files the agent created or changed, with a few words on what each is for.
+## Open TODOs
+Requests that weren't finished, errors that weren't fixed, and anything the agent said it would do next.
+
+Be concise: use short bullet points, drop small talk and resolved back-and-forth, and keep the whole summary under
+800 words. Respond with only the summary.`;
+
+// Keep the summarizer's input to a reasonable size if a lot of history is dropped at once.
+const MAX_TRANSCRIPT_CHARS = 100_000;
+
+export const historySummary = query({
+  args: { sessionId: v.id("sessions"), chatId: v.string(), subchatIndex: v.number() },
+  handler: async (ctx, args): Promise<HistorySummary | null> => {
+    const chat = await getChatByIdOrUrlIdEnsuringAccess(ctx, { id: args.chatId, sessionId: args.sessionId });
+    // New chats aren't saved until their first message.
+    if (!chat) {
+      return null;
+    }
+    const storageState = await getLatestChatMessageStorageState(ctx, {
+      _id: chat._id,
+      subchatIndex: args.subchatIndex,
+    });
+    return storageState?.historySummary ?? null;
+  },
+});
+
+export const latestStoredMessages = internalQuery({
+  args: { sessionId: v.id("sessions"), chatId: v.string(), subchatIndex: v.number() },
+  handler: async (ctx, args) => {
+    const chat = await getChatByIdOrUrlIdEnsuringAccess(ctx, { id: args.chatId, sessionId: args.sessionId });
+    if (!chat) {
+      return null;
+    }
+    const storageState = await getLatestChatMessageStorageState(ctx, {
+      _id: chat._id,
+      subchatIndex: args.subchatIndex,
+    });
+    if (!storageState?.storageId) {
+      return null;
+    }
+    return { storageId: storageState.storageId, historySummary: storageState.historySummary ?? null };
+  },
+});
+
+/**
+ * Fold the stored messages from where the current summary ends up to `messageIndex`, which the
+ * client collapsed, into the summary. Scheduled when the client saves the chat.
+ */
+export const updateHistorySummary = internalAction({
+  args: {
+    sessionId: v.id("sessions"),
+    chatId: v.string(),
+    subchatIndex: v.number(),
+    messageIndex: v.number(),
+  },
+  handler: async (ctx, args): Promise<void> => {
+    const { sessionId, chatId, subchatIndex, messageIndex } = args;
+    const stored = await ctx.runQuery(internal.summarize.latestStoredMessages, { sessionId, chatId, subchatIndex });
+    if (!stored) {
+      return;
+    }
+    const previousMessageIndex = stored.historySummary?.messageIndex ?? 0;
+    if (messageIndex <= previousMessageIndex) {
+      return;
+    }
+    const blob = await ctx.storage.get(stored.storageId);
+    if (!blob) {
+      return;
+    }
+    const messages: SerializedMessage[] = await decompressMessages(new Response(blob));
+    if (messages.length < messageIndex) {
+      console.warn(`Can't summarize up to message ${messageIndex} with ${messages.length} messages stored`);
+      return;
+    }
+    let transcript = historyTranscript(messages.slice(previousMessageIndex, messageIndex));
+    if (transcript.length > MAX_TRANSCRIPT_CHARS) {
+      transcript = transcript.slice(0, MAX_TRANSCRIPT_CHARS) + "\n[transcript truncated]";
+    }
+    const openai = new OpenAI({
+      apiKey: process.env.OPENAI_API_KEY,
+    });
+    const response = await openai.chat.completions.create({
+      model: "gpt-4o-mini",
+      messages: [
+        {
+          role: "system",
+          content: HISTORY_SUMMARY_SYSTEM_PROMPT,
+        },
+        {
+          role: "user",
+          content: `<current_summary>\n${stored.historySummary?.summary ?? ""}\n</current_summary>\n\n<dropped_messages>\n${transcript}\n</dropped_messages>`,
+        },
+      ],
+    });
+    if (!response.choices[0].message.content) {
+      throw new Error("Failed to summarize chat history");
+    }
+    await ctx.runMutation(internal.summarize.saveHistorySummary, {
+      sessionId,
+      chatId,
+      subchatIndex,
+      historySummary: { summary: response.choices[0].message.content, messageIndex },
+    });
+  },
+});
+
+/**
+ * A plain-text transcript of messages for the summarizer: what the user and the agent said, the
+ * files the agent wrote and the tools it used.
+ */
+export function historyTranscript(messages: SerializedMessage[]): string {
+  return messages
+    .map((message) => {
+      const lines = [message.role === "user" ? "User:" : "Assistant:"];
+      for (const part of message.parts ?? []) {
+        if (part.type === "text") {
+          const text = part.text.replace(/<boltArtifact[\s\S]*?(<\/boltArtifact>|$)/g, "").trim();
+          if (text) {
+            lines.push(text);
+          }
+          if (message.role === "assistant") {
+            for (const match of part.text.matchAll(/<boltAction type="file" filePath="([^"]+)"/g)) {
+              lines.push(`The assistant wrote the file ${match[1]}.`);
+            }
+          }
+        } else if (part.type === "tool-invocation" && part.toolInvocation.state === "result") {
+          const failed = part.toolInvocation.result.startsWith("Error:");
+          lines.push(
+            `The assistant used the ${part.toolInvocation.toolName} tool ${failed ? "and got an error" : "successfully"}.`,
+          );
+        }
+      }
+      return lines.join("\n");
+    })
+    .join("\n\n");
+}
+
+export const saveHistorySummary = internalMutation({
+  args: {
+    sessionId: v.id("sessions"),
+    chatId: v.string(),
+    subchatIndex: v.number(),
+    historySummary: historySummaryValidator,
+  },
+  handler: async (ctx, args) => {
+    const chat = await getChatByIdOrUrlIdEnsuringAccess(ctx, { id: args.chatId, sessionId: args.sessionId });
+    if (!chat) {
+      throw CHAT_NOT_FOUND_ERROR;
+    }
+    // Save to the latest storage state, since new ones copy the summary from the one before them.
+    const storageState = await getLatestChatMessageStorageState(ctx, {
+      _id: chat._id,
+      subchatIndex: args.subchatIndex,
+    });
+    if (!storageState) {
+      return;
+    }
+    if ((storageState.historySummary?.messageIndex ?? 0) >= args.historySummary.messageIndex) {
+      console.warn(`Stale history summary update up to message ${args.historySummary.messageIndex}, ignoring`);
+      return;
+    }
+    await ctx.db.patch(storageState._id, { historySummary: args.historySummary });
+  },
+});
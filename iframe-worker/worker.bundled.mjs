@@ -808,6 +808,212 @@ async function respondToMessage(message) {
     const imageData = await toPng(document.body);
     message.source.postMessage({ type: "screenshot", data: imageData }, message.origin);
   }
+  if (message.data.request === "subscribeErrors") {
+    subscribeToErrors(message.source, message.origin);
+  }
+  if (message.data.request === "startElementPicker") {
+    startElementPicker(message.source, message.origin);
+  }
+  if (message.data.request === "stopElementPicker") {
+    stopElementPicker?.();
+  }
+}
+var errorTarget = null;
+function subscribeToErrors(source, origin) {
+  const alreadySubscribed = errorTarget !== null;
+  errorTarget = { source, origin };
+  if (alreadySubscribed) {
+    return;
+  }
+  if (window.__chefPreviewErrors) {
+    window.__chefPreviewErrors.forEach(forwardError);
+    window.__chefPreviewErrorListener = forwardError;
+    return;
+  }
+  const originalConsoleError = console.error;
+  console.error = (...args) => {
+    originalConsoleError.apply(console, args);
+    forwardError({ kind: "console", args, timestamp: Date.now() });
+  };
+  window.addEventListener("error", (event) => {
+    forwardError({ kind: "error", message: event.message, error: event.error, timestamp: Date.now() });
+  });
+  window.addEventListener("unhandledrejection", (event) => {
+    forwardError({ kind: "unhandledrejection", reason: event.reason, timestamp: Date.now() });
+  });
+}
+function forwardError(error) {
+  if (!errorTarget) {
+    return;
+  }
+  let message;
+  let stack;
+  switch (error.kind) {
+    case "console": {
+      const exception = error.args.find((arg) => arg instanceof Error);
+      if (!exception) {
+        return;
+      }
+      message = error.args.map(formatValue).join(" ");
+      stack = exception.stack;
+      break;
+    }
+    case "error": {
+      message = error.message;
+      stack = error.error instanceof Error ? error.error.stack : void 0;
+      break;
+    }
+    case "unhandledrejection": {
+      message = `Unhandled promise rejection: ${formatValue(error.reason)}`;
+      stack = error.reason instanceof Error ? error.reason.stack : void 0;
+      break;
+    }
+  }
+  errorTarget.source.postMessage(
+    { type: "previewError", data: { kind: error.kind, message, stack, timestamp: error.timestamp } },
+    errorTarget.origin
+  );
+}
+function formatValue(value) {
+  if (value instanceof Error) {
+    return `${value.name}: ${value.message}`;
+  }
+  if (typeof value === "string") {
+    return value;
+  }
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value);
+  }
+}
+var PICKED_STYLE_PROPERTIES = [
+  "display",
+  "position",
+  "width",
+  "height",
+  "margin",
+  "padding",
+  "color",
+  "background-color",
+  "font-family",
+  "font-size",
+  "font-weight",
+  "border",
+  "border-radius",
+  "gap",
+  "flex-direction",
+  "justify-content",
+  "align-items"
+];
+var MAX_PICKED_HTML_LENGTH = 2e3;
+var stopElementPicker = null;
+function startElementPicker(source, origin) {
+  stopElementPicker?.();
+  const overlay = document.createElement("div");
+  overlay.style.cssText = "position: fixed; pointer-events: none; z-index: 2147483647; border: 2px solid #3b82f6; background: rgba(59, 130, 246, 0.15); border-radius: 2px; display: none;";
+  document.documentElement.appendChild(overlay);
+  const previousCursor = document.documentElement.style.cursor;
+  document.documentElement.style.cursor = "crosshair";
+  const onMouseMove = (event) => {
+    const target = event.target;
+    if (!(target instanceof Element)) {
+      return;
+    }
+    const rect = target.getBoundingClientRect();
+    overlay.style.display = "block";
+    overlay.style.left = `${rect.left}px`;
+    overlay.style.top = `${rect.top}px`;
+    overlay.style.width = `${rect.width}px`;
+    overlay.style.height = `${rect.height}px`;
+  };
+  const swallow = (event) => {
+    event.preventDefault();
+    event.stopPropagation();
+  };
+  const onClick = (event) => {
+    swallow(event);
+    if (!(event.target instanceof Element)) {
+      return;
+    }
+    const element = describeElement(event.target);
+    cleanup();
+    source.postMessage({ type: "elementPicked", data: element }, origin);
+  };
+  const onKeyDown = (event) => {
+    if (event.key === "Escape") {
+      swallow(event);
+      cancel();
+    }
+  };
+  const cleanup = () => {
+    document.removeEventListener("mousemove", onMouseMove, true);
+    document.removeEventListener("mousedown", swallow, true);
+    document.removeEventListener("mouseup", swallow, true);
+    document.removeEventListener("click", onClick, true);
+    document.removeEventListener("keydown", onKeyDown, true);
+    overlay.remove();
+    document.documentElement.style.cursor = previousCursor;
+    stopElementPicker = null;
+  };
+  const cancel = () => {
+    cleanup();
+    source.postMessage({ type: "elementPicked", data: null }, origin);
+  };
+  document.addEventListener("mousemove", onMouseMove, true);
+  document.addEventListener("mousedown", swallow, true);
+  document.addEventListener("mouseup", swallow, true);
+  document.addEventListener("click", onClick, true);
+  document.addEventListener("keydown", onKeyDown, true);
+  stopElementPicker = cancel;
+}
+function describeElement(element) {
+  const computed = window.getComputedStyle(element);
+  const styles = {};
+  for (const property of PICKED_STYLE_PROPERTIES) {
+    styles[property] = computed.getPropertyValue(property);
+  }
+  const rect = element.getBoundingClientRect();
+  let html = element.outerHTML;
+  if (html.length > MAX_PICKED_HTML_LENGTH) {
+    html = `${html.slice(0, MAX_PICKED_HTML_LENGTH)}...`;
+  }
+  return {
+    selector: cssSelector(element),
+    html,
+    styles,
+    boundingBox: {
+      x: Math.round(rect.x),
+      y: Math.round(rect.y),
+      width: Math.round(rect.width),
+      height: Math.round(rect.height)
+    }
+  };
+}
+function cssSelector(element) {
+  const parts = [];
+  let current = element;
+  while (current && current !== document.body && current !== document.documentElement) {
+    if (current.id) {
+      parts.unshift(`#${CSS.escape(current.id)}`);
+      break;
+    }
+    let part = current.tagName.toLowerCase();
+    const classes = Array.from(current.classList).slice(0, 3);
+    if (classes.length > 0) {
+      part += classes.map((c) => `.${CSS.escape(c)}`).join("");
+    }
+    const parent = current.parentElement;
+    if (parent) {
+      const sameTag = Array.from(parent.children).filter((child) => child.tagName === current.tagName);
+      if (sameTag.length > 1) {
+        part += `:nth-of-type(${sameTag.indexOf(current) + 1})`;
+      }
+    }
+    parts.unshift(part);
+    current = parent;
+  }
+  return parts.join(" > ");
 }
 export {
   respondToMessage
@@ -12,6 +12,37 @@ export default defineConfig(({ mode }) => ({
     mode === "development"
       ? {
           name: "inject-chef-dev",
+          transformIndexHtml() {
+            // Record errors from before the app loads so Chef can show them once it asks for them.
+            return [
+              {
+                tag: "script",
+                injectTo: "head-prepend",
+                children: `
+/* Added by Vite plugin inject-chef-dev */
+(() => {
+  const errors = (window.__chefPreviewErrors = []);
+  const record = (error) => {
+    errors.push({ ...error, timestamp: Date.now() });
+    if (errors.length > 50) errors.shift();
+    window.__chefPreviewErrorListener?.(errors[errors.length - 1]);
+  };
+  const consoleError = console.error;
+  console.error = (...args) => {
+    consoleError.apply(console, args);
+    record({ kind: "console", args });
+  };
+  window.addEventListener("error", (event) =>
+    record({ kind: "error", message: event.message, error: event.error }),
+  );
+  window.addEventListener("unhandledrejection", (event) =>
+    record({ kind: "unhandledrejection", reason: event.reason }),
+  );
+})();
+            `,
+              },
+            ];
+          },
           transform(code: string, id: string) {
             if (id.includes("main.tsx")) {
               return {
@@ -2,12 +2,12 @@ import { CoreMessage, generateText, LanguageModelUsage } from 'ai';
 import * as walkdir from 'walkdir';
 import { path } from 'chef-agent/utils/path';
 import { ChefResult, ChefModel } from './types';
-import { copyFileSync, mkdirSync, readFileSync, statSync, writeFileSync } from 'fs';
+import { copyFileSync, existsSync, mkdirSync, readFileSync, renameSync, rmSync, statSync, writeFileSync } from 'fs';
 import { execFileSync } from 'child_process';
 import { ChatContextManager } from 'chef-agent/ChatContextManager';
 import { UIMessage } from 'ai';
-import { deploy, npmInstall, runTypecheck } from './convexBackend';
-import { StreamingMessageParser } from 'chef-agent/message-parser';
+import { deploy, inspectDeploymentData, npmInstall, readLogs, runFunction, runTypecheck } from './convexBackend';
+import { StreamingMessageParser, formatParserDiagnostics, type ParserDiagnostic } from 'chef-agent/message-parser';
 import { withConvexBackend } from './convexBackend';
 import { initializeConvexAuth } from 'chef-agent/convexAuth';
 import { deployTool } from 'chef-agent/tools/deploy';
@@ -28,6 +28,17 @@ import { renderFile } from 'chef-agent/utils/renderFile';
 import { renderDirectory } from 'chef-agent/utils/renderDirectory';
 import { viewParameters } from 'chef-agent/tools/view';
 import { lookupDocsParameters, docs, type DocKey } from 'chef-agent/tools/lookupDocs';
+import { searchTool, searchParameters } from 'chef-agent/tools/search';
+import { SEARCH_IGNORED_DIRECTORIES, searchFiles } from 'chef-agent/utils/search';
+import { patchTool, patchToolParameters } from 'chef-agent/tools/patch';
+import { applyPatch, renderPatchedFiles } from 'chef-agent/utils/patch';
+import { runConvexFunctionTool, runConvexFunctionToolParameters } from 'chef-agent/tools/runConvexFunction';
+import { readLogsTool, readLogsToolParameters } from 'chef-agent/tools/readLogs';
+import { inspectDataTool, inspectDataToolParameters } from 'chef-agent/tools/inspectData';
+import { writeFileTool } from 'chef-agent/tools/writeFile';
+import { deleteFileTool } from 'chef-agent/tools/deleteFile';
+import { renameFileTool } from 'chef-agent/tools/renameFile';
+import type { TokenizerFamily } from 'chef-agent/utils/tokens';
 
 const MAX_STEPS = 32;
 const MAX_DEPLOYS = 10;
@@ -64,10 +75,15 @@ export async function chefTask(model: ChefModel, outputDir: string, userMessage:
       () => undefined,
       () => ({}),
       () => new Map(),
+      () => tokenizerFamily(model.name),
     );
 
+    let parserDiagnostics: ParserDiagnostic[] = [];
     const messageParser = new StreamingMessageParser({
       callbacks: {
+        onDiagnostic: (diagnostic) => {
+          parserDiagnostics.push(diagnostic);
+        },
         onActionClose: (data) => {
           if (data.action.type === 'file' && !IGNORED_FILENAMES.includes(data.action.filePath)) {
             const filePath = path.join(repoDir, data.action.filePath);
@@ -75,6 +91,32 @@ export async function chefTask(model: ChefModel, outputDir: string, userMessage:
             mkdirSync(path.dirname(filePath), { recursive: true });
             writeFileSync(filePath, data.action.content);
           }
+          if (data.action.type === 'delete' && !IGNORED_FILENAMES.includes(data.action.filePath)) {
+            const filePath = pathInRepo(repoDir, data.action.filePath);
+            if (filePath) {
+              logger.info(`Deleting ${filePath}`);
+              rmSync(filePath, { recursive: true, force: true });
+            } else {
+              logger.warn(`Can't delete ${data.action.filePath} because it isn't inside the repo`);
+            }
+          }
+          if (
+            data.action.type === 'rename' &&
+            !IGNORED_FILENAMES.includes(data.action.filePath) &&
+            !IGNORED_FILENAMES.includes(data.action.newFilePath)
+          ) {
+            const filePath = pathInRepo(repoDir, data.action.filePath);
+            const newFilePath = pathInRepo(repoDir, data.action.newFilePath);
+            if (!filePath || !newFilePath) {
+              logger.warn(`Can't move ${data.action.filePath} to ${data.action.newFilePath} outside the repo`);
+            } else if (existsSync(filePath)) {
+              logger.info(`Moving ${filePath} to ${newFilePath}`);
+              mkdirSync(path.dirname(newFilePath), { recursive: true });
+              renameSync(filePath, newFilePath);
+            } else {
+              logger.warn(`Can't move ${filePath} because it doesn't exist`);
+            }
+          }
         },
       },
     });
@@ -100,6 +142,7 @@ export async function chefTask(model: ChefModel, outputDir: string, userMessage:
       includeTemplate: true,
       usingOpenAi: model.name.startsWith('gpt-'),
       usingGoogle: model.name.startsWith('gemini-'),
+      fileWriteMode: model.name.startsWith('gpt-') || model.name.startsWith('gemini-') ? 'toolCall' : 'artifact',
 
       // TODO: We need to set up a Convex deployment running the `chef`
       // app to setup the OpenAI and Resend proxies + manage their tokens.
@@ -138,12 +181,12 @@ export async function chefTask(model: ChefModel, outputDir: string, userMessage:
       if (assistantMessage.parts.length > 0) {
         messages.push(assistantMessage);
       }
-      const minCollapsedMessagesSize = 8192;
-      const maxCollapsedMessagesSize = 65536;
+      const minCollapsedMessagesTokens = 2048;
+      const maxCollapsedMessagesTokens = 16384;
       const { messages: context } = contextManager.prepareContext(
         messages,
-        maxCollapsedMessagesSize,
-        minCollapsedMessagesSize,
+        maxCollapsedMessagesTokens,
+        minCollapsedMessagesTokens,
       );
       const start = performance.now();
       logger.info('Generating...');
@@ -156,7 +199,7 @@ export async function chefTask(model: ChefModel, outputDir: string, userMessage:
           text: response.text,
         });
       }
-      const parsed = messageParser.parse(partId, response.text);
+      const parsed = messageParser.end(partId, response.text);
       logger.info(
         `Time taken: ${performance.now() - start}ms\nUsage: ${JSON.stringify(response.usage)}\nMessage: ${parsed}`,
       );
@@ -213,6 +256,30 @@ export async function chefTask(model: ChefModel, outputDir: string, userMessage:
               toolCallResult = `Successfully edited ${args.path}`;
               break;
             }
+            case 'writeFile': {
+              const fileAction = messageParser.parseToolInvocation(partId, { ...toolCall, state: 'call' });
+              if (!fileAction) {
+                throw new Error(`Invalid writeFile arguments: ${JSON.stringify(toolCall.args)}`);
+              }
+              toolCallResult = `Successfully wrote ${fileAction.filePath}`;
+              break;
+            }
+            case 'deleteFile': {
+              const deleteAction = messageParser.parseToolInvocation(partId, { ...toolCall, state: 'call' });
+              if (!deleteAction) {
+                throw new Error(`Invalid deleteFile arguments: ${JSON.stringify(toolCall.args)}`);
+              }
+              toolCallResult = `Successfully deleted ${deleteAction.filePath}`;
+              break;
+            }
+            case 'renameFile': {
+              const renameAction = messageParser.parseToolInvocation(partId, { ...toolCall, state: 'call' });
+              if (!renameAction || renameAction.type !== 'rename') {
+                throw new Error(`Invalid renameFile arguments: ${JSON.stringify(toolCall.args)}`);
+              }
+              toolCallResult = `Successfully moved ${renameAction.filePath} to ${renameAction.newFilePath}`;
+              break;
+            }
             case 'view': {
               const args = viewParameters.parse(toolCall.args);
               const filePath = path.join(repoDir, cleanFilePath(args.path));
@@ -239,6 +306,37 @@ export async function chefTask(model: ChefModel, outputDir: string, userMessage:
               }
               break;
             }
+            case 'patch': {
+              const args = patchToolParameters.parse(toolCall.args);
+              const patchedFiles = await applyPatch(args, async (relPath) => {
+                const filePath = path.join(repoDir, relPath);
+                return existsSync(filePath) ? readFileSync(filePath, 'utf8') : null;
+              });
+              for (const file of patchedFiles) {
+                const filePath = path.join(repoDir, file.path);
+                mkdirSync(path.dirname(filePath), { recursive: true });
+                writeFileSync(filePath, file.newContent);
+              }
+              toolCallResult = renderPatchedFiles(patchedFiles);
+              break;
+            }
+            case 'search': {
+              const args = searchParameters.parse(toolCall.args);
+              const searchDir = path.join(repoDir, cleanFilePath(args.path ?? '/'));
+              const filePaths = walkdir.sync(searchDir, {
+                filter: (directory, files) => {
+                  return files.filter((file) => !SEARCH_IGNORED_DIRECTORIES.includes(file));
+                },
+              });
+              const files = filePaths
+                .filter((filePath) => statSync(filePath).isFile())
+                .map((filePath) => ({
+                  path: path.relative(repoDir, filePath),
+                  content: readFileSync(filePath, 'utf8'),
+                }));
+              toolCallResult = searchFiles(files, args);
+              break;
+            }
             case 'lookupDocs': {
               const args = lookupDocsParameters.parse(toolCall.args);
               const docsToLookup = args.docs;
@@ -288,6 +386,21 @@ export async function chefTask(model: ChefModel, outputDir: string, userMessage:
               toolCallResult = backend.project.deploymentName;
               break;
             }
+            case 'runConvexFunction': {
+              const args = runConvexFunctionToolParameters.parse(toolCall.args);
+              toolCallResult = await runFunction(backend, args.functionName, args.args);
+              break;
+            }
+            case 'readLogs': {
+              const args = readLogsToolParameters.parse(toolCall.args);
+              toolCallResult = await readLogs(backend, args);
+              break;
+            }
+            case 'inspectData': {
+              const args = inspectDataToolParameters.parse(toolCall.args);
+              toolCallResult = await inspectDeploymentData(backend, args);
+              break;
+            }
             default:
               throw new Error(`Unknown tool call: ${JSON.stringify(toolCall)}`);
           }
@@ -299,6 +412,10 @@ export async function chefTask(model: ChefModel, outputDir: string, userMessage:
           }
           toolCallResult = message;
         }
+        if (toolCall.toolName === 'deploy' && parserDiagnostics.length > 0) {
+          toolCallResult += formatParserDiagnostics(parserDiagnostics);
+          parserDiagnostics = [];
+        }
         assistantMessage.parts.push({
           type: 'tool-invocation',
           toolInvocation: {
@@ -390,6 +507,24 @@ const installDependencies = wrapTraced(async function installDependencies(repoDi
 async function invokeGenerateText(model: ChefModel, opts: SystemPromptOptions, context: UIMessage[]) {
   return traced(
     async (span) => {
+      const tools: ConvexToolSet = {
+        deploy: deployTool,
+        npmInstall: npmInstallTool,
+        lookupDocs: lookupDocsTool(),
+        getConvexDeploymentName: getConvexDeploymentNameTool,
+      };
+      tools.view = viewTool;
+      tools.edit = editTool;
+      tools.search = searchTool;
+      tools.patch = patchTool;
+      tools.runConvexFunction = runConvexFunctionTool;
+      tools.readLogs = readLogsTool;
+      tools.inspectData = inspectDataTool;
+      if (opts.fileWriteMode === 'toolCall') {
+        tools.writeFile = writeFileTool;
+        tools.deleteFile = deleteFileTool;
+        tools.renameFile = renameFileTool;
+      }
       const messages: CoreMessage[] = [
         {
           role: 'system',
@@ -399,17 +534,9 @@ async function invokeGenerateText(model: ChefModel, opts: SystemPromptOptions, c
           role: 'system',
           content: generalSystemPrompt(opts),
         },
-        ...cleanupAssistantMessages(context),
+        ...cleanupAssistantMessages(context, tools),
       ];
       try {
-        const tools: ConvexToolSet = {
-          deploy: deployTool,
-          npmInstall: npmInstallTool,
-          lookupDocs: lookupDocsTool(),
-          getConvexDeploymentName: getConvexDeploymentNameTool,
-        };
-        tools.view = viewTool;
-        tools.edit = editTool;
         const result = await generateText({
           model: model.ai,
           maxTokens: model.maxTokens,
@@ -447,6 +574,30 @@ async function invokeGenerateText(model: ChefModel, opts: SystemPromptOptions, c
   );
 }
 
+function tokenizerFamily(modelName: string): TokenizerFamily {
+  if (modelName.startsWith('gpt-')) {
+    return 'openai';
+  }
+  if (modelName.startsWith('gemini-')) {
+    return 'google';
+  }
+  if (modelName.startsWith('grok-')) {
+    return 'xai';
+  }
+  return 'anthropic';
+}
+
 function cleanFilePath(filePath: string) {
   return filePath.replace('/home/project/', '/');
 }
+
+// Deletes and moves from the model have to stay strictly inside the repo, so they can't touch the
+// repo itself or anything else on the machine.
+function pathInRepo(repoDir: string, filePath: string): string | null {
+  const resolved = path.join(repoDir, filePath);
+  const relative = path.relative(repoDir, resolved);
+  if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) {
+    return null;
+  }
+  return resolved;
+}
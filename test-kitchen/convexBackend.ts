@@ -7,6 +7,14 @@ import portfinder from 'portfinder';
 import { ChildProcess, spawn } from 'child_process';
 import type { ConvexProject } from 'chef-agent/types.js';
 import { cleanConvexOutput } from 'chef-agent/utils/shell.js';
+import { runConvexFunction } from 'chef-agent/convexFunctions.js';
+import { inspectData, type InspectDataAction } from 'chef-agent/convexData.js';
+import {
+  fetchFunctionLogs,
+  filterFunctionLogs,
+  formatFunctionLogs,
+  type LogLevelFilter,
+} from 'chef-agent/convexLogs.js';
 import { execFile } from './utils.js';
 import { logger } from 'chef-agent/utils/logger.js';
 import { wrapTraced } from 'braintrust';
@@ -100,6 +108,37 @@ export const npmInstall = wrapTraced(async function npmInstall(repoDir: string,
   return cleanConvexOutput(stdout + stderr);
 });
 
+export const runFunction = wrapTraced(async function runFunction(
+  backend: ConvexBackend,
+  functionName: string,
+  args: string | null,
+) {
+  return await runConvexFunction(backend.project, functionName, args);
+});
+
+export const readLogs = wrapTraced(async function readLogs(
+  backend: ConvexBackend,
+  args: { functionName: string | null; level: LogLevelFilter | null; limit: number | null },
+) {
+  // The backend holds the request open until there's a new execution if it has no buffered logs.
+  let entries: Awaited<ReturnType<typeof fetchFunctionLogs>>['entries'] = [];
+  try {
+    ({ entries } = await fetchFunctionLogs(backend.project, 0, AbortSignal.timeout(2000)));
+  } catch (e: any) {
+    if (e.name !== 'TimeoutError') {
+      throw e;
+    }
+  }
+  return formatFunctionLogs(filterFunctionLogs(entries, args), args.limit ?? undefined);
+});
+
+export const inspectDeploymentData = wrapTraced(async function inspectDeploymentData(
+  backend: ConvexBackend,
+  args: { action: InspectDataAction; table: string | null; cursor: string | null; limit: number | null },
+) {
+  return await inspectData(backend.project, args);
+});
+
 const downloadConvexBinary = wrapTraced(async function downloadConvexBinary() {
   const latest = await convexRelease;
   const version = latest['tag_name'];
@@ -66,6 +66,10 @@ export default defineConfig((config) => {
         transformMixedEsModules: true,
       },
     },
+    // The TypeScript language service worker is a module worker.
+    worker: {
+      format: 'es',
+    },
     optimizeDeps: {
       include: [
         'jose', // discovered late during dev so causes a reload when optimizing